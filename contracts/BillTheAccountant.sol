@@ -2,13 +2,42 @@
 pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/utils/Nonces.sol";
 
 /**
  * @title BillTheAccountant
  * @dev A decentralized debt ledger that nets balances between peers and
  *      maintains a historical record of all transactions using events.
+ *      Proposals, confirmations and rejections can also be authorized with
+ *      EIP-712 signatures so a relayer can submit them without holding user keys.
+ *      Groups can replace their debts with an equivalent minimal set of transfers
+ *      once every participant approves the plan.
  */
-contract BillTheAccountant {
+contract BillTheAccountant is EIP712, Nonces {
+
+    bytes32 private constant PROPOSE_DEBT_TYPEHASH = keccak256(
+        "ProposeDebt(address creditor,address token,address debtor,uint256 amount,string memo,uint256 nonce,uint256 deadline)"
+    );
+    bytes32 private constant CONFIRM_DEBT_TYPEHASH = keccak256(
+        "ConfirmDebt(uint256 pendingDebtId,address debtor,uint256 nonce,uint256 deadline)"
+    );
+    bytes32 private constant REJECT_DEBT_TYPEHASH = keccak256(
+        "RejectDebt(uint256 pendingDebtId,address signer,uint256 nonce,uint256 deadline)"
+    );
+    bytes32 private constant SETTLE_DEBT_TYPEHASH = keccak256(
+        "SettleDebt(address debtor,address token,address creditor,uint256 amount,uint256 nonce,uint256 deadline)"
+    );
+    bytes32 private constant APPROVE_SIMPLIFICATION_TYPEHASH = keccak256(
+        "ApproveSimplification(uint256 simplificationId,address participant,uint256 nonce,uint256 deadline)"
+    );
+    bytes32 private constant REJECT_SIMPLIFICATION_TYPEHASH = keccak256(
+        "RejectSimplification(uint256 simplificationId,address participant,uint256 nonce,uint256 deadline)"
+    );
+
+    // Debts recorded under this token address are in native ETH
+    address public constant NATIVE_TOKEN = address(0);
 
     // Core data structure: tokenAddress => debtor => creditor => amount
     mapping(address => mapping(address => mapping(address => uint256))) public debts;
@@ -31,6 +60,21 @@ contract BillTheAccountant {
     mapping(uint256 => PendingDebt) public pendingDebts;
     uint256 public pendingDebtCounter;
 
+    // Replacement debt edges for a group: debtors[i] owes creditors[i] amounts[i]
+    struct PendingSimplification {
+        address token;
+        address[] participants;
+        address[] debtors;
+        address[] creditors;
+        uint256[] amounts;
+        uint256 approvalCount;
+        bool exists;
+    }
+
+    mapping(uint256 => PendingSimplification) private pendingSimplifications;
+    mapping(uint256 => mapping(address => bool)) public simplificationApprovals;
+    uint256 public simplificationCounter;
+
     event DebtAdded(
         uint256 indexed actionId,
         address indexed debtor,
@@ -57,6 +101,13 @@ contract BillTheAccountant {
         string memo
     );
 
+    // Emitted after the DebtProposed events of a proposeExpense call
+    event ExpenseProposed(
+        address indexed creditor,
+        address indexed token,
+        uint256[] pendingDebtIds
+    );
+
     event DebtConfirmed(
         uint256 indexed pendingDebtId
     );
@@ -65,22 +116,150 @@ contract BillTheAccountant {
         uint256 indexed pendingDebtId
     );
 
+    event SimplificationProposed(
+        uint256 simplificationId,
+        address indexed proposer,
+        address indexed token,
+        address[] participants,
+        address[] debtors,
+        address[] creditors,
+        uint256[] amounts
+    );
+
+    event SimplificationApproved(
+        uint256 indexed simplificationId,
+        address indexed participant
+    );
+
+    event SimplificationRejected(
+        uint256 indexed simplificationId,
+        address indexed participant
+    );
+
+    event DebtsSimplified(
+        uint256 indexed simplificationId,
+        address indexed token,
+        address[] participants,
+        address[] debtors,
+        address[] creditors,
+        uint256[] amounts
+    );
+
     event UserRegistered(
         string indexed discordId,
         address indexed walletAddress
     );
 
+    constructor() EIP712("BillTheAccountant", "1") {}
+
     function proposeDebt(address token, address debtor, uint256 amount, string memory memo) public {
-        require(debtor != msg.sender, "Debtor and creditor cannot be the same");
-        pendingDebtCounter++;
-        pendingDebts[pendingDebtCounter] = PendingDebt(msg.sender, debtor, token, amount, memo, true);
-        emit DebtProposed(pendingDebtCounter, msg.sender, debtor, token, amount, memo);
+        _proposeDebt(msg.sender, token, debtor, amount, memo);
+    }
+
+    /**
+     * @dev Proposes a debt from each of `debtors` to the caller in one transaction,
+     *      e.g. everyone's share of a bill the caller paid.
+     * @return pendingDebtIds The new pending debt IDs, in the order of `debtors`
+     */
+    function proposeExpense(
+        address token,
+        address[] memory debtors,
+        uint256[] memory amounts,
+        string[] memory memos
+    ) public returns (uint256[] memory pendingDebtIds) {
+        require(debtors.length > 0, "At least one debtor is required");
+        require(debtors.length == amounts.length && debtors.length == memos.length, "Debtor arrays must have the same length");
+
+        pendingDebtIds = new uint256[](debtors.length);
+        for (uint256 i = 0; i < debtors.length; i++) {
+            _proposeDebt(msg.sender, token, debtors[i], amounts[i], memos[i]);
+            pendingDebtIds[i] = pendingDebtCounter;
+        }
+        emit ExpenseProposed(msg.sender, token, pendingDebtIds);
     }
 
     function confirmDebt(uint256 pendingDebtId) public {
+        _confirmDebt(pendingDebtId, msg.sender);
+    }
+
+    function rejectDebt(uint256 pendingDebtId) public {
+        _rejectDebt(pendingDebtId, msg.sender);
+    }
+
+    /**
+     * @dev Proposes a debt on behalf of `creditor`, authorized by their EIP-712 signature.
+     */
+    function proposeDebtWithSig(
+        address creditor,
+        address token,
+        address debtor,
+        uint256 amount,
+        string memory memo,
+        uint256 deadline,
+        bytes memory signature
+    ) public {
+        require(block.timestamp <= deadline, "Signature expired");
+        bytes32 structHash = keccak256(abi.encode(
+            PROPOSE_DEBT_TYPEHASH,
+            creditor,
+            token,
+            debtor,
+            amount,
+            keccak256(bytes(memo)),
+            _useNonce(creditor),
+            deadline
+        ));
+        require(ECDSA.recover(_hashTypedDataV4(structHash), signature) == creditor, "Invalid signature");
+
+        _proposeDebt(creditor, token, debtor, amount, memo);
+    }
+
+    /**
+     * @dev Confirms a pending debt on behalf of its debtor, authorized by their EIP-712 signature.
+     */
+    function confirmDebtWithSig(uint256 pendingDebtId, uint256 deadline, bytes memory signature) public {
+        require(block.timestamp <= deadline, "Signature expired");
+        address debtor = pendingDebts[pendingDebtId].debtor;
+        bytes32 structHash = keccak256(abi.encode(
+            CONFIRM_DEBT_TYPEHASH,
+            pendingDebtId,
+            debtor,
+            _useNonce(debtor),
+            deadline
+        ));
+        require(ECDSA.recover(_hashTypedDataV4(structHash), signature) == debtor, "Invalid signature");
+
+        _confirmDebt(pendingDebtId, debtor);
+    }
+
+    /**
+     * @dev Rejects a pending debt on behalf of its debtor or creditor, authorized by their EIP-712 signature.
+     */
+    function rejectDebtWithSig(uint256 pendingDebtId, address signer, uint256 deadline, bytes memory signature) public {
+        require(block.timestamp <= deadline, "Signature expired");
+        bytes32 structHash = keccak256(abi.encode(
+            REJECT_DEBT_TYPEHASH,
+            pendingDebtId,
+            signer,
+            _useNonce(signer),
+            deadline
+        ));
+        require(ECDSA.recover(_hashTypedDataV4(structHash), signature) == signer, "Invalid signature");
+
+        _rejectDebt(pendingDebtId, signer);
+    }
+
+    function _proposeDebt(address creditor, address token, address debtor, uint256 amount, string memory memo) internal {
+        require(debtor != creditor, "Debtor and creditor cannot be the same");
+        pendingDebtCounter++;
+        pendingDebts[pendingDebtCounter] = PendingDebt(creditor, debtor, token, amount, memo, true);
+        emit DebtProposed(pendingDebtCounter, creditor, debtor, token, amount, memo);
+    }
+
+    function _confirmDebt(uint256 pendingDebtId, address caller) internal {
         PendingDebt storage pending = pendingDebts[pendingDebtId];
         require(pending.exists, "Pending debt does not exist");
-        require(msg.sender == pending.debtor, "Only the debtor can confirm the debt");
+        require(caller == pending.debtor, "Only the debtor can confirm the debt");
 
         addDebt(pending.token, pending.debtor, pending.creditor, pending.amount, pending.memo);
 
@@ -88,10 +267,10 @@ contract BillTheAccountant {
         emit DebtConfirmed(pendingDebtId);
     }
 
-    function rejectDebt(uint256 pendingDebtId) public {
+    function _rejectDebt(uint256 pendingDebtId, address caller) internal {
         PendingDebt storage pending = pendingDebts[pendingDebtId];
         require(pending.exists, "Pending debt does not exist");
-        require(msg.sender == pending.debtor || msg.sender == pending.creditor, "Only debtor or creditor can reject");
+        require(caller == pending.debtor || caller == pending.creditor, "Only debtor or creditor can reject");
 
         delete pendingDebts[pendingDebtId];
         emit DebtRejected(pendingDebtId);
@@ -124,15 +303,263 @@ contract BillTheAccountant {
         );
     }
 
-    function settleDebt(address token, address creditor) public {
-        uint256 amountOwed = debts[token][msg.sender][creditor];
+    /**
+     * @dev Pays `amount` of what the caller owes `creditor` in `token`, which may be less
+     *      than the full debt. ERC20 debts are paid with transferFrom, so the caller must
+     *      have approved this contract. Native ETH debts are paid with the value sent,
+     *      and anything sent beyond `amount` is refunded.
+     */
+    function settleDebt(address token, address creditor, uint256 amount) public payable {
+        if (token == NATIVE_TOKEN) {
+            require(msg.value >= amount, "Sent value is less than the settlement amount");
+        } else {
+            require(msg.value == 0, "ETH sent with a token settlement");
+        }
+
+        _settleDebt(msg.sender, token, creditor, amount);
+
+        if (msg.value > amount) {
+            _sendETH(msg.sender, msg.value - amount);
+        }
+    }
+
+    /**
+     * @dev Settles a debt on behalf of `debtor`, authorized by their EIP-712 signature.
+     *      The tokens still come from the debtor, so they must have approved this contract.
+     *      Native ETH can't be pulled from the debtor, so those debts must use settleDebt.
+     */
+    function settleDebtWithSig(
+        address debtor,
+        address token,
+        address creditor,
+        uint256 amount,
+        uint256 deadline,
+        bytes memory signature
+    ) public {
+        require(token != NATIVE_TOKEN, "Native ETH must be settled by the debtor");
+        require(block.timestamp <= deadline, "Signature expired");
+        bytes32 structHash = keccak256(abi.encode(
+            SETTLE_DEBT_TYPEHASH,
+            debtor,
+            token,
+            creditor,
+            amount,
+            _useNonce(debtor),
+            deadline
+        ));
+        require(ECDSA.recover(_hashTypedDataV4(structHash), signature) == debtor, "Invalid signature");
+
+        _settleDebt(debtor, token, creditor, amount);
+    }
+
+    function _settleDebt(address debtor, address token, address creditor, uint256 amount) internal {
+        uint256 amountOwed = debts[token][debtor][creditor];
         require(amountOwed > 0, "No debt to settle");
+        require(amount > 0, "Settlement amount must be positive");
+        require(amount <= amountOwed, "Settlement exceeds amount owed");
+
+        debts[token][debtor][creditor] = amountOwed - amount;
+
+        if (token == NATIVE_TOKEN) {
+            _sendETH(creditor, amount);
+        } else {
+            IERC20(token).transferFrom(debtor, creditor, amount);
+        }
+
+        emit DebtSettled(debtor, creditor, token, amount);
+    }
+
+    function _sendETH(address to, uint256 amount) internal {
+        (bool sent, ) = payable(to).call{value: amount}("");
+        require(sent, "ETH transfer failed");
+    }
+
+    /**
+     * @dev Proposes replacing every debt among `participants` in `token` with the given
+     *      transfers. The plan must leave each participant's net position unchanged and
+     *      is applied once every participant has approved it.
+     */
+    function proposeSimplification(
+        address token,
+        address[] memory participants,
+        address[] memory debtors,
+        address[] memory creditors,
+        uint256[] memory amounts
+    ) public returns (uint256) {
+        require(participants.length >= 2, "At least two participants are required");
+        require(debtors.length == creditors.length && debtors.length == amounts.length, "Transfer arrays must have the same length");
+
+        for (uint256 i = 0; i < participants.length; i++) {
+            for (uint256 j = i + 1; j < participants.length; j++) {
+                require(participants[i] != participants[j], "Duplicate participant");
+            }
+        }
+        for (uint256 i = 0; i < debtors.length; i++) {
+            require(debtors[i] != creditors[i], "Debtor and creditor cannot be the same");
+            require(amounts[i] > 0, "Debt amount must be positive");
+            require(_isParticipant(participants, debtors[i]) && _isParticipant(participants, creditors[i]), "Transfer involves a non-participant");
+            for (uint256 j = i + 1; j < debtors.length; j++) {
+                bool samePair = (debtors[i] == debtors[j] && creditors[i] == creditors[j])
+                    || (debtors[i] == creditors[j] && creditors[i] == debtors[j]);
+                require(!samePair, "Duplicate transfer between a pair");
+            }
+        }
+        require(_preservesNetPositions(token, participants, debtors, creditors, amounts), "Plan does not preserve net balances");
+
+        simplificationCounter++;
+        PendingSimplification storage pending = pendingSimplifications[simplificationCounter];
+        pending.token = token;
+        pending.participants = participants;
+        pending.debtors = debtors;
+        pending.creditors = creditors;
+        pending.amounts = amounts;
+        pending.exists = true;
+
+        emit SimplificationProposed(simplificationCounter, msg.sender, token, participants, debtors, creditors, amounts);
+        return simplificationCounter;
+    }
+
+    function getSimplification(uint256 simplificationId) public view returns (
+        address token,
+        address[] memory participants,
+        address[] memory debtors,
+        address[] memory creditors,
+        uint256[] memory amounts,
+        uint256 approvalCount,
+        bool exists
+    ) {
+        PendingSimplification storage pending = pendingSimplifications[simplificationId];
+        return (pending.token, pending.participants, pending.debtors, pending.creditors, pending.amounts, pending.approvalCount, pending.exists);
+    }
+
+    function approveSimplification(uint256 simplificationId) public {
+        _approveSimplification(simplificationId, msg.sender);
+    }
 
-        debts[token][msg.sender][creditor] = 0;
+    function rejectSimplification(uint256 simplificationId) public {
+        _rejectSimplification(simplificationId, msg.sender);
+    }
+
+    /**
+     * @dev Approves a simplification on behalf of a participant, authorized by their EIP-712 signature.
+     */
+    function approveSimplificationWithSig(uint256 simplificationId, address participant, uint256 deadline, bytes memory signature) public {
+        require(block.timestamp <= deadline, "Signature expired");
+        bytes32 structHash = keccak256(abi.encode(
+            APPROVE_SIMPLIFICATION_TYPEHASH,
+            simplificationId,
+            participant,
+            _useNonce(participant),
+            deadline
+        ));
+        require(ECDSA.recover(_hashTypedDataV4(structHash), signature) == participant, "Invalid signature");
 
-        IERC20(token).transferFrom(msg.sender, creditor, amountOwed);
+        _approveSimplification(simplificationId, participant);
+    }
 
-        emit DebtSettled(msg.sender, creditor, token, amountOwed);
+    /**
+     * @dev Rejects a simplification on behalf of a participant, authorized by their EIP-712 signature.
+     */
+    function rejectSimplificationWithSig(uint256 simplificationId, address participant, uint256 deadline, bytes memory signature) public {
+        require(block.timestamp <= deadline, "Signature expired");
+        bytes32 structHash = keccak256(abi.encode(
+            REJECT_SIMPLIFICATION_TYPEHASH,
+            simplificationId,
+            participant,
+            _useNonce(participant),
+            deadline
+        ));
+        require(ECDSA.recover(_hashTypedDataV4(structHash), signature) == participant, "Invalid signature");
+
+        _rejectSimplification(simplificationId, participant);
+    }
+
+    function _approveSimplification(uint256 simplificationId, address participant) internal {
+        PendingSimplification storage pending = pendingSimplifications[simplificationId];
+        require(pending.exists, "Simplification does not exist");
+        require(_isParticipant(pending.participants, participant), "Only participants can approve");
+        require(!simplificationApprovals[simplificationId][participant], "Already approved");
+
+        simplificationApprovals[simplificationId][participant] = true;
+        pending.approvalCount++;
+        emit SimplificationApproved(simplificationId, participant);
+
+        if (pending.approvalCount == pending.participants.length) {
+            _applySimplification(simplificationId);
+        }
+    }
+
+    function _rejectSimplification(uint256 simplificationId, address participant) internal {
+        PendingSimplification storage pending = pendingSimplifications[simplificationId];
+        require(pending.exists, "Simplification does not exist");
+        require(_isParticipant(pending.participants, participant), "Only participants can reject");
+
+        delete pendingSimplifications[simplificationId];
+        emit SimplificationRejected(simplificationId, participant);
+    }
+
+    // Rewrites every debt edge among the participants with the approved transfers
+    function _applySimplification(uint256 simplificationId) internal {
+        PendingSimplification memory plan = pendingSimplifications[simplificationId];
+        require(
+            _preservesNetPositions(plan.token, plan.participants, plan.debtors, plan.creditors, plan.amounts),
+            "Balances changed since the plan was proposed"
+        );
+
+        for (uint256 i = 0; i < plan.participants.length; i++) {
+            for (uint256 j = 0; j < plan.participants.length; j++) {
+                if (i != j) {
+                    debts[plan.token][plan.participants[i]][plan.participants[j]] = 0;
+                }
+            }
+        }
+        for (uint256 i = 0; i < plan.debtors.length; i++) {
+            debts[plan.token][plan.debtors[i]][plan.creditors[i]] = plan.amounts[i];
+        }
+
+        delete pendingSimplifications[simplificationId];
+        emit DebtsSimplified(simplificationId, plan.token, plan.participants, plan.debtors, plan.creditors, plan.amounts);
+    }
+
+    function _isParticipant(address[] memory participants, address account) internal pure returns (bool) {
+        for (uint256 i = 0; i < participants.length; i++) {
+            if (participants[i] == account) return true;
+        }
+        return false;
+    }
+
+    function _indexOf(address[] memory participants, address account) internal pure returns (uint256) {
+        for (uint256 i = 0; i < participants.length; i++) {
+            if (participants[i] == account) return i;
+        }
+        revert("Transfer involves a non-participant");
+    }
+
+    // True if the transfers leave every participant with the same net position as the current debts among them
+    function _preservesNetPositions(
+        address token,
+        address[] memory participants,
+        address[] memory debtors,
+        address[] memory creditors,
+        uint256[] memory amounts
+    ) internal view returns (bool) {
+        int256[] memory difference = new int256[](participants.length);
+        for (uint256 i = 0; i < participants.length; i++) {
+            for (uint256 j = 0; j < participants.length; j++) {
+                if (i == j) continue;
+                int256 owed = int256(debts[token][participants[i]][participants[j]]);
+                difference[i] -= owed;
+                difference[j] += owed;
+            }
+        }
+        for (uint256 k = 0; k < debtors.length; k++) {
+            difference[_indexOf(participants, debtors[k])] += int256(amounts[k]);
+            difference[_indexOf(participants, creditors[k])] -= int256(amounts[k]);
+        }
+        for (uint256 i = 0; i < participants.length; i++) {
+            if (difference[i] != 0) return false;
+        }
+        return true;
     }
 
     function registerUser(string memory discordId, address walletAddress) public {
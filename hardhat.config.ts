@@ -2,7 +2,11 @@ import { HardhatUserConfig } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
 
 const config: HardhatUserConfig = {
-  solidity: "0.8.20",
+  solidity: {
+    version: "0.8.20",
+    // Keeps BillTheAccountant under the 24KB contract size limit
+    settings: { optimizer: { enabled: true, runs: 200 } }
+  },
   paths: {
     sources: "./contracts",
     tests: "./test",
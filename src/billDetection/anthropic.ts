@@ -0,0 +1,60 @@
+import { ExpenseExtractor, ExtractionInput, extractWithModel, ModelPrompt } from './extractor';
+import { BillAnalysisResult } from './types';
+
+export const DEFAULT_ANTHROPIC_MODEL = 'claude-sonnet-4-5';
+const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1/messages';
+const ANTHROPIC_VERSION = '2023-06-01';
+
+// Receipt photos go before the text, as the API recommends
+function buildUserContent(prompt: ModelPrompt): string | object[] {
+    if (prompt.images.length === 0) return prompt.user;
+    return [
+        ...prompt.images.map(image => ({ type: 'image', source: { type: 'base64', media_type: image.mimeType, data: image.data } })),
+        { type: 'text', text: prompt.user }
+    ];
+}
+
+/**
+ * Extracts expenses with Anthropic's Messages API
+ */
+export class AnthropicExtractor implements ExpenseExtractor {
+    readonly name = 'anthropic';
+    readonly description: string;
+    readonly acceptsImages = true;
+
+    constructor(
+        private readonly apiKey: string,
+        private readonly model: string = DEFAULT_ANTHROPIC_MODEL,
+        private readonly fetchFn: typeof fetch = fetch
+    ) {
+        this.description = `Anthropic (${model})`;
+    }
+
+    async extract(input: ExtractionInput): Promise<BillAnalysisResult | null> {
+        return extractWithModel('Anthropic', prompt => this.complete(prompt), input);
+    }
+
+    private async complete(prompt: ModelPrompt): Promise<string> {
+        const response = await this.fetchFn(ANTHROPIC_API_URL, {
+            method: 'POST',
+            headers: {
+                'content-type': 'application/json',
+                'x-api-key': this.apiKey,
+                'anthropic-version': ANTHROPIC_VERSION
+            },
+            body: JSON.stringify({
+                model: this.model,
+                max_tokens: 4096,
+                system: prompt.system,
+                // Prefilling the reply with "{" keeps the answer to bare JSON
+                messages: [{ role: 'user', content: buildUserContent(prompt) }, { role: 'assistant', content: '{' }]
+            })
+        });
+        if (!response.ok) {
+            throw new Error(`Anthropic API returned ${response.status}: ${await response.text()}`);
+        }
+        const body: any = await response.json();
+        const text = (body.content ?? []).filter((block: any) => block.type === 'text').map((block: any) => block.text).join('');
+        return `{${text}`;
+    }
+}
@@ -0,0 +1,105 @@
+import { ButtonInteraction, StringSelectMenuInteraction } from 'discord.js';
+import { safeInteractionReply } from '../discord/safe';
+import { BotServices } from '../services';
+import { extractGuestIdFromMention } from '../services/identities';
+import { buildBillAnalysisPreview } from './detection';
+import { BillAnalysisResult, ParsedExpense } from './types';
+
+// Proposals are signed with the payer's key, so each expense needs its payer's approval
+// before it goes on-chain, and any other participant can hold it back by objecting.
+
+/**
+ * Why an expense can't be proposed yet
+ * @returns null once its payer approved and nobody objects
+ */
+export function holdBackReason(expense: ParsedExpense): string | null {
+    if (extractGuestIdFromMention(expense.payer)) {
+        return `paid by ${expense.payer}, a guest without a wallet to be paid back into. Edit the payer, or have them register first`;
+    }
+    if (expense.objections && expense.objections.length > 0) {
+        return `objected to by ${expense.objections.join(', ')}`;
+    }
+    if (!expense.approvedByPayer) {
+        return `waiting for ${expense.payer} to approve`;
+    }
+    return null;
+}
+
+/**
+ * Approves every expense the user is named as paying for
+ * @param user - Mention of the approving user
+ * @returns The updated analysis and how many expenses it approved
+ */
+export function approveOwnExpenses(analysis: BillAnalysisResult, user: string): { analysis: BillAnalysisResult; approved: number } {
+    let approved = 0;
+    const expenses = analysis.expenses.map(expense => {
+        if (expense.payer !== user) return expense;
+        approved++;
+        return expense.approvedByPayer ? expense : { ...expense, approvedByPayer: true };
+    });
+    return { analysis: { ...analysis, expenses }, approved };
+}
+
+/**
+ * Records a participant's objection to an expense, or withdraws it if they already objected
+ * @param user - Mention of the objecting user
+ * @returns The updated analysis and whether the user now objects, or why they can't
+ */
+export function toggleObjection(analysis: BillAnalysisResult, index: number, user: string): { analysis: BillAnalysisResult; objecting: boolean } | { error: string } {
+    const expense = analysis.expenses[index];
+    if (!expense) {
+        return { error: 'That expense no longer exists. It may have been removed.' };
+    }
+    if (expense.payer === user) {
+        return { error: `You paid for "${expense.description}". Edit it, or leave it unapproved, instead of objecting.` };
+    }
+    if (!expense.participants.includes(user)) {
+        return { error: `You're not a participant of "${expense.description}", so there is nothing for you to object to.` };
+    }
+
+    const objecting = !expense.objections?.includes(user);
+    const objections = objecting ? [...(expense.objections ?? []), user] : expense.objections!.filter(objector => objector !== user);
+    const { objections: _previous, ...rest } = expense;
+    const updated: ParsedExpense = objections.length > 0 ? { ...rest, objections } : rest;
+    return { analysis: { ...analysis, expenses: analysis.expenses.map((e, i) => i === index ? updated : e) }, objecting };
+}
+
+/**
+ * The payer's 👍 button: approves every expense on the preview they paid for
+ */
+export async function handleApproveExpenses(interaction: ButtonInteraction, services: BotServices): Promise<void> {
+    const pending = services.pendingAnalyses.get(interaction.message.id);
+    if (!pending) {
+        await safeInteractionReply(interaction, '❌ **Analysis expired or not found**\n\nPlease trigger bill analysis again.', { ephemeral: true });
+        return;
+    }
+
+    const { analysis, approved } = approveOwnExpenses(pending.analysis, `<@${interaction.user.id}>`);
+    if (approved === 0) {
+        await safeInteractionReply(interaction, "❌ **Nothing to approve**\n\nYou're not named as the payer of any expense in this analysis. Participants can object to an expense with the menu instead.", { ephemeral: true });
+        return;
+    }
+
+    await services.pendingAnalyses.replaceAnalysis(interaction.message.id, analysis);
+    await interaction.update(buildBillAnalysisPreview(analysis));
+}
+
+/**
+ * The objection menu: a participant objects to an expense, or withdraws their objection
+ */
+export async function handleObjectToExpense(interaction: StringSelectMenuInteraction, services: BotServices): Promise<void> {
+    const pending = services.pendingAnalyses.get(interaction.message.id);
+    if (!pending) {
+        await safeInteractionReply(interaction, '❌ **Analysis expired or not found**\n\nPlease trigger bill analysis again.', { ephemeral: true });
+        return;
+    }
+
+    const result = toggleObjection(pending.analysis, Number(interaction.values[0]), `<@${interaction.user.id}>`);
+    if ('error' in result) {
+        await safeInteractionReply(interaction, `❌ **Can't object**\n\n${result.error}`, { ephemeral: true });
+        return;
+    }
+
+    await services.pendingAnalyses.replaceAnalysis(interaction.message.id, result.analysis);
+    await interaction.update(buildBillAnalysisPreview(result.analysis));
+}
@@ -0,0 +1,106 @@
+import { ExpenseExtractor, ExtractionInput } from './extractor';
+import { BillAnalysisResult, ParsedExpense } from './types';
+
+// Most message text sent in one model call; longer chats are analyzed in parts
+export const MAX_CHUNK_CHARS = 12_000;
+
+/**
+ * Splits message lines into consecutive parts of at most `maxChars` characters.
+ * A single longer message gets a part of its own.
+ */
+export function chunkMessages(messages: string[], maxChars: number = MAX_CHUNK_CHARS): string[][] {
+    const chunks: string[][] = [];
+    let current: string[] = [];
+    let size = 0;
+    for (const message of messages) {
+        if (current.length > 0 && size + message.length + 1 > maxChars) {
+            chunks.push(current);
+            current = [];
+            size = 0;
+        }
+        current.push(message);
+        size += message.length + 1;
+    }
+    if (current.length > 0) chunks.push(current);
+    return chunks;
+}
+
+// The same payment mentioned in two parts of the chat
+function expenseKey(expense: ParsedExpense): string {
+    return [expense.payer, expense.amount, expense.currency.toUpperCase(), expense.description.trim().toLowerCase()].join('|');
+}
+
+/**
+ * Combines the analyses of consecutive parts of a chat. An expense found again in a
+ * later part is kept once, while identical expenses within one part are separate
+ * payments and are all kept. The totals are worked out again.
+ * @param analyses - One per part, null where a part couldn't be analyzed
+ * @returns null if no part could be analyzed
+ */
+export function mergeAnalyses(analyses: (BillAnalysisResult | null)[]): BillAnalysisResult | null {
+    if (analyses.length === 1) return analyses[0];
+    if (analyses.every(analysis => analysis === null)) return null;
+
+    const expenses: ParsedExpense[] = [];
+    // For each expense, the most times a single earlier part found it
+    const foundEarlier = new Map<string, number>();
+    const issues: string[] = [];
+    const summaries: string[] = [];
+    analyses.forEach((analysis, i) => {
+        const part = `Part ${i + 1} of ${analyses.length}`;
+        if (!analysis) {
+            issues.push(`${part} of the chat could not be analyzed`);
+            return;
+        }
+        issues.push(...(analysis.issues ?? []).map(issue => `${part}: ${issue}`));
+        if (analysis.expenses.length > 0 && analysis.summary) summaries.push(analysis.summary);
+        const foundHere = new Map<string, number>();
+        for (const expense of analysis.expenses) {
+            const key = expenseKey(expense);
+            const count = (foundHere.get(key) ?? 0) + 1;
+            foundHere.set(key, count);
+            if (count <= (foundEarlier.get(key) ?? 0)) {
+                issues.push(`${part}: "${expense.description}" (${expense.amount} ${expense.currency} paid by ${expense.payer}) was already found earlier in the chat, so it is listed once`);
+                continue;
+            }
+            expenses.push(expense);
+        }
+        for (const [key, count] of foundHere) {
+            foundEarlier.set(key, Math.max(count, foundEarlier.get(key) ?? 0));
+        }
+    });
+
+    // The most common currency, as a single analysis would report it
+    const counts = new Map<string, number>();
+    for (const expense of expenses) counts.set(expense.currency, (counts.get(expense.currency) ?? 0) + 1);
+    const currency = [...counts].sort((a, b) => b[1] - a[1])[0]?.[0] ?? 'USD';
+
+    return {
+        expenses,
+        totalAmount: expenses.filter(expense => expense.currency === currency).reduce((sum, expense) => sum + expense.amount, 0),
+        currency,
+        summary: `Analyzed in ${analyses.length} parts. ${summaries.join(' ') || 'No clear expenses found in the chat history.'}`,
+        participants: [...new Set(analyses.flatMap(analysis => analysis?.participants ?? []))],
+        ...(issues.length > 0 ? { issues } : {})
+    };
+}
+
+/**
+ * Runs the extractor over each part of a long chat in turn and merges the results.
+ * Each part gets the receipt photos posted in it.
+ */
+export async function extractInChunks(extractor: ExpenseExtractor, input: ExtractionInput, maxChars: number = MAX_CHUNK_CHARS): Promise<BillAnalysisResult | null> {
+    const chunks = chunkMessages(input.messages, maxChars);
+    if (chunks.length <= 1) {
+        return extractor.extract(input);
+    }
+
+    console.log(`[DEBUG] Analyzing ${input.messages.length} messages in ${chunks.length} parts`);
+    const analyses: (BillAnalysisResult | null)[] = [];
+    for (const messages of chunks) {
+        const text = messages.join('\n');
+        const images = input.images?.filter(image => text.includes(`[image #${image.number}]`));
+        analyses.push(await extractor.extract({ ...input, messages, images }));
+    }
+    return mergeAnalyses(analyses);
+}
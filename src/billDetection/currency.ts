@@ -0,0 +1,36 @@
+import { FxRate, FxService, normalizeCurrency } from '../services/fx';
+import { parseTokenIdentifier, TokenInfo } from '../tokenUtils';
+
+// Helper function to map currency to supported tokens
+export function getCurrencyTokenInfo(currency: string): TokenInfo {
+    switch (normalizeCurrency(currency)) {
+        case 'USD':
+            return parseTokenIdentifier('USDC');
+        case 'ETH':
+            return parseTokenIdentifier('ETH');
+        default:
+            // Other fiat currencies are converted and recorded in USDC
+            return parseTokenIdentifier('USDC');
+    }
+}
+
+// Currency a token's amounts are denominated in, for exchange rate lookups
+function getTokenQuoteCurrency(tokenInfo: TokenInfo): string {
+    return tokenInfo.symbol === 'ETH' ? 'ETH' : 'USD';
+}
+
+export interface ConvertedExpenseAmount {
+    tokenInfo: TokenInfo;
+    amount: number; // In units of the token, e.g. 43.32 for 43.32 USDC
+    rate: FxRate;
+}
+
+/**
+ * Converts an amount in the currency the bill was paid in to the token the debt will be recorded in
+ * @throws Error if no exchange rate is available for the currency
+ */
+export async function convertToTokenAmount(fx: FxService, amount: number, currency: string): Promise<ConvertedExpenseAmount> {
+    const tokenInfo = getCurrencyTokenInfo(currency);
+    const converted = await fx.convert(amount, currency, getTokenQuoteCurrency(tokenInfo));
+    return { tokenInfo, amount: converted.amount, rate: converted.rate };
+}
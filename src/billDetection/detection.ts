@@ -0,0 +1,633 @@
+import { ActionRowBuilder, ButtonBuilder, ButtonStyle, Message, StringSelectMenuBuilder, StringSelectMenuOptionBuilder, TextChannel, User } from 'discord.js';
+import { safeEditMessage, safeInteractionReply, safeReact, safeRemoveReactions, safeSendMessage } from '../discord/safe';
+import { BotServices } from '../services';
+import { extractGuestIdFromMention, guestMention } from '../services/identities';
+import { buildDebtResponseRow } from '../services/notifier';
+import { describeRate, normalizeCurrency } from '../services/fx';
+import { formatTokenAmount, parseTokenAmount, splitTokenAmount } from '../tokenUtils';
+import { convertToTokenAmount, ConvertedExpenseAmount } from './currency';
+import { buildAliasTable, ChatMember, findNamedPeople, formatUserMapping, LOW_CONFIDENCE, nameGuests, renderGuestMentions } from './identity';
+import { approveOwnExpenses, holdBackReason } from './approvals';
+import { prepareReceiptImages } from './receipts';
+import { extractInChunks } from './chunking';
+import { expenseFingerprint, findRecordedProposals, findSourceMessageIds, fingerprintMemoTag } from './fingerprints';
+import { MAX_SCRAPED_MESSAGES, scrapeMessages } from './scraper';
+import { resolveExpenseSplit } from './splits';
+import { AnalyzedRange, BillAnalysisResult, ParsedExpense, RecordedProposals } from './types';
+import { extractUserIdFromMention, findUserByTag, formatUserDisplay, toChatMember } from './users';
+import { parseAnalysisWindow } from './window';
+
+const BILL_KEYWORDS = ['bill', 'split', 'settle', 'clear', 'expense', 'debt', 'money', 'pay', 'owe'];
+
+// Check if bot is mentioned with bill-splitting keywords
+export function isBillDetectionRequest(message: Message): boolean {
+    const botMentioned = message.mentions.has(message.client.user?.id || '');
+    const hasBillKeywords = BILL_KEYWORDS.some(keyword => 
+        message.content.toLowerCase().includes(keyword)
+    );
+    return botMentioned && hasBillKeywords && !!message.guild;
+}
+
+// Value of the "add" option in the edit menu; other options are expense indexes
+export const NEW_EXPENSE_VALUE = 'new';
+const MAX_EDITABLE_EXPENSES = 24;
+
+// Function to handle automated bill detection
+export async function handleAutomatedBillDetection(message: Message, services: BotServices) {
+    if (!message.guild || !message.channel.isTextBased()) return;
+    
+    try {
+        await safeReact(message, '🤔'); // Thinking reaction
+        
+        // The requester and the users they mentioned (excluding bots) are always candidates
+        const candidates: ChatMember[] = message.mentions.users
+            .filter(user => !user.bot && user.id !== message.client.user?.id)
+            .map(user => ({ id: user.id, username: user.username, globalName: user.globalName, nickname: message.mentions.members?.get(user.id)?.nickname }));
+        if (!candidates.some(candidate => candidate.id === message.author.id)) {
+            candidates.push({ id: message.author.id, username: message.author.username, globalName: message.author.globalName, nickname: message.member?.nickname });
+        }
+        
+        // Work out which messages were asked for: a duration, "since yesterday", a reply or message links
+        const parsedWindow = parseAnalysisWindow(message.content, message.channel.id, message.reference?.messageId);
+        if ('error' in parsedWindow) {
+            await safeSendMessage(message, `❌ **Can't analyze that range**\n\n${parsedWindow.error}`);
+            await safeRemoveReactions(message);
+            return;
+        }
+        const { window } = parsedWindow;
+        
+        // Send initial response
+        const initialResponse = await message.reply(`🔍 **Analyzing chat history for bill-splitting...**\n\nI'm looking through ${window.description} to identify expenses and who paid for what.\n\n*This may take a moment...*`);
+        
+        // Scrape the window, including threads started in it
+        const { messages, messageIds, authors, images, range } = await scrapeMessages(message.channel as TextChannel, window);
+        
+        if (messages.length === 0 || !range) {
+            await safeEditMessage(initialResponse, `❌ **No messages found**\n\nI couldn't find any messages in ${window.description} to analyze. Try using manual \`>add-debt\` commands instead.`);
+            await safeRemoveReactions(message);
+            return;
+        }
+        
+        // Everyone who wrote in the window is a candidate too. Names in the chat are matched
+        // against the candidates' usernames, display names and nicknames and the guild's
+        // guests and aliases
+        for (const author of authors) {
+            if (!candidates.some(candidate => candidate.id === author.id)) candidates.push(author);
+        }
+        const aliases = services.identities.aliases(message.guild.id);
+        const guests = services.identities.guests(message.guild.id).filter(guest => !guest.claimedBy);
+        const named = findNamedPeople(messages, buildAliasTable(candidates, aliases, guests));
+        // An alias can name someone who didn't write in the window
+        for (const { mention } of named) {
+            const id = extractUserIdFromMention(mention);
+            if (!id || candidates.some(candidate => candidate.id === id)) continue;
+            const member = message.guild.members.cache.get(id) ?? await message.guild.members.fetch(id).catch(() => null);
+            if (member) candidates.push(toChatMember(member));
+        }
+        
+        // Guests only take part when the chat names them
+        const namedGuests = guests.filter(guest => named.some(match => match.mention === guestMention(guest.id)));
+        const userMappingText = formatUserMapping(candidates, aliases, named, namedGuests);
+        const mentionedUsers = [...candidates.map(candidate => `<@${candidate.id}>`), ...namedGuests.map(guest => guestMention(guest.id))];
+        const uncertainIdentities = named
+            .filter(match => match.confidence < LOW_CONFIDENCE && mentionedUsers.includes(match.mention))
+            .map(({ name, mention, confidence }) => ({ name, mention, confidence }));
+        
+        console.log(`[DEBUG] Bill detection triggered by ${message.author.tag}`);
+        console.log(`[DEBUG] Names matched in chat: ${named.map(match => `${match.name} -> ${match.mention} (${match.confidence})`).join(', ')}`);
+        console.log(`[DEBUG] User mapping:\n${userMappingText}`);
+        
+        // Analyze with the extractor this server chose
+        await safeReact(message, '🧠'); // AI thinking
+        const extractor = services.extractors.forGuild(message.guild.id);
+        console.log(`[DEBUG] Extracting expenses with ${extractor.name}`);
+        // Receipt photos go to the model as images when it reads them, otherwise through OCR
+        const receipts = await prepareReceiptImages(images, extractor.acceptsImages, services.ocr);
+        // Long stretches of chat are analyzed in parts and merged
+        const extracted = await extractInChunks(extractor, { messages, mentionedUsers, userMappingText, images: receipts.images });
+        const analysis = extracted && nameGuests({
+            ...extracted,
+            ...(receipts.problems.length > 0 ? { issues: [...receipts.problems, ...(extracted.issues ?? [])] } : {}),
+            // Tie each expense to the messages it came from, then flag any an earlier analysis already proposed
+            expenses: await markRecordedExpenses(extracted.expenses.map(expense => ({
+                ...expense,
+                sourceMessageIds: findSourceMessageIds(expense, messages, messageIds)
+            })), services),
+            analyzedRange: range,
+            ...(uncertainIdentities.length > 0 ? { uncertainIdentities } : {})
+        }, namedGuests);
+        
+        if (!analysis || analysis.expenses.length === 0) {
+            await safeEditMessage(initialResponse, `📊 **Bill Analysis Complete**\n\n${analysis?.summary || 'No clear expenses found in the chat history.'}\n\n${formatAnalyzedRange(range)}${analysis ? formatValidationIssues(analysis) : ''}💡 **Tip:** For better detection, mention specific amounts and who paid (e.g., "John paid $50 for dinner for all of us")`);
+            await safeRemoveReactions(message);
+            return;
+        }
+        
+        // Present findings for confirmation
+        await presentBillAnalysisForConfirmation(message, analysis, initialResponse, services);
+        await safeRemoveReactions(message);
+        await safeReact(message, '✅'); // Success
+        
+    } catch (error) {
+        console.error('Error in automated bill detection:', error);
+        await safeSendMessage(message, `❌ **Error during bill analysis**\n\n${error instanceof Error ? error.message : 'Unknown error occurred'}\n\nPlease try again or use manual \`>add-debt\` commands.`);
+        await safeRemoveReactions(message);
+    }
+}
+
+// Function to present analysis results and get user confirmation
+async function presentBillAnalysisForConfirmation(originalMessage: Message, detected: BillAnalysisResult, responseMessage: Message, services: BotServices) {
+    // The requester approves the expenses they paid for by asking; other payers approve on the preview
+    const { analysis } = approveOwnExpenses(detected, `<@${originalMessage.author.id}>`);
+    await safeEditMessage(responseMessage, undefined, buildBillAnalysisPreview(analysis));
+    
+    // Keep the analysis until it is confirmed, cancelled or expires; the sweeper marks the preview once it expires
+    await services.pendingAnalyses.add(responseMessage.id, originalMessage.channel.id, originalMessage.author.id, analysis);
+}
+
+/**
+ * Marks the previews of expired analyses as expired and disables their controls
+ * @param fetchPreview - Looks up a preview message; resolves to null if it was deleted
+ * @returns How many analyses expired
+ */
+export async function expirePendingBillAnalyses(services: BotServices, fetchPreview: (channelId: string, messageId: string) => Promise<Message | null>): Promise<number> {
+    const expired = await services.pendingAnalyses.takeExpired();
+    for (const entry of expired) {
+        try {
+            const preview = await fetchPreview(entry.channelId, entry.messageId);
+            if (!preview) continue;
+            const { content, components } = buildBillAnalysisPreview(entry.analysis, { expired: true });
+            await safeEditMessage(preview, undefined, { content, components });
+        } catch (error) {
+            console.error(`[ERROR] Failed to mark bill analysis ${entry.messageId} as expired:`, error);
+        }
+    }
+    return expired.length;
+}
+
+/**
+ * Flags the expenses that already have proposals from an earlier analysis of the
+ * same chat, so confirming twice doesn't propose them twice
+ * @returns The expenses with `recorded` set where proposals were found
+ */
+export async function markRecordedExpenses(expenses: ParsedExpense[], services: BotServices): Promise<ParsedExpense[]> {
+    await services.indexer.catchUp();
+    return expenses.map(({ recorded: _stale, ...expense }) => {
+        const recorded = findRecordedProposals(expense, services.indexer.store, services.signatures, services.guestDebts, services.deferredProposals);
+        return recorded ? { ...expense, recorded } : expense;
+    });
+}
+
+// "already proposed (2 confirmed, 1 pending)"
+function formatRecordedProposals(recorded: RecordedProposals): string {
+    const labels = { confirmed: 'confirmed', pending: 'pending', rejected: 'rejected', unsigned: 'awaiting signature', held: 'held for a guest', deferred: 'waiting for registration' };
+    const counts = (Object.keys(labels) as (keyof RecordedProposals)[])
+        .filter(status => recorded[status])
+        .map(status => `${recorded[status]} ${labels[status]}`);
+    return `already proposed (${counts.join(', ')})`;
+}
+
+// Says exactly which messages were read, with links to both ends, e.g.
+// "Analyzed: the last 72 hours - 143 messages (12 in 2 threads), <t:..> to <t:..>"
+function formatAnalyzedRange(range: AnalyzedRange | undefined): string {
+    if (!range) return '';
+    const seconds = (timestamp: number) => Math.floor(timestamp / 1000);
+    const threads = range.threadCount > 0 ? ` (${range.threadMessageCount} in ${range.threadCount} thread${range.threadCount === 1 ? '' : 's'})` : '';
+    let text = `🗂️ **Analyzed:** ${range.description} - ${range.messageCount} message${range.messageCount === 1 ? '' : 's'}${threads}, `;
+    text += `<t:${seconds(range.from)}:f> ([first](${range.firstMessageUrl})) to <t:${seconds(range.to)}:f> ([last](${range.lastMessageUrl}))\n`;
+    if (range.truncated) {
+        text += `⚠️ Only the most recent ${MAX_SCRAPED_MESSAGES} messages were analyzed; use two message links to pick an earlier stretch.\n`;
+    }
+    return `${text}\n`;
+}
+
+// Lists what was rejected from the model's response, so nothing is dropped silently
+function formatValidationIssues(analysis: BillAnalysisResult): string {
+    if (!analysis.issues || analysis.issues.length === 0) return '';
+    return `⚠️ **Rejected from the analysis (${analysis.issues.length}):**\n${analysis.issues.map(issue => `• ${issue}`).join('\n')}\n\n`;
+}
+
+// Sums the expenses per currency, e.g. "60000 KRW + 20 USD"
+function formatTotals(expenses: ParsedExpense[]): string {
+    const totals = new Map<string, number>();
+    for (const expense of expenses) {
+        totals.set(expense.currency, (totals.get(expense.currency) ?? 0) + expense.amount);
+    }
+    return [...totals].map(([currency, amount]) => `${Number(amount.toFixed(2))} ${currency}`).join(' + ') || '0';
+}
+
+// Receipts can be long; the rest of the items are summarized
+const MAX_LISTED_LINE_ITEMS = 10;
+
+// "Burger 12 (<@1>), Fries 4 · Tax 1.6 · Tip 3"
+function formatLineItems(expense: ParsedExpense): string {
+    const items = expense.lineItems ?? [];
+    const listed = items.slice(0, MAX_LISTED_LINE_ITEMS)
+        .map(item => `${item.description} ${item.amount}${item.participants ? ` (${item.participants.join(', ')})` : ''}`);
+    if (items.length > MAX_LISTED_LINE_ITEMS) {
+        listed.push(`and ${items.length - MAX_LISTED_LINE_ITEMS} more`);
+    }
+    const extras = [expense.tax ? `Tax ${expense.tax}` : '', expense.tip ? `Tip ${expense.tip}` : ''].filter(Boolean);
+    return [listed.join(', '), ...extras].join(' · ');
+}
+
+/**
+ * Renders the preview of an analysis with its edit, remove, objection, approve,
+ * confirm and cancel controls
+ */
+export function buildBillAnalysisPreview(analysis: BillAnalysisResult, options: { expired?: boolean } = {}): { content: string; components: ActionRowBuilder<any>[] } {
+    let confirmationMessage = options.expired
+        ? `⌛ **This bill analysis expired** before it was confirmed. No debt proposals were created; mention me again to start over.\n\n`
+        : '';
+    confirmationMessage += `📊 **Bill Analysis Complete**\n\n`;
+    confirmationMessage += `${analysis.summary}\n\n`;
+    confirmationMessage += formatAnalyzedRange(analysis.analyzedRange);
+    confirmationMessage += `**Found ${analysis.expenses.length} expense(s):**\n\n`;
+    if (analysis.expenses.length > 0) {
+        const approved = analysis.expenses.filter(expense => !holdBackReason(expense)).length;
+        confirmationMessage += `🗳️ **Approvals:** ${approved} of ${analysis.expenses.length} approved by their payer with no objections\n\n`;
+    }
+    
+    for (let i = 0; i < analysis.expenses.length; i++) {
+        const expense = analysis.expenses[i];
+        const split = resolveExpenseSplit(expense);
+        
+        // Format participants list (keep as mentions for proper notifications)
+        const participantsDisplay = expense.participants.join(', ');
+        
+        confirmationMessage += `**${i + 1}.** ${expense.description}${expense.editedBy ? ` *(edited by ${expense.editedBy.join(', ')})*` : ''}\n`;
+        confirmationMessage += `• **Amount:** ${expense.amount} ${expense.currency}\n`;
+        confirmationMessage += `• **Paid by:** ${expense.payer}\n`;  // Keep mention for notification
+        confirmationMessage += `• **Participants:** ${participantsDisplay}\n`;
+        if (split.rule.type === 'equal') {
+            confirmationMessage += `• **Split:** ${split.shares[0]?.toFixed(2) ?? '0.00'} ${expense.currency} each\n`;
+        } else {
+            confirmationMessage += `• **Split:**\n`;
+            expense.participants.forEach((participant, index) => {
+                confirmationMessage += `  ◦ ${participant}: ${split.shares[index].toFixed(2)} ${expense.currency}\n`;
+            });
+        }
+        if (expense.lineItems) {
+            confirmationMessage += `• **Items:** ${formatLineItems(expense)}\n`;
+        }
+        if (expense.receipt) {
+            confirmationMessage += `• **Receipt:** [photo](${expense.receipt.imageUrl}) from [this message](${expense.receipt.messageUrl})\n`;
+        }
+        if (split.warning) {
+            confirmationMessage += `⚠️ ${split.warning}\n`;
+        }
+        // Names matched with low confidence, unless the requester already edited the expense
+        const unsure = expense.editedBy ? [] : (analysis.uncertainIdentities ?? []).filter(identity => expense.participants.includes(identity.mention) || expense.payer === identity.mention);
+        if (unsure.length > 0) {
+            confirmationMessage += `🔎 **Check who's who:** ${unsure.map(identity => `"${identity.name}" → ${identity.mention} (${Math.round(identity.confidence * 100)}% sure)`).join(', ')}\n`;
+        }
+        const heldBack = holdBackReason(expense);
+        confirmationMessage += heldBack ? `⏳ **Held back:** ${heldBack}\n` : `✅ **Approved** by ${expense.payer}\n`;
+        if (expense.recorded) {
+            confirmationMessage += `♻️ **Skipped:** ${formatRecordedProposals(expense.recorded)}. Edit it to propose it again.\n`;
+        }
+        confirmationMessage += `\n`;
+    }
+    
+    confirmationMessage += formatValidationIssues(analysis);
+    confirmationMessage += `**Total:** ${formatTotals(analysis.expenses)}\n\n`;
+    const heldBackCount = analysis.expenses.filter(expense => !expense.recorded && holdBackReason(expense)).length;
+    confirmationMessage += `🤝 **This will create ${calculateTotalDebts(analysis.expenses)} debt proposal(s)**${heldBackCount > 0 ? ` now, with ${heldBackCount} expense(s) held back until approved` : ''}\n\n`;
+    confirmationMessage += `**Payers:** approve the expenses you paid for with 👍. **Participants:** object to an expense with the ✋ menu to hold it back. `;
+    confirmationMessage += `Only approved expenses without objections are proposed when the requester confirms; the rest stay here until they are approved. Use the menus below to fix anything that looks wrong first.`;
+    
+    // Select menus hold at most 25 options, one of which is "add"
+    const listed = analysis.expenses.slice(0, MAX_EDITABLE_EXPENSES);
+    const expenseLabel = (expense: ParsedExpense, i: number) => `${i + 1}. ${expense.description}`.slice(0, 100);
+    
+    const editMenu = new StringSelectMenuBuilder()
+        .setCustomId('edit-bill-expense')
+        .setPlaceholder('✏️ Edit or add an expense')
+        .setDisabled(!!options.expired)
+        .addOptions(
+            ...listed.map((expense, i) => new StringSelectMenuOptionBuilder().setLabel(expenseLabel(expense, i)).setValue(i.toString())),
+            new StringSelectMenuOptionBuilder().setLabel('➕ Add an expense').setValue(NEW_EXPENSE_VALUE)
+        );
+    
+    const confirmButton = new ButtonBuilder()
+        .setCustomId('confirm-bills')
+        .setLabel('✅ Create Debt Proposals')
+        .setStyle(ButtonStyle.Success)
+        .setDisabled(analysis.expenses.length === 0 || !!options.expired);
+    
+    const approveButton = new ButtonBuilder()
+        .setCustomId('approve-bills')
+        .setLabel('👍 Approve What I Paid')
+        .setStyle(ButtonStyle.Primary)
+        .setDisabled(analysis.expenses.length === 0 || !!options.expired);
+    
+    const cancelButton = new ButtonBuilder()
+        .setCustomId('cancel-bills')
+        .setLabel('❌ Cancel')
+        .setStyle(ButtonStyle.Secondary)
+        .setDisabled(!!options.expired);
+    
+    const components: ActionRowBuilder<any>[] = [new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(editMenu)];
+    if (listed.length > 0) {
+        const removeMenu = new StringSelectMenuBuilder()
+            .setCustomId('remove-bill-expense')
+            .setPlaceholder('🗑️ Remove an expense')
+            .setDisabled(!!options.expired)
+            .addOptions(listed.map((expense, i) => new StringSelectMenuOptionBuilder().setLabel(expenseLabel(expense, i)).setValue(i.toString())));
+        const objectMenu = new StringSelectMenuBuilder()
+            .setCustomId('object-bill-expense')
+            .setPlaceholder('✋ Object to an expense (pick again to withdraw)')
+            .setDisabled(!!options.expired)
+            .addOptions(listed.map((expense, i) => new StringSelectMenuOptionBuilder().setLabel(expenseLabel(expense, i)).setValue(i.toString())));
+        components.push(
+            new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(removeMenu),
+            new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(objectMenu)
+        );
+    }
+    components.push(new ActionRowBuilder<ButtonBuilder>().addComponents(confirmButton, approveButton, cancelButton));
+    
+    return { content: renderGuestMentions(confirmationMessage, analysis.guestNames), components };
+}
+
+// Helper function to calculate total number of debts that will be created
+function calculateTotalDebts(expenses: ParsedExpense[]): number {
+    let totalDebts = 0;
+    for (const expense of expenses) {
+        if (expense.recorded || holdBackReason(expense)) continue; // Skipped as a duplicate, or not approved
+        // For each expense, create debts from payer to each other participant with something to pay
+        const { shares } = resolveExpenseSplit(expense);
+        totalDebts += expense.participants.filter((p, index) => p !== expense.payer && shares[index] > 0).length;
+    }
+    return totalDebts;
+}
+
+// Handle confirmation/cancellation of automated bill analysis
+export async function handleBillConfirmation(interaction: any, services: BotServices) {
+    const pendingAnalysis = services.pendingAnalyses.get(interaction.message.id);
+    
+    if (!pendingAnalysis) {
+        await interaction.reply({
+            content: '❌ **Analysis expired or not found**\n\nPlease trigger bill analysis again.',
+            ephemeral: true
+        });
+        return;
+    }
+    
+    // Check if the user who clicked is the same as who requested the analysis
+    if (interaction.user.id !== pendingAnalysis.requesterId) {
+        await interaction.reply({
+            content: '❌ **Permission denied**\n\nOnly the person who requested the analysis can confirm it.',
+            ephemeral: true
+        });
+        return;
+    }
+    
+    if (interaction.customId === 'cancel-bills') {
+        await interaction.update({
+            content: '❌ **Bill analysis cancelled**\n\nNo debt proposals were created.',
+            components: []
+        });
+        await services.pendingAnalyses.delete(interaction.message.id);
+        return;
+    }
+    
+    if (interaction.customId === 'confirm-bills') {
+        // Only expenses approved by their payer, with no objections, go on-chain
+        const { analysis } = approveOwnExpenses(pendingAnalysis.analysis, `<@${interaction.user.id}>`);
+        const ready = analysis.expenses.filter(expense => !holdBackReason(expense));
+        const heldBack = analysis.expenses.filter(expense => holdBackReason(expense));
+        if (ready.length === 0) {
+            await interaction.reply({
+                content: '⏳ **Nothing is approved yet**\n\nEach payer has to approve the expenses they paid for with the 👍 button, and objections have to be withdrawn, before anything is proposed.',
+                ephemeral: true
+            });
+            return;
+        }
+        
+        await interaction.update({
+            content: '⏳ **Creating debt proposals...**\n\nPlease wait while I create all the debt proposals.',
+            components: []
+        });
+        
+        try {
+            await createAutomatedDebtProposals({ ...analysis, expenses: ready }, heldBack, interaction, services);
+            if (heldBack.length > 0) {
+                // The rest stay on the preview until they are approved, confirmed again or expire
+                const remaining = { ...analysis, expenses: heldBack };
+                await services.pendingAnalyses.replaceAnalysis(interaction.message.id, remaining);
+                await safeEditMessage(interaction.message, undefined, buildBillAnalysisPreview(remaining));
+            } else {
+                await services.pendingAnalyses.delete(interaction.message.id);
+            }
+        } catch (error) {
+            console.error('Error creating automated debt proposals:', error);
+            await interaction.followUp({
+                content: `❌ **Error creating debt proposals**\n\n${error instanceof Error ? error.message : 'Unknown error occurred'}`
+            });
+        }
+    }
+}
+
+// Create debt proposals from automated bill analysis
+async function createAutomatedDebtProposals(analysis: BillAnalysisResult, heldBack: ParsedExpense[], interaction: any, services: BotServices) {
+    const results: { success: number; failed: number; skipped: string[]; held: string[]; deferred: string[]; errors: string[]; warnings: string[] } = {
+        success: 0,
+        failed: 0,
+        skipped: [],
+        held: [],
+        deferred: [],
+        errors: [],
+        warnings: []
+    };
+    
+    // Check again: another analysis of the same chat may have been confirmed since the preview was shown
+    const expenses = await markRecordedExpenses(analysis.expenses, services);
+    for (const expense of expenses) {
+        if (expense.recorded) {
+            results.skipped.push(`♻️ "${expense.description}" was ${formatRecordedProposals(expense.recorded)}`);
+            continue;
+        }
+        const fingerprint = expenseFingerprint(expense);
+        const split = resolveExpenseSplit(expense);
+        if (split.warning) {
+            results.warnings.push(`⚠️ ${split.warning}`);
+        }
+        const debtorCount = expense.participants.filter(p => p !== expense.payer).length;
+        
+        // Convert the bill into the token it will be recorded in, then split it exactly in the token's units
+        let converted: ConvertedExpenseAmount;
+        let shares: bigint[];
+        try {
+            converted = await convertToTokenAmount(services.fx, expense.amount, expense.currency);
+            const total = parseTokenAmount(converted.amount.toFixed(Math.min(converted.tokenInfo.decimals, 6)), converted.tokenInfo);
+            // Leftover units from rounding go to the payer first, since their own share isn't a debt
+            const payerIndex = Math.max(expense.participants.indexOf(expense.payer), 0);
+            shares = splitTokenAmount(total, split.rule, payerIndex);
+        } catch (error) {
+            results.failed += debtorCount;
+            results.errors.push(`❌ Could not work out the split of ${expense.amount} ${expense.currency} for "${expense.description}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+            continue;
+        }
+        const { tokenInfo, rate } = converted;
+        const isConverted = normalizeCurrency(expense.currency) !== rate.to;
+        
+        // Find Discord users by their usernames/tags
+        const payerUser = await findUserByTag(expense.payer, interaction.guild);
+        if (!payerUser) {
+            results.failed++;
+            const payerDisplay = await formatUserDisplay(expense.payer, interaction.guild);
+            results.errors.push(`❌ Could not find user: ${payerDisplay}`);
+            continue;
+        }
+        
+        // Get payer's wallet (in non-custodial mode only the address is known)
+        const payerWallet = services.signingMode === 'non-custodial'
+            ? await services.wallets.getRegisteredAddress(payerUser.id).then(address => address ? { address, privateKey: '' } : null)
+            : await services.wallets.getWallet(payerUser.id);
+        if (!payerWallet) {
+            results.failed++;
+            const payerDisplay = await formatUserDisplay(expense.payer, interaction.guild);
+            results.errors.push(`❌ ${payerDisplay} is not registered`);
+            continue;
+        }
+        
+        // Work out the debt of each participant (except the payer), then propose them together
+        const debts: { participantTag: string; participantUser: User; address: string; amount: bigint; amountDisplay: string; originalDisplay: string; memo: string }[] = [];
+        for (const [index, participantTag] of expense.participants.entries()) {
+            if (participantTag === expense.payer) continue; // Skip the payer
+            if (shares[index] === 0n) continue; // Nothing to owe under a custom split
+            
+            const amount = shares[index];
+            const originalDisplay = `${split.shares[index].toFixed(2)} ${expense.currency}`;
+            // Record the rate on-chain so the debtor can see how their share was worked out
+            const source = expense.editedBy ? `Auto-detected from chat, edited by ${expense.editedBy.join(', ')}` : 'Auto-detected from chat';
+            // The fingerprint lets a later analysis of the same chat recognize this expense
+            const memo = isConverted
+                ? `${expense.description} (${source}; ${originalDisplay} at ${describeRate(rate)}) ${fingerprintMemoTag(fingerprint)}`
+                : `${expense.description} (${source}) ${fingerprintMemoTag(fingerprint)}`;
+            
+            // Guests have no wallet, so their share is held until they register and claim it
+            const guestId = extractGuestIdFromMention(participantTag);
+            if (guestId) {
+                await services.guestDebts.add({ guildId: interaction.guild.id, guestId, creditorId: payerUser.id, token: tokenInfo.address, amount: amount.toString(), memo });
+                results.held.push(`📥 ${participantTag} owes ${expense.payer} ${formatTokenAmount(amount, tokenInfo)} for "${expense.description}"`);
+                continue;
+            }
+            
+            const participantUser = await findUserByTag(participantTag, interaction.guild);
+            if (!participantUser) {
+                results.failed++;
+                const participantDisplay = await formatUserDisplay(participantTag, interaction.guild);
+                results.errors.push(`❌ Could not find user: ${participantDisplay}`);
+                continue;
+            }
+            
+            const participantWallet = services.signingMode === 'non-custodial'
+                ? await services.wallets.getRegisteredAddress(participantUser.id).then(address => address ? { address } : null)
+                : await services.wallets.getWallet(participantUser.id);
+            if (!participantWallet) {
+                // Queue the share for participants who never registered; it is proposed when they do
+                if (!await services.wallets.getRegisteredAddress(participantUser.id)) {
+                    const amountDisplay = formatTokenAmount(amount, tokenInfo);
+                    await services.deferredProposals.add({ debtorId: participantUser.id, creditorId: payerUser.id, token: tokenInfo.address, amount: amount.toString(), amountDisplay, memo });
+                    results.deferred.push(`⏳ ${participantTag} owes ${expense.payer} ${amountDisplay} for "${expense.description}"`);
+                    continue;
+                }
+                results.failed++;
+                const participantDisplay = await formatUserDisplay(participantTag, interaction.guild);
+                results.errors.push(`❌ ${participantDisplay} is not registered`);
+                continue;
+            }
+            
+            debts.push({ participantTag, participantUser, address: participantWallet.address, amount, amountDisplay: formatTokenAmount(amount, tokenInfo), originalDisplay, memo });
+        }
+        if (debts.length === 0) continue;
+        
+        const payerDisplayName = await formatUserDisplay(expense.payer, interaction.guild);
+        if (services.signingMode === 'non-custodial') {
+            // The payer signs each proposal themselves; the debtor is notified once it is relayed
+            for (const debt of debts) {
+                try {
+                    await services.signatures.requestProposalSignature(payerUser, payerWallet.address, debt.participantUser.id, debt.address, tokenInfo.address, debt.amount, debt.amountDisplay, debt.memo);
+                    results.success++;
+                } catch (error) {
+                    results.failed++;
+                    const participantDisplay = await formatUserDisplay(debt.participantTag, interaction.guild);
+                    results.errors.push(`❌ Failed to create debt ${payerDisplayName} → ${participantDisplay}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+                    console.error(`Error requesting debt proposal signature for ${payerDisplayName} → ${participantDisplay}:`, error);
+                }
+            }
+            continue;
+        }
+        
+        // One transaction proposes every share; each DM uses the ID the contract emitted for that debtor
+        let pendingDebtIds: bigint[];
+        try {
+            ({ pendingDebtIds } = await services.ledger.proposeExpense(payerWallet.privateKey, tokenInfo.address, debts.map(({ address, amount, memo }) => ({ debtor: address, amount, memo }))));
+        } catch (error) {
+            results.failed += debts.length;
+            results.errors.push(`❌ Failed to create the debts for "${expense.description}" paid by ${payerDisplayName}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            console.error(`Error creating debt proposals for "${expense.description}":`, error);
+            continue;
+        }
+        
+        for (const [i, debt] of debts.entries()) {
+            const proposalMessage = `📄 **Auto-Detected Debt Proposal**\n\n` +
+                `**From:** ${payerDisplayName}\n` +
+                `**Amount:** ${debt.amountDisplay}\n` +
+                (isConverted ? `**Converted from:** ${debt.originalDisplay} at ${describeRate(rate)}\n` : '') +
+                `**For:** ${expense.description}\n` +
+                (expense.receipt ? `**Receipt:** ${expense.receipt.imageUrl}\n` : '') +
+                `**Auto-detected from chat history**${expense.editedBy ? ` *(edited by ${expense.editedBy.join(', ')})*` : ''}\n\n` +
+                `Click below to accept or reject:`;
+            
+            await services.notifier.sendDM(debt.participantUser, {
+                content: proposalMessage,
+                components: [buildDebtResponseRow(pendingDebtIds[i].toString())]
+            });
+            
+            results.success++;
+            console.log(`[DEBUG] Created automated debt proposal #${pendingDebtIds[i]}: ${expense.payer} → ${debt.participantTag} (${debt.amountDisplay})`);
+        }
+    }
+    
+    // Send summary
+    let summaryMessage = `✅ **Automated Debt Proposals Created**\n\n`;
+    summaryMessage += `**Successfully created:** ${results.success} proposals\n`;
+    summaryMessage += `**Failed:** ${results.failed} proposals\n\n`;
+    
+    if (heldBack.length > 0) {
+        summaryMessage += `**Held back until approved:**\n${heldBack.map(expense => `⏳ "${expense.description}" is ${holdBackReason(expense)}`).join('\n')}\n\n`;
+    }
+    
+    if (results.held.length > 0) {
+        summaryMessage += `**Held for guests until they register:**\n${results.held.join('\n')}\nOnce they \`>register\`, they can take these on with \`>guest claim <name>\`.\n\n`;
+    }
+    
+    if (results.deferred.length > 0) {
+        summaryMessage += `**Queued until they register:**\n${results.deferred.join('\n')}\nThese are proposed as soon as they use \`>register\`; payers can see or cancel them with \`>deferred list\`.\n\n`;
+    }
+    
+    if (results.skipped.length > 0) {
+        summaryMessage += `**Skipped as already proposed:**\n${results.skipped.join('\n')}\n\n`;
+    }
+    
+    if (results.warnings.length > 0) {
+        summaryMessage += `**Warnings:**\n${results.warnings.join('\n')}\n\n`;
+    }
+    
+    if (results.errors.length > 0) {
+        summaryMessage += `**Errors:**\n${results.errors.join('\n')}\n\n`;
+    }
+    
+    summaryMessage += `**Next Steps:**\n`;
+    if (services.signingMode === 'non-custodial') {
+        summaryMessage += `• Payers will receive DMs asking them to sign each proposal\n`;
+    }
+    summaryMessage += `• Participants will receive DMs with debt proposals\n`;
+    summaryMessage += `• They can accept or reject each proposal\n`;
+    summaryMessage += `• Use \`>balance @user <token>\` to check confirmed debts\n`;
+    summaryMessage += `• Use \`>history @user\` to see all transactions`;
+    
+    await safeInteractionReply(interaction, renderGuestMentions(summaryMessage, analysis.guestNames));
+}
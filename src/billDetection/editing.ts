@@ -0,0 +1,209 @@
+import { ActionRowBuilder, Guild, ModalBuilder, ModalSubmitInteraction, StringSelectMenuInteraction, TextInputBuilder, TextInputStyle } from 'discord.js';
+import { safeInteractionReply, safeShowModal } from '../discord/safe';
+import { normalizeCurrency } from '../services/fx';
+import { BotServices } from '../services';
+import { PendingBillAnalysis } from '../services/pendingAnalyses';
+import { extractGuestIdFromMention } from '../services/identities';
+import { approveOwnExpenses } from './approvals';
+import { buildBillAnalysisPreview, NEW_EXPENSE_VALUE } from './detection';
+import { buildAliasTable, MIN_CONFIDENCE, nameGuests, resolveName } from './identity';
+import { validateCustomSplits } from './splits';
+import { BillAnalysisResult, ParsedExpense } from './types';
+import { findUserByTag, formatUserDisplay } from './users';
+
+// Edit/remove controls on the bill analysis preview, so one wrong payer or amount doesn't sink the whole analysis
+
+export interface ExpenseEditInput {
+    description: string;
+    amount: string;
+    currency: string;
+    payer: string;
+    participants: string; // Names or mentions separated by commas or new lines
+}
+
+// Resolves a typed name or mention to a Discord mention, or null if no such member exists
+export type MemberResolver = (identifier: string) => Promise<string | null>;
+
+// The modal's fields once checked, with names resolved to mentions
+export interface ResolvedExpenseEdit {
+    description: string;
+    amount: number;
+    currency: string;
+    payer: string;
+    participants: string[];
+}
+
+/**
+ * Checks the expense modal's fields and resolves the names in them
+ * @returns The edit, or the problems with the input
+ */
+export async function resolveExpenseEdit(input: ExpenseEditInput, resolveMember: MemberResolver): Promise<{ edit: ResolvedExpenseEdit } | { errors: string[] }> {
+    const errors: string[] = [];
+    const description = input.description.trim();
+    if (!description) errors.push('Description is empty.');
+
+    const amountRaw = input.amount.trim().replace(/,/g, '');
+    const amount = Number(amountRaw);
+    if (!/^\d+(\.\d+)?$/.test(amountRaw) || amount <= 0) errors.push(`Invalid amount: ${input.amount.trim() || '(empty)'}`);
+
+    const currency = normalizeCurrency(input.currency);
+    if (!currency) errors.push('Currency is empty.');
+
+    const resolve = async (name: string) => {
+        const mention = await resolveMember(name.replace(/^@/, ''));
+        if (!mention) errors.push(`Could not find member: ${name}`);
+        return mention;
+    };
+    let payer: string | null = null;
+    if (input.payer.trim()) {
+        payer = await resolve(input.payer.trim());
+    } else {
+        errors.push('Payer is empty.');
+    }
+
+    const names = input.participants.split(/[,\n]+/).map(part => part.trim()).filter(Boolean);
+    if (names.length === 0) errors.push('Participants are empty.');
+    const participants: string[] = [];
+    for (const name of names) {
+        const mention = await resolve(name);
+        if (mention && !participants.includes(mention)) participants.push(mention);
+    }
+
+    if (errors.length > 0 || !payer) return { errors };
+    return { edit: { description, amount, currency, payer, participants } };
+}
+
+/**
+ * Applies a resolved edit from the expense modal to an analysis
+ * @param target - Index of the expense to replace, or NEW_EXPENSE_VALUE to add one
+ * @param editorTag - Tag of the user making the edit, recorded on the expense
+ * @returns The edited analysis, or why the edit can't be applied
+ */
+export function applyExpenseEdit(analysis: BillAnalysisResult, target: string, edit: ResolvedExpenseEdit, editorTag: string): { analysis: BillAnalysisResult } | { errors: string[] } {
+    const existing = target === NEW_EXPENSE_VALUE ? undefined : analysis.expenses[Number(target)];
+    if (target !== NEW_EXPENSE_VALUE && !existing) {
+        return { errors: ['That expense no longer exists. It may have been removed.'] };
+    }
+    // Saving the modal unchanged leaves the expense, its approval and its objections as they were
+    if (existing && existing.description === edit.description && existing.amount === edit.amount && existing.currency === edit.currency &&
+        existing.payer === edit.payer && existing.participants.join() === edit.participants.join()) {
+        return { analysis };
+    }
+
+    const editedBy = existing?.editedBy?.includes(editorTag) ? existing.editedBy : [...(existing?.editedBy ?? []), editorTag];
+    // An edited expense is a different expense: earlier proposals and the payer's approval no longer count
+    const { recorded: _recorded, approvedByPayer: _approved, objections: previousObjections, ...previous } = existing ?? { splitType: 'equal' as const };
+    let expense: ParsedExpense = { ...previous, ...edit, editedBy };
+    // Objections stand until withdrawn, unless the objector is no longer on the expense
+    const objections = previousObjections?.filter(objector => objector !== edit.payer && edit.participants.includes(objector));
+    if (objections && objections.length > 0) expense.objections = objections;
+    // A custom split from the analysis only carries over if it still fits the edited expense
+    if (expense.splitType === 'custom' && validateCustomSplits(expense)) {
+        const { customSplits, ...rest } = expense;
+        expense = { ...rest, splitType: 'equal' };
+    }
+
+    const expenses = existing ? analysis.expenses.map(e => e === existing ? expense : e) : [...analysis.expenses, expense];
+    return { analysis: { ...analysis, expenses } };
+}
+
+// Only the person who asked for the analysis may change it, as with confirming it
+async function findEditableAnalysis(interaction: StringSelectMenuInteraction | ModalSubmitInteraction, messageId: string, services: BotServices): Promise<PendingBillAnalysis | null> {
+    const pending = services.pendingAnalyses.get(messageId);
+    if (!pending) {
+        await safeInteractionReply(interaction, '❌ **Analysis expired or not found**\n\nPlease trigger bill analysis again.', { ephemeral: true });
+        return null;
+    }
+    if (interaction.user.id !== pending.requesterId) {
+        await safeInteractionReply(interaction, '❌ **Permission denied**\n\nOnly the person who requested the analysis can edit it.', { ephemeral: true });
+        return null;
+    }
+    return pending;
+}
+
+// Members are found through the alias table; guests by their name or an alias of theirs
+function memberResolver(guild: Guild | null, services: BotServices): MemberResolver {
+    return async identifier => {
+        if (!guild) return null;
+        const aliases = services.identities.aliases(guild.id);
+        const guests = services.identities.guests(guild.id).filter(guest => !guest.claimedBy);
+        const guest = resolveName(identifier, buildAliasTable([], aliases, guests));
+        if (guest && extractGuestIdFromMention(guest.mention) && guest.confidence >= MIN_CONFIDENCE) {
+            return guest.mention;
+        }
+        const user = await findUserByTag(identifier, guild, aliases);
+        return user ? `<@${user.id}>` : null;
+    };
+}
+
+export async function showExpenseEditModal(interaction: StringSelectMenuInteraction, services: BotServices): Promise<void> {
+    const pending = await findEditableAnalysis(interaction, interaction.message.id, services);
+    if (!pending) return;
+
+    const target = interaction.values[0];
+    const expense = target === NEW_EXPENSE_VALUE ? undefined : pending.analysis.expenses[Number(target)];
+    // Prefill names rather than raw mentions, which modals show as IDs
+    const displayName = async (mention: string) => pending.analysis.guestNames?.[mention] ?? formatUserDisplay(mention, interaction.guild);
+
+    const field = (id: string, label: string, style: TextInputStyle, value: string | undefined, placeholder: string) => {
+        const input = new TextInputBuilder().setCustomId(id).setLabel(label).setStyle(style).setRequired(true).setPlaceholder(placeholder);
+        if (value) input.setValue(value);
+        return new ActionRowBuilder<TextInputBuilder>().addComponents(input);
+    };
+
+    const modal = new ModalBuilder()
+        .setCustomId(`bill-expense-modal:${interaction.message.id}:${target}`)
+        .setTitle(expense ? `Edit expense #${Number(target) + 1}` : 'Add an expense')
+        .addComponents(
+            field('description', 'Description', TextInputStyle.Short, expense?.description, 'Dinner at the BBQ place'),
+            field('amount', 'Amount', TextInputStyle.Short, expense?.amount.toString(), '60000'),
+            field('currency', 'Currency', TextInputStyle.Short, expense?.currency, 'KRW, USD, ETH...'),
+            field('payer', 'Paid by', TextInputStyle.Short, expense && await displayName(expense.payer), 'alice'),
+            field('participants', 'Participants (comma separated, incl. payer)', TextInputStyle.Paragraph,
+                expense && (await Promise.all(expense.participants.map(displayName))).join(', '), 'alice, bob, carol')
+        );
+    await safeShowModal(interaction, modal);
+}
+
+export async function handleExpenseEditSubmission(interaction: ModalSubmitInteraction, messageId: string, target: string, services: BotServices): Promise<void> {
+    const pending = await findEditableAnalysis(interaction, messageId, services);
+    if (!pending) return;
+
+    const input: ExpenseEditInput = {
+        description: interaction.fields.getTextInputValue('description'),
+        amount: interaction.fields.getTextInputValue('amount'),
+        currency: interaction.fields.getTextInputValue('currency'),
+        payer: interaction.fields.getTextInputValue('payer'),
+        participants: interaction.fields.getTextInputValue('participants')
+    };
+    const resolved = await resolveExpenseEdit(input, memberResolver(interaction.guild, services));
+    // Approvals and objections may have come in while names were being resolved, so edit the latest analysis
+    const latest = services.pendingAnalyses.get(messageId);
+    if (!latest) {
+        await safeInteractionReply(interaction, '❌ **Analysis expired or not found**\n\nPlease trigger bill analysis again.', { ephemeral: true });
+        return;
+    }
+    const result = 'errors' in resolved ? resolved : applyExpenseEdit(latest.analysis, target, resolved.edit, interaction.user.tag);
+    if ('errors' in result) {
+        await safeInteractionReply(interaction, `❌ **Expense not saved**\n\n${result.errors.map(error => `• ${error}`).join('\n')}`, { ephemeral: true });
+        return;
+    }
+
+    // Expenses the editor paid for count as approved by them, as when the analysis was requested
+    const { analysis: approved } = approveOwnExpenses(result.analysis, `<@${interaction.user.id}>`);
+    const analysis = interaction.guild ? nameGuests(approved, services.identities.guests(interaction.guild.id)) : approved;
+    await services.pendingAnalyses.replaceAnalysis(messageId, analysis);
+    if (interaction.isFromMessage()) {
+        await interaction.update(buildBillAnalysisPreview(analysis));
+    }
+}
+
+export async function handleRemoveExpense(interaction: StringSelectMenuInteraction, services: BotServices): Promise<void> {
+    const pending = await findEditableAnalysis(interaction, interaction.message.id, services);
+    if (!pending) return;
+
+    const index = Number(interaction.values[0]);
+    const analysis = { ...pending.analysis, expenses: pending.analysis.expenses.filter((_, i) => i !== index) };
+    await services.pendingAnalyses.replaceAnalysis(interaction.message.id, analysis);
+    await interaction.update(buildBillAnalysisPreview(analysis));
+}
@@ -0,0 +1,193 @@
+import { GuildSettingsStore } from '../services/guildSettings';
+import { ReceiptImage } from './receipts';
+import { BillAnalysisResult } from './types';
+import { validateBillAnalysis, ValidatedBillAnalysis } from './validation';
+
+/**
+ * What an extractor gets to work with: the scraped chat and who may appear in the result
+ */
+export interface ExtractionInput {
+    messages: string[]; // "author: content" lines, oldest first
+    mentionedUsers: string[]; // Mentions of every user in the mapping
+    userMappingText: string; // A "username (display name) = <@id>" line per user, then "name = <@id>" per alias
+    images?: ReceiptImage[]; // Receipt photos, downloaded or read by OCR depending on acceptsImages
+}
+
+/**
+ * Turns chat history into a validated bill analysis
+ */
+export interface ExpenseExtractor {
+    readonly name: string; // Identifier used when choosing the extractor for a guild
+    readonly description: string;
+    readonly acceptsImages: boolean; // Whether receipt photos can be given as images rather than OCR text
+    extract(input: ExtractionInput): Promise<BillAnalysisResult | null>;
+}
+
+/**
+ * Prompt for a chat model, split so providers with a system role can use it
+ */
+export interface ModelPrompt {
+    system: string;
+    user: string;
+    images: { mimeType: string; data: string }[]; // Base64 receipt photos, in image number order
+}
+
+// Sends a prompt to a model and resolves to the text of its reply
+export type ModelCompletion = (prompt: ModelPrompt) => Promise<string>;
+
+// Responses that fail validation are sent back to the model with the problems, up to this many times in total
+const MAX_ANALYSIS_ATTEMPTS = 3;
+
+const SYSTEM_PROMPT = `You are a bill-splitting assistant. Analyze the chat messages to identify expenses and who paid for what.
+
+IMPORTANT RULES:
+1. Only extract expenses that are explicitly mentioned with amounts
+2. Identify who paid and who should participate in each expense
+3. Default to equal splitting among participants unless specified otherwise. When people paid different amounts (e.g. "I had the steak, you two split the pasta"), use "splitType": "custom" and give every participant's share in "customSplits"; the shares must add up to the amount
+4. Use common sense to determine participants (e.g., if someone says "we all had dinner", include everyone mentioned)
+5. Convert all amounts to USD if possible, otherwise use the original currency
+6. Be conservative - don't infer expenses that aren't clearly stated
+7. When you see usernames in chat messages, map them to Discord mentions using the USER MAPPING provided
+8. ALWAYS use Discord mention format <@123456> in your output (never use usernames or display names)
+9. You can infer participants based on context (e.g., "we all", "everyone", "us") but only include users from the USER MAPPING
+10. Receipt photos are marked "[image #n]" after the message they were posted with, and are either attached in order or given as OCR text. Record each receipt as one expense for its total, paid by whoever posted it unless the chat says otherwise, with "receiptImage": n, its "lineItems", and any "tax" and "tip" (both included in the amount). When the chat says who had an item (e.g. "the steak was mine"), list them in that item's "participants"
+
+Return a JSON object with this structure:
+{
+  "expenses": [
+    {
+      "description": "Brief description of expense",
+      "amount": number,
+      "currency": "USD|KRW|JPY|etc",
+      "payer": "<@123456>",
+      "participants": ["<@123456>", "<@789012>", ...],
+      "splitType": "equal|custom",
+      "customSplits": { "<@123456>": number, "<@789012>": number },
+      "receiptImage": number,
+      "lineItems": [{ "description": "Item", "amount": number, "participants": ["<@123456>"] }],
+      "tax": number,
+      "tip": number
+    }
+  ],
+  "totalAmount": number,
+  "currency": "most common currency",
+  "summary": "Brief summary of what was found",
+  "participants": ["<@123456>", "<@789012>", ...]
+}
+
+If no clear expenses are found, return {"expenses": [], "summary": "No clear expenses found in the chat history."}`;
+
+export function buildExtractionPrompt(input: ExtractionInput): ModelPrompt {
+    const user = `Analyze these chat messages for bill-splitting:
+
+USER MAPPING (username -> Discord mention):
+${input.userMappingText}
+
+PARTICIPANTS MENTIONED: ${input.mentionedUsers.join(', ')}
+
+CHAT MESSAGES:
+${input.messages.join('\n')}
+
+Extract any expenses, who paid, and who should split the costs. Focus on clear, explicit mentions of payments. When you see usernames like "nuang_ee" or "neuangi8716", or nicknames like "승재", in the chat messages, use the USER MAPPING above to convert them to the correct Discord mentions in your response. Friends without Discord are mapped to guest mentions like <guest:1>, which are used the same way.${describeReceiptImages(input.images ?? [])}`;
+    const images = (input.images ?? []).filter(image => image.data).map(image => ({ mimeType: image.contentType.split(';')[0].trim(), data: image.data! }));
+    return { system: SYSTEM_PROMPT, user, images };
+}
+
+function describeReceiptImages(images: ReceiptImage[]): string {
+    return images.map(image => image.data
+        ? `\n\nRECEIPT IMAGE #${image.number} (posted by ${image.author}) is attached.`
+        : `\n\nRECEIPT TEXT (OCR of image #${image.number}, posted by ${image.author}; expect misread characters):\n${image.ocrText ?? ''}`
+    ).join('');
+}
+
+/**
+ * Runs the prompt through a model, validating each response and retrying with
+ * the problems fed back until it passes or the attempts run out
+ * @param label - Provider name for log messages
+ * @returns The analysis, with `issues` set if problems remain after the last attempt; null if the model failed
+ */
+export async function extractWithModel(label: string, complete: ModelCompletion, input: ExtractionInput): Promise<BillAnalysisResult | null> {
+    const prompt = buildExtractionPrompt(input);
+    try {
+        console.log(`[DEBUG] Sending ${input.messages.length} messages to ${label} for analysis`);
+
+        let validated: ValidatedBillAnalysis | null = null;
+        let feedback = '';
+        for (let attempt = 1; attempt <= MAX_ANALYSIS_ATTEMPTS; attempt++) {
+            const text = stripCodeFence(await complete({ ...prompt, user: `${prompt.user}${feedback}` }));
+            console.log(`[DEBUG] Raw response (attempt ${attempt}):`, text);
+
+            let parsed: unknown;
+            try {
+                parsed = JSON.parse(text);
+            } catch (parseError) {
+                console.error(`Failed to parse ${label} response as JSON:`, parseError);
+                feedback = buildRetryFeedback(text, [`The response was not valid JSON: ${(parseError as Error).message}`]);
+                continue;
+            }
+
+            validated = validateBillAnalysis(parsed, input.mentionedUsers, input.images);
+            if (validated.issues.length === 0) break;
+            console.log(`[DEBUG] ${label} response failed validation (attempt ${attempt}/${MAX_ANALYSIS_ATTEMPTS}):\n${validated.issues.join('\n')}`);
+            feedback = buildRetryFeedback(text, validated.issues);
+        }
+
+        if (!validated) return null;
+        console.log(`[DEBUG] ${label} found ${validated.analysis.expenses.length} valid expenses`);
+        // Whatever is still wrong after the last attempt is shown in the preview
+        return validated.issues.length > 0 ? { ...validated.analysis, issues: validated.issues } : validated.analysis;
+    } catch (error) {
+        console.error(`Error calling ${label}:`, error);
+        return null;
+    }
+}
+
+// Some models wrap their answer in a ```json block even when asked for bare JSON
+function stripCodeFence(text: string): string {
+    const fenced = text.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+    return fenced ? fenced[1] : text.trim();
+}
+
+function buildRetryFeedback(previousResponse: string, issues: string[]): string {
+    return `\n\nYOUR PREVIOUS RESPONSE WAS REJECTED:\n${previousResponse}\n\nPROBLEMS:\n${issues.map(issue => `- ${issue}`).join('\n')}\n\nReturn the complete corrected JSON object. Only use mentions from the USER MAPPING, give amounts as positive numbers, and make totalAmount the sum of the expense amounts.`;
+}
+
+/**
+ * The configured extractors and which one each guild uses. Guilds without a
+ * choice of their own get the default.
+ */
+export class ExtractorRegistry {
+    private readonly extractors: Map<string, ExpenseExtractor>;
+
+    constructor(extractors: ExpenseExtractor[], readonly defaultName: string, private readonly settings: GuildSettingsStore) {
+        this.extractors = new Map(extractors.map(extractor => [extractor.name, extractor]));
+        if (!this.extractors.has(defaultName)) {
+            throw new Error(`Unknown default bill extractor "${defaultName}". Available: ${this.names().join(', ')}`);
+        }
+    }
+
+    names(): string[] {
+        return [...this.extractors.keys()];
+    }
+
+    list(): ExpenseExtractor[] {
+        return [...this.extractors.values()];
+    }
+
+    // A guild's choice stops applying if that provider is no longer configured
+    forGuild(guildId: string | null): ExpenseExtractor {
+        const chosen = guildId ? this.settings.get(guildId).extractor : undefined;
+        return (chosen && this.extractors.get(chosen)) || this.extractors.get(this.defaultName)!;
+    }
+
+    /**
+     * Chooses the extractor a guild uses; null goes back to the default
+     * @throws Error if no extractor has that name
+     */
+    async setForGuild(guildId: string, name: string | null): Promise<void> {
+        if (name !== null && !this.extractors.has(name)) {
+            throw new Error(`Unknown bill extractor "${name}". Available: ${this.names().join(', ')}`);
+        }
+        await this.settings.update(guildId, { extractor: name ?? undefined });
+    }
+}
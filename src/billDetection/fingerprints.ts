@@ -0,0 +1,72 @@
+import crypto from 'crypto';
+import { DeferredProposalStore } from '../services/deferredProposals';
+import { EventStore } from '../services/eventStore';
+import { GuestDebtStore } from '../services/guestDebts';
+import { SignatureService } from '../services/signatures';
+import { ParsedExpense, RecordedProposals } from './types';
+
+// Expenses are recognized again by a short hash carried in the memo of every
+// proposal made from them, e.g. "Dinner (Auto-detected from chat) [ref:3f9a1c0b7d2e]".
+// Analyzing the same chat twice then finds the proposals the first run created.
+
+const FINGERPRINT_LENGTH = 12;
+
+// Numbers in a message, with thousands separators removed: "₩15,000 and $7.50" → [15000, 7.5]
+function numbersIn(text: string): number[] {
+    return (text.replace(/(\d),(?=\d{3}\b)/g, '$1').match(/\d+(?:\.\d+)?/g) ?? []).map(Number);
+}
+
+/**
+ * Finds the chat messages an expense was read from: the message its receipt was
+ * posted with, or else the messages that mention its amount
+ * @param messages - Message lines as sent to the extractor
+ * @param messageIds - IDs of those messages, in the same order
+ */
+export function findSourceMessageIds(expense: ParsedExpense, messages: string[], messageIds: string[]): string[] {
+    if (expense.receipt) {
+        return [expense.receipt.messageUrl.split('/').pop()!];
+    }
+    // Skip the "author:" prefix so numbers in names don't match
+    return messageIds.filter((_, i) => numbersIn(messages[i].slice(messages[i].indexOf(':') + 1)).includes(expense.amount));
+}
+
+/**
+ * Identifies an expense by where it came from and what it is. Descriptions are
+ * compared without case or punctuation, since models word them slightly differently.
+ */
+export function expenseFingerprint(expense: ParsedExpense): string {
+    const description = expense.description.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '');
+    const key = [
+        [...(expense.sourceMessageIds ?? [])].sort().join(','),
+        expense.payer,
+        expense.amount,
+        expense.currency.toUpperCase(),
+        description
+    ].join('|');
+    return crypto.createHash('sha256').update(key).digest('hex').slice(0, FINGERPRINT_LENGTH);
+}
+
+export function fingerprintMemoTag(fingerprint: string): string {
+    return `[ref:${fingerprint}]`;
+}
+
+/**
+ * Counts the proposals already made for an expense: on-chain by status, plus
+ * those still waiting for the payer's signature in non-custodial mode, for a
+ * guest to claim them or for their debtor to register
+ */
+export function findRecordedProposals(expense: ParsedExpense, store: EventStore, signatures: SignatureService, guestDebts: GuestDebtStore, deferred: DeferredProposalStore): RecordedProposals | undefined {
+    const tag = fingerprintMemoTag(expenseFingerprint(expense));
+    const recorded: RecordedProposals = {};
+    for (const status of store.getProposalStatusesByMemo(tag)) {
+        recorded[status] = (recorded[status] ?? 0) + 1;
+    }
+    const unsigned = signatures.pending.list()
+        .filter(pending => pending.context.kind === 'propose' && pending.context.memo.includes(tag)).length;
+    if (unsigned > 0) recorded.unsigned = unsigned;
+    const held = guestDebts.countHeldByMemo(tag);
+    if (held > 0) recorded.held = held;
+    const queued = deferred.countByMemo(tag);
+    if (queued > 0) recorded.deferred = queued;
+    return Object.keys(recorded).length > 0 ? recorded : undefined;
+}
@@ -0,0 +1,29 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { ExpenseExtractor, ExtractionInput, extractWithModel } from './extractor';
+import { BillAnalysisResult } from './types';
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+
+/**
+ * Extracts expenses with Google Gemini
+ */
+export class GeminiExtractor implements ExpenseExtractor {
+    readonly name = 'gemini';
+    readonly description: string;
+    readonly acceptsImages = true;
+
+    constructor(private readonly genAI: GoogleGenerativeAI, private readonly model: string = DEFAULT_GEMINI_MODEL) {
+        this.description = `Google Gemini (${model})`;
+    }
+
+    async extract(input: ExtractionInput): Promise<BillAnalysisResult | null> {
+        // JSON mode keeps the model from wrapping its answer in prose or code fences
+        const model = this.genAI.getGenerativeModel({ model: this.model, generationConfig: { responseMimeType: 'application/json' } });
+        return extractWithModel('Gemini', async prompt => {
+            const text = `${prompt.system}\n\n${prompt.user}`;
+            const images = prompt.images.map(image => ({ inlineData: { mimeType: image.mimeType, data: image.data } }));
+            const result = await model.generateContent(images.length > 0 ? [text, ...images] : text);
+            return result.response.text();
+        }, input);
+    }
+}
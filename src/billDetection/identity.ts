@@ -0,0 +1,209 @@
+import { AliasRecord, GuestRecord, guestMention, normalizeName } from '../services/identities';
+import { BillAnalysisResult } from './types';
+
+/**
+ * Someone who can appear in an analysis, with the names Discord knows them by
+ */
+export interface ChatMember {
+    id: string;
+    username: string;
+    globalName?: string | null; // Display name across Discord
+    nickname?: string | null; // Nickname in this server
+}
+
+export type NameSource = 'alias' | 'username' | 'nickname' | 'globalName' | 'guest';
+
+/**
+ * One name in a guild's alias table
+ */
+export interface AliasEntry {
+    name: string; // As written
+    key: string; // Normalized for comparison
+    mention: string;
+    source: NameSource;
+    confidence: number; // How surely the name means this person, from 0 to 1
+}
+
+/**
+ * A name from the chat and who it most likely refers to
+ */
+export interface IdentityMatch {
+    name: string; // As written in the chat
+    mention: string;
+    confidence: number;
+    via: string; // The alias table entry it matched, e.g. a nickname
+}
+
+// Matches below this are flagged in the preview for the requester to check
+export const LOW_CONFIDENCE = 0.8;
+// Below this a name is too ambiguous to act on
+export const MIN_CONFIDENCE = 0.5;
+
+const SOURCE_CONFIDENCE: { [source in NameSource]: number } = { alias: 1, username: 0.95, nickname: 0.9, globalName: 0.9, guest: 0.9 };
+const SHORT_NAME_FACTOR = 0.75; // "승재" for 정승재, "jay" for Jay Park, "nuang" for nuang_ee
+const SUFFIX_FACTOR = 0.9; // "승재가", "승재씨"
+const AMBIGUOUS_FACTOR = 0.5; // Two people go by the name equally well
+
+// Honorifics and particles attached to Korean names, longest first: 승재씨, 승재한테, 승재가
+const KOREAN_SUFFIXES = ['이한테', '한테', '에게', '이랑', '씨', '님', '형', '오빠', '언니', '누나', '랑', '이', '가', '는', '은', '도', '를', '을', '의'];
+const HANGUL_NAME = /^[가-힣]+$/;
+
+// Shorter forms people use in chat: the given name of a three-syllable Korean name,
+// the first word of a display name, a username without its numbers or suffix
+function shortNames(key: string): string[] {
+    const short = new Set<string>();
+    if (HANGUL_NAME.test(key) && key.length === 3) {
+        short.add(key.slice(1));
+    }
+    const firstWord = key.split(' ')[0];
+    if (firstWord !== key) short.add(firstWord);
+    const stem = key.split(/[_.]/)[0].replace(/\d+$/, '');
+    if (stem !== key) short.add(stem);
+    return [...short].filter(name => name.length >= 2);
+}
+
+// The name without Korean particles or honorifics, up to two of them: 승재씨가 -> 승재
+function withoutKoreanSuffixes(key: string): string[] {
+    const stripped: string[] = [];
+    let current = [key];
+    for (let depth = 0; depth < 2; depth++) {
+        const next = current.flatMap(name => HANGUL_NAME.test(name)
+            ? KOREAN_SUFFIXES.filter(suffix => name.endsWith(suffix) && name.length - suffix.length >= 2).map(suffix => name.slice(0, -suffix.length))
+            : []);
+        stripped.push(...next);
+        current = next;
+    }
+    return [...new Set(stripped)];
+}
+
+/**
+ * Builds the alias table for the people in an analysis: their usernames, display
+ * names, server nicknames and shorter forms of those, plus the guild's guests and
+ * declared aliases
+ */
+export function buildAliasTable(members: ChatMember[], aliases: AliasRecord[], guests: GuestRecord[] = []): AliasEntry[] {
+    const best = new Map<string, AliasEntry>();
+    const add = (name: string | null | undefined, mention: string, source: NameSource, confidence: number) => {
+        const key = name ? normalizeName(name) : '';
+        if (key.length < 2) return;
+        const existing = best.get(`${key}|${mention}`);
+        if (!existing || existing.confidence < confidence) {
+            best.set(`${key}|${mention}`, { name: name!.trim(), key, mention, source, confidence });
+        }
+    };
+
+    for (const member of members) {
+        const mention = `<@${member.id}>`;
+        for (const [name, source] of [[member.username, 'username'], [member.nickname, 'nickname'], [member.globalName, 'globalName']] as const) {
+            add(name, mention, source, SOURCE_CONFIDENCE[source]);
+            for (const short of name ? shortNames(normalizeName(name)) : []) {
+                add(short, mention, source, SOURCE_CONFIDENCE[source] * SHORT_NAME_FACTOR);
+            }
+        }
+    }
+    for (const guest of guests.filter(guest => !guest.claimedBy)) {
+        add(guest.name, guestMention(guest.id), 'guest', SOURCE_CONFIDENCE.guest);
+        for (const short of shortNames(normalizeName(guest.name))) {
+            add(short, guestMention(guest.id), 'guest', SOURCE_CONFIDENCE.guest * SHORT_NAME_FACTOR);
+        }
+    }
+    for (const record of aliases) {
+        add(record.alias, record.mention, 'alias', SOURCE_CONFIDENCE.alias);
+    }
+    return [...best.values()];
+}
+
+/**
+ * Works out who a name refers to
+ * @returns The most likely person, or null if nobody in the table goes by the name
+ */
+export function resolveName(name: string, table: AliasEntry[]): IdentityMatch | null {
+    const key = normalizeName(name);
+    const forms = [{ key, factor: 1 }, ...withoutKoreanSuffixes(key).map(stripped => ({ key: stripped, factor: SUFFIX_FACTOR }))];
+
+    const byMention = new Map<string, IdentityMatch>();
+    for (const form of forms) {
+        for (const entry of table.filter(entry => entry.key === form.key)) {
+            const confidence = entry.confidence * form.factor;
+            if ((byMention.get(entry.mention)?.confidence ?? 0) < confidence) {
+                byMention.set(entry.mention, { name, mention: entry.mention, confidence, via: entry.name });
+            }
+        }
+    }
+
+    const ranked = [...byMention.values()].sort((a, b) => b.confidence - a.confidence);
+    if (ranked.length === 0) return null;
+    const [top, runnerUp] = ranked;
+    const confidence = runnerUp && top.confidence - runnerUp.confidence < 0.05 ? top.confidence * AMBIGUOUS_FACTOR : top.confidence;
+    return { ...top, confidence: Math.round(confidence * 100) / 100 };
+}
+
+/**
+ * Finds the names in the chat that refer to people in the table
+ * @param messages - "author: content" lines
+ * @returns The surest match for each person named, most confident first
+ */
+export function findNamedPeople(messages: string[], table: AliasEntry[]): IdentityMatch[] {
+    const keys = new Set(table.map(entry => entry.key));
+    const maxWords = Math.max(1, ...table.map(entry => entry.key.split(' ').length));
+    const best = new Map<string, IdentityMatch>();
+
+    for (const line of messages) {
+        const content = line.slice(line.indexOf(': ') + 2);
+        const words = content.match(/[\p{L}\p{N}_.]+/gu) ?? [];
+        for (let i = 0; i < words.length; i++) {
+            // Multi-word display names are tried whole before their first word
+            for (let length = Math.min(maxWords, words.length - i); length >= 1; length--) {
+                const phrase = words.slice(i, i + length).join(' ').replace(/\.+$/, '');
+                if (length > 1 && !keys.has(normalizeName(phrase))) continue;
+                const match = resolveName(phrase, table);
+                if (!match) continue;
+                if ((best.get(match.mention)?.confidence ?? 0) < match.confidence) {
+                    best.set(match.mention, match);
+                }
+                break;
+            }
+        }
+    }
+    return [...best.values()].sort((a, b) => b.confidence - a.confidence);
+}
+
+/**
+ * Writes the user mapping given to the extractor: "username (display name) = <@id>"
+ * for each person and "name (guest) = <guest:id>" for each guest, then "name = <@id>"
+ * for the declared aliases and the other names the chat used for them
+ */
+export function formatUserMapping(members: ChatMember[], aliases: AliasRecord[], named: IdentityMatch[], guests: GuestRecord[] = []): string {
+    const mentions = new Set([...members.map(member => `<@${member.id}>`), ...guests.map(guest => guestMention(guest.id))]);
+    const lines = [
+        ...members.map(member => `${member.username} (${member.nickname || member.globalName || member.username}) = <@${member.id}>`),
+        ...guests.map(guest => `${guest.name} (guest) = ${guestMention(guest.id)}`)
+    ];
+    const known = new Set([...members.flatMap(member => [member.username, member.nickname, member.globalName]), ...guests.map(guest => guest.name)]
+        .filter(Boolean).map(name => normalizeName(name!)));
+    for (const { name, mention } of [...aliases.map(record => ({ name: record.alias, mention: record.mention })), ...named]) {
+        const key = normalizeName(name);
+        if (!mentions.has(mention) || known.has(key)) continue;
+        known.add(key);
+        lines.push(`${name} = ${mention}`);
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Records the names of the guests an analysis refers to, since Discord can't render
+ * their mentions
+ */
+export function nameGuests(analysis: BillAnalysisResult, guests: GuestRecord[]): BillAnalysisResult {
+    const used = new Set(analysis.expenses.flatMap(expense => [expense.payer, ...expense.participants]));
+    const guestNames = Object.fromEntries(guests.filter(guest => used.has(guestMention(guest.id))).map(guest => [guestMention(guest.id), guest.name]));
+    const { guestNames: _previous, ...rest } = analysis;
+    return Object.keys(guestNames).length > 0 ? { ...rest, guestNames } : rest;
+}
+
+/**
+ * Replaces guest mentions in a message with the guests' names
+ */
+export function renderGuestMentions(text: string, guestNames: { [mention: string]: string } = {}): string {
+    return text.replace(/<guest:\d+>/g, mention => `${guestNames[mention] ?? 'unknown'} (guest)`);
+}
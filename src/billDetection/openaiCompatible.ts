@@ -0,0 +1,65 @@
+import { ExpenseExtractor, ExtractionInput, extractWithModel, ModelPrompt } from './extractor';
+import { BillAnalysisResult } from './types';
+
+// Vision models take receipt photos as data URLs
+function buildUserContent(prompt: ModelPrompt): string | object[] {
+    if (prompt.images.length === 0) return prompt.user;
+    return [
+        { type: 'text', text: prompt.user },
+        ...prompt.images.map(image => ({ type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.data}` } }))
+    ];
+}
+
+/**
+ * Extracts expenses with any server that speaks the OpenAI chat completions API,
+ * such as a local Ollama, llama.cpp or vLLM instance
+ */
+export class OpenAICompatibleExtractor implements ExpenseExtractor {
+    readonly name = 'openai';
+    readonly description: string;
+
+    /**
+     * @param baseUrl - API root, e.g. http://localhost:11434/v1
+     * @param apiKey - Sent as a bearer token; local servers usually don't need one
+     * @param acceptsImages - Whether the model is a vision model; otherwise receipts are sent as OCR text
+     */
+    constructor(
+        private readonly baseUrl: string,
+        private readonly model: string,
+        private readonly apiKey?: string,
+        readonly acceptsImages: boolean = false,
+        private readonly fetchFn: typeof fetch = fetch
+    ) {
+        this.description = `OpenAI-compatible endpoint (${model} at ${baseUrl})`;
+    }
+
+    async extract(input: ExtractionInput): Promise<BillAnalysisResult | null> {
+        return extractWithModel(`${this.model} (OpenAI-compatible)`, prompt => this.complete(prompt), input);
+    }
+
+    private async complete(prompt: ModelPrompt): Promise<string> {
+        const headers: { [name: string]: string } = { 'content-type': 'application/json' };
+        if (this.apiKey) {
+            headers.authorization = `Bearer ${this.apiKey}`;
+        }
+        const response = await this.fetchFn(`${this.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify({
+                model: this.model,
+                messages: [{ role: 'system', content: prompt.system }, { role: 'user', content: buildUserContent(prompt) }],
+                response_format: { type: 'json_object' },
+                temperature: 0
+            })
+        });
+        if (!response.ok) {
+            throw new Error(`Chat completions endpoint returned ${response.status}: ${await response.text()}`);
+        }
+        const body: any = await response.json();
+        const content = body.choices?.[0]?.message?.content;
+        if (typeof content !== 'string') {
+            throw new Error(`Chat completions response has no message content: ${JSON.stringify(body)}`);
+        }
+        return content;
+    }
+}
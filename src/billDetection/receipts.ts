@@ -0,0 +1,174 @@
+import { execFile } from 'child_process';
+import { normalizeCurrency } from '../services/fx';
+import { ReceiptLineItem } from './types';
+
+/**
+ * A photo posted in the analyzed chat, referred to as "[image #n]" in the message lines
+ */
+export interface ReceiptImage {
+    number: number;
+    url: string;
+    messageUrl: string;
+    author: string; // Tag of the user who posted it
+    contentType: string;
+    size: number; // Bytes, as reported by Discord
+    data?: string; // Base64 image, set once downloaded for a model that reads images
+    ocrText?: string; // Set once read by OCR for extractors that only take text
+}
+
+// Only the most recent photos are analyzed; receipts are usually posted right before the request
+export const MAX_RECEIPT_IMAGES = 4;
+const MAX_RECEIPT_IMAGE_BYTES = 8 * 1024 * 1024;
+const RECEIPT_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif'];
+
+// Whether an attachment is a photo the analysis can use
+export function isReceiptImageAttachment(contentType: string | null | undefined, size: number): boolean {
+    return !!contentType && RECEIPT_IMAGE_TYPES.includes(contentType.split(';')[0].trim()) && size <= MAX_RECEIPT_IMAGE_BYTES;
+}
+
+/**
+ * Reads the text in an image
+ */
+export interface OcrEngine {
+    readonly name: string;
+    recognize(image: Buffer): Promise<string>;
+}
+
+/**
+ * Runs the tesseract command line tool locally, so receipts can be read without a vision model
+ */
+export class TesseractOcr implements OcrEngine {
+    readonly name = 'tesseract';
+
+    constructor(private readonly command: string = 'tesseract', private readonly timeoutMs: number = 30_000) {}
+
+    recognize(image: Buffer): Promise<string> {
+        return new Promise((resolve, reject) => {
+            const child = execFile(this.command, ['stdin', 'stdout'], { timeout: this.timeoutMs, maxBuffer: 1024 * 1024 }, (error, stdout) => {
+                if (error) {
+                    const reason = (error as NodeJS.ErrnoException).code === 'ENOENT' ? `${this.command} is not installed` : error.message;
+                    reject(new Error(reason));
+                } else {
+                    resolve(stdout);
+                }
+            });
+            child.stdin?.on('error', () => {}); // Reported through the callback if the process fails
+            child.stdin?.end(image);
+        });
+    }
+}
+
+/**
+ * Downloads the chat's receipt photos for the extractor: as image data when it
+ * reads images itself, otherwise as OCR text
+ * @returns The images that could be read, and why the others couldn't
+ */
+export async function prepareReceiptImages(
+    images: ReceiptImage[],
+    acceptsImages: boolean,
+    ocr: OcrEngine | null,
+    fetchFn: typeof fetch = fetch
+): Promise<{ images: ReceiptImage[]; problems: string[] }> {
+    const prepared: ReceiptImage[] = [];
+    const problems: string[] = [];
+    for (const image of images) {
+        try {
+            if (!acceptsImages && !ocr) {
+                throw new Error('no OCR engine is configured');
+            }
+            const response = await fetchFn(image.url);
+            if (!response.ok) {
+                throw new Error(`download failed with status ${response.status}`);
+            }
+            const data = Buffer.from(await response.arrayBuffer());
+            if (acceptsImages) {
+                prepared.push({ ...image, data: data.toString('base64') });
+            } else {
+                const text = (await ocr!.recognize(data)).trim();
+                if (!text) throw new Error('no text was found in it');
+                prepared.push({ ...image, ocrText: text });
+            }
+        } catch (error) {
+            problems.push(`Image #${image.number} from ${image.author} could not be read: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+    return { images: prepared, problems };
+}
+
+/**
+ * What could be made out of a receipt's OCR text
+ */
+export interface ParsedReceipt {
+    merchant?: string; // First line without an amount, usually the shop name
+    items: ReceiptLineItem[]; // Empty unless the items agree with the total
+    subtotal?: number;
+    tax?: number;
+    tip?: number;
+    total: number;
+    currency?: string; // Only set when the receipt shows a symbol or unit
+}
+
+// "Label ..... $12.50", "Label 12,000원"
+const RECEIPT_LINE = /^(.*?)[\s:.]*([$€£₩¥])?\s*(\d{1,3}(?:,\d{3})+(?:\.\d{1,2})?|\d+(?:\.\d{1,2})?)\s*(원|won|krw|usd|eur)?$/i;
+const SUBTOTAL_LABEL = /sub\s*-?\s*total|소계/i;
+const TOTAL_LABEL = /\btotal\b|amount\s+due|balance\s+due|합계|총액|결제\s*금액/i;
+const TAX_LABEL = /\btax\b|\bvat\b|\bgst\b|부가세|세금/i;
+const TIP_LABEL = /\btip\b|gratuity|service\s+charge|봉사료/i;
+const PAYMENT_LABEL = /change|cash|card|visa|master\s*card|amex|tender|payment|거스름|카드|현금/i;
+const RECEIPT_TOLERANCE = 0.01;
+
+/**
+ * Picks the line items, subtotal, tax, tip and total out of OCR text from a receipt
+ * @returns null if no total can be found or worked out
+ */
+export function parseReceiptText(text: string): ParsedReceipt | null {
+    let merchant: string | undefined;
+    let currency: string | undefined;
+    const items: ReceiptLineItem[] = [];
+    let subtotal: number | undefined;
+    let total: number | undefined;
+    let tax = 0;
+    let tip = 0;
+
+    for (const rawLine of text.split('\n')) {
+        const line = rawLine.trim();
+        if (!line) continue;
+        const match = line.match(RECEIPT_LINE);
+        const label = match?.[1].trim() ?? '';
+        if (!match || !/\p{L}/u.test(label)) {
+            if (!merchant && !match && /\p{L}{2,}/u.test(line)) merchant = line;
+            continue;
+        }
+        const amount = Number(match[3].replace(/,/g, ''));
+        const unit = match[2] ?? match[4];
+        if (unit && !currency) currency = normalizeCurrency(unit);
+
+        if (SUBTOTAL_LABEL.test(label)) {
+            subtotal = amount;
+        } else if (TOTAL_LABEL.test(label)) {
+            total ??= amount;
+        } else if (TAX_LABEL.test(label)) {
+            tax += amount;
+        } else if (TIP_LABEL.test(label)) {
+            tip += amount;
+        } else if (!PAYMENT_LABEL.test(label) && total === undefined && amount > 0) {
+            items.push({ description: label, amount });
+        }
+    }
+
+    const itemsTotal = items.reduce((sum, item) => sum + item.amount, 0);
+    total ??= (subtotal ?? itemsTotal) + tax + tip;
+    if (!(total > 0)) return null;
+
+    // A misread item would skew an itemized split, so items are only kept when they add up
+    const itemsAgree = items.length > 0 && Math.abs(itemsTotal + tax + tip - total) <= RECEIPT_TOLERANCE;
+    return {
+        ...(merchant ? { merchant } : {}),
+        items: itemsAgree ? items : [],
+        ...(subtotal !== undefined ? { subtotal } : {}),
+        ...(tax > 0 ? { tax } : {}),
+        ...(tip > 0 ? { tip } : {}),
+        total: Number(total.toFixed(2)),
+        ...(currency ? { currency } : {})
+    };
+}
@@ -0,0 +1,146 @@
+import { normalizeCurrency } from '../services/fx';
+import { ExpenseExtractor, ExtractionInput } from './extractor';
+import { parseReceiptText } from './receipts';
+import { BillAnalysisResult, ParsedExpense } from './types';
+import { validateBillAnalysis } from './validation';
+
+// "$60", "€12.50", "60,000 won", "15 USD"
+const AMOUNT_PATTERN = String.raw`(?:([$€£₩¥])\s?(\d[\d,]*(?:\.\d+)?)|(\d[\d,]*(?:\.\d+)?)\s?(usd|dollars?|krw|won|원|jpy|yen|eur|euros?|gbp|eth)(?![a-z]))`;
+
+// "<subject> [also] paid|covered|got|bought [for] [the] <amount> [for|on] <rest of the sentence>"
+const PAYMENT_PATTERN = new RegExp(
+    String.raw`(?:^|[\s,;])(<@!?\d+>|[\p{L}\p{N}_.]+)\s+(?:also\s+|just\s+)?(?:paid|covered|got|bought|picked\s+up|spent)\s+(?:for\s+)?(?:the\s+)?${AMOUNT_PATTERN}\s*(?:(?:for|on)\s+)?([^.!?\n,;]*)`,
+    'giu'
+);
+
+// Who "for all of us" and friends refer to: everyone in the mapping
+const EVERYONE_PATTERN = /^(?:all(?:\s+\w+)?\s+of\s+us|everyone|everybody|us\s+all|all|us|the\s+(?:whole\s+)?(?:group|table|team))$/i;
+
+// An expense as the validator takes it, which refers to receipt photos by number
+type RawExpense = ParsedExpense & { receiptImage?: number };
+
+interface UserDirectory {
+    all: string[]; // Mentions in mapping order
+    lookup(name: string): string | undefined;
+}
+
+// Parses "username (display name) = <@id>" and "name (guest) = <guest:id>" lines into a case-insensitive name lookup
+function buildDirectory(input: ExtractionInput): UserDirectory {
+    const byName = new Map<string, string>();
+    for (const line of input.userMappingText.split('\n')) {
+        const match = line.match(/^(.+?)(?:\s+\((.*)\))?\s*=\s*(<@!?\d+>|<guest:\d+>)\s*$/);
+        if (!match) continue;
+        const mention = match[3].replace('<@!', '<@');
+        for (const name of [match[1], match[2]]) {
+            if (name?.trim()) byName.set(name.trim().toLowerCase(), mention);
+        }
+    }
+    return {
+        all: input.mentionedUsers,
+        lookup: name => {
+            const key = name.trim().toLowerCase().replace(/#\d+$/, '').replace(/^@/, '');
+            const mention = key.match(/^<@!?(\d+)>$/);
+            if (mention) return `<@${mention[1]}>`;
+            return byName.get(key);
+        }
+    };
+}
+
+// Turns the words after the amount into a description and, if they say, who shared it
+function splitScope(rest: string, author: string, directory: UserDirectory): { description: string; participants?: string[] } {
+    const text = rest.trim().replace(/[\s,;:]+$/, '');
+    const resolveList = (list: string): string[] | undefined => {
+        if (EVERYONE_PATTERN.test(list.trim())) return directory.all;
+        const names = list.split(/\s*(?:,|&|\band\b)\s*/i).filter(Boolean);
+        const mentions = names.map(name => /^(?:me|myself)$/i.test(name) ? author : directory.lookup(name));
+        return names.length > 0 && mentions.every(Boolean) ? mentions as string[] : undefined;
+    };
+
+    const whole = resolveList(text);
+    if (text && whole) return { description: '', participants: whole };
+
+    const forIndex = text.toLowerCase().lastIndexOf(' for ');
+    if (forIndex >= 0) {
+        const participants = resolveList(text.slice(forIndex + 5));
+        if (participants) return { description: text.slice(0, forIndex), participants };
+    }
+    return { description: text };
+}
+
+function formatDescription(description: string): string {
+    const trimmed = description.trim().replace(/^(?:the|a|an|our)\s+/i, '');
+    return trimmed ? trimmed.charAt(0).toUpperCase() + trimmed.slice(1) : 'Expense';
+}
+
+/**
+ * Finds "X paid $N for Y for all of us" style statements without calling a model.
+ *
+ * Deterministic and offline, so it works without any API key, but it only catches
+ * explicit payments. "I" is the message author; expenses without a "for ..." go
+ * to everyone in the user mapping.
+ */
+export class RuleBasedExtractor implements ExpenseExtractor {
+    readonly name = 'rules';
+    readonly description = 'Offline rule-based parser (no network, explicit "X paid $N for Y" statements and OCR\'d receipts only)';
+    readonly acceptsImages = false;
+
+    async extract(input: ExtractionInput): Promise<BillAnalysisResult | null> {
+        const directory = buildDirectory(input);
+        const expenses: RawExpense[] = [];
+
+        for (const line of input.messages) {
+            const separator = line.indexOf(': ');
+            if (separator < 0) continue;
+            const author = directory.lookup(line.slice(0, separator));
+            const content = line.slice(separator + 2);
+
+            for (const match of content.matchAll(PAYMENT_PATTERN)) {
+                const [, subject, symbol, symbolAmount, unitAmount, unit, rest] = match;
+                const payer = /^i$/i.test(subject) ? author : directory.lookup(subject);
+                if (!payer) continue; // "we paid", or someone who isn't in the mapping
+
+                const amount = Number((symbolAmount ?? unitAmount).replace(/,/g, ''));
+                const { description, participants } = splitScope(rest ?? '', author ?? payer, directory);
+                expenses.push({
+                    description: formatDescription(description),
+                    amount,
+                    currency: normalizeCurrency(symbol ?? unit),
+                    payer,
+                    participants: participants ?? directory.all,
+                    splitType: 'equal'
+                });
+            }
+        }
+
+        // Receipts are paid by whoever posted them and shared by everyone
+        for (const image of input.images ?? []) {
+            const receipt = image.ocrText ? parseReceiptText(image.ocrText) : null;
+            const payer = directory.lookup(image.author);
+            if (!receipt || !payer) continue;
+            expenses.push({
+                description: receipt.merchant ? `Receipt: ${receipt.merchant}` : `Receipt (image #${image.number})`,
+                amount: receipt.total,
+                currency: receipt.currency ?? 'USD',
+                payer,
+                participants: directory.all,
+                splitType: 'equal',
+                ...(receipt.items.length > 0 ? { lineItems: receipt.items } : {}),
+                ...(receipt.tax ? { tax: receipt.tax } : {}),
+                ...(receipt.tip ? { tip: receipt.tip } : {}),
+                receiptImage: image.number
+            });
+        }
+
+        // Still validated: a mention in the chat can point at someone outside the mapping
+        const currency = expenses[0]?.currency ?? 'USD';
+        const { analysis, issues } = validateBillAnalysis({
+            expenses,
+            totalAmount: expenses.filter(expense => expense.currency === currency).reduce((sum, expense) => sum + expense.amount, 0),
+            currency,
+            summary: expenses.length > 0
+                ? `Found ${expenses.length} explicit payment(s) in the chat history with the offline parser.`
+                : 'No clear expenses found in the chat history.'
+        }, input.mentionedUsers, input.images);
+        return issues.length > 0 ? { ...analysis, issues } : analysis;
+    }
+}
@@ -0,0 +1,131 @@
+import { TextChannel } from 'discord.js';
+import { ChatMember } from './identity';
+import { isReceiptImageAttachment, MAX_RECEIPT_IMAGES, ReceiptImage } from './receipts';
+import { AnalyzedRange } from './types';
+import { AnalysisWindow } from './window';
+
+// Most messages, thread messages included, fetched for one analysis
+export const MAX_SCRAPED_MESSAGES = 2000;
+const PAGE_SIZE = 100;
+
+/**
+ * Chat history prepared for analysis
+ */
+export interface ScrapedChat {
+    messages: string[]; // "author: content" lines, oldest first; photos appear as "[image #n]"
+    messageIds: string[]; // ID of each message line
+    authors: ChatMember[]; // Everyone who wrote in the window, in order of first message
+    images: ReceiptImage[]; // The most recent photos, numbered as in the message lines
+    range: AnalyzedRange | null; // Null when nothing was found
+}
+
+// Anything with a message history: text channels and their threads
+interface MessageSource {
+    messages: { fetch(options: { limit: number; before?: string }): Promise<any> };
+}
+
+/**
+ * Pages backwards through a channel from the end of the window to its start
+ * @returns The messages in the window, oldest first, and whether the limit cut it short
+ */
+async function fetchWindow(source: MessageSource, window: AnalysisWindow, limit: number): Promise<{ messages: any[]; truncated: boolean }> {
+    const start = BigInt(window.startId);
+    const collected: any[] = [];
+    // `before` is exclusive, so start just after the last message of the window
+    let before = window.endId ? (BigInt(window.endId) + 1n).toString() : undefined;
+
+    while (collected.length < limit) {
+        const batch = await source.messages.fetch({ limit: PAGE_SIZE, ...(before ? { before } : {}) });
+        const page = Array.from(batch.values()) as any[]; // Newest first
+        const inWindow = page.filter(msg => BigInt(msg.id) >= start);
+        collected.push(...inWindow.slice(0, limit - collected.length));
+        if (inWindow.length < page.length || page.length < PAGE_SIZE) {
+            return { messages: collected.reverse(), truncated: false };
+        }
+        before = page[page.length - 1].id;
+    }
+    return { messages: collected.reverse(), truncated: true };
+}
+
+/**
+ * Collects the messages in a window, including replies in threads started from them
+ */
+export async function scrapeMessages(channel: TextChannel, window: AnalysisWindow): Promise<ScrapedChat> {
+    try {
+        const main = await fetchWindow(channel, window, MAX_SCRAPED_MESSAGES);
+        let truncated = main.truncated;
+        const scraped = [...main.messages];
+
+        let threadCount = 0;
+        let threadMessageCount = 0;
+        for (const starter of main.messages.filter(msg => msg.hasThread && msg.thread)) {
+            const remaining = MAX_SCRAPED_MESSAGES - scraped.length;
+            if (remaining <= 0) {
+                truncated = true;
+                break;
+            }
+            const thread = await fetchWindow(starter.thread, window, remaining);
+            truncated ||= thread.truncated;
+            const threadMessages = thread.messages.filter(msg => !msg.system && !msg.author.bot);
+            if (threadMessages.length > 0) threadCount++;
+            threadMessageCount += threadMessages.length;
+            scraped.push(...threadMessages);
+        }
+
+        const analyzed = scraped
+            .filter(msg => !msg.system && !msg.author.bot)
+            .sort((a, b) => (BigInt(a.id) < BigInt(b.id) ? -1 : 1));
+        const chat = formatScrapedMessages(analyzed);
+        const range: AnalyzedRange | null = analyzed.length === 0 ? null : {
+            description: window.description,
+            from: analyzed[0].createdTimestamp,
+            to: analyzed[analyzed.length - 1].createdTimestamp,
+            firstMessageUrl: analyzed[0].url,
+            lastMessageUrl: analyzed[analyzed.length - 1].url,
+            messageCount: analyzed.length,
+            threadMessageCount,
+            threadCount,
+            truncated
+        };
+        console.log(`[DEBUG] Scraped ${chat.messages.length} messages (${threadMessageCount} from ${threadCount} threads) and ${chat.images.length} images from ${window.description}`);
+        return { ...chat, range };
+    } catch (error) {
+        console.error('Error scraping messages:', error);
+        return { messages: [], messageIds: [], authors: [], images: [], range: null };
+    }
+}
+
+/**
+ * Turns messages (oldest first) into message lines, numbering the photos so the
+ * model can tie each one to the message it was posted with
+ */
+export function formatScrapedMessages(scraped: any[]): Omit<ScrapedChat, 'range'> {
+    const photos = scraped.flatMap((msg: any) => Array.from(msg.attachments?.values() ?? [])
+        .filter((attachment: any) => isReceiptImageAttachment(attachment.contentType, attachment.size))
+        .map((attachment: any) => ({ msg, attachment })));
+    const analyzed = photos.slice(-MAX_RECEIPT_IMAGES);
+
+    const images: ReceiptImage[] = analyzed.map(({ msg, attachment }, i) => ({
+        number: i + 1,
+        url: attachment.url,
+        messageUrl: msg.url,
+        author: msg.author.tag,
+        contentType: attachment.contentType,
+        size: attachment.size
+    }));
+
+    const messages = scraped.map((msg: any) => {
+        const markers = analyzed
+            .filter(photo => photo.msg === msg)
+            .map(photo => `[image #${images[analyzed.indexOf(photo)].number}]`);
+        const content = [msg.content, ...markers].filter(Boolean).join(' ');
+        return `${msg.author.tag}: ${content}`;
+    });
+    const authors = new Map<string, ChatMember>();
+    for (const msg of scraped) {
+        if (!authors.has(msg.author.id)) {
+            authors.set(msg.author.id, { id: msg.author.id, username: msg.author.username, globalName: msg.author.globalName, nickname: msg.member?.nickname });
+        }
+    }
+    return { messages, messageIds: scraped.map((msg: any) => msg.id), authors: [...authors.values()], images };
+}
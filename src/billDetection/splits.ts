@@ -0,0 +1,107 @@
+import { SplitRule } from '../tokenUtils';
+import { ParsedExpense } from './types';
+
+// Largest gap between the custom shares' sum and the expense amount that is put down to rounding
+const CUSTOM_SPLIT_TOLERANCE = 0.01;
+
+export interface ExpenseSplit {
+    rule: SplitRule; // One entry per participant, in the order of expense.participants
+    shares: number[]; // What each participant owes, in the expense's currency, for display
+    warning?: string; // Set when a custom split was unusable and the expense is split equally instead
+}
+
+/**
+ * Checks a custom split from the analysis against the expense
+ * @returns Why the split can't be used, or null if it is valid
+ */
+export function validateCustomSplits(expense: ParsedExpense): string | null {
+    const customSplits = expense.customSplits;
+    if (!customSplits || Object.keys(customSplits).length === 0) {
+        return 'no custom shares were given';
+    }
+
+    const unknown = Object.keys(customSplits).filter(participant => !expense.participants.includes(participant));
+    if (unknown.length > 0) {
+        return `${unknown.join(', ')} ${unknown.length === 1 ? 'is' : 'are'} not listed as a participant`;
+    }
+    const missing = expense.participants.filter(participant => !(participant in customSplits));
+    if (missing.length > 0) {
+        return `no share was given for ${missing.join(', ')}`;
+    }
+    const invalid = Object.entries(customSplits).filter(([, share]) => typeof share !== 'number' || !Number.isFinite(share) || share < 0);
+    if (invalid.length > 0) {
+        return `${invalid.map(([participant]) => participant).join(', ')} ${invalid.length === 1 ? 'has' : 'have'} an invalid share`;
+    }
+
+    const total = Object.values(customSplits).reduce((sum, share) => sum + share, 0);
+    if (Math.abs(total - expense.amount) > CUSTOM_SPLIT_TOLERANCE) {
+        return `the shares add up to ${Number(total.toFixed(2))} ${expense.currency}, not ${expense.amount} ${expense.currency}`;
+    }
+    if (total === 0) {
+        return 'every share is zero';
+    }
+    return null;
+}
+
+/**
+ * Works out each participant's share of a receipt from who had which item. Items
+ * without participants are shared by everyone, and whatever the items don't
+ * cover (tax, tip, fees) is shared in proportion to what each person had.
+ * @returns The shares, in the order of expense.participants, or why they can't be worked out
+ */
+export function itemizeExpense(expense: ParsedExpense): { shares: number[] } | { problem: string } {
+    const items = expense.lineItems ?? [];
+    const unknown = [...new Set(items.flatMap(item => item.participants ?? []))].filter(participant => !expense.participants.includes(participant));
+    if (unknown.length > 0) {
+        return { problem: `${unknown.join(', ')} ${unknown.length === 1 ? 'is' : 'are'} not listed as a participant` };
+    }
+    const itemsTotal = items.reduce((sum, item) => sum + item.amount, 0);
+    if (itemsTotal <= 0) {
+        return { problem: `the items add up to ${Number(itemsTotal.toFixed(2))} ${expense.currency}, so they can't say who owes what` };
+    }
+    if (itemsTotal > expense.amount + CUSTOM_SPLIT_TOLERANCE) {
+        return { problem: `the items add up to ${Number(itemsTotal.toFixed(2))} ${expense.currency}, more than the ${expense.amount} ${expense.currency} paid` };
+    }
+
+    const had = expense.participants.map(() => 0);
+    for (const item of items) {
+        const sharers = item.participants?.length ? item.participants : expense.participants;
+        for (const sharer of sharers) {
+            had[expense.participants.indexOf(sharer)] += item.amount / sharers.length;
+        }
+    }
+    const scale = expense.amount / itemsTotal;
+    return { shares: had.map(amount => Math.round(amount * scale * 10_000) / 10_000) };
+}
+
+/**
+ * Decides how an expense is divided between its participants. Custom splits and
+ * itemized receipts are used as weights, so the converted token amounts still add
+ * up to exactly the total.
+ */
+export function resolveExpenseSplit(expense: ParsedExpense): ExpenseSplit {
+    const equal: ExpenseSplit = {
+        rule: { type: 'equal', participants: expense.participants.length },
+        shares: expense.participants.map(() => expense.amount / expense.participants.length)
+    };
+    if (expense.splitType !== 'custom') {
+        // Receipt items only change the split once someone is named on one
+        if (!expense.lineItems?.some(item => item.participants?.length)) {
+            return equal;
+        }
+        const itemized = itemizeExpense(expense);
+        if ('problem' in itemized) {
+            return { ...equal, warning: `Itemized split for "${expense.description}" doesn't work (${itemized.problem}), so it is split equally instead.` };
+        }
+        return { rule: { type: 'shares', weights: itemized.shares }, shares: itemized.shares };
+    }
+
+    const problem = validateCustomSplits(expense);
+    if (problem) {
+        return { ...equal, warning: `Custom split for "${expense.description}" doesn't work (${problem}), so it is split equally instead.` };
+    }
+
+    // Round to the 4 decimal places split weights allow
+    const shares = expense.participants.map(participant => Math.round(expense.customSplits![participant] * 10_000) / 10_000);
+    return { rule: { type: 'shares', weights: shares }, shares };
+}
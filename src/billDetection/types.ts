@@ -0,0 +1,69 @@
+// One item read off a receipt
+export interface ReceiptLineItem {
+    description: string;
+    amount: number;
+    participants?: string[]; // Who shared the item; everyone on the expense when unset
+}
+
+// The photo an expense was read from
+export interface ReceiptSource {
+    imageUrl: string;
+    messageUrl: string; // The chat message the photo was posted in
+}
+
+// Proposals already made for an expense by an earlier analysis, counted by status;
+// "unsigned" ones are waiting for the payer's signature in non-custodial mode, "held"
+// ones are guests' debts waiting for them to register, and "deferred" ones are queued
+// for members who haven't registered yet
+export type RecordedProposals = Partial<Record<'pending' | 'confirmed' | 'rejected' | 'unsigned' | 'held' | 'deferred', number>>;
+
+export interface ParsedExpense {
+    description: string;
+    amount: number;
+    currency: string;
+    payer: string;
+    participants: string[];
+    splitType: 'equal' | 'custom';
+    customSplits?: { [participant: string]: number };
+    editedBy?: string[]; // Tags of users who changed the expense before it was confirmed
+    lineItems?: ReceiptLineItem[]; // Items from a receipt; items with participants make the split itemized
+    tax?: number; // Included in amount; shared in proportion to the items
+    tip?: number; // Included in amount; shared in proportion to the items
+    receipt?: ReceiptSource;
+    sourceMessageIds?: string[]; // Chat messages the expense was read from
+    recorded?: RecordedProposals; // Set when the expense was already proposed; it is skipped on confirmation
+    approvedByPayer?: boolean; // Only approved expenses are proposed, since proposals are signed with the payer's key
+    objections?: string[]; // Participants holding the expense back
+}
+
+// A name from the chat matched to a user with too little confidence to trust unchecked
+export interface UncertainIdentity {
+    name: string; // As written in the chat
+    mention: string;
+    confidence: number; // From 0 to 1
+}
+
+// Which messages an analysis was made from, for the preview
+export interface AnalyzedRange {
+    description: string; // What was asked for, e.g. "the last 72 hours"
+    from: number; // Timestamp of the oldest analyzed message
+    to: number; // Timestamp of the newest analyzed message
+    firstMessageUrl: string;
+    lastMessageUrl: string;
+    messageCount: number; // Including thread messages
+    threadMessageCount: number;
+    threadCount: number;
+    truncated: boolean; // The message cap was reached before the start of the window
+}
+
+export interface BillAnalysisResult {
+    expenses: ParsedExpense[];
+    totalAmount: number;
+    currency: string;
+    summary: string;
+    participants: string[];
+    issues?: string[]; // Fields rejected when validating the model's response; affected expenses were dropped
+    analyzedRange?: AnalyzedRange;
+    uncertainIdentities?: UncertainIdentity[]; // Flagged on the expenses they appear in
+    guestNames?: { [mention: string]: string }; // Names of the guests in the analysis, whose mentions Discord can't render
+}
@@ -0,0 +1,63 @@
+import { AliasRecord } from '../services/identities';
+import { buildAliasTable, ChatMember, MIN_CONFIDENCE, resolveName } from './identity';
+
+// Helper function to extract user ID from Discord mention format <@123456>
+export function extractUserIdFromMention(mention: string): string | null {
+    const match = mention.match(/^<@!?(\d+)>$/);
+    return match ? match[1] : null;
+}
+
+// Helper function to format user display for messages (converts mentions to readable format)
+export async function formatUserDisplay(userIdentifier: string, guild: any): Promise<string> {
+    const userId = extractUserIdFromMention(userIdentifier);
+    if (userId) {
+        try {
+            const member = guild.members.cache.get(userId) || await guild.members.fetch(userId);
+            return member.displayName || member.user.username;
+        } catch {
+            return `<@${userId}>`;  // Fallback to mention if user not found
+        }
+    }
+    return userIdentifier; // Return as-is if not a mention
+}
+
+// The names a server member goes by, for the alias table
+export function toChatMember(member: any): ChatMember {
+    return { id: member.user.id, username: member.user.username, globalName: member.user.globalName, nickname: member.nickname };
+}
+
+// Helper function to find Discord user by tag/username
+export async function findUserByTag(userIdentifier: string, guild: any, aliases: AliasRecord[] = []): Promise<any> {
+    try {
+        // First, try to extract user ID from mention format <@123456>
+        const userId = extractUserIdFromMention(userIdentifier);
+        if (userId) {
+            const member = guild.members.cache.get(userId);
+            if (member) return member.user;
+            
+            // If not cached, try to fetch from Discord
+            try {
+                const fetchedMember = await guild.members.fetch(userId);
+                return fetchedMember.user;
+            } catch (fetchError) {
+                console.log(`Could not fetch user with ID ${userId}`);
+            }
+        }
+        
+        // Fallback: Try to find by tag first (username#discriminator)
+        const member = guild.members.cache.find((m: any) => m.user.tag === userIdentifier);
+        if (member) return member.user;
+        
+        // Otherwise match the name against the members' usernames, nicknames and the guild's aliases
+        const members = Array.from(guild.members.cache.values());
+        const match = resolveName(userIdentifier, buildAliasTable(members.map(toChatMember), aliases));
+        if (match && match.confidence >= MIN_CONFIDENCE) {
+            return findUserByTag(match.mention, guild);
+        }
+        
+        return null;
+    } catch (error) {
+        console.error(`Error finding user by identifier ${userIdentifier}:`, error);
+        return null;
+    }
+}
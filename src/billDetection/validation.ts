@@ -0,0 +1,189 @@
+import { ReceiptImage } from './receipts';
+import { BillAnalysisResult, ParsedExpense, ReceiptLineItem } from './types';
+
+// Largest gap between the reported total and the sum of the expenses that is put down to rounding
+const TOTAL_TOLERANCE = 0.01;
+
+export interface ValidatedBillAnalysis {
+    analysis: BillAnalysisResult; // Only the expenses that passed validation
+    issues: string[]; // One entry per rejected field
+}
+
+function describeValue(value: unknown): string {
+    return value === undefined ? 'nothing' : JSON.stringify(value);
+}
+
+// Discord accepts <@!id> for nickname mentions; the mapping uses <@id>
+function normalizeMention(value: string): string {
+    return value.trim().replace(/^<@!(\d+)>$/, '<@$1>');
+}
+
+function validateExpense(raw: any, label: string, allowedMentions: Set<string>, images: ReceiptImage[], issues: string[]): ParsedExpense | null {
+    if (typeof raw !== 'object' || raw === null) {
+        issues.push(`${label}: expected an object, got ${describeValue(raw)}`);
+        return null;
+    }
+    const problems: string[] = [];
+
+    const description = typeof raw.description === 'string' ? raw.description.trim() : '';
+    if (!description) problems.push(`description must be a non-empty string, got ${describeValue(raw.description)}`);
+
+    if (typeof raw.amount !== 'number' || !Number.isFinite(raw.amount) || raw.amount <= 0) {
+        problems.push(`amount must be a positive number, got ${describeValue(raw.amount)}`);
+    }
+
+    const currency = typeof raw.currency === 'string' ? raw.currency.trim() : '';
+    if (!currency) problems.push(`currency must be a non-empty string, got ${describeValue(raw.currency)}`);
+
+    const payer = typeof raw.payer === 'string' ? normalizeMention(raw.payer) : '';
+    if (!allowedMentions.has(payer)) {
+        problems.push(`payer ${describeValue(raw.payer)} is not one of the users in the mapping`);
+    }
+
+    let participants: string[] = [];
+    if (!Array.isArray(raw.participants) || raw.participants.length === 0) {
+        problems.push(`participants must be a non-empty list, got ${describeValue(raw.participants)}`);
+    } else {
+        const unknown = raw.participants.filter((p: unknown) => typeof p !== 'string' || !allowedMentions.has(normalizeMention(p)));
+        if (unknown.length > 0) {
+            problems.push(`participants ${unknown.map(describeValue).join(', ')} are not users in the mapping`);
+        }
+        participants = [...new Set<string>(raw.participants.filter((p: unknown) => typeof p === 'string').map(normalizeMention))];
+    }
+
+    const splitType = raw.splitType ?? 'equal';
+    if (splitType !== 'equal' && splitType !== 'custom') {
+        problems.push(`splitType must be "equal" or "custom", got ${describeValue(raw.splitType)}`);
+    }
+
+    let customSplits: { [participant: string]: number } | undefined;
+    if (raw.customSplits !== undefined && raw.customSplits !== null) {
+        if (typeof raw.customSplits !== 'object' || Array.isArray(raw.customSplits)) {
+            problems.push(`customSplits must be an object of amounts, got ${describeValue(raw.customSplits)}`);
+        } else {
+            customSplits = {};
+            for (const [participant, share] of Object.entries(raw.customSplits)) {
+                if (typeof share !== 'number' || !Number.isFinite(share)) {
+                    problems.push(`customSplits[${participant}] must be a number, got ${describeValue(share)}`);
+                } else {
+                    customSplits[normalizeMention(participant)] = share;
+                }
+            }
+        }
+    }
+
+    let lineItems: ReceiptLineItem[] | undefined;
+    if (raw.lineItems !== undefined && raw.lineItems !== null) {
+        if (!Array.isArray(raw.lineItems)) {
+            problems.push(`lineItems must be a list, got ${describeValue(raw.lineItems)}`);
+        } else {
+            lineItems = [];
+            raw.lineItems.forEach((item: any, i: number) => {
+                const itemDescription = typeof item?.description === 'string' ? item.description.trim() : '';
+                if (!itemDescription || typeof item.amount !== 'number' || !Number.isFinite(item.amount) || item.amount <= 0) {
+                    problems.push(`lineItems[${i}] must have a description and a positive amount, got ${describeValue(item)}`);
+                    return;
+                }
+                if (item.participants === undefined || item.participants === null) {
+                    lineItems!.push({ description: itemDescription, amount: item.amount });
+                    return;
+                }
+                const itemParticipants = Array.isArray(item.participants) ? item.participants.filter((p: unknown) => typeof p === 'string').map(normalizeMention) : [];
+                if (itemParticipants.length === 0 || itemParticipants.length !== item.participants.length || itemParticipants.some((p: string) => !participants.includes(p))) {
+                    problems.push(`lineItems[${i}] participants must be participants of the expense, got ${describeValue(item.participants)}`);
+                    return;
+                }
+                lineItems!.push({ description: itemDescription, amount: item.amount, participants: [...new Set<string>(itemParticipants)] });
+            });
+        }
+    }
+
+    const extras: { tax?: number; tip?: number } = {};
+    for (const field of ['tax', 'tip'] as const) {
+        if (raw[field] === undefined || raw[field] === null) continue;
+        if (typeof raw[field] !== 'number' || !Number.isFinite(raw[field]) || raw[field] < 0) {
+            problems.push(`${field} must be a non-negative number, got ${describeValue(raw[field])}`);
+        } else if (raw[field] > 0) {
+            extras[field] = raw[field];
+        }
+    }
+
+    let receiptImage: ReceiptImage | undefined;
+    if (raw.receiptImage !== undefined && raw.receiptImage !== null) {
+        receiptImage = images.find(image => image.number === raw.receiptImage);
+        if (!receiptImage) {
+            problems.push(`receiptImage ${describeValue(raw.receiptImage)} is not one of the images in the chat`);
+        }
+    }
+
+    if (problems.length > 0) {
+        issues.push(...problems.map(problem => `${label}: ${problem}`));
+        return null;
+    }
+    return {
+        description, amount: raw.amount, currency, payer, participants, splitType,
+        ...(customSplits ? { customSplits } : {}),
+        ...(lineItems && lineItems.length > 0 ? { lineItems } : {}),
+        ...extras,
+        ...(receiptImage ? { receipt: { imageUrl: receiptImage.url, messageUrl: receiptImage.messageUrl } } : {})
+    };
+}
+
+/**
+ * Checks a bill analysis returned by the model before anything is proposed from it.
+ *
+ * Expenses with a missing or mistyped field, a non-positive amount, or a payer or
+ * participant outside the user mapping are dropped, and each rejected field is
+ * reported. The total is recomputed from the expenses that remain.
+ *
+ * @param raw - The parsed JSON response
+ * @param allowedMentions - Mentions from the user mapping given to the model
+ * @param images - Receipt photos the model was shown, which `receiptImage` refers to by number
+ */
+export function validateBillAnalysis(raw: unknown, allowedMentions: string[], images: ReceiptImage[] = []): ValidatedBillAnalysis {
+    const issues: string[] = [];
+    const allowed = new Set(allowedMentions.map(normalizeMention));
+    const root: any = typeof raw === 'object' && raw !== null && !Array.isArray(raw) ? raw : {};
+    if (root !== raw) {
+        issues.push(`Response must be a JSON object, got ${describeValue(raw)}`);
+    }
+
+    let rawExpenses: unknown[] = [];
+    if (Array.isArray(root.expenses)) {
+        rawExpenses = root.expenses;
+    } else if (root === raw) {
+        issues.push(`expenses must be a list, got ${describeValue(root.expenses)}`);
+    }
+
+    const expenses: ParsedExpense[] = [];
+    rawExpenses.forEach((rawExpense: any, i) => {
+        const name = typeof rawExpense?.description === 'string' && rawExpense.description.trim() ? ` ("${rawExpense.description.trim()}")` : '';
+        const expense = validateExpense(rawExpense, `Expense ${i + 1}${name}`, allowed, images, issues);
+        if (expense) expenses.push(expense);
+    });
+
+    const currency = typeof root.currency === 'string' && root.currency.trim() ? root.currency.trim() : expenses[0]?.currency ?? 'USD';
+    // The total is only comparable when every expense, accepted or not, is in the analysis currency
+    const comparable = rawExpenses.length > 0 && rawExpenses.every((e: any) => e?.currency === currency && typeof e?.amount === 'number');
+    const reportedTotal = rawExpenses.reduce((sum: number, e: any) => sum + (typeof e?.amount === 'number' ? e.amount : 0), 0);
+    if (root.totalAmount !== undefined && typeof root.totalAmount !== 'number') {
+        issues.push(`totalAmount must be a number, got ${describeValue(root.totalAmount)}`);
+    } else if (comparable && typeof root.totalAmount === 'number' && Math.abs(root.totalAmount - reportedTotal) > TOTAL_TOLERANCE) {
+        issues.push(`totalAmount ${root.totalAmount} ${currency} does not match the expenses, which add up to ${Number(reportedTotal.toFixed(2))} ${currency}`);
+    }
+
+    const participants = Array.isArray(root.participants)
+        ? [...new Set<string>(root.participants.filter((p: unknown) => typeof p === 'string').map(normalizeMention))].filter(p => allowed.has(p))
+        : [...new Set(expenses.flatMap(expense => expense.participants))];
+
+    return {
+        analysis: {
+            expenses,
+            totalAmount: expenses.filter(expense => expense.currency === currency).reduce((sum, expense) => sum + expense.amount, 0),
+            currency,
+            summary: typeof root.summary === 'string' ? root.summary : '',
+            participants
+        },
+        issues
+    };
+}
@@ -0,0 +1,102 @@
+import { SnowflakeUtil } from 'discord.js';
+
+/**
+ * The stretch of a channel to analyze, as message IDs. Times are turned into the
+ * IDs Discord would have given a message sent at that moment.
+ */
+export interface AnalysisWindow {
+    startId: string; // Oldest message to include
+    endId?: string; // Newest message to include; up to the request when unset
+    description: string; // Reads after "looking through", e.g. "the last 6 hours"
+}
+
+// The chat analyzed when the request doesn't say
+export const DEFAULT_ANALYSIS_HOURS = 72;
+// Longest stretch of history one request can analyze
+export const MAX_ANALYSIS_DAYS = 31;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// https://discord.com/channels/<guild>/<channel>/<message>, including the ptb and canary clients
+const MESSAGE_LINK = /https?:\/\/(?:(?:ptb|canary)\.)?discord(?:app)?\.com\/channels\/(?:\d+|@me)\/(\d+)\/(\d+)/g;
+
+// "last 6 hours", "past 2 days", "previous week", "since 3 days ago", "48h"
+const RELATIVE_WINDOW = /\b(?:(?:last|past|previous)\s+(?:(\d+(?:\.\d+)?)\s*)?(minutes?|mins?|hours?|hrs?|days?|weeks?)\b|(\d+(?:\.\d+)?)\s*(minutes?|mins?|hours?|hrs?|days?|weeks?)\s+ago\b|(\d+(?:\.\d+)?)(m|h|d|w)\b)/i;
+
+function unitMs(unit: string): number {
+    switch (unit.toLowerCase()[0]) {
+        case 'm': return 60 * 1000;
+        case 'h': return HOUR_MS;
+        case 'd': return 24 * HOUR_MS;
+        default: return 7 * 24 * HOUR_MS;
+    }
+}
+
+function pluralize(count: number, unit: string): string {
+    const singular = { m: 'minute', h: 'hour', d: 'day', w: 'week' }[unit.toLowerCase()[0]] ?? unit;
+    return count === 1 ? singular : `${count} ${singular}s`;
+}
+
+// Local midnight, `daysAgo` days before now
+function startOfDay(now: number, daysAgo: number): number {
+    const day = new Date(now);
+    day.setHours(0, 0, 0, 0);
+    day.setDate(day.getDate() - daysAgo);
+    return day.getTime();
+}
+
+export function snowflakeAt(timestamp: number): string {
+    return SnowflakeUtil.generate({ timestamp }).toString();
+}
+
+export function timestampOf(messageId: string): number {
+    return SnowflakeUtil.timestampFrom(messageId);
+}
+
+/**
+ * Works out which messages a bill detection request asks for. In order of
+ * precedence: two message links (a range), one link or a reply (from that
+ * message on), "since yesterday" or "today", a duration, or the default window.
+ * @param content - The request message
+ * @param channelId - Channel being analyzed; linked messages must be in it
+ * @param replyToId - Message the request replies to, if any
+ * @returns The window, or why the request can't be honored
+ */
+export function parseAnalysisWindow(content: string, channelId: string, replyToId?: string, now: number = Date.now()): { window: AnalysisWindow } | { error: string } {
+    const links = [...content.matchAll(MESSAGE_LINK)];
+    if (links.some(link => link[1] !== channelId)) {
+        return { error: 'Linked messages must be in this channel. Run the request in the channel the messages are in.' };
+    }
+
+    let window: AnalysisWindow;
+    if (links.length >= 2) {
+        const [first, last] = links.slice(0, 2).map(link => link[2]).sort((a, b) => (BigInt(a) < BigInt(b) ? -1 : 1));
+        window = { startId: first, endId: last, description: 'the linked range of messages' };
+    } else if (links.length === 1) {
+        window = { startId: links[0][2], description: 'everything from the linked message on' };
+    } else if (replyToId) {
+        window = { startId: replyToId, description: 'everything from the message you replied to on' };
+    } else if (/\byesterday\b/i.test(content)) {
+        window = { startId: snowflakeAt(startOfDay(now, 1)), description: 'everything since the start of yesterday' };
+    } else if (/\btoday\b/i.test(content)) {
+        window = { startId: snowflakeAt(startOfDay(now, 0)), description: 'everything since the start of today' };
+    } else {
+        const match = content.match(RELATIVE_WINDOW);
+        if (match) {
+            const count = Number(match[1] ?? match[3] ?? match[5] ?? 1);
+            const unit = match[2] ?? match[4] ?? match[6];
+            if (!(count > 0)) {
+                return { error: `I can't analyze "${match[0]}". Give a duration like "last 6 hours" or "past 2 days".` };
+            }
+            window = { startId: snowflakeAt(now - count * unitMs(unit)), description: `the last ${pluralize(count, unit)}` };
+        } else {
+            window = { startId: snowflakeAt(now - DEFAULT_ANALYSIS_HOURS * HOUR_MS), description: `the last ${DEFAULT_ANALYSIS_HOURS} hours` };
+        }
+    }
+
+    const span = (window.endId ? timestampOf(window.endId) : now) - timestampOf(window.startId);
+    if (span > MAX_ANALYSIS_DAYS * 24 * HOUR_MS) {
+        return { error: `That covers more than ${MAX_ANALYSIS_DAYS} days of chat. Pick a shorter stretch, e.g. with two message links.` };
+    }
+    return { window };
+}
@@ -0,0 +1,220 @@
+import { ActionRowBuilder, StringSelectMenuBuilder, StringSelectMenuOptionBuilder } from 'discord.js';
+import { ethers } from 'ethers';
+import { StoredWallet } from '../keystore';
+import { sendDebtProposalDM } from '../services/notifier';
+import { formatTokenAmount, parseTokenIdentifier, parseTokenAmount, splitTokenAmount, SplitRule, SUPPORTED_TOKENS, TokenInfo } from '../tokenUtils';
+import { findCommandDefinition } from './definitions';
+import { requireBothWallets } from './registration';
+import { Command, CommandContext } from './types';
+
+// Build the token picker shown when add-debt is used without a token
+export function buildTokenSelectMenuReply(messageId: string) {
+    const selectMenu = new StringSelectMenuBuilder()
+        .setCustomId(`select_debt_token:${messageId}`)
+        .setPlaceholder('Select a token')
+        .addOptions(
+            Object.keys(SUPPORTED_TOKENS).map(symbol =>
+                new StringSelectMenuOptionBuilder()
+                    .setLabel(symbol)
+                    .setValue(symbol)
+            )
+        );
+    const row = new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(selectMenu);
+    return { content: 'Please select a token for the debt:', components: [row] };
+}
+
+/**
+ * Parses a split option into a rule between the creditor (index 0) and the debtor (index 1)
+ * @param split - "3" for an equal three-way split, "40%" for a percentage, or "2/5" for shares
+ */
+function parseSplitRule(split: string): SplitRule {
+    const ways = split.match(/^(\d+)$/);
+    if (ways && Number(ways[1]) >= 2) {
+        return { type: 'equal', participants: Number(ways[1]) };
+    }
+    const percentage = split.match(/^(\d+(?:\.\d+)?)%$/);
+    if (percentage && Number(percentage[1]) > 0 && Number(percentage[1]) <= 100) {
+        const debtorPercent = Number(percentage[1]);
+        return { type: 'percentage', percentages: [(100 * 10_000 - Math.round(debtorPercent * 10_000)) / 10_000, debtorPercent] };
+    }
+    const shares = split.match(/^(\d+)\/(\d+)$/);
+    if (shares && Number(shares[1]) > 0 && Number(shares[1]) <= Number(shares[2])) {
+        return { type: 'shares', weights: [Number(shares[2]) - Number(shares[1]), Number(shares[1])] };
+    }
+    throw new Error(`Invalid split: ${split}. Use a number of ways (e.g. 3), a percentage (e.g. 40%) or shares (e.g. 2/5).`);
+}
+
+/**
+ * Works out what the debtor owes: the whole amount, or their share of it when a split is given.
+ * Leftover units from rounding stay with the creditor.
+ * @returns The amount and how to display it
+ * @throws Error if the amount or split is invalid
+ */
+function resolveDebtAmount(amountRaw: string, split: string | undefined, tokenInfo: TokenInfo): { amount: bigint; display: string } {
+    const total = parseTokenAmount(amountRaw, tokenInfo);
+    if (!split) {
+        return { amount: total, display: `${amountRaw} ${tokenInfo.symbol}` };
+    }
+    const rule = parseSplitRule(split);
+    const share = splitTokenAmount(total, rule)[1];
+    const portion = rule.type === 'equal' ? `1/${rule.participants}` : split;
+    return { amount: share, display: `${formatTokenAmount(share, tokenInfo)} (${portion} of ${amountRaw} ${tokenInfo.symbol})` };
+}
+
+/**
+ * Queues the proposal when the creditor is registered but the debtor isn't, to be
+ * proposed once the debtor runs `>register`
+ * @returns Whether the proposal was handled here (queued, or the token picker shown)
+ */
+async function deferIfUnregistered(ctx: CommandContext, amountRaw: string, tokenIdentifier: string | undefined, memo: string, split: string | undefined): Promise<boolean> {
+    const mentionedUser = ctx.args.getUser('user')!;
+    const creditorReady = ctx.signingMode === 'non-custodial'
+        ? await ctx.wallets.getRegisteredAddress(ctx.author.id)
+        : await ctx.wallets.getWallet(ctx.author.id);
+    // Orphaned registrations have an address, and are handled by the usual recovery path
+    if (!creditorReady || await ctx.wallets.getRegisteredAddress(mentionedUser.id)) {
+        return false;
+    }
+
+    if (!tokenIdentifier) {
+        await ctx.reply(buildTokenSelectMenuReply(ctx.sourceId));
+        return true;
+    }
+
+    try {
+        const tokenInfo = parseTokenIdentifier(tokenIdentifier);
+        const { amount, display } = resolveDebtAmount(amountRaw, split, tokenInfo);
+        const queued = await ctx.deferredProposals.add({ debtorId: mentionedUser.id, creditorId: ctx.author.id, token: tokenInfo.address, amount: amount.toString(), amountDisplay: display, memo });
+        await ctx.reply(`⏳ **Proposal queued (#${queued.id})**
+
+${mentionedUser.tag} hasn't registered yet. I'll propose **${display}**${memo ? ` for "${memo}"` : ''} as soon as they use \`>register\`, and let you know.
+
+Use \`>deferred list\` to see your queued proposals or \`>deferred cancel ${queued.id}\` to drop this one.`);
+    } catch (e) {
+        console.error(e);
+        await ctx.reply(`❌ Failed to propose debt: ${(e as Error).message}`);
+    }
+    return true;
+}
+
+// Non-custodial mode: the creditor signs the proposal with their own wallet
+async function requestSignedProposal(ctx: CommandContext, amountRaw: string, tokenIdentifier: string | undefined, memo: string, split: string | undefined): Promise<void> {
+    const mentionedUser = ctx.args.getUser('user')!;
+    const creditorAddress = await ctx.wallets.getRegisteredAddress(ctx.author.id);
+    const debtorAddress = await ctx.wallets.getRegisteredAddress(mentionedUser.id);
+    if (!creditorAddress || !debtorAddress) {
+        let errorMessage = "❌ **Registration Required**\n\n";
+        if (!creditorAddress) {
+            errorMessage += "**You:** Not registered. Use `>register <your_wallet_address>`.\n";
+        }
+        if (!debtorAddress) {
+            errorMessage += `**@${mentionedUser.tag}:** Not registered. They should use \`>register <their_wallet_address>\`.\n`;
+        }
+        await ctx.reply(errorMessage);
+        return;
+    }
+
+    if (!tokenIdentifier) {
+        await ctx.reply(buildTokenSelectMenuReply(ctx.sourceId));
+        return;
+    }
+
+    try {
+        const tokenInfo = parseTokenIdentifier(tokenIdentifier);
+        const { amount, display } = resolveDebtAmount(amountRaw, split, tokenInfo);
+        await ctx.signatures.requestProposalSignature(ctx.author, creditorAddress, mentionedUser.id, debtorAddress, tokenInfo.address, amount, display, memo);
+        await ctx.reply(`✍️ **Signature required**\n\nI've sent you a DM with the proposal to sign with your wallet. It will be sent to ${mentionedUser.tag} once your signature is submitted.`);
+    } catch (e) {
+        console.error(e);
+        await ctx.reply(`❌ Failed to propose debt: ${(e as Error).message}`);
+    }
+}
+
+async function executeProposal(ctx: CommandContext, creditorWallet: StoredWallet, debtorWallet: StoredWallet, amountRaw: string, tokenSymbol: string, memo: string, split: string | undefined): Promise<void> {
+    const mentionedUser = ctx.args.getUser('user')!;
+    try {
+        console.log(`[DEBUG] executeProposal called with tokenSymbol: ${tokenSymbol}, amountRaw: ${amountRaw}`);
+        const tokenInfo = parseTokenIdentifier(tokenSymbol);
+        console.log(`[DEBUG] tokenInfo:`, tokenInfo);
+        const { amount, display } = resolveDebtAmount(amountRaw, split, tokenInfo);
+        console.log(`[DEBUG] parsed amount:`, amount.toString());
+        
+        console.log(`[DEBUG] Using creditor's wallet ${creditorWallet.address} to propose debt`);
+        const { tx, receipt, pendingDebtId } = await ctx.ledger.proposeDebt(creditorWallet.privateKey, tokenInfo.address, debtorWallet.address, amount, memo);
+        const pendingDebtIdStr = pendingDebtId.toString();
+
+        await sendDebtProposalDM(ctx.notifier, ctx.network, mentionedUser, ctx.author.tag, display, memo, pendingDebtIdStr, tx.hash, receipt.blockNumber);
+
+        const explorerUrl = ctx.network.getBlockExplorerUrl(tx.hash);
+
+        // Also provide transaction details to the proposer
+        let confirmationMessage = `✅ **Debt proposal created!**\n\n`;
+        confirmationMessage += `**Proposal sent to:** ${mentionedUser.tag}\n`;
+        confirmationMessage += `**Amount:** ${display}\n`;
+        confirmationMessage += `**Memo:** ${memo}\n`;
+        confirmationMessage += `**Proposal ID:** ${pendingDebtIdStr}\n\n`;
+        confirmationMessage += `**Transaction Hash:** \`${tx.hash}\`\n`;
+        
+        if (explorerUrl) {
+            confirmationMessage += `**View on Explorer:** ${explorerUrl}\n`;
+        }
+        
+        confirmationMessage += `\n*The proposal has been recorded on-chain. ${mentionedUser.tag} will receive a DM to confirm or reject.*`;
+
+        await ctx.reply(confirmationMessage);
+    } catch (e) {
+        console.error(e);
+        
+        // Check if it's an insufficient funds error
+        const errorMessage = (e as Error).message || (e as any).toString();
+        if (errorMessage.includes('insufficient funds') || errorMessage.includes("doesn't have enough funds")) {
+            // Get current balance to show in error message
+            let balanceInfo = '';
+            try {
+                const balance = await ctx.ledger.getEthBalance(creditorWallet.address);
+                const balanceEth = ethers.formatEther(balance);
+                balanceInfo = `\n**Current Balance:** ${balanceEth} ETH`;
+            } catch (balanceError) {
+                console.error('Failed to get balance:', balanceError);
+            }
+            
+            await ctx.reply(`❌ **Insufficient funds to create debt proposal**\n\nYour wallet (${creditorWallet.address}) needs ETH to pay for gas fees.${balanceInfo}\n\n**Solutions:**\n• Run \`>fund-wallet\` to get 10 ETH for gas fees\n• Ask someone to send you ETH\n• Try again once you have funds`);
+        } else {
+            await ctx.reply(`❌ Failed to propose debt: ${errorMessage}\n\nPlease try again or contact an admin.`);
+        }
+    }
+}
+
+async function execute(ctx: CommandContext): Promise<void> {
+    const mentionedUser = ctx.args.getUser('user')!;
+    const amountRaw = ctx.args.getString('amount')!;
+    const tokenIdentifier = ctx.args.getString('token');
+    const memo = ctx.args.getString('memo') ?? '';
+    const split = ctx.args.getString('split');
+
+    if (await deferIfUnregistered(ctx, amountRaw, tokenIdentifier, memo, split)) {
+        return;
+    }
+
+    if (ctx.signingMode === 'non-custodial') {
+        await requestSignedProposal(ctx, amountRaw, tokenIdentifier, memo, split);
+        return;
+    }
+    
+    const wallets = await requireBothWallets(ctx, mentionedUser,
+        "❌ **Registration Required**",
+        "*Both users must have working wallet registrations to create debt proposals.*");
+    if (!wallets) return;
+
+    if (tokenIdentifier) {
+        await executeProposal(ctx, wallets.author, wallets.other, amountRaw, tokenIdentifier, memo, split);
+    }
+    else {
+        await ctx.reply(buildTokenSelectMenuReply(ctx.sourceId));
+    }
+}
+
+export const addDebtCommand: Command = {
+    definition: findCommandDefinition('add-debt')!,
+    execute
+};
@@ -0,0 +1,108 @@
+import { extractGuestIdFromMention, guestMention } from '../services/identities';
+import { formatUsage } from './definitions';
+import { Command, CommandContext } from './types';
+
+const MAX_ALIAS_LENGTH = 32;
+
+// Guests are shown by name, everyone else by mention
+function describeIdentity(ctx: CommandContext, guildId: string, mention: string): string {
+    const guestId = extractGuestIdFromMention(mention);
+    const guest = guestId ? ctx.identities.getGuest(guildId, guestId) : null;
+    return guest ? `${guest.name} (guest)` : mention;
+}
+
+async function listAliases(ctx: CommandContext, guildId: string): Promise<void> {
+    const aliases = ctx.identities.aliases(guildId);
+    if (aliases.length === 0) {
+        await ctx.reply("📇 **No aliases in this server yet.**\n\nUse `>alias add <name>` to tell me what friends call you in chat, or `>alias add <name> guest:<friend>` for a friend without Discord.");
+        return;
+    }
+
+    const byMention = new Map<string, string[]>();
+    for (const record of aliases) {
+        byMention.set(record.mention, [...(byMention.get(record.mention) ?? []), record.alias]);
+    }
+    const lines = [...byMention.entries()].map(([mention, names]) => `• ${describeIdentity(ctx, guildId, mention)}: ${names.join(', ')}`);
+    await ctx.reply(`📇 **Aliases in this server (${aliases.length}):**\n${lines.join('\n')}`);
+}
+
+async function addAlias(ctx: CommandContext, guildId: string, name: string): Promise<void> {
+    if (name.length < 2 || name.length > MAX_ALIAS_LENGTH || /^<.*>$/.test(name)) {
+        await ctx.reply(`❌ An alias must be 2 to ${MAX_ALIAS_LENGTH} characters long and can't be a mention.`);
+        return;
+    }
+
+    // Aliases are for yourself, or for friends without Discord, who become guests
+    const guestName = ctx.args.getString('guest')?.trim();
+    let mention = `<@${ctx.author.id}>`;
+    if (guestName) {
+        // Guests are vouched for by registered users, since they can end up owing them
+        if (!ctx.identities.findGuestByName(guildId, guestName) && !await ctx.wallets.getRegisteredAddress(ctx.author.id)) {
+            await ctx.reply("❌ **Registration Required**\n\nUse `>register` before you add a guest.");
+            return;
+        }
+        const guest = await ctx.identities.addGuest(guildId, guestName, ctx.author.id);
+        // A claimed guest is a member now, so the alias should name them
+        mention = guest.claimedBy ? `<@${guest.claimedBy}>` : guestMention(guest.id);
+    }
+    const who = describeIdentity(ctx, guildId, mention);
+
+    const existing = ctx.identities.findAlias(guildId, name);
+    if (existing?.mention === mention) {
+        await ctx.reply(`ℹ️ "${existing.alias}" already refers to ${who}.`);
+        return;
+    }
+    if (existing) {
+        await ctx.reply(`❌ "${existing.alias}" already refers to ${describeIdentity(ctx, guildId, existing.mention)}. It has to be removed with \`>alias remove ${existing.alias}\` by them or whoever added it first.`);
+        return;
+    }
+
+    await ctx.identities.set(guildId, { alias: name, mention, addedBy: ctx.author.id });
+    await ctx.reply(`✅ When the chat says "${name}", bill detection will know it means ${who}.`);
+}
+
+async function removeAlias(ctx: CommandContext, guildId: string, name: string): Promise<void> {
+    const existing = ctx.identities.findAlias(guildId, name);
+    if (!existing) {
+        await ctx.reply(`❌ There is no alias "${name}" in this server. Use \`>alias list\` to see them.`);
+        return;
+    }
+    if (existing.mention !== `<@${ctx.author.id}>` && existing.addedBy !== ctx.author.id) {
+        await ctx.reply(`❌ "${existing.alias}" refers to ${describeIdentity(ctx, guildId, existing.mention)}. Only they or whoever added it can remove it.`);
+        return;
+    }
+
+    await ctx.identities.remove(guildId, name);
+    await ctx.reply(`🗑️ Removed the alias "${existing.alias}" for ${describeIdentity(ctx, guildId, existing.mention)}.`);
+}
+
+// Lets members declare the names they and their friends go by in chat, for bill detection
+async function execute(ctx: CommandContext): Promise<void> {
+    if (!ctx.guild) {
+        await ctx.reply("❌ Aliases are kept per server. Use this command in a server channel.");
+        return;
+    }
+
+    const action = ctx.args.getString('action')?.toLowerCase() ?? 'list';
+    const name = ctx.args.getString('name')?.trim();
+    if (action === 'list') {
+        await listAliases(ctx, ctx.guild.id);
+    } else if ((action === 'add' || action === 'remove') && name) {
+        await (action === 'add' ? addAlias : removeAlias)(ctx, ctx.guild.id, name);
+    } else {
+        await ctx.reply(`❌ Use \`>alias add <name>\`, \`>alias add <name> guest:<friend>\`, \`>alias remove <name>\` or \`>alias list\`.\nUsage: \`${formatUsage(aliasCommand.definition)}\``);
+    }
+}
+
+export const aliasCommand: Command = {
+    definition: {
+        name: 'alias',
+        description: 'Declare the names you and friends without Discord go by in chat',
+        options: [
+            { name: 'action', description: 'add, remove or list', type: 'string', required: false },
+            { name: 'name', description: 'The name used in chat, e.g. "jay" or "승재"', type: 'string', required: false, rest: true },
+            { name: 'guest', description: 'Name of a friend without Discord the alias refers to', type: 'string', required: false }
+        ]
+    },
+    execute
+};
@@ -0,0 +1,60 @@
+import { parseTokenIdentifier, formatTokenAmount } from '../tokenUtils';
+import { findCommandDefinition } from './definitions';
+import { requireBothAddresses } from './registration';
+import { Command, CommandContext } from './types';
+
+async function execute(ctx: CommandContext): Promise<void> {
+    const targetUser = ctx.args.getUser('user')!;
+    const tokenIdentifier = ctx.args.getString('token')!;
+
+    let tokenInfo;
+    try {
+        tokenInfo = parseTokenIdentifier(tokenIdentifier);
+    } catch (error) {
+        await ctx.reply(`Invalid token: ${tokenIdentifier}. Supported tokens are ETH, USDC, or a valid address.`);
+        return;
+    }
+
+    const addresses = await requireBothAddresses(ctx, targetUser,
+        "❌ **Registration Required for Balance Check**",
+        "*Both users must have working registrations to check balances.*");
+    if (!addresses) return;
+    const user1 = addresses.author;
+    const user2 = addresses.other;
+
+    await ctx.indexer.catchUp();
+    const events = ctx.indexer.store;
+    const debtOwed = events.getDebt(tokenInfo.address, user2, user1);
+    const debtOwing = events.getDebt(tokenInfo.address, user1, user2);
+
+    const pendingProposals = events.getPendingProposalsBetween(user1, user2, tokenInfo.address);
+
+    let pendingOwed = 0n;
+    let pendingOwing = 0n;
+
+    for (const proposal of pendingProposals) {
+        if (proposal.debtor === user1 && proposal.creditor === user2) {
+            pendingOwing = pendingOwing + proposal.amount;
+        } else if (proposal.debtor === user2 && proposal.creditor === user1) {
+            pendingOwed = pendingOwed + proposal.amount;
+        }
+    }
+
+    let balanceMessage = `**Balance with ${targetUser.tag} for ${tokenInfo.symbol}:**\n\n`;
+    balanceMessage += '**Confirmed Balance:**\n';
+    balanceMessage += `- You owe them: ${formatTokenAmount(debtOwing, tokenInfo)}\n`;
+    balanceMessage += `- They owe you: ${formatTokenAmount(debtOwed, tokenInfo)}\n\n`;
+    balanceMessage += '**Pending Balance:**\n';
+    balanceMessage += `- You owe them (pending): ${formatTokenAmount(pendingOwing, tokenInfo)}\n`;
+    balanceMessage += `- They owe you (pending): ${formatTokenAmount(pendingOwed, tokenInfo)}\n`;
+    if (debtOwing > 0n) {
+        balanceMessage += `\n💡 Run \`>settle @${targetUser.tag} ${tokenInfo.symbol}\` to pay it back.\n`;
+    }
+
+    await ctx.reply(balanceMessage);
+}
+
+export const balanceCommand: Command = {
+    definition: findCommandDefinition('balance')!,
+    execute
+};
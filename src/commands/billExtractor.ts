@@ -0,0 +1,46 @@
+import { PermissionFlagsBits } from 'discord.js';
+import { Command, CommandContext } from './types';
+
+// Shows or changes which extractor analyzes chat history for this server
+async function execute(ctx: CommandContext): Promise<void> {
+    if (!ctx.guild) {
+        await ctx.reply("❌ The bill extractor is chosen per server. Use this command in a server channel.");
+        return;
+    }
+
+    const requested = ctx.args.getString('provider')?.toLowerCase();
+    const current = ctx.extractors.forGuild(ctx.guild.id);
+    if (!requested) {
+        const available = ctx.extractors.list()
+            .map(extractor => `• \`${extractor.name}\` - ${extractor.description}${extractor.name === current.name ? ' **(in use)**' : ''}`)
+            .join('\n');
+        await ctx.reply(`**Bill extractor for this server:** \`${current.name}\`\n\n**Available:**\n${available}\n\nUse \`>bill-extractor <name>\` to switch, or \`>bill-extractor default\` to use the bot default (\`${ctx.extractors.defaultName}\`).`);
+        return;
+    }
+
+    const member = await ctx.guild.members.fetch(ctx.author.id).catch(() => null);
+    if (!member?.permissions.has(PermissionFlagsBits.ManageGuild)) {
+        await ctx.reply("❌ Only members with the Manage Server permission can change the bill extractor.");
+        return;
+    }
+
+    try {
+        await ctx.extractors.setForGuild(ctx.guild.id, requested === 'default' ? null : requested);
+    } catch (error) {
+        await ctx.reply(`❌ ${error instanceof Error ? error.message : error}`);
+        return;
+    }
+    const chosen = ctx.extractors.forGuild(ctx.guild.id);
+    await ctx.reply(`✅ Bill detection in this server now uses \`${chosen.name}\` (${chosen.description}).`);
+}
+
+export const billExtractorCommand: Command = {
+    definition: {
+        name: 'bill-extractor',
+        description: 'Show or choose how chat history is analyzed for bills in this server',
+        options: [
+            { name: 'provider', description: 'Extractor name, or "default"', type: 'string', required: false }
+        ]
+    },
+    execute
+};
@@ -0,0 +1,52 @@
+import { ChatInputCommandInteraction, Message } from 'discord.js';
+import { safeSendMessage } from '../discord/safe';
+import { BotServices } from '../services';
+import { CommandArgs } from './definitions';
+import { CommandContext } from './types';
+
+export function createMessageContext(message: Message, args: CommandArgs, services: BotServices): CommandContext {
+    return {
+        ...services,
+        author: message.author,
+        guild: message.guild,
+        args,
+        sourceId: message.id,
+        reply: async (payload) => {
+            if (typeof payload === 'string') {
+                await safeSendMessage(message, payload);
+            } else {
+                await safeSendMessage(message, payload.content ?? '', { components: payload.components });
+            }
+        },
+        deleteSource: async () => {
+            await message.delete();
+        }
+    };
+}
+
+// Slash command replies are ephemeral; the first reply fills the deferred response
+export function createInteractionContext(interaction: ChatInputCommandInteraction, args: CommandArgs, services: BotServices): CommandContext {
+    let responded = false;
+    return {
+        ...services,
+        author: interaction.user,
+        guild: interaction.guild,
+        args,
+        sourceId: interaction.id,
+        reply: async (payload) => {
+            const options = typeof payload === 'string' ? { content: payload } : payload;
+            try {
+                if (!responded) {
+                    responded = true;
+                    await interaction.editReply(options);
+                } else {
+                    await interaction.followUp({ ...options, ephemeral: true });
+                }
+            } catch (error: any) {
+                console.error('Permission error replying to slash command:', error);
+                console.log(`❌ Permission error with interaction (${error.code}): ${error.message}`);
+            }
+        },
+        deleteSource: async () => {}
+    };
+}
@@ -0,0 +1,91 @@
+import { formatTokenAmount, findTokenByAddress } from '../tokenUtils';
+import { Command, CommandContext } from './types';
+
+// Debug command to check recent blockchain events
+async function execute(ctx: CommandContext): Promise<void> {
+    const targetUser = ctx.args.getUser('user');
+    if (!targetUser) {
+        await ctx.reply("Usage: `>debug-events @user`");
+        return;
+    }
+
+    const user1 = await ctx.wallets.getWallet(ctx.author.id);
+    const user2 = await ctx.wallets.getWallet(targetUser.id);
+    
+    if (!user1 || !user2) {
+        await ctx.reply("Both users must be registered to debug events.");
+        return;
+    }
+
+    try {
+        await ctx.indexer.sync();
+        const events = ctx.indexer.store;
+
+        // Get ALL DebtProposed events first to see what's in the blockchain
+        const allProposals = events.getAllProposals();
+        console.log(`[DEBUG] Total DebtProposed events on chain: ${allProposals.length}`);
+        
+        // Log all events for debugging
+        for (const proposal of allProposals) {
+            console.log(`[DEBUG] Event ${proposal.pendingDebtId}: creditor=${proposal.creditor}, debtor=${proposal.debtor}`);
+        }
+        
+        // Filter events involving these specific users
+        const relevantProposals = allProposals.filter(({ creditor, debtor }) => {
+            const match = (creditor.toLowerCase() === user1.address.toLowerCase() && debtor.toLowerCase() === user2.address.toLowerCase()) ||
+                          (creditor.toLowerCase() === user2.address.toLowerCase() && debtor.toLowerCase() === user1.address.toLowerCase());
+            console.log(`[DEBUG] Event check: creditor=${creditor}, debtor=${debtor}, user1=${user1.address}, user2=${user2.address}, match=${match}`);
+            return match;
+        });
+
+        let debugMessage = `🔍 **Debug: Recent Events**\n\n`;
+        debugMessage += `**Your wallet:** \`${user1.address}\`\n`;
+        debugMessage += `**Their wallet:** \`${user2.address}\`\n\n`;
+        debugMessage += `**Total DebtProposed events on chain:** ${allProposals.length}\n`;
+        debugMessage += `**Events involving you two:** ${relevantProposals.length}\n`;
+        debugMessage += `**Indexed up to block:** ${events.getCheckpoint()}\n\n`;
+
+        for (const proposal of relevantProposals.slice(-3)) { // Show last 3 events
+            const status = events.getProposalStatus(proposal.pendingDebtId);
+            const tokenInfo = findTokenByAddress(proposal.token) || { symbol: 'Unknown', decimals: 18, address: proposal.token };
+            
+            debugMessage += `**Event ${proposal.pendingDebtId}:**\n`;
+            debugMessage += `• Creditor: \`${proposal.creditor}\`\n`;
+            debugMessage += `• Debtor: \`${proposal.debtor}\`\n`;  
+            debugMessage += `• Amount: ${formatTokenAmount(proposal.amount, tokenInfo)}\n`;
+            debugMessage += `• Memo: ${proposal.memo}\n`;
+            debugMessage += `• Status: ${status === 'pending' ? 'Pending' : 'Resolved'}\n`;
+            debugMessage += `• Block: ${proposal.blockNumber}\n\n`;
+        }
+
+        if (relevantProposals.length === 0) {
+            debugMessage += `*No DebtProposed events found between you and ${targetUser.tag}*\n\n`;
+            
+            // Show all events for debugging if none match
+            if (allProposals.length > 0) {
+                debugMessage += `**All events on chain (for debugging):**\n`;
+                for (const proposal of allProposals.slice(-5)) {
+                    const tokenInfo = findTokenByAddress(proposal.token) || { symbol: 'Unknown', decimals: 18, address: proposal.token };
+                    debugMessage += `• Event ${proposal.pendingDebtId}: \`${proposal.creditor}\` → \`${proposal.debtor}\` (${formatTokenAmount(proposal.amount, tokenInfo)})\n`;
+                }
+            }
+        }
+
+        await ctx.reply(debugMessage);
+    } catch (error) {
+        console.error('[DEBUG] Event debugging failed:', error);
+        const errorMessage = (error as Error).message || (error as any).toString();
+        await ctx.reply(`❌ Debug failed: ${errorMessage}`);
+    }
+}
+
+export const debugEventsCommand: Command = {
+    definition: {
+        name: 'debug-events',
+        description: 'Check blockchain events with a user',
+        options: [
+            { name: 'user', description: 'The other user', type: 'user', required: false }
+        ]
+    },
+    execute
+};
@@ -0,0 +1,132 @@
+import { User } from 'discord.js';
+import { BotServices } from '../services';
+import { DeferredProposal } from '../services/deferredProposals';
+import { sendDebtProposalDM } from '../services/notifier';
+import { formatUsage } from './definitions';
+import { Command, CommandContext } from './types';
+
+function describeProposal(proposal: DeferredProposal): string {
+    return `${proposal.amountDisplay}${proposal.memo ? ` for "${proposal.memo}"` : ''}`;
+}
+
+/**
+ * Proposes one creditor's queued debts in a token to the newly registered debtor.
+ * In custodial mode they go on-chain in one transaction and leave the queue; in
+ * non-custodial mode the creditor is asked to sign each of them, and each leaves
+ * the queue once its signed proposal is relayed.
+ * @returns The proposals that were proposed or sent to be signed
+ */
+async function releaseGroup(services: BotServices, debtor: User, debtorAddress: string, creditorUser: User, group: DeferredProposal[]): Promise<DeferredProposal[]> {
+    if (services.signingMode === 'non-custodial') {
+        const creditorAddress = await services.wallets.getRegisteredAddress(creditorUser.id);
+        if (!creditorAddress) throw new Error(`${creditorUser.tag} is not registered`);
+        // A retry shouldn't ask the creditor to sign the same proposal twice
+        const awaitingSignature = new Set(services.signatures.pending.list()
+            .map(pending => pending.context.kind === 'propose' ? pending.context.deferredProposalId : undefined));
+        const requested: DeferredProposal[] = [];
+        for (const proposal of group) {
+            if (awaitingSignature.has(proposal.id)) continue;
+            await services.signatures.requestProposalSignature(creditorUser, creditorAddress, debtor.id, debtorAddress, proposal.token, BigInt(proposal.amount), proposal.amountDisplay, proposal.memo, { deferredProposalId: proposal.id });
+            requested.push(proposal);
+        }
+        return requested;
+    }
+
+    const creditorWallet = await services.wallets.getWallet(creditorUser.id);
+    if (!creditorWallet) throw new Error(`${creditorUser.tag} is not registered`);
+    const { tx, receipt, pendingDebtIds } = await services.ledger.proposeExpense(creditorWallet.privateKey, group[0].token,
+        group.map(proposal => ({ debtor: debtorAddress, amount: BigInt(proposal.amount), memo: proposal.memo })));
+    await services.deferredProposals.remove(group.map(proposal => proposal.id));
+    for (const [i, proposal] of group.entries()) {
+        await sendDebtProposalDM(services.notifier, services.network, debtor, creditorUser.tag, proposal.amountDisplay, proposal.memo, pendingDebtIds[i].toString(), tx.hash, receipt.blockNumber);
+    }
+    return group;
+}
+
+/**
+ * Creates the proposals queued for a user who just registered, tells them what is
+ * coming and lets each creditor know. Proposals that fail or are never signed stay
+ * queued, so the next `>register` retries them.
+ */
+export async function releaseDeferredProposals(services: BotServices, debtor: User): Promise<void> {
+    const queued = services.deferredProposals.forDebtor(debtor.id);
+    if (queued.length === 0) return;
+    const debtorAddress = await services.wallets.getRegisteredAddress(debtor.id);
+    if (!debtorAddress) return;
+
+    const groups = new Map<string, DeferredProposal[]>();
+    for (const proposal of queued) {
+        const key = `${proposal.creditorId}:${proposal.token.toLowerCase()}`;
+        groups.set(key, [...(groups.get(key) ?? []), proposal]);
+    }
+
+    const released: DeferredProposal[] = [];
+    for (const group of groups.values()) {
+        const creditorId = group[0].creditorId;
+        try {
+            const creditorUser = await services.notifier.fetchUser(creditorId);
+            const sent = await releaseGroup(services, debtor, debtorAddress, creditorUser, group);
+            if (sent.length === 0) continue;
+            released.push(...sent);
+            await services.notifier.sendDM(creditorUser, `📬 **${debtor.tag} registered**\n\n` +
+                `${services.signingMode === 'non-custodial' ? 'Sign the requests I just sent you to propose' : "I've proposed"} the debts you queued for them:\n` +
+                sent.map(proposal => `• ${describeProposal(proposal)}`).join('\n'));
+        } catch (error) {
+            console.error(`Error releasing deferred proposals from ${creditorId} to ${debtor.id}:`, error);
+        }
+    }
+    if (released.length === 0) return;
+
+    // Sent after the proposals themselves so the summary reads as a cover note for the batch
+    let summary = `📬 **${released.length} debt proposal(s) were waiting for you to register**\n\n`;
+    summary += released.map(proposal => `• <@${proposal.creditorId}>: ${describeProposal(proposal)}`).join('\n');
+    summary += services.signingMode === 'non-custodial'
+        ? '\n\nEach creditor has been asked to sign their proposal; you will get a DM to accept or reject each one once they do.'
+        : '\n\nAccept or reject each one with the buttons on the proposals above.';
+    await services.notifier.sendDM(debtor, summary);
+}
+
+async function listDeferred(ctx: CommandContext): Promise<void> {
+    const queued = ctx.deferredProposals.forCreditor(ctx.author.id);
+    if (queued.length === 0) {
+        await ctx.reply("📭 **You have no proposals waiting for someone to register.**");
+        return;
+    }
+    const lines = queued.map(proposal => `• **#${proposal.id}** <@${proposal.debtorId}> owes you ${describeProposal(proposal)}`);
+    await ctx.reply(`📬 **Proposals waiting for registration (${queued.length}):**\n${lines.join('\n')}\n\nThey are proposed as soon as the debtor uses \`>register\`. Use \`>deferred cancel <id>\` to drop one.`);
+}
+
+async function cancelDeferred(ctx: CommandContext, idRaw: string): Promise<void> {
+    const proposal = /^#?\d+$/.test(idRaw) ? ctx.deferredProposals.get(Number(idRaw.replace('#', ''))) : null;
+    if (!proposal || proposal.creditorId !== ctx.author.id) {
+        await ctx.reply(`❌ You have no queued proposal #${idRaw.replace('#', '')}. Use \`>deferred list\` to see yours.`);
+        return;
+    }
+    await ctx.deferredProposals.remove([proposal.id]);
+    await ctx.reply(`🗑️ Cancelled proposal #${proposal.id}: <@${proposal.debtorId}> owes you ${describeProposal(proposal)}.`);
+}
+
+// Lets creditors see and cancel the proposals waiting for their debtors to register
+async function execute(ctx: CommandContext): Promise<void> {
+    const action = ctx.args.getString('action')?.toLowerCase() ?? 'list';
+    const id = ctx.args.getString('id')?.trim();
+    if (action === 'list') {
+        await listDeferred(ctx);
+    } else if (action === 'cancel' && id) {
+        await cancelDeferred(ctx, id);
+    } else {
+        await ctx.reply(`❌ Use \`>deferred list\` or \`>deferred cancel <id>\`.\nUsage: \`${formatUsage(deferredCommand.definition)}\``);
+    }
+}
+
+export const deferredCommand: Command = {
+    definition: {
+        name: 'deferred',
+        description: 'List or cancel debt proposals waiting for their debtor to register',
+        options: [
+            { name: 'action', description: 'list or cancel', type: 'string', required: false },
+            { name: 'id', description: 'The queued proposal to cancel, e.g. 3', type: 'string', required: false }
+        ]
+    },
+    execute
+};
@@ -0,0 +1,262 @@
+import { SlashCommandBuilder, User, RESTPostAPIChatInputApplicationCommandsJSONBody, ChatInputCommandInteraction } from 'discord.js';
+import { ethers } from 'ethers';
+import { SUPPORTED_TOKENS } from '../tokenUtils';
+
+// Commands available both as `>name` prefix commands and as `/name` slash commands.
+// Both interfaces are built from these definitions so their arguments never drift.
+
+export type CommandOptionType = 'user' | 'amount' | 'token' | 'address' | 'string';
+
+export interface CommandOptionDefinition {
+    name: string;
+    description: string;
+    type: CommandOptionType;
+    required: boolean;
+    // Prefix commands only: consumes every remaining word
+    rest?: boolean;
+}
+
+export interface CommandDefinition {
+    name: string;
+    description: string;
+    options: CommandOptionDefinition[];
+}
+
+export const SHARED_COMMANDS: CommandDefinition[] = [
+    {
+        name: 'register',
+        description: 'Register yourself and get a wallet for debt tracking',
+        options: [
+            { name: 'address', description: 'Your own wallet address (non-custodial mode only)', type: 'address', required: false },
+            { name: 'signature', description: 'Your wallet\'s signature of the registration message (non-custodial mode only)', type: 'string', required: false }
+        ]
+    },
+    {
+        name: 'add-debt',
+        description: 'Propose a new debt owed to you by another user',
+        options: [
+            { name: 'user', description: 'The user who owes you', type: 'user', required: true },
+            { name: 'amount', description: 'Amount owed, e.g. 12.50', type: 'amount', required: true },
+            { name: 'token', description: 'Token symbol or address', type: 'token', required: false },
+            { name: 'memo', description: 'What the debt is for', type: 'string', required: false, rest: true },
+            { name: 'split', description: 'Their share of the amount: 3 (ways), 40% or 2/5', type: 'string', required: false }
+        ]
+    },
+    {
+        name: 'balance',
+        description: 'Check your confirmed and pending balances with another user',
+        options: [
+            { name: 'user', description: 'The other user', type: 'user', required: true },
+            { name: 'token', description: 'Token symbol or address', type: 'token', required: true }
+        ]
+    },
+    {
+        name: 'history',
+        description: 'View your confirmed and pending transaction history with another user',
+        options: [
+            { name: 'user', description: 'The other user', type: 'user', required: true }
+        ]
+    },
+    {
+        name: 'settle',
+        description: 'Pay back what you owe another user, in full or in part',
+        options: [
+            { name: 'user', description: 'The user you owe', type: 'user', required: true },
+            { name: 'token', description: 'Token symbol or address', type: 'token', required: true },
+            { name: 'amount', description: 'Amount to pay; defaults to everything you owe', type: 'amount', required: false }
+        ]
+    },
+    {
+        name: 'simplify',
+        description: "Plan the fewest transfers that settle debts among this server's members",
+        options: [
+            { name: 'token', description: 'Token symbol or address (defaults to ETH)', type: 'token', required: false }
+        ]
+    }
+];
+
+export function findCommandDefinition(name: string): CommandDefinition | undefined {
+    return SHARED_COMMANDS.find(definition => definition.name === name);
+}
+
+/**
+ * Parsed option values for a command invocation, independent of how it was invoked
+ */
+export class CommandArgs {
+    constructor(private readonly values: Map<string, string | User> = new Map()) {}
+
+    getString(name: string): string | undefined {
+        const value = this.values.get(name);
+        return typeof value === 'string' ? value : undefined;
+    }
+
+    getUser(name: string): User | undefined {
+        const value = this.values.get(name);
+        return typeof value === 'string' ? undefined : value;
+    }
+}
+
+/**
+ * Formats the prefix usage string for a command
+ * @returns Usage such as `>add-debt @user <amount> [token] [memo...] [split:value]`
+ */
+export function formatUsage(definition: CommandDefinition, prefix: string = '>'): string {
+    const restIndex = definition.options.findIndex(option => option.rest);
+    const parts = definition.options.map((option, index) => {
+        if (option.type === 'user') {
+            return option.required ? '@user' : '[@user]';
+        }
+        // Options after a rest option can only be given by name
+        const label = option.rest ? `${option.name}...` : restIndex !== -1 && index > restIndex ? `${option.name}:value` : option.name;
+        return option.required ? `<${label}>` : `[${label}]`;
+    });
+    return [`${prefix}${definition.name}`, ...parts].join(' ');
+}
+
+const MENTION_PATTERN = /^<@!?(\d+)>$/;
+const AMOUNT_PATTERN = /^\d+(\.\d+)?$/;
+
+export function isTokenIdentifier(word: string): boolean {
+    return !!SUPPORTED_TOKENS[word.toUpperCase()] || ethers.isAddress(word);
+}
+
+function matchesOptionType(option: CommandOptionDefinition, word: string): boolean {
+    switch (option.type) {
+        case 'user':
+            return MENTION_PATTERN.test(word);
+        case 'amount':
+            return AMOUNT_PATTERN.test(word);
+        case 'token':
+            return isTokenIdentifier(word);
+        case 'address':
+            return ethers.isAddress(word);
+        case 'string':
+            return true;
+    }
+}
+
+/**
+ * Parses the words following a prefix command into option values.
+ *
+ * Options can be given positionally in definition order, or by name as `name:value`
+ * in any order (a named rest option takes every word after it). An optional positional
+ * option is only consumed when the word has the right shape, so a memo is never
+ * mistaken for a token unless it actually names one.
+ *
+ * @param definition - The command definition
+ * @param words - Words following the command name
+ * @param resolveUser - Resolves a mentioned user ID to a Discord user
+ * @returns Parsed arguments, or an error message with the usage string
+ */
+export function parsePrefixArgs(definition: CommandDefinition, words: string[], resolveUser: (id: string) => User | undefined): { args: CommandArgs } | { error: string } {
+    const values = new Map<string, string | User>();
+    const usageError = (reason: string) => ({ error: `${reason}\nUsage: \`${formatUsage(definition)}\`` });
+
+    const positional: string[] = [];
+    for (let i = 0; i < words.length; i++) {
+        const named = words[i].match(/^([a-z-]+):(.*)$/);
+        const option = named && definition.options.find(o => o.name === named[1] && o.type !== 'user');
+        if (!named || !option) {
+            positional.push(words[i]);
+            continue;
+        }
+        if (option.rest) {
+            values.set(option.name, [named[2], ...words.slice(i + 1)].join(' ').trim());
+            break;
+        }
+        if (!matchesOptionType(option, named[2])) {
+            return usageError(`Invalid value for ${option.name}: ${named[2]}`);
+        }
+        values.set(option.name, named[2]);
+    }
+
+    let index = 0;
+    for (const option of definition.options) {
+        if (values.has(option.name)) continue;
+
+        if (option.rest) {
+            const rest = positional.slice(index).join(' ');
+            index = positional.length;
+            if (rest) {
+                values.set(option.name, rest);
+            } else if (option.required) {
+                return usageError(`Missing ${option.name}.`);
+            }
+            continue;
+        }
+
+        const word = positional[index];
+        if (word !== undefined && matchesOptionType(option, word)) {
+            index++;
+            if (option.type === 'user') {
+                const user = resolveUser(word.match(MENTION_PATTERN)![1]);
+                if (!user) {
+                    return usageError(`Could not resolve user ${word}.`);
+                }
+                values.set(option.name, user);
+            } else {
+                values.set(option.name, word);
+            }
+        } else if (option.required) {
+            return usageError(word === undefined ? `Missing ${option.name}.` : `Invalid value for ${option.name}: ${word}`);
+        }
+    }
+
+    return { args: new CommandArgs(values) };
+}
+
+/**
+ * Reads option values from a slash command interaction
+ */
+export function getSlashArgs(definition: CommandDefinition, interaction: ChatInputCommandInteraction): { args: CommandArgs } | { error: string } {
+    const values = new Map<string, string | User>();
+    for (const option of definition.options) {
+        if (option.type === 'user') {
+            const user = interaction.options.getUser(option.name, option.required);
+            if (user) values.set(option.name, user);
+            continue;
+        }
+        const value = interaction.options.getString(option.name, option.required)?.trim();
+        if (!value) continue;
+        if (!matchesOptionType(option, value)) {
+            return { error: `Invalid value for ${option.name}: ${value}` };
+        }
+        values.set(option.name, value);
+    }
+    return { args: new CommandArgs(values) };
+}
+
+/**
+ * Builds the application command payloads to register with Discord
+ */
+export function buildSlashCommands(): RESTPostAPIChatInputApplicationCommandsJSONBody[] {
+    return SHARED_COMMANDS.map(definition => {
+        const builder = new SlashCommandBuilder()
+            .setName(definition.name)
+            .setDescription(definition.description);
+
+        for (const option of definition.options) {
+            if (option.type === 'user') {
+                builder.addUserOption(o => o.setName(option.name).setDescription(option.description).setRequired(option.required));
+            } else {
+                builder.addStringOption(o => o
+                    .setName(option.name)
+                    .setDescription(option.description)
+                    .setRequired(option.required)
+                    .setAutocomplete(option.type === 'token'));
+            }
+        }
+
+        return builder.toJSON();
+    });
+}
+
+/**
+ * Suggests supported tokens matching what the user has typed so far
+ */
+export function getTokenSuggestions(typed: string): { name: string; value: string }[] {
+    const query = typed.toUpperCase();
+    return Object.keys(SUPPORTED_TOKENS)
+        .filter(symbol => symbol.startsWith(query))
+        .map(symbol => ({ name: symbol, value: symbol }));
+}
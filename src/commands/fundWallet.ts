@@ -0,0 +1,29 @@
+import { ethers } from 'ethers';
+import { Command, CommandContext } from './types';
+
+// Development command to fund user wallets with ETH for gas fees
+async function execute(ctx: CommandContext): Promise<void> {
+    const userWallet = await ctx.wallets.getWallet(ctx.author.id);
+    if (!userWallet) {
+        await ctx.reply("You need to register first. Use `>register`.");
+        return;
+    }
+    
+    try {
+        console.log(`[DEBUG] Manually funding wallet ${userWallet.address} with 10 ETH...`);
+        await ctx.ledger.fundWallet(userWallet.address, ethers.parseEther("10"));
+        await ctx.reply(`✅ Successfully funded your wallet (${userWallet.address}) with 10 ETH for gas fees.`);
+    } catch (error) {
+        console.error(`[DEBUG] Failed to fund wallet:`, error);
+        await ctx.reply(`❌ Failed to fund wallet: ${error}`);
+    }
+}
+
+export const fundWalletCommand: Command = {
+    definition: {
+        name: 'fund-wallet',
+        description: 'Fund your wallet with 10 ETH for gas fees',
+        options: []
+    },
+    execute
+};
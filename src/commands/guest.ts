@@ -0,0 +1,206 @@
+import { ActionRowBuilder, ButtonBuilder, ButtonStyle, User } from 'discord.js';
+import { BotServices } from '../services';
+import { GuestDebt } from '../services/guestDebts';
+import { GuestRecord } from '../services/identities';
+import { sendDebtProposalDM } from '../services/notifier';
+import { findTokenByAddress, formatTokenAmount } from '../tokenUtils';
+import { formatUsage } from './definitions';
+import { Command, CommandContext } from './types';
+
+function formatGuestDebtAmount(debt: GuestDebt): string {
+    const tokenInfo = findTokenByAddress(debt.token);
+    return tokenInfo ? formatTokenAmount(BigInt(debt.amount), tokenInfo) : `${debt.amount} units of ${debt.token}`;
+}
+
+// Guests are created by registered users, who vouch for them
+async function requireRegistered(ctx: CommandContext, action: string): Promise<string | null> {
+    const address = await ctx.wallets.getRegisteredAddress(ctx.author.id);
+    if (!address) {
+        await ctx.reply(`❌ **Registration Required**\n\nUse \`>register\` before you ${action}.`);
+    }
+    return address;
+}
+
+async function addGuest(ctx: CommandContext, guildId: string, name: string): Promise<void> {
+    if (!await requireRegistered(ctx, 'add a guest')) return;
+    const existing = ctx.identities.findGuestByName(guildId, name);
+    if (existing) {
+        await ctx.reply(`ℹ️ ${existing.name} is already a guest in this server${existing.claimedBy ? `, and registered as <@${existing.claimedBy}>` : ''}.`);
+        return;
+    }
+    const guest = await ctx.identities.addGuest(guildId, name, ctx.author.id);
+    await ctx.reply(`✅ **${guest.name} (guest) added.**\n\nWhen bill detection finds them in an expense, their share is held until they join, \`>register\` and claim it with \`>guest claim ${guest.name}\`. Use \`>alias add <name> guest:${guest.name}\` for other names they go by.`);
+}
+
+async function listGuests(ctx: CommandContext, guildId: string): Promise<void> {
+    const guests = ctx.identities.guests(guildId);
+    if (guests.length === 0) {
+        await ctx.reply("👥 **No guests in this server yet.**\n\nUse `>guest add <name>` for a friend without Discord.");
+        return;
+    }
+    const lines = guests.map(guest => {
+        const held = ctx.guestDebts.held(guildId, guest.id);
+        const owed = held.map(debt => `${formatGuestDebtAmount(debt)} to <@${debt.creditorId}>`).join(', ');
+        // Debts whose proposals were rejected stay held after the guest is claimed
+        if (guest.claimedBy) return `• ${guest.name}: registered as <@${guest.claimedBy}>${held.length > 0 ? `, still holding ${owed}` : ''}`;
+        return `• ${guest.name} (added by <@${guest.createdBy}>): ${held.length > 0 ? `owes ${owed}` : 'owes nothing'}`;
+    });
+    await ctx.reply(`👥 **Guests in this server (${guests.length}):**\n${lines.join('\n')}`);
+}
+
+/**
+ * Proposes each of the guest's held debts to the user who claimed them, who then
+ * accepts or rejects every proposal. A debt counts as migrated only once its proposal
+ * exists on-chain; in non-custodial mode that is when its creditor's signature is relayed.
+ * @returns What was proposed, what awaits a creditor's signature, and what went wrong
+ */
+async function migrateGuestDebts(services: BotServices, guildId: string, guest: GuestRecord, claimer: User, claimerAddress: string): Promise<{ proposed: GuestDebt[]; requested: GuestDebt[]; errors: string[] }> {
+    const proposed: GuestDebt[] = [];
+    const requested: GuestDebt[] = [];
+    const errors: string[] = [];
+    const awaitingSignature = new Set(services.signatures.pending.list()
+        .map(pending => pending.context.kind === 'propose' ? pending.context.guestDebtId : undefined));
+    for (const debt of services.guestDebts.held(guildId, guest.id)) {
+        // A retry shouldn't ask the creditor to sign the same debt twice
+        if (awaitingSignature.has(debt.id)) continue;
+        const amountDisplay = formatGuestDebtAmount(debt);
+        try {
+            const creditorUser = await services.notifier.fetchUser(debt.creditorId);
+            if (services.signingMode === 'non-custodial') {
+                const creditorAddress = await services.wallets.getRegisteredAddress(debt.creditorId);
+                if (!creditorAddress) throw new Error(`${creditorUser.tag} is not registered`);
+                await services.signatures.requestProposalSignature(creditorUser, creditorAddress, claimer.id, claimerAddress, debt.token, BigInt(debt.amount), amountDisplay, debt.memo, { guestDebtId: debt.id });
+                requested.push(debt);
+            } else {
+                const creditorWallet = await services.wallets.getWallet(debt.creditorId);
+                if (!creditorWallet) throw new Error(`${creditorUser.tag} is not registered`);
+                const { tx, receipt, pendingDebtId } = await services.ledger.proposeDebt(creditorWallet.privateKey, debt.token, claimerAddress, BigInt(debt.amount), debt.memo);
+                await services.guestDebts.markMigrated(debt.id, pendingDebtId);
+                await sendDebtProposalDM(services.notifier, services.network, claimer, creditorUser.tag, amountDisplay, debt.memo, pendingDebtId.toString(), tx.hash, receipt.blockNumber);
+                proposed.push(debt);
+            }
+        } catch (error) {
+            console.error(`Error migrating guest debt #${debt.id}:`, error);
+            errors.push(`❌ ${amountDisplay} owed to <@${debt.creditorId}>: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+    return { proposed, requested, errors };
+}
+
+/**
+ * Hands a guest's held debts over to the user confirmed to be them, and lets each
+ * creditor know who their guest turned out to be
+ * @returns A summary for the claimer
+ */
+export async function handOverGuestDebts(services: BotServices, guildId: string, guest: GuestRecord, claimer: User, claimerAddress: string): Promise<string> {
+    const { proposed, requested, errors } = await migrateGuestDebts(services, guildId, guest, claimer, claimerAddress);
+
+    const handedOver = [...proposed, ...requested];
+    for (const creditorId of new Set(handedOver.map(debt => debt.creditorId))) {
+        const debts = handedOver.filter(debt => debt.creditorId === creditorId);
+        try {
+            const creditor = await services.notifier.fetchUser(creditorId);
+            await services.notifier.sendDM(creditor, `👋 **${guest.name} (guest) registered as ${claimer.tag}**\n\n` +
+                `${services.signingMode === 'non-custodial' ? 'Sign the proposals I sent you to hand over' : "I've proposed"} what they owe you: ${debts.map(formatGuestDebtAmount).join(', ')}. They'll confirm or reject each one; rejected ones are held for the guest again.`);
+        } catch (error) {
+            console.error(`Error notifying creditor ${creditorId} of guest claim:`, error);
+        }
+    }
+
+    let summary = `✅ **You claimed ${guest.name} (guest).**\n\n`;
+    if (proposed.length > 0) {
+        summary += `${proposed.length} debt(s) held for them were proposed to you. Check your DMs to confirm or reject each one.\n`;
+    }
+    if (requested.length > 0) {
+        summary += `${requested.length} debt(s) held for them were sent to their creditors to sign. You'll get a DM to confirm or reject each one once they do.\n`;
+    }
+    if (handedOver.length === 0 && errors.length === 0) {
+        summary += 'They had no debts waiting.';
+    }
+    if (errors.length > 0) {
+        summary += `\n**Not handed over yet** (run \`>guest claim ${guest.name}\` again to retry):\n${errors.join('\n')}`;
+    }
+    return summary.trim();
+}
+
+// Guest debts can only be handed over with the consent of whoever vouched for the guest
+function buildClaimDecisionRow(guildId: string, guestId: string): ActionRowBuilder<ButtonBuilder> {
+    return new ActionRowBuilder<ButtonBuilder>()
+        .addComponents(
+            new ButtonBuilder()
+                .setCustomId(`approve-guest-claim:${guildId}:${guestId}`)
+                .setLabel('Yes, that\'s them')
+                .setStyle(ButtonStyle.Success),
+            new ButtonBuilder()
+                .setCustomId(`deny-guest-claim:${guildId}:${guestId}`)
+                .setLabel('No')
+                .setStyle(ButtonStyle.Danger),
+        );
+}
+
+async function claimGuest(ctx: CommandContext, guildId: string, name: string): Promise<void> {
+    const claimerAddress = await requireRegistered(ctx, 'claim a guest');
+    if (!claimerAddress) return;
+    const guest = ctx.identities.findGuestByName(guildId, name);
+    if (!guest) {
+        await ctx.reply(`❌ There is no guest called "${name}" in this server. Use \`>guest list\` to see them.`);
+        return;
+    }
+    if (guest.claimedBy && guest.claimedBy !== ctx.author.id) {
+        await ctx.reply(`❌ ${guest.name} was already claimed by <@${guest.claimedBy}>.`);
+        return;
+    }
+    // Once approved, the same user can claim again to retry debts that failed to migrate
+    if (guest.claimedBy === ctx.author.id) {
+        await ctx.reply(await handOverGuestDebts(ctx, guildId, guest, ctx.author, claimerAddress));
+        return;
+    }
+    if (guest.createdBy === ctx.author.id) {
+        await ctx.reply(`❌ You added ${guest.name} yourself, so you can't claim them. ${guest.name} should claim their debts once they \`>register\`.`);
+        return;
+    }
+    if (guest.claimRequestedBy && guest.claimRequestedBy !== ctx.author.id) {
+        await ctx.reply(`❌ <@${guest.claimRequestedBy}> already asked to claim ${guest.name}. <@${guest.createdBy}>, who added them, has to answer that first.`);
+        return;
+    }
+
+    await ctx.identities.requestClaim(guildId, guest.id, ctx.author.id);
+    const creator = await ctx.notifier.fetchUser(guest.createdBy);
+    await ctx.notifier.sendDM(creator, {
+        content: `🙋 **${ctx.author.tag} says they are ${guest.name} (guest)**\n\nYou added ${guest.name} as a guest. If you confirm, the debts held for them are proposed to ${ctx.author.tag}. Is ${ctx.author.tag} really ${guest.name}?`,
+        components: [buildClaimDecisionRow(guildId, guest.id)]
+    });
+    await ctx.reply(`⏳ **Claim sent.** <@${guest.createdBy}> added ${guest.name} and has to confirm it's you before their debts are handed over.`);
+}
+
+// Friends without Discord accounts: add them, see what they owe, and claim them once registered
+async function execute(ctx: CommandContext): Promise<void> {
+    if (!ctx.guild) {
+        await ctx.reply("❌ Guests are kept per server. Use this command in a server channel.");
+        return;
+    }
+
+    const action = ctx.args.getString('action')?.toLowerCase() ?? 'list';
+    const name = ctx.args.getString('name')?.trim();
+    if (action === 'list') {
+        await listGuests(ctx, ctx.guild.id);
+    } else if (action === 'add' && name) {
+        await addGuest(ctx, ctx.guild.id, name);
+    } else if (action === 'claim' && name) {
+        await claimGuest(ctx, ctx.guild.id, name);
+    } else {
+        await ctx.reply(`❌ Use \`>guest add <name>\`, \`>guest claim <name>\` or \`>guest list\`.\nUsage: \`${formatUsage(guestCommand.definition)}\``);
+    }
+}
+
+export const guestCommand: Command = {
+    definition: {
+        name: 'guest',
+        description: 'Add friends without Discord to bill splitting, or claim one once registered',
+        options: [
+            { name: 'action', description: 'add, claim or list', type: 'string', required: false },
+            { name: 'name', description: 'The guest\'s name, e.g. "Mina"', type: 'string', required: false, rest: true }
+        ]
+    },
+    execute
+};
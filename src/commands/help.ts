@@ -0,0 +1,15 @@
+import { Command, CommandContext } from './types';
+
+async function execute(ctx: CommandContext): Promise<void> {
+    const helpMessage = `\n**BillTheAccountant Bot Commands**\n\n**Manual Commands:**\n**>register** - Register yourself and get a new wallet (auto-funded with 10 ETH). In non-custodial mode use **>register <wallet_address>** to link your own wallet, then sign the message I reply with and send **>register <wallet_address> <signature>**.\n**>recover-key <private_key>** - Recover access to your registered wallet (DM only).\n**>reset-wallet** - Fix wallet issues from system updates or registration conflicts.\n**>add-debt @user <amount> [token] [memo...]** - Propose a new debt to another user. Options can also be named in any order, e.g. \`>add-debt @user amount:10 token:USDC memo:dinner\`. Add **split:3**, **split:40%** or **split:2/5** to charge them only their share of the amount. If they haven't registered yet, the proposal is queued and sent as soon as they do.\n**>deferred [list|cancel <id>]** - See or cancel your proposals waiting for someone to register.\n**>balance @user <token_symbol_or_address>** - Check your confirmed and pending balances with another user.\n**>history @user** - View your confirmed and pending transaction history with another user.\n**>settle @user <token> [amount]** - Pay back what you owe another user in ETH or an ERC20 token. Leave out the amount to pay everything you owe.\n**>simplify [token]** - Plan the fewest transfers that settle everyone's debts in this server. Once every participant approves, the new balances replace the old ones on-chain.\n**>fund-wallet** - Manually fund your wallet with 10 ETH for gas fees.\n\n**Slash Commands:** \`/register\`, \`/add-debt\`, \`/balance\`, \`/history\`, \`/settle\` and \`/simplify\` work the same way with typed options and private replies.\n\n**Automated Bill Detection:**\n**@Bill [mention users] + bill keywords** - Mention me with bill-related words to automatically analyze chat history and detect expenses! Receipt photos posted in the chat are read too, item by item. I look through the last 72 hours, including threads, unless you say otherwise: \"last 6 hours\", \"since yesterday\", a reply to the first message, or links to the first and last messages. You can edit, add or remove expenses before confirming; ones already proposed by an earlier analysis are flagged and skipped. Each payer approves the expenses they paid for with 👍 and participants can object to any expense; only approved expenses without objections are proposed, the rest wait on the preview.\n**>bill-extractor [name]** - Show or choose how this server's chat is analyzed: Gemini, Anthropic, a local OpenAI-compatible model, or the offline \`rules\` parser (Manage Server permission needed to change it).\n**>alias add <name>** - Tell me a name friends call you in chat, like \"jay\" or \"승재\", so bill detection knows it's you. Add **guest:<friend>** to name a friend without Discord instead. **>alias list** shows this server's aliases and **>alias remove <name>** removes one you added.\n**>guest add <name>** - Add a friend without Discord so bill detection can split expenses with them; their shares are held until they join. **>guest list** shows what each guest owes and **>guest claim <name>** hands a guest's held debts to you once you've registered and whoever added the guest confirms it's you; you then confirm or reject each one.\n**Example:** "@Bill can you clear out our bill splitting from yesterday? @john @alice"\n\n**Debug Commands:**\n**>test-parse <amount> [token]** - Debug command to test token parsing.\n**>debug-events @user** - Debug command to check blockchain events with a user.\n**>help** - Shows this help message.\n\n*🤖 **Smart Features:** I can automatically detect expenses from your chat history using AI!*\n*If you get "needs private key recovery" messages, check your DMs for recovery instructions.*\n`;
+    await ctx.reply(helpMessage);
+}
+
+export const helpCommand: Command = {
+    definition: {
+        name: 'help',
+        description: 'Show the list of commands',
+        options: []
+    },
+    execute
+};
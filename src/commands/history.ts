@@ -0,0 +1,69 @@
+import { formatTokenAmount, findTokenByAddress, TokenInfo } from '../tokenUtils';
+import { findCommandDefinition } from './definitions';
+import { requireBothAddresses } from './registration';
+import { Command, CommandContext } from './types';
+
+// Find token info or use defaults
+function describeToken(token: string): TokenInfo {
+    return findTokenByAddress(token) || {
+        address: token,
+        decimals: 18,
+        symbol: token.slice(0, 8) + '...'
+    };
+}
+
+async function execute(ctx: CommandContext): Promise<void> {
+    const historyUser = ctx.args.getUser('user')!;
+
+    const addresses = await requireBothAddresses(ctx, historyUser,
+        "❌ **Registration Required for History**",
+        "*Both users must have working registrations to view transaction history.*");
+    if (!addresses) return;
+
+    await ctx.indexer.catchUp();
+    const events = ctx.indexer.store;
+    const confirmedDebts = events.getConfirmedDebtsBetween(addresses.author, addresses.other);
+    const pendingProposals = events.getPendingProposalsBetween(addresses.author, addresses.other);
+    const settlements = events.getSettlementsBetween(addresses.author, addresses.other);
+
+    if (confirmedDebts.length === 0 && pendingProposals.length === 0 && settlements.length === 0) {
+        await ctx.reply("No history found with this user.");
+        return;
+    }
+
+    let history = '**Transaction History:**\n';
+
+    history += '\n**Confirmed Debts:**\n';
+    if (confirmedDebts.length > 0) {
+        for (const debt of confirmedDebts) {
+            const date = new Date(Number(debt.timestamp) * 1000).toLocaleDateString();
+            history += `[${date}] ${debt.memo} - Amount: ${formatTokenAmount(debt.amount, describeToken(debt.token))}\n`;
+        }
+    } else {
+        history += 'No confirmed debts.\n';
+    }
+
+    history += '\n**Pending Debts:**\n';
+    if (pendingProposals.length > 0) {
+        for (const proposal of pendingProposals) {
+            history += `(Pending) ${proposal.memo} - Amount: ${formatTokenAmount(proposal.amount, describeToken(proposal.token))}\n`;
+        }
+    } else {
+        history += 'No pending debts.\n';
+    }
+
+    if (settlements.length > 0) {
+        history += '\n**Settlements:**\n';
+        for (const settlement of settlements) {
+            const payer = settlement.debtor === addresses.author ? 'You paid them' : 'They paid you';
+            history += `${payer} ${formatTokenAmount(settlement.amount, describeToken(settlement.token))} (block ${settlement.blockNumber})\n`;
+        }
+    }
+
+    await ctx.reply(history);
+}
+
+export const historyCommand: Command = {
+    definition: findCommandDefinition('history')!,
+    execute
+};
@@ -0,0 +1,87 @@
+import { ChatInputCommandInteraction, Message } from 'discord.js';
+import { safeInteractionReply, safeSendMessage } from '../discord/safe';
+import { BotServices } from '../services';
+import { addDebtCommand } from './addDebt';
+import { aliasCommand } from './alias';
+import { balanceCommand } from './balance';
+import { billExtractorCommand } from './billExtractor';
+import { createInteractionContext, createMessageContext } from './context';
+import { debugEventsCommand } from './debugEvents';
+import { deferredCommand } from './deferred';
+import { getSlashArgs, parsePrefixArgs, SHARED_COMMANDS } from './definitions';
+import { fundWalletCommand } from './fundWallet';
+import { guestCommand } from './guest';
+import { helpCommand } from './help';
+import { historyCommand } from './history';
+import { recoverKeyCommand } from './recoverKey';
+import { registerCommand } from './register';
+import { resetWalletCommand } from './resetWallet';
+import { settleCommand } from './settle';
+import { simplifyCommand } from './simplify';
+import { testParseCommand } from './testParse';
+import { Command } from './types';
+
+export const COMMANDS: Command[] = [
+    registerCommand,
+    recoverKeyCommand,
+    resetWalletCommand,
+    addDebtCommand,
+    deferredCommand,
+    balanceCommand,
+    historyCommand,
+    settleCommand,
+    simplifyCommand,
+    fundWalletCommand,
+    billExtractorCommand,
+    aliasCommand,
+    guestCommand,
+    testParseCommand,
+    debugEventsCommand,
+    helpCommand
+];
+
+export function findCommand(name: string): Command | undefined {
+    return COMMANDS.find(command => command.definition.name === name);
+}
+
+// Only commands with a shared definition are registered as slash commands
+function isSlashCommand(command: Command): boolean {
+    return SHARED_COMMANDS.includes(command.definition);
+}
+
+/**
+ * Runs a `>name` prefix command
+ * @returns true if the message named a known command
+ */
+export async function dispatchPrefixCommand(message: Message, services: BotServices, prefix: string): Promise<boolean> {
+    if (!message.content.startsWith(prefix)) return false;
+
+    const words = message.content.slice(prefix.length).trim().split(/ +/);
+    const name = words.shift()?.toLowerCase();
+    const command = name ? findCommand(name) : undefined;
+    if (!command) return false;
+
+    const parsed = parsePrefixArgs(command.definition, words, id => message.mentions.users.get(id));
+    if ('error' in parsed) {
+        await safeSendMessage(message, parsed.error);
+        return true;
+    }
+    await command.execute(createMessageContext(message, parsed.args, services));
+    return true;
+}
+
+/**
+ * Runs a `/name` slash command
+ */
+export async function dispatchSlashCommand(interaction: ChatInputCommandInteraction, services: BotServices): Promise<void> {
+    const command = findCommand(interaction.commandName);
+    if (!command || !isSlashCommand(command)) return;
+
+    const parsed = getSlashArgs(command.definition, interaction);
+    if ('error' in parsed) {
+        await safeInteractionReply(interaction, parsed.error, { ephemeral: true });
+        return;
+    }
+    await interaction.deferReply({ ephemeral: true });
+    await command.execute(createInteractionContext(interaction, parsed.args, services));
+}
@@ -0,0 +1,81 @@
+import { ethers } from 'ethers';
+import { Command, CommandContext } from './types';
+
+async function execute(ctx: CommandContext): Promise<void> {
+    if (ctx.signingMode === 'non-custodial') {
+        await ctx.reply("ℹ️ This bot runs in non-custodial mode and never stores private keys. Sign requests with your own wallet instead.");
+        return;
+    }
+
+    if (ctx.guild) {
+        // Command used in public channel - security warning
+        await ctx.reply("🚨 **SECURITY WARNING**\n\n**NEVER share your private key in public channels!**\n\nThe `>recover-key` command only works in DMs for your security.\n\nPlease:\n1. Delete this message immediately\n2. Send me a DM with the command instead\n\n🔒 **Your private key = full control of your wallet**");
+        
+        // Try to delete the message if bot has permissions
+        try {
+            await ctx.deleteSource();
+        } catch (deleteError) {
+            console.log("[WARNING] Could not delete public private key message - insufficient permissions");
+        }
+        return;
+    }
+
+    // Handle private key recovery via DM
+    const providedKey = ctx.args.getString('privateKey');
+    if (!providedKey) {
+        await ctx.reply("❌ **Usage:** `>recover-key YOUR_PRIVATE_KEY`\n\n**Example:** `>recover-key 0x1234567890abcdef...`\n\n⚠️ **Security:** Only use this command in DMs, never in public channels!");
+        return;
+    }
+    
+    // Basic validation of private key format
+    if (!providedKey.startsWith('0x') || providedKey.length !== 66) {
+        await ctx.reply("❌ **Invalid Private Key Format**\n\nPrivate keys should:\n• Start with `0x`\n• Be exactly 66 characters long\n• Contain only hexadecimal characters (0-9, a-f)\n\n**Example:** `0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef`");
+        return;
+    }
+
+    try {
+        // Validate the private key by creating a wallet
+        const testWallet = new ethers.Wallet(providedKey);
+        const derivedAddress = testWallet.address;
+        
+        // Check if this address matches the user's registered address
+        const registeredAddress = await ctx.ledger.getRegisteredAddress(ctx.author.id);
+        if (!registeredAddress) {
+            await ctx.reply("❌ **Not Registered**\n\nYour Discord account isn't registered on-chain yet. Use `>register` to create a new account.");
+            return;
+        }
+        
+        if (derivedAddress.toLowerCase() !== registeredAddress.toLowerCase()) {
+            await ctx.reply(`❌ **Address Mismatch**\n\n**Your registered address:** \`${registeredAddress}\`\n**Private key corresponds to:** \`${derivedAddress}\`\n\nThe private key you provided doesn't match your registered wallet address. Please check your private key or use \`>reset-wallet\` if you need a new wallet.`);
+            return;
+        }
+        
+        // Store the private key
+        await ctx.wallets.storeWallet(ctx.author.id, { address: registeredAddress, privateKey: providedKey });
+        
+        // Verify it works by testing wallet creation
+        const verifyWallet = await ctx.wallets.getWallet(ctx.author.id);
+        if (verifyWallet) {
+            await ctx.reply(`✅ **Private Key Recovered Successfully!**\n\n**Wallet Address:** \`${registeredAddress}\`\n\nYour wallet is now active and you can use all bot commands.\n\n🛡️ **Security:** Your private key is stored encrypted in the bot's keystore. Remember to keep it safe!`);
+            console.log(`[DEBUG] Successfully recovered private key for Discord ID ${ctx.author.id}, address ${registeredAddress}`);
+        } else {
+            await ctx.reply("❌ **Recovery Failed**\n\nThere was an issue storing your private key. Please try again or contact an admin.");
+        }
+        
+    } catch (error) {
+        console.error(`[ERROR] Private key recovery failed for ${ctx.author.id}:`, error);
+        await ctx.reply("❌ **Invalid Private Key**\n\nThe private key you provided is not valid. Please check the format and try again.\n\n**Format:** `0x` followed by 64 hexadecimal characters");
+    }
+}
+
+// Prefix-only: private keys must never be typed into a slash command
+export const recoverKeyCommand: Command = {
+    definition: {
+        name: 'recover-key',
+        description: 'Recover access to your registered wallet (DM only)',
+        options: [
+            { name: 'privateKey', description: 'Private key of your registered wallet', type: 'string', required: false }
+        ]
+    },
+    execute
+};
@@ -0,0 +1,133 @@
+import { ethers } from 'ethers';
+import { releaseDeferredProposals } from './deferred';
+import { findCommandDefinition } from './definitions';
+import { Command, CommandContext } from './types';
+
+// New custodial wallets get ETH for gas so they can propose and confirm debts (development only)
+const AUTO_FUND_AMOUNT = ethers.parseEther("10");
+
+async function registerOwnWallet(ctx: CommandContext): Promise<void> {
+    // Users bring their own wallet; the bot only records the mapping
+    const providedAddress = ctx.args.getString('address');
+    if (!providedAddress) {
+        await ctx.reply("Usage: `>register <your_wallet_address>`\n\n*This bot runs in non-custodial mode: you keep your private key and sign actions with your own wallet.*");
+        return;
+    }
+
+    const registeredAddress = await ctx.wallets.getRegisteredAddress(ctx.author.id);
+    if (registeredAddress) {
+        await ctx.reply(`✅ You are already registered with wallet \`${registeredAddress}\`.`);
+        return;
+    }
+
+    // The address is only linked once its wallet signs a message naming this Discord account
+    const signature = ctx.args.getString('signature');
+    if (!signature) {
+        const challenge = ctx.signatures.createRegistrationChallenge(ctx.author.id, providedAddress);
+        await ctx.reply(`✍️ **Prove you own this wallet**\n\nSign this message with \`${ethers.getAddress(providedAddress)}\` (\`personal_sign\`, "Sign message" in most wallets):\n\`\`\`\n${challenge}\n\`\`\`\nThen run \`>register ${providedAddress} <signature>\` within the hour.`);
+        return;
+    }
+    if (!ctx.signatures.verifyRegistrationChallenge(ctx.author.id, providedAddress, signature)) {
+        await ctx.reply(`❌ **Signature doesn't match**\n\nSign the exact message from \`>register ${providedAddress}\` with that wallet. Run it again for a new message if yours expired.`);
+        return;
+    }
+
+    try {
+        await ctx.ledger.registerUser(ctx.author.id, ethers.getAddress(providedAddress));
+        console.log(`[DEBUG] User ${ctx.author.id} registered on-chain with their own address ${providedAddress}`);
+        await ctx.reply(`✅ Registered wallet \`${ethers.getAddress(providedAddress)}\` for your Discord account.\n\nYou will be asked to sign proposals and confirmations with this wallet.`);
+    } catch (error) {
+        console.error(`[DEBUG] Failed to register user on-chain:`, error);
+        const errorMessage = (error as Error).message || (error as any).toString();
+        await ctx.reply(`❌ Failed to register on blockchain: ${errorMessage}\n\nPlease try again or contact an admin.`);
+    }
+}
+
+async function registerCustodialWallet(ctx: CommandContext): Promise<void> {
+    // Check if user already has a working registration
+    const existingWallet = await ctx.wallets.getWallet(ctx.author.id);
+    if (existingWallet) {
+        // The keystore outlives local chain resets, so re-link the stored wallet if the chain forgot it
+        const registeredAddress = await ctx.ledger.getRegisteredAddress(ctx.author.id);
+        if (!registeredAddress) {
+            try {
+                await ctx.ledger.registerUser(ctx.author.id, existingWallet.address);
+                console.log(`[DEBUG] Re-registered stored wallet ${existingWallet.address} for ${ctx.author.id} on-chain`);
+                await ctx.reply(`✅ Your existing wallet (\`${existingWallet.address}\`) has been re-registered on-chain.`);
+            } catch (error) {
+                console.error(`[DEBUG] Failed to re-register stored wallet:`, error);
+                await ctx.reply(`❌ Failed to re-register your wallet on blockchain: ${(error as Error).message}`);
+            }
+            return;
+        }
+        await ctx.reply("✅ You are already registered and your wallet is working correctly.");
+        return;
+    }
+    
+    // Check if this is an orphaned registration (registered on-chain but no private key)
+    const orphanCheck = await ctx.wallets.isOrphanedRegistration(ctx.author.id);
+    
+    if (orphanCheck.isOrphaned) {
+        // User is registered on-chain but we don't have their private key
+        await ctx.reply(`⚠️ **Registration Recovery Needed**\n\nYour Discord account is registered on-chain (address: \`${orphanCheck.address}\`) but the bot doesn't have access to your wallet.\n\nThis can happen after system updates or if you were registered using the old system.\n\n**Options:**\n1. Use \`>recover-key <private_key>\` in a DM if you still have your private key\n2. Contact an admin to link a new wallet to your Discord ID`);
+        return;
+    }
+    
+    const newWallet = ethers.Wallet.createRandom();
+    
+    // Save the key before binding the Discord ID to its address on-chain, so a
+    // registration can never point at a key the bot doesn't have
+    try {
+        await ctx.wallets.storeWallet(ctx.author.id, { address: newWallet.address, privateKey: newWallet.privateKey });
+    } catch (error) {
+        console.error(`[DEBUG] Failed to store new wallet:`, error);
+        await ctx.reply(`❌ Failed to save your new wallet: ${(error as Error).message}\n\nNothing was registered on-chain. Please try again or contact an admin.`);
+        return;
+    }
+
+    // Register user on-chain
+    try {
+        await ctx.ledger.registerUser(ctx.author.id, newWallet.address);
+        console.log(`[DEBUG] User ${ctx.author.id} registered on-chain with address ${newWallet.address}`);
+    } catch (error) {
+        console.error(`[DEBUG] Failed to register user on-chain:`, error);
+        await ctx.wallets.deleteWallet(ctx.author.id);
+        
+        // Check if this is a "Discord ID already registered" error
+        const errorMessage = (error as Error).message || (error as any).toString();
+        if (errorMessage.includes('Discord ID already registered')) {
+            await ctx.reply(`❌ **Registration Conflict**\n\nYour Discord ID is already registered on-chain, but there seems to be an issue with the wallet mapping.\n\nPlease try:\n1. \`>reset-wallet\` to resolve the conflict\n2. Contact an admin if the problem persists\n\n*This can happen after system updates or blockchain resets.*`);
+        } else {
+            await ctx.reply(`❌ Failed to register on blockchain: ${errorMessage}\n\nPlease try again or contact an admin.`);
+        }
+        return;
+    }
+    
+    // Auto-fund the new wallet with ETH for gas fees (development only)
+    try {
+        console.log(`[DEBUG] Auto-funding wallet ${newWallet.address} with 10 ETH for gas fees...`);
+        await ctx.ledger.fundWallet(newWallet.address, AUTO_FUND_AMOUNT);
+        console.log(`[DEBUG] Successfully funded wallet ${newWallet.address}`);
+    } catch (error) {
+        console.error(`[DEBUG] Failed to fund wallet:`, error);
+        await ctx.reply("⚠️ Wallet registered but auto-funding failed. You may need ETH for gas fees.");
+    }
+    
+    await ctx.notifier.sendDM(ctx.author, `Your new wallet address is: ${newWallet.address}\nYour private key is: ${newWallet.privateKey}\n**IMPORTANT: Save this private key securely. It cannot be recovered.**\n\n✅ Your wallet has been automatically funded with 10 ETH for gas fees.`);
+    await ctx.reply(`I\'ve sent you a DM with your new wallet details.`);
+}
+
+async function execute(ctx: CommandContext): Promise<void> {
+    if (ctx.signingMode === 'non-custodial') {
+        await registerOwnWallet(ctx);
+    } else {
+        await registerCustodialWallet(ctx);
+    }
+    // Debts others queued while this user wasn't registered can be proposed now
+    await releaseDeferredProposals(ctx, ctx.author);
+}
+
+export const registerCommand: Command = {
+    definition: findCommandDefinition('register')!,
+    execute
+};
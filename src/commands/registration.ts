@@ -0,0 +1,83 @@
+import { User } from 'discord.js';
+import { StoredWallet } from '../keystore';
+import { promptForPrivateKeyRecovery } from '../services/notifier';
+import { CommandContext } from './types';
+
+/**
+ * Loads the custodial wallets of the command author and another user.
+ *
+ * If either is missing, replies explaining what each user needs to do (and DMs
+ * recovery instructions to orphaned registrations).
+ *
+ * @param title - First line of the error reply
+ * @param footer - Closing note of the error reply
+ * @returns Both wallets, or null if the error reply was sent
+ */
+export async function requireBothWallets(ctx: CommandContext, otherUser: User, title: string, footer: string): Promise<{ author: StoredWallet; other: StoredWallet } | null> {
+    const authorWallet = await ctx.wallets.getWallet(ctx.author.id);
+    const otherWallet = await ctx.wallets.getWallet(otherUser.id);
+
+    if (authorWallet && otherWallet) {
+        return { author: authorWallet, other: otherWallet };
+    }
+
+    let errorMessage = `${title}\n\n`;
+    
+    if (!authorWallet) {
+        const authorOrphanCheck = await ctx.wallets.isOrphanedRegistration(ctx.author.id);
+        if (authorOrphanCheck.isOrphaned) {
+            errorMessage += "**You:** Your wallet needs private key recovery. Check your DMs for instructions.\n";
+            // Send DM with recovery instructions
+            await promptForPrivateKeyRecovery(ctx.notifier, ctx.author.id, authorOrphanCheck.address!);
+        } else {
+            errorMessage += "**You:** Not registered. Use `>register` to create an account.\n";
+        }
+    }
+    
+    if (!otherWallet) {
+        const otherOrphanCheck = await ctx.wallets.isOrphanedRegistration(otherUser.id);
+        if (otherOrphanCheck.isOrphaned) {
+            errorMessage += `**@${otherUser.tag}:** Their wallet needs private key recovery. They should check their DMs.\n`;
+            // Send DM with recovery instructions
+            await promptForPrivateKeyRecovery(ctx.notifier, otherUser.id, otherOrphanCheck.address!);
+        } else {
+            errorMessage += `**@${otherUser.tag}:** Not registered. They should use \`>register\`.\n`;
+        }
+    }
+    
+    errorMessage += `\n${footer}`;
+    await ctx.reply(errorMessage);
+    return null;
+}
+
+/**
+ * Looks up the registered addresses of the command author and another user, for
+ * commands that only read the ledger. In custodial mode this also checks both
+ * wallets are usable (see requireBothWallets); in non-custodial mode the bot holds
+ * no keys, so only the on-chain registration is needed.
+ *
+ * @returns Both addresses, or null if the error reply was sent
+ */
+export async function requireBothAddresses(ctx: CommandContext, otherUser: User, title: string, footer: string): Promise<{ author: string; other: string } | null> {
+    if (ctx.signingMode !== 'non-custodial') {
+        const wallets = await requireBothWallets(ctx, otherUser, title, footer);
+        return wallets && { author: wallets.author.address, other: wallets.other.address };
+    }
+
+    const authorAddress = await ctx.wallets.getRegisteredAddress(ctx.author.id);
+    const otherAddress = await ctx.wallets.getRegisteredAddress(otherUser.id);
+    if (authorAddress && otherAddress) {
+        return { author: authorAddress, other: otherAddress };
+    }
+
+    let errorMessage = `${title}\n\n`;
+    if (!authorAddress) {
+        errorMessage += "**You:** Not registered. Use `>register <your_wallet_address>`.\n";
+    }
+    if (!otherAddress) {
+        errorMessage += `**@${otherUser.tag}:** Not registered. They should use \`>register <their_wallet_address>\`.\n`;
+    }
+    errorMessage += `\n${footer}`;
+    await ctx.reply(errorMessage);
+    return null;
+}
@@ -0,0 +1,30 @@
+import { Command, CommandContext } from './types';
+
+// This command helps fix orphaned registrations
+async function execute(ctx: CommandContext): Promise<void> {
+    const orphanCheck = await ctx.wallets.isOrphanedRegistration(ctx.author.id);
+    
+    if (!orphanCheck.isOrphaned) {
+        const existingWallet = await ctx.wallets.getWallet(ctx.author.id);
+        if (existingWallet) {
+            await ctx.reply("❌ Your wallet is working correctly. No reset needed.\n\nIf you're experiencing issues, please contact an admin.");
+        } else {
+            await ctx.reply("❌ You're not registered yet. Use `>register` to create a new account.");
+        }
+        return;
+    }
+
+    // The contract can't move a Discord ID to a new address, so a fresh wallet would be
+    // unusable; recovering the old key or an admin relinking is the only way out
+    console.log(`[DEBUG] Wallet reset requested for Discord ID ${ctx.author.id} registered to ${orphanCheck.address}`);
+    await ctx.reply(`⚠️ **Wallet Reset Requires an Admin**\n\nYour Discord ID (${ctx.author.id}) is registered on-chain with address \`${orphanCheck.address}\`, but the bot doesn't have the private key.\n\n**Options:**\n1. If you still have the private key, send \`>recover-key <private_key>\` to me in a DM\n2. Otherwise, ask an admin to link your Discord ID to a new wallet\n\n**For Development:** You can restart the blockchain node to clear all registrations, then use \`>register\` normally.`);
+}
+
+export const resetWalletCommand: Command = {
+    definition: {
+        name: 'reset-wallet',
+        description: 'Fix wallet issues from system updates or registration conflicts',
+        options: []
+    },
+    execute
+};
@@ -0,0 +1,154 @@
+import { sendSettlementReceipts } from '../services/notifier';
+import { SignatureRequest } from '../signing';
+import { formatTokenAmount, isNativeToken, parseTokenAmount, parseTokenIdentifier, TokenInfo } from '../tokenUtils';
+import { findCommandDefinition } from './definitions';
+import { requireBothWallets } from './registration';
+import { Command, CommandContext } from './types';
+
+/**
+ * Works out how much to pay: the requested amount, or the whole debt if none was given
+ * @returns The amount, or an error message for the user
+ */
+function resolveSettlementAmount(amountRaw: string | undefined, amountOwed: bigint, tokenInfo: TokenInfo): { amount: bigint } | { error: string } {
+    if (!amountRaw) return { amount: amountOwed };
+
+    let amount: bigint;
+    try {
+        amount = parseTokenAmount(amountRaw, tokenInfo);
+    } catch (error) {
+        return { error: `❌ ${(error as Error).message}` };
+    }
+    if (amount <= 0n) {
+        return { error: '❌ The settlement amount must be greater than zero.' };
+    }
+    if (amount > amountOwed) {
+        return { error: `❌ You only owe ${formatTokenAmount(amountOwed, tokenInfo)}. Leave out the amount to pay it all.` };
+    }
+    return { amount };
+}
+
+// Non-custodial mode: the debtor approves the contract themselves and signs the settlement,
+// or for native ETH sends the payment from their own wallet
+async function requestSignedSettlement(ctx: CommandContext, tokenInfo: TokenInfo): Promise<void> {
+    const creditorUser = ctx.args.getUser('user')!;
+    const debtorAddress = await ctx.wallets.getRegisteredAddress(ctx.author.id);
+    const creditorAddress = await ctx.wallets.getRegisteredAddress(creditorUser.id);
+    if (!debtorAddress || !creditorAddress) {
+        await ctx.reply("❌ **Registration Required**\n\nBoth users must register their wallets with `>register <wallet_address>` before settling.");
+        return;
+    }
+
+    const amountOwed = await ctx.ledger.getDebt(tokenInfo.address, debtorAddress, creditorAddress);
+    if (amountOwed === 0n) {
+        await ctx.reply(`You don't owe ${creditorUser.tag} any ${tokenInfo.symbol}.`);
+        return;
+    }
+    const resolved = resolveSettlementAmount(ctx.args.getString('amount'), amountOwed, tokenInfo);
+    if ('error' in resolved) {
+        await ctx.reply(resolved.error);
+        return;
+    }
+    const amountDisplay = formatTokenAmount(resolved.amount, tokenInfo);
+
+    // A relayer can't pull ETH out of the debtor's wallet, so they have to send it themselves
+    if (isNativeToken(tokenInfo.address)) {
+        await ctx.reply(`💸 **Send the payment from your wallet**\n\nCall \`settleDebt(${tokenInfo.address}, ${creditorAddress}, ${resolved.amount})\` on the BillTheAccountant contract \`${ctx.ledger.contractAddress}\`, sending **${amountDisplay}** as the transaction value. Anything sent beyond the amount is refunded.`);
+        return;
+    }
+
+    const allowance = await ctx.ledger.getTokenAllowance(tokenInfo.address, debtorAddress);
+    if (allowance < resolved.amount) {
+        await ctx.reply(`🔓 **Token approval required**\n\nFrom your wallet, approve the BillTheAccountant contract \`${ctx.ledger.contractAddress}\` to spend at least **${amountDisplay}** of token \`${tokenInfo.address}\`, then run the command again.\n\n**Current allowance:** ${formatTokenAmount(allowance, tokenInfo)}`);
+        return;
+    }
+
+    const request: SignatureRequest = {
+        primaryType: 'SettleDebt',
+        message: {
+            debtor: debtorAddress,
+            token: tokenInfo.address,
+            creditor: creditorAddress,
+            amount: resolved.amount,
+            nonce: await ctx.signatures.getNextNonce(debtorAddress),
+            deadline: ctx.signatures.getDeadline()
+        }
+    };
+    const context = { kind: 'settle' as const, creditorId: creditorUser.id, tokenSymbol: tokenInfo.symbol, decimals: tokenInfo.decimals, amountOwed };
+    const payload = await ctx.signatures.buildRequestMessage(ctx.author.id, request, context, `Pay **${amountDisplay}** to **${creditorUser.tag}**`);
+    await ctx.notifier.sendDM(ctx.author, payload);
+    await ctx.reply(`✍️ **Signature required**\n\nI've sent you a DM with the settlement to sign with your wallet.`);
+}
+
+async function execute(ctx: CommandContext): Promise<void> {
+    const creditorUser = ctx.args.getUser('user')!;
+    const tokenIdentifier = ctx.args.getString('token')!;
+
+    let tokenInfo: TokenInfo;
+    try {
+        tokenInfo = parseTokenIdentifier(tokenIdentifier);
+    } catch (error) {
+        await ctx.reply(`Invalid token: ${tokenIdentifier}. Supported tokens are ETH, USDC, or a valid address.`);
+        return;
+    }
+
+    if (ctx.signingMode === 'non-custodial') {
+        await requestSignedSettlement(ctx, tokenInfo);
+        return;
+    }
+
+    const wallets = await requireBothWallets(ctx, creditorUser,
+        "❌ **Registration Required for Settlement**",
+        "*Both users must have working registrations to settle debts.*");
+    if (!wallets) return;
+    const debtor = wallets.author;
+    const creditor = wallets.other;
+
+    const amountOwed = await ctx.ledger.getDebt(tokenInfo.address, debtor.address, creditor.address);
+    if (amountOwed === 0n) {
+        await ctx.reply(`You don't owe ${creditorUser.tag} any ${tokenInfo.symbol}.`);
+        return;
+    }
+    const resolved = resolveSettlementAmount(ctx.args.getString('amount'), amountOwed, tokenInfo);
+    if ('error' in resolved) {
+        await ctx.reply(resolved.error);
+        return;
+    }
+    const amount = resolved.amount;
+
+    try {
+        const tokenBalance = await ctx.ledger.getTokenBalance(tokenInfo.address, debtor.address);
+        if (tokenBalance < amount) {
+            await ctx.reply(`❌ **Insufficient ${tokenInfo.symbol} balance**\n\nSettling needs ${formatTokenAmount(amount, tokenInfo)}, but your wallet (${debtor.address}) holds ${formatTokenAmount(tokenBalance, tokenInfo)}.`);
+            return;
+        }
+
+        // ERC20 tokens are pulled by the contract, so it needs an allowance covering the payment
+        if (!isNativeToken(tokenInfo.address)) {
+            const allowance = await ctx.ledger.getTokenAllowance(tokenInfo.address, debtor.address);
+            if (allowance < amount) {
+                console.log(`[DEBUG] Approving ${amount} of ${tokenInfo.address} for settlement (allowance ${allowance})`);
+                await ctx.ledger.approveToken(debtor.privateKey, tokenInfo.address, amount);
+            }
+        }
+
+        const { tx, receipt, settlement } = await ctx.ledger.settleDebt(debtor.privateKey, tokenInfo.address, creditor.address, amount);
+        const amountDisplay = formatTokenAmount(settlement.amount, tokenInfo);
+        const remainingDisplay = formatTokenAmount(amountOwed - settlement.amount, tokenInfo);
+
+        await sendSettlementReceipts(ctx.notifier, ctx.network, ctx.author, creditorUser, amountDisplay, remainingDisplay, tx.hash, receipt.blockNumber);
+        await ctx.reply(`✅ **Debt settled!**\n\nYou paid ${creditorUser.tag} **${amountDisplay}**. Remaining debt: ${remainingDisplay}.\n\n*Receipts have been sent to both of you by DM.*`);
+    } catch (e) {
+        console.error(e);
+        const errorMessage = (e as any).message || (e as Error).toString();
+        if (errorMessage.includes('insufficient funds') || errorMessage.includes("doesn't have enough funds")) {
+            await ctx.reply(`❌ **Insufficient funds to settle**\n\nYou need ETH for gas fees. Run \`>fund-wallet\` to get 10 ETH, then try again.`);
+        } else {
+            await ctx.reply(`❌ Failed to settle debt: ${errorMessage}`);
+        }
+    }
+}
+
+export const settleCommand: Command = {
+    definition: findCommandDefinition('settle')!,
+    execute
+};
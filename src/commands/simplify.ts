@@ -0,0 +1,102 @@
+import { Guild } from 'discord.js';
+import { computeNetPositions, DebtTransfer, planMinimumTransfers } from '../debtSimplification';
+import { buildSimplificationResponseRow } from '../services/notifier';
+import { formatTokenAmount, parseTokenIdentifier } from '../tokenUtils';
+import { findCommandDefinition } from './definitions';
+import { Command, CommandContext } from './types';
+
+// Discord IDs of the addresses whose owners are members of the guild, keyed by address
+async function findGuildMembers(ctx: CommandContext, guild: Guild, addresses: string[]): Promise<Map<string, string>> {
+    const members = new Map<string, string>();
+    for (const address of addresses) {
+        const discordId = await ctx.ledger.getDiscordId(address);
+        if (!discordId) continue;
+        try {
+            await guild.members.fetch(discordId);
+            members.set(address, discordId);
+        } catch {
+            // Not a member of this server
+        }
+    }
+    return members;
+}
+
+// Every non-zero confirmed balance among the addresses, read from the contract
+async function readDebtsAmong(ctx: CommandContext, token: string, addresses: string[]): Promise<DebtTransfer[]> {
+    const debts: DebtTransfer[] = [];
+    for (const debtor of addresses) {
+        for (const creditor of addresses) {
+            if (debtor === creditor) continue;
+            const amount = await ctx.ledger.getDebt(token, debtor, creditor);
+            if (amount > 0n) {
+                debts.push({ debtor, creditor, amount });
+            }
+        }
+    }
+    return debts;
+}
+
+async function execute(ctx: CommandContext): Promise<void> {
+    if (!ctx.guild) {
+        await ctx.reply("❌ Debt simplification only works in a server channel, where I can see who is in the group.");
+        return;
+    }
+
+    const tokenIdentifier = ctx.args.getString('token') ?? 'ETH';
+    let tokenInfo;
+    try {
+        tokenInfo = parseTokenIdentifier(tokenIdentifier);
+    } catch (error) {
+        await ctx.reply(`Invalid token: ${tokenIdentifier}. Supported tokens are ETH, USDC, or a valid address.`);
+        return;
+    }
+
+    // The index only narrows down who to look at; balances come from the contract itself
+    await ctx.indexer.catchUp();
+    const members = await findGuildMembers(ctx, ctx.guild, ctx.indexer.store.getAddressesWithDebts(tokenInfo.address));
+    const debts = await readDebtsAmong(ctx, tokenInfo.address, [...members.keys()]);
+
+    if (debts.length === 0) {
+        await ctx.reply(`No confirmed ${tokenInfo.symbol} debts between members of this server.`);
+        return;
+    }
+
+    const transfers = planMinimumTransfers(computeNetPositions(debts));
+    if (transfers.length >= debts.length) {
+        await ctx.reply(`✅ **Nothing to simplify**\n\nThe ${debts.length} ${tokenInfo.symbol} debt${debts.length === 1 ? '' : 's'} between members of this server already use the fewest transfers possible.`);
+        return;
+    }
+
+    // Everyone with a debt edge is affected, including members whose net position is zero
+    const participants = [...new Set(debts.flatMap(debt => [debt.debtor, debt.creditor]))];
+    const mention = (address: string) => `<@${members.get(address)}>`;
+    const describe = (debt: DebtTransfer) => `• ${mention(debt.debtor)} owes ${mention(debt.creditor)} ${formatTokenAmount(debt.amount, tokenInfo)}\n`;
+
+    try {
+        const { tx, receipt, simplificationId } = await ctx.ledger.proposeSimplification(tokenInfo.address, participants, transfers);
+
+        let planMessage = `🧮 **Debt Simplification #${simplificationId}** (${tokenInfo.symbol})\n\n`;
+        planMessage += `**Current debts (${debts.length}):**\n${debts.map(describe).join('')}\n`;
+        planMessage += `**Simplified debts (${transfers.length}):**\n${transfers.map(describe).join('')}\n`;
+        planMessage += `Everyone's net balance stays the same; only who pays whom changes.\n`;
+        planMessage += `**Approvals needed from:** ${participants.map(mention).join(', ')}\n\n`;
+
+        for (const participant of participants) {
+            const user = await ctx.notifier.fetchUser(members.get(participant)!);
+            await ctx.notifier.sendDM(user, {
+                content: `${planMessage}${ctx.network.formatTransactionDetails(tx.hash, receipt.blockNumber)}\n**Please review and respond:**`,
+                components: [buildSimplificationResponseRow(simplificationId.toString())]
+            });
+        }
+
+        await ctx.reply(`${planMessage}*Each participant has been sent a DM to approve or reject. The new balances are recorded on-chain once all ${participants.length} approve.*`);
+    } catch (e) {
+        console.error(e);
+        await ctx.reply(`❌ Failed to propose simplification: ${(e as Error).message}`);
+    }
+}
+
+export const simplifyCommand: Command = {
+    definition: findCommandDefinition('simplify')!,
+    execute
+};
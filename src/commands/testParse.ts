@@ -0,0 +1,39 @@
+import { parseTokenIdentifier, parseTokenAmount, formatTokenAmount } from '../tokenUtils';
+import { Command, CommandContext } from './types';
+
+// Debug command to test token parsing without hitting the blockchain
+async function execute(ctx: CommandContext): Promise<void> {
+    const testAmount = ctx.args.getString('amount');
+    const testToken = ctx.args.getString('token');
+    if (!testAmount || !testToken) {
+        await ctx.reply("Usage: `>test-parse <amount> [token]`");
+        return;
+    }
+    
+    try {
+        console.log(`[DEBUG] Testing parse with amount: ${testAmount}, token: ${testToken}`);
+        const tokenInfo = parseTokenIdentifier(testToken);
+        console.log(`[DEBUG] Token info:`, tokenInfo);
+        const amount = parseTokenAmount(testAmount, tokenInfo);
+        console.log(`[DEBUG] Parsed amount:`, amount.toString());
+        const formatted = formatTokenAmount(amount, tokenInfo);
+        
+        await ctx.reply(`✅ Parse test successful!\n**Input:** ${testAmount} ${testToken}\n**Token Info:** ${JSON.stringify(tokenInfo)}\n**Parsed Amount:** ${amount.toString()}\n**Formatted:** ${formatted}`);
+    } catch (error) {
+        console.error(`[DEBUG] Parse test failed:`, error);
+        await ctx.reply(`❌ Parse test failed: ${error}`);
+    }
+}
+
+// Options are plain strings so malformed input reaches the parser under test
+export const testParseCommand: Command = {
+    definition: {
+        name: 'test-parse',
+        description: 'Test token amount parsing',
+        options: [
+            { name: 'amount', description: 'Amount to parse', type: 'string', required: false },
+            { name: 'token', description: 'Token symbol or address', type: 'string', required: false }
+        ]
+    },
+    execute
+};
@@ -0,0 +1,26 @@
+import { Guild, User } from 'discord.js';
+import { BotServices } from '../services';
+import { CommandArgs, CommandDefinition } from './definitions';
+
+export type CommandReply = string | { content?: string; components?: any[] };
+
+// Replies to whatever triggered the command (a prefix message or a slash command)
+export type MessageSender = (payload: CommandReply) => Promise<void>;
+
+/**
+ * Everything a command needs to run: the invocation and the bot's services
+ */
+export interface CommandContext extends BotServices {
+    author: User;
+    guild: Guild | null;
+    args: CommandArgs;
+    sourceId: string; // ID of the triggering message or interaction
+    reply: MessageSender;
+    // Removes the triggering message if possible (no-op for slash commands)
+    deleteSource(): Promise<void>;
+}
+
+export interface Command {
+    definition: CommandDefinition;
+    execute(ctx: CommandContext): Promise<void>;
+}
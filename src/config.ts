@@ -0,0 +1,161 @@
+import { SigningMode, parseSigningMode } from './signing';
+
+export interface BotConfig {
+    discordToken: string;
+    rpcUrl: string;
+    privateKey: string;
+    contractAddress: string;
+    geminiApiKey?: string;
+    anthropicApiKey?: string;
+    anthropicModel?: string;
+    openaiBaseUrl?: string; // OpenAI-compatible chat completions endpoint, e.g. a local Ollama
+    openaiApiKey?: string;
+    openaiModel?: string;
+    openaiVision: boolean; // Whether the OpenAI-compatible model can read receipt photos itself
+    ocrCommand: string; // Local OCR tool for receipt photos when the extractor can't read images
+    billExtractor?: string; // Default bill extractor; guilds can pick their own
+    guildSettingsPath: string;
+    identitiesPath: string; // Per-guild aliases used to match names in chat to users
+    guestDebtsPath: string; // Debts of guests without wallets, held until they register
+    deferredProposalsPath: string; // Proposals for users who haven't registered yet
+    keystoreSecret?: string;
+    keystorePreviousSecret?: string;
+    keystorePath: string;
+    eventStorePath: string;
+    pendingAnalysesPath: string;
+    pendingAnalysisTtlMs: number; // How long a bill analysis can wait for confirmation
+    indexerStartBlock: number; // Block the contract was deployed in
+    signingMode: SigningMode;
+    signingUrl?: string; // Optional external page that signs EIP-712 payloads
+    fxRatesPath?: string; // Rates file to use instead of the bundled one
+    fxRatesUrl?: string; // Optional HTTP source of live exchange rates
+    discordGuildId?: string;
+    prefix: string;
+}
+
+/**
+ * Reads the bot configuration from environment variables
+ * @param env - Environment to read from
+ * @returns The validated configuration
+ * @throws Error if required variables are missing
+ */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): BotConfig {
+    const { DISCORD_TOKEN, RPC_URL, PRIVATE_KEY, CONTRACT_ADDRESS } = env;
+
+    if (!DISCORD_TOKEN || !RPC_URL || !PRIVATE_KEY || !CONTRACT_ADDRESS) {
+        throw new Error("Missing environment variables. Please check your .env file.");
+    }
+
+    const signingMode = parseSigningMode(env.SIGNING_MODE);
+
+    // User keys are only held by the bot in custodial mode
+    if (signingMode === 'custodial' && !env.KEYSTORE_SECRET) {
+        throw new Error("Missing KEYSTORE_SECRET. It is required when SIGNING_MODE is custodial.");
+    }
+
+    const indexerStartBlock = Number(env.INDEXER_START_BLOCK || 0);
+    if (!Number.isInteger(indexerStartBlock) || indexerStartBlock < 0) {
+        throw new Error(`Invalid INDEXER_START_BLOCK: ${env.INDEXER_START_BLOCK}. Expected a block number.`);
+    }
+
+    const pendingAnalysisTtlHours = Number(env.PENDING_ANALYSIS_TTL_HOURS || 24);
+    if (!Number.isFinite(pendingAnalysisTtlHours) || pendingAnalysisTtlHours <= 0) {
+        throw new Error(`Invalid PENDING_ANALYSIS_TTL_HOURS: ${env.PENDING_ANALYSIS_TTL_HOURS}. Expected a positive number of hours.`);
+    }
+
+    if (env.OPENAI_BASE_URL && !env.OPENAI_MODEL) {
+        throw new Error("Missing OPENAI_MODEL. It is required when OPENAI_BASE_URL is set.");
+    }
+
+    return {
+        discordToken: DISCORD_TOKEN,
+        rpcUrl: RPC_URL,
+        privateKey: PRIVATE_KEY,
+        contractAddress: CONTRACT_ADDRESS,
+        geminiApiKey: env.GEMINI_API_KEY,
+        anthropicApiKey: env.ANTHROPIC_API_KEY,
+        anthropicModel: env.ANTHROPIC_MODEL,
+        openaiBaseUrl: env.OPENAI_BASE_URL,
+        openaiApiKey: env.OPENAI_API_KEY,
+        openaiModel: env.OPENAI_MODEL,
+        openaiVision: env.OPENAI_VISION === 'true',
+        ocrCommand: env.OCR_COMMAND || 'tesseract',
+        billExtractor: env.BILL_EXTRACTOR,
+        guildSettingsPath: env.GUILD_SETTINGS_PATH || './data/guild-settings.json',
+        identitiesPath: env.IDENTITIES_PATH || './data/identities.json',
+        guestDebtsPath: env.GUEST_DEBTS_PATH || './data/guest-debts.json',
+        deferredProposalsPath: env.DEFERRED_PROPOSALS_PATH || './data/deferred-proposals.json',
+        keystoreSecret: env.KEYSTORE_SECRET,
+        keystorePreviousSecret: env.KEYSTORE_PREVIOUS_SECRET,
+        keystorePath: env.KEYSTORE_PATH || './data/keystore.json',
+        eventStorePath: env.EVENT_STORE_PATH || './data/events.sqlite',
+        pendingAnalysesPath: env.PENDING_ANALYSES_PATH || './data/pending-analyses.json',
+        pendingAnalysisTtlMs: pendingAnalysisTtlHours * 60 * 60 * 1000,
+        indexerStartBlock,
+        signingMode,
+        signingUrl: env.SIGNING_URL,
+        fxRatesPath: env.FX_RATES_PATH,
+        fxRatesUrl: env.FX_RATES_URL,
+        discordGuildId: env.DISCORD_GUILD_ID,
+        prefix: '>'
+    };
+}
+
+/**
+ * Describes the network the bot is connected to, for transaction messages
+ */
+export class NetworkInfo {
+    constructor(private readonly rpcUrl?: string) {}
+
+    // Network configuration for block explorer links
+    getBlockExplorerUrl(txHash: string): string | null {
+        const rpcUrl = this.rpcUrl;
+        if (!rpcUrl) return null;
+
+        if (rpcUrl.includes('localhost') || rpcUrl.includes('127.0.0.1')) {
+            // Local network - no block explorer
+            return null;
+        } else if (rpcUrl.includes('mainnet')) {
+            return `https://etherscan.io/tx/${txHash}`;
+        } else if (rpcUrl.includes('sepolia')) {
+            return `https://sepolia.etherscan.io/tx/${txHash}`;
+        } else if (rpcUrl.includes('goerli')) {
+            return `https://goerli.etherscan.io/tx/${txHash}`;
+        }
+
+        return null; // Unknown network
+    }
+
+    getNetworkName(): string {
+        const rpcUrl = this.rpcUrl;
+        if (!rpcUrl) return 'Unknown';
+
+        if (rpcUrl.includes('localhost') || rpcUrl.includes('127.0.0.1')) {
+            return 'Local Development';
+        } else if (rpcUrl.includes('mainnet')) {
+            return 'Ethereum Mainnet';
+        } else if (rpcUrl.includes('sepolia')) {
+            return 'Sepolia Testnet';
+        } else if (rpcUrl.includes('goerli')) {
+            return 'Goerli Testnet';
+        }
+
+        return 'Unknown Network';
+    }
+
+    /**
+     * Formats the standard "Transaction Details" block used in bot messages
+     */
+    formatTransactionDetails(txHash: string, blockNumber: number): string {
+        let details = `**Transaction Details:**\n`;
+        details += `• Transaction Hash: \`${txHash}\`\n`;
+        details += `• Block Number: ${blockNumber}\n`;
+        details += `• Network: ${this.getNetworkName()}\n`;
+
+        const explorerUrl = this.getBlockExplorerUrl(txHash);
+        if (explorerUrl) {
+            details += `• View on Explorer: ${explorerUrl}\n`;
+        }
+        return details;
+    }
+}
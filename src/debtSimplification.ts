@@ -0,0 +1,61 @@
+// Minimum cash flow planning for a group's debts
+
+export interface DebtTransfer {
+    debtor: string;
+    creditor: string;
+    amount: bigint;
+}
+
+/**
+ * Sums each address's position across a set of debts
+ * @returns Net amount per address: positive if it is owed money, negative if it owes
+ */
+export function computeNetPositions(debts: DebtTransfer[]): Map<string, bigint> {
+    const positions = new Map<string, bigint>();
+    for (const { debtor, creditor, amount } of debts) {
+        positions.set(debtor, (positions.get(debtor) ?? 0n) - amount);
+        positions.set(creditor, (positions.get(creditor) ?? 0n) + amount);
+    }
+    return positions;
+}
+
+/**
+ * Plans transfers that settle the given net positions, using the greedy
+ * min-cash-flow heuristic: repeatedly have the largest debtor pay the largest
+ * creditor as much as one of them can absorb. Each step settles at least one
+ * address, so a group of n addresses needs at most n - 1 transfers.
+ *
+ * Ties are broken by address so the same balances always produce the same plan.
+ *
+ * @param positions - Net positions as returned by computeNetPositions; must sum to zero
+ * @throws Error if the positions do not sum to zero
+ */
+export function planMinimumTransfers(positions: Map<string, bigint>): DebtTransfer[] {
+    let total = 0n;
+    for (const amount of positions.values()) total += amount;
+    if (total !== 0n) {
+        throw new Error(`Net positions must sum to zero, got ${total}`);
+    }
+
+    // Largest amount first, ties broken by address
+    const largestFirst = (a: [string, bigint], b: [string, bigint]) =>
+        a[1] !== b[1] ? (a[1] < b[1] ? 1 : -1) : (a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0);
+    const creditors = [...positions].filter(([, amount]) => amount > 0n);
+    const debtors = [...positions].filter(([, amount]) => amount < 0n).map(([address, amount]): [string, bigint] => [address, -amount]);
+
+    const transfers: DebtTransfer[] = [];
+    while (creditors.length > 0 && debtors.length > 0) {
+        creditors.sort(largestFirst);
+        debtors.sort(largestFirst);
+        const creditor = creditors[0];
+        const debtor = debtors[0];
+        const amount = creditor[1] < debtor[1] ? creditor[1] : debtor[1];
+
+        transfers.push({ debtor: debtor[0], creditor: creditor[0], amount });
+        creditor[1] -= amount;
+        debtor[1] -= amount;
+        if (creditor[1] === 0n) creditors.shift();
+        if (debtor[1] === 0n) debtors.shift();
+    }
+    return transfers;
+}
@@ -0,0 +1,115 @@
+import { Message, User } from 'discord.js';
+
+// Permission guard functions: Discord API calls that log permission problems instead of crashing the bot
+
+export async function safeSendMessage(message: Message, content: string, options?: any): Promise<void> {
+    try {
+        if (options) {
+            await message.reply({ content, ...options });
+        } else {
+            await message.reply(content);
+        }
+    } catch (error: any) {
+        console.error('Permission error sending message:', error);
+        if (error.code === 50013) { // Missing Permissions
+            console.log('❌ Permission for SEND_MESSAGES is not granted, please configure bot permissions');
+        } else if (error.code === 50001) { // Missing Access
+            console.log('❌ Permission for VIEW_CHANNEL is not granted, please configure bot permissions');
+        } else {
+            console.log(`❌ Permission error (${error.code}): ${error.message}`);
+        }
+    }
+}
+
+export async function safeEditMessage(message: any, content?: string, options?: any): Promise<void> {
+    try {
+        if (content && options) {
+            await message.edit({ content, ...options });
+        } else if (content) {
+            await message.edit(content);
+        } else if (options) {
+            await message.edit(options);
+        }
+    } catch (error: any) {
+        console.error('Permission error editing message:', error);
+        if (error.code === 50013) {
+            console.log('❌ Permission for MANAGE_MESSAGES is not granted, please configure bot permissions');
+        } else {
+            console.log(`❌ Permission error editing message (${error.code}): ${error.message}`);
+        }
+    }
+}
+
+export async function safeReact(message: Message, emoji: string): Promise<void> {
+    try {
+        await message.react(emoji);
+    } catch (error: any) {
+        console.error('Permission error adding reaction:', error);
+        if (error.code === 50013) {
+            console.log('❌ Permission for ADD_REACTIONS is not granted, please configure bot permissions');
+        } else if (error.code === 50001) {
+            console.log('❌ Permission for READ_MESSAGE_HISTORY is not granted, please configure bot permissions');
+        } else {
+            console.log(`❌ Permission error adding reaction (${error.code}): ${error.message}`);
+        }
+    }
+}
+
+export async function safeRemoveReactions(message: Message): Promise<void> {
+    try {
+        await message.reactions.removeAll();
+    } catch (error: any) {
+        console.error('Permission error removing reactions:', error);
+        if (error.code === 50013) {
+            console.log('❌ Permission for MANAGE_MESSAGES is not granted, please configure bot permissions');
+        } else {
+            console.log(`❌ Permission error removing reactions (${error.code}): ${error.message}`);
+        }
+    }
+}
+
+export async function safeSendDM(user: User, content?: string, options?: any): Promise<void> {
+    try {
+        if (content && options) {
+            await user.send({ content, ...options });
+        } else if (content) {
+            await user.send(content);
+        } else if (options) {
+            await user.send(options);
+        }
+    } catch (error: any) {
+        console.error('Permission error sending DM:', error);
+        if (error.code === 50007) {
+            console.log(`❌ Cannot send DM to ${user.tag} - user has DMs disabled or blocked the bot`);
+        } else {
+            console.log(`❌ Permission error sending DM (${error.code}): ${error.message}`);
+        }
+    }
+}
+
+export async function safeInteractionReply(interaction: any, content?: string, options?: any): Promise<void> {
+    try {
+        const payload = content && options ? { content, ...options } : content ? content : options;
+        if (interaction.replied || interaction.deferred) {
+            await interaction.followUp(payload);
+        } else {
+            await interaction.reply(payload);
+        }
+    } catch (error: any) {
+        console.error('Permission error with interaction:', error);
+        if (error.code === 50013) {
+            console.log('❌ Permission for sending interaction responses is not granted, please configure bot permissions');
+        } else {
+            console.log(`❌ Permission error with interaction (${error.code}): ${error.message}`);
+        }
+    }
+}
+
+export async function safeShowModal(interaction: any, modal: any): Promise<void> {
+    try {
+        await interaction.showModal(modal);
+    } catch (error: any) {
+        console.error('Permission error showing modal:', error);
+        console.log(`❌ Permission error showing modal (${error.code || 'unknown'}): ${error.message}`);
+    }
+}
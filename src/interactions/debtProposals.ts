@@ -0,0 +1,188 @@
+import { ActionRowBuilder, ButtonInteraction, ModalBuilder, ModalSubmitInteraction, TextInputBuilder, TextInputStyle } from 'discord.js';
+import { ethers } from 'ethers';
+import { safeInteractionReply, safeShowModal } from '../discord/safe';
+import { BotServices } from '../services';
+import { SignatureRequest } from '../signing';
+import { formatTokenAmount, findTokenByAddress } from '../tokenUtils';
+
+// Agree/Disagree buttons sent to the debtor with each debt proposal
+
+export async function handleAgreeDebt(interaction: ButtonInteraction, pendingDebtId: bigint, services: BotServices): Promise<void> {
+    if (services.signingMode === 'non-custodial') {
+        await requestConfirmSignature(interaction, pendingDebtId, services);
+        return;
+    }
+
+    // Find the user's wallet info first (outside try block so it's accessible in catch)
+    const userId = interaction.user.id;
+    const userWallet = await services.wallets.getWallet(userId);
+    if (!userWallet) {
+        await interaction.update({ content: 'Error: User not registered. Please use >register first.', components: [] });
+        return;
+    }
+    
+    try {
+        console.log(`[DEBUG] agree-debt clicked - parsed pendingDebtId: ${pendingDebtId}, type: ${typeof pendingDebtId}`);
+        
+        console.log(`[DEBUG] About to call contract.confirmDebt(${pendingDebtId}) using user's wallet: ${userWallet.address}`);
+        // The confirmed debt is read from this transaction's own DebtAdded event
+        const { tx, receipt, debt } = await services.ledger.confirmDebt(userWallet.privateKey, pendingDebtId);
+        const networkName = services.network.getNetworkName();
+        
+        let confirmationMessage = '✅ **Debt confirmed and added to ledger!**\n\n';
+        
+        // Add transaction details
+        confirmationMessage += `**Transaction Details:**\n`;
+        confirmationMessage += `• Transaction Hash: \`${tx.hash}\`\n`;
+        confirmationMessage += `• Block Number: ${receipt.blockNumber}\n`;
+        confirmationMessage += `• Network: ${networkName}\n`;
+        
+        // Add block explorer link if available
+        const explorerUrl = services.network.getBlockExplorerUrl(tx.hash);
+        if (explorerUrl) {
+            confirmationMessage += `• View on Explorer: ${explorerUrl}\n`;
+        } else {
+            confirmationMessage += `• Local Network: No block explorer available\n`;
+        }
+        
+        // Find token info for formatting
+        const tokenInfo = findTokenByAddress(debt.token) || {
+            address: debt.token,
+            decimals: 18,
+            symbol: debt.token.slice(0, 8) + '...'
+        };
+        
+        confirmationMessage += `\n**Debt Details:**\n`;
+        confirmationMessage += `• Amount: ${formatTokenAmount(debt.amount, tokenInfo)}\n`;
+        confirmationMessage += `• Memo: ${debt.memo}\n`;
+        confirmationMessage += `• Action ID: ${debt.actionId}\n`;
+        
+        confirmationMessage += `\n*This debt has been permanently recorded on the ${networkName.toLowerCase()} blockchain.*`;
+        
+        await interaction.update({ content: confirmationMessage, components: [] });
+    } catch (e) {
+        console.error(e);
+        
+        // Check if it's an insufficient funds error
+        const errorMessage = (e as any).message || (e as Error).toString();
+        if (errorMessage.includes('insufficient funds') || errorMessage.includes("doesn't have enough funds")) {
+            // Get current balance to show in error message
+            let balanceInfo = '';
+            try {
+                const balance = await services.ledger.getEthBalance(userWallet.address);
+                const balanceEth = ethers.formatEther(balance);
+                balanceInfo = `\n**Current Balance:** ${balanceEth} ETH`;
+            } catch (balanceError) {
+                console.error('Failed to get balance:', balanceError);
+            }
+            
+            // Keep the buttons available for insufficient funds error
+            await interaction.update({ 
+                content: `❌ **Insufficient funds to confirm debt**\n\nYour wallet (${userWallet.address}) needs ETH to pay for gas fees.${balanceInfo}\n\n**Solutions:**\n• Run \`>fund-wallet\` to get 10 ETH for gas fees\n• Ask someone to send you ETH\n• Try again once you have funds\n\n*The debt proposal is still active - you can try accepting again once funded.*`,
+                components: interaction.message.components // Keep the original buttons
+            });
+        } else {
+            // For other errors, remove buttons
+            await interaction.update({ content: `Failed to confirm debt: ${errorMessage}`, components: [] });
+        }
+    }
+}
+
+async function requestConfirmSignature(interaction: ButtonInteraction, pendingDebtId: bigint, services: BotServices): Promise<void> {
+    const debtorAddress = await services.wallets.getRegisteredAddress(interaction.user.id);
+    const pendingDebt = await services.ledger.getPendingDebt(pendingDebtId);
+    if (!debtorAddress || !pendingDebt.exists || pendingDebt.debtor.toLowerCase() !== debtorAddress.toLowerCase()) {
+        await interaction.update({ content: 'Error: This proposal no longer exists or is not addressed to your registered wallet.', components: [] });
+        return;
+    }
+
+    const request: SignatureRequest = {
+        primaryType: 'ConfirmDebt',
+        message: { pendingDebtId, debtor: debtorAddress, nonce: await services.signatures.getNextNonce(debtorAddress), deadline: services.signatures.getDeadline() }
+    };
+    const payload = await services.signatures.buildRequestMessage(interaction.user.id, request, { kind: 'confirm' }, `Confirm debt proposal **#${pendingDebtId}**`);
+    await safeInteractionReply(interaction, undefined, payload);
+}
+
+export async function showDisagreeModal(interaction: ButtonInteraction, pendingDebtId: bigint): Promise<void> {
+    const modal = new ModalBuilder()
+        .setCustomId(`disagree-modal:${pendingDebtId}`)
+        .setTitle('Disagree with Debt Proposal');
+
+    const reasonInput = new TextInputBuilder()
+        .setCustomId('disagree-reason')
+        .setLabel("What is the reason for your disagreement?")
+        .setStyle(TextInputStyle.Paragraph);
+
+    const firstActionRow = new ActionRowBuilder<TextInputBuilder>().addComponents(reasonInput);
+    modal.addComponents(firstActionRow);
+    await safeShowModal(interaction, modal);
+}
+
+export async function handleDisagreeSubmission(interaction: ModalSubmitInteraction, pendingDebtId: bigint, services: BotServices): Promise<void> {
+    const reason = interaction.fields.getTextInputValue('disagree-reason');
+
+    if (services.signingMode === 'non-custodial') {
+        await requestRejectSignature(interaction, pendingDebtId, reason, services);
+        return;
+    }
+
+    try {
+        const pendingDebt = await services.ledger.getPendingDebt(pendingDebtId);
+        // Get creditor Discord ID from on-chain mapping
+        const creditorId = await services.ledger.getDiscordId(pendingDebt.creditor);
+
+        // Use the user's wallet to reject the debt
+        const userWallet = await services.wallets.getWallet(interaction.user.id);
+        if (!userWallet) {
+            await interaction.reply({ content: 'Error: User not registered. Please use >register first.', ephemeral: true });
+            return;
+        }
+        
+        const { tx, receipt } = await services.ledger.rejectDebt(userWallet.privateKey, pendingDebtId);
+        // A rejected guest debt goes back to being held for the guest
+        await services.guestDebts.returnToHeld(pendingDebtId);
+
+        if (creditorId) {
+            const creditorUser = await services.notifier.fetchUser(creditorId);
+            await services.notifier.sendDM(creditorUser, `Your debt proposal was rejected by ${interaction.user.tag}. Reason: ${reason}`);
+        }
+
+        // Create detailed rejection message
+        let rejectionMessage = '❌ **Debt proposal rejected**\n\n';
+        rejectionMessage += services.network.formatTransactionDetails(tx.hash, receipt.blockNumber);
+        rejectionMessage += `\n*The rejection has been recorded on-chain.*`;
+
+        await interaction.reply({ content: rejectionMessage, ephemeral: true });
+    } catch (e) {
+        console.error(e);
+        
+        // Check if it's an insufficient funds error
+        const errorMessage = (e as any).message || (e as Error).toString();
+        if (errorMessage.includes('insufficient funds') || errorMessage.includes("doesn't have enough funds")) {
+            await interaction.reply({ 
+                content: `❌ **Insufficient funds to reject debt**\n\nYou need ETH for gas fees. Run \`>fund-wallet\` to get 10 ETH, then try again.`, 
+                ephemeral: true 
+            });
+        } else {
+            await interaction.reply({ content: `Failed to reject debt: ${errorMessage}`, ephemeral: true });
+        }
+    }
+}
+
+async function requestRejectSignature(interaction: ModalSubmitInteraction, pendingDebtId: bigint, reason: string, services: BotServices): Promise<void> {
+    const signerAddress = await services.wallets.getRegisteredAddress(interaction.user.id);
+    const pendingDebt = await services.ledger.getPendingDebt(pendingDebtId);
+    if (!signerAddress || !pendingDebt.exists) {
+        await interaction.reply({ content: 'Error: This proposal no longer exists or you are not registered.', ephemeral: true });
+        return;
+    }
+
+    const creditorId = await services.ledger.getDiscordId(pendingDebt.creditor) ?? '';
+    const request: SignatureRequest = {
+        primaryType: 'RejectDebt',
+        message: { pendingDebtId, signer: signerAddress, nonce: await services.signatures.getNextNonce(signerAddress), deadline: services.signatures.getDeadline() }
+    };
+    const payload = await services.signatures.buildRequestMessage(interaction.user.id, request, { kind: 'reject', reason, creditorId }, `Reject debt proposal **#${pendingDebtId}**\n**Reason:** ${reason}`);
+    await safeInteractionReply(interaction, undefined, payload);
+}
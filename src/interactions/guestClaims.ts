@@ -0,0 +1,54 @@
+import { ButtonInteraction } from 'discord.js';
+import { handOverGuestDebts } from '../commands/guest';
+import { BotServices } from '../services';
+
+// Yes/No buttons sent to whoever added a guest when someone claims to be them
+
+// Claims being answered, by guild and guest, so a double click can't hand the debts over twice
+const answering = new Set<string>();
+
+export async function handleGuestClaimDecision(interaction: ButtonInteraction, guildId: string, guestId: string, decision: 'approve' | 'deny', services: BotServices): Promise<void> {
+    // Taken before the first await, so a second click waits for the first to finish
+    const key = `${guildId}:${guestId}`;
+    if (answering.has(key)) {
+        await interaction.reply({ content: '⏳ This claim is already being answered.', ephemeral: true });
+        return;
+    }
+    answering.add(key);
+    try {
+        await answerClaim(interaction, guildId, guestId, decision, services);
+    } finally {
+        answering.delete(key);
+    }
+}
+
+async function answerClaim(interaction: ButtonInteraction, guildId: string, guestId: string, decision: 'approve' | 'deny', services: BotServices): Promise<void> {
+    const guest = services.identities.getGuest(guildId, guestId);
+    if (!guest?.claimRequestedBy) {
+        await interaction.update({ content: 'This claim is no longer pending.', components: [] });
+        return;
+    }
+    if (interaction.user.id !== guest.createdBy) {
+        await interaction.reply({ content: `❌ Only <@${guest.createdBy}>, who added ${guest.name}, can answer this claim.`, ephemeral: true });
+        return;
+    }
+
+    const claimer = await services.notifier.fetchUser(guest.claimRequestedBy);
+    if (decision === 'deny') {
+        await services.identities.cancelClaimRequest(guildId, guestId);
+        await services.notifier.sendDM(claimer, `❌ ${interaction.user.tag} didn't confirm that you are ${guest.name} (guest), so their debts stay held.`);
+        await interaction.update({ content: `❌ You turned down ${claimer.tag}'s claim to be ${guest.name}. Their debts stay held.`, components: [] });
+        return;
+    }
+
+    const claimerAddress = await services.wallets.getRegisteredAddress(claimer.id);
+    if (!claimerAddress) {
+        await interaction.update({ content: `❌ ${claimer.tag} is no longer registered, so ${guest.name}'s debts can't be handed over.`, components: [] });
+        return;
+    }
+
+    await services.identities.claimGuest(guildId, guestId, claimer.id);
+    const summary = await handOverGuestDebts(services, guildId, guest, claimer, claimerAddress);
+    await services.notifier.sendDM(claimer, summary);
+    await interaction.update({ content: `✅ You confirmed that ${claimer.tag} is ${guest.name}. Their held debts were handed over for them to confirm or reject.`, components: [] });
+}
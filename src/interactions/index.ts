@@ -0,0 +1,89 @@
+import { Interaction } from 'discord.js';
+import { handleApproveExpenses, handleObjectToExpense } from '../billDetection/approvals';
+import { handleBillConfirmation } from '../billDetection/detection';
+import { handleExpenseEditSubmission, handleRemoveExpense, showExpenseEditModal } from '../billDetection/editing';
+import { dispatchSlashCommand } from '../commands';
+import { getTokenSuggestions } from '../commands/definitions';
+import { safeInteractionReply } from '../discord/safe';
+import { BotServices } from '../services';
+import { handleAgreeDebt, handleDisagreeSubmission, showDisagreeModal } from './debtProposals';
+import { handleGuestClaimDecision } from './guestClaims';
+import { handleSignatureSubmission, showSignatureModal } from './signatures';
+import { handleApproveSimplification, handleRejectSimplification } from './simplifications';
+
+/**
+ * Routes slash commands, autocomplete, buttons, select menus and modals
+ */
+export async function handleInteraction(interaction: Interaction, services: BotServices): Promise<void> {
+    if (interaction.isAutocomplete()) {
+        const focused = interaction.options.getFocused(true);
+        if (focused.name === 'token') {
+            await interaction.respond(getTokenSuggestions(focused.value)).catch(error => console.error('Failed to respond to autocomplete:', error));
+        }
+    } else if (interaction.isChatInputCommand()) {
+        await dispatchSlashCommand(interaction, services);
+    } else if (interaction.isStringSelectMenu()) {
+        if (interaction.customId.startsWith('select_debt_token:')) {
+            const selectedToken = interaction.values[0];
+            await safeInteractionReply(interaction, `You selected ${selectedToken}. Please run the add-debt command again with the token specified: \`>add-debt @user <amount> ${selectedToken} <memo>\``, { ephemeral: true });
+        } else if (interaction.customId === 'edit-bill-expense') {
+            await showExpenseEditModal(interaction, services);
+        } else if (interaction.customId === 'remove-bill-expense') {
+            await handleRemoveExpense(interaction, services);
+        } else if (interaction.customId === 'object-bill-expense') {
+            await handleObjectToExpense(interaction, services);
+        }
+    } else if (interaction.isButton()) {
+        // Handle automated bill confirmation buttons
+        if (interaction.customId === 'confirm-bills' || interaction.customId === 'cancel-bills') {
+            await handleBillConfirmation(interaction, services);
+            return;
+        }
+        if (interaction.customId === 'approve-bills') {
+            await handleApproveExpenses(interaction, services);
+            return;
+        }
+
+        if (interaction.customId.startsWith('approve-guest-claim:') || interaction.customId.startsWith('deny-guest-claim:')) {
+            const [action, guildId, guestId] = interaction.customId.split(':');
+            await handleGuestClaimDecision(interaction, guildId, guestId, action === 'approve-guest-claim' ? 'approve' : 'deny', services);
+            return;
+        }
+
+        // Handle non-custodial signature submission buttons
+        if (interaction.customId.startsWith('submit-signature:')) {
+            await showSignatureModal(interaction, interaction.customId.split(':')[1]);
+            return;
+        }
+        
+        // Handle regular debt proposal and simplification buttons
+        const [action, idStr] = interaction.customId.split(':');
+        if (action === 'agree-debt') {
+            await handleAgreeDebt(interaction, BigInt(idStr), services);
+        } else if (action === 'disagree-debt') {
+            await showDisagreeModal(interaction, BigInt(idStr));
+        } else if (action === 'approve-simplification') {
+            await handleApproveSimplification(interaction, BigInt(idStr), services);
+        } else if (action === 'reject-simplification') {
+            await handleRejectSimplification(interaction, BigInt(idStr), services);
+        }
+    } else if (interaction.isModalSubmit()) {
+        if (interaction.customId.startsWith('signature-modal:')) {
+            const requestId = interaction.customId.split(':')[1];
+            const signature = interaction.fields.getTextInputValue('signature').trim();
+            await handleSignatureSubmission(interaction, requestId, signature, services);
+            return;
+        }
+
+        if (interaction.customId.startsWith('bill-expense-modal:')) {
+            const [, messageId, target] = interaction.customId.split(':');
+            await handleExpenseEditSubmission(interaction, messageId, target, services);
+            return;
+        }
+
+        const [customId, pendingDebtIdStr] = interaction.customId.split(':');
+        if (customId === 'disagree-modal') {
+            await handleDisagreeSubmission(interaction, BigInt(pendingDebtIdStr), services);
+        }
+    }
+}
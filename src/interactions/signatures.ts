@@ -0,0 +1,127 @@
+import { ActionRowBuilder, ButtonInteraction, ModalBuilder, ModalSubmitInteraction, TextInputBuilder, TextInputStyle } from 'discord.js';
+import { TransactionReceipt } from 'ethers';
+import { safeShowModal } from '../discord/safe';
+import { BotServices } from '../services';
+import { sendDebtProposalDM, sendSettlementReceipts } from '../services/notifier';
+import { SignatureContext } from '../services/signatures';
+import { getExpectedSigner, PendingSignature, verifyRequestSignature } from '../signing';
+import { formatTokenAmount } from '../tokenUtils';
+import { reportSimplificationApproval, reportSimplificationRejection } from './simplifications';
+
+// Ask for the signature produced by the user's wallet
+export async function showSignatureModal(interaction: ButtonInteraction, requestId: string): Promise<void> {
+    const modal = new ModalBuilder()
+        .setCustomId(`signature-modal:${requestId}`)
+        .setTitle('Submit Signature');
+
+    const signatureInput = new TextInputBuilder()
+        .setCustomId('signature')
+        .setLabel("Signature (0x...)")
+        .setStyle(TextInputStyle.Paragraph);
+
+    modal.addComponents(new ActionRowBuilder<TextInputBuilder>().addComponents(signatureInput));
+    await safeShowModal(interaction, modal);
+}
+
+// Handle a signature pasted into the signature modal
+export async function handleSignatureSubmission(interaction: ModalSubmitInteraction, requestId: string, signature: string, services: BotServices): Promise<void> {
+    const pending = services.signatures.pending.get(requestId);
+    if (!pending) {
+        await interaction.reply({ content: '❌ **Signature request expired or not found**\n\nPlease start the action again.', ephemeral: true });
+        return;
+    }
+
+    if (interaction.user.id !== pending.discordId) {
+        await interaction.reply({ content: '❌ **Permission denied**\n\nThis signature request belongs to someone else.', ephemeral: true });
+        return;
+    }
+
+    if (!verifyRequestSignature(await services.ledger.getSigningDomain(), pending.request, signature)) {
+        await interaction.reply({ content: '❌ **Invalid signature**\n\nThe signature was not produced by your registered wallet for this request. Please sign the payload again.', ephemeral: true });
+        return;
+    }
+
+    // Nonces are sequential, so a request can only be relayed after the signer's earlier ones
+    const onChainNonce = await services.ledger.getNonce(getExpectedSigner(pending.request));
+    if (pending.request.message.nonce > onChainNonce) {
+        await interaction.reply({ content: '⏳ **Earlier request first**\n\nYou have older signature requests waiting. Submit those first, then submit this one again.', ephemeral: true });
+        return;
+    }
+    if (pending.request.message.nonce < onChainNonce) {
+        services.signatures.pending.delete(requestId);
+        await interaction.reply({ content: '❌ **Signature request is out of date**\n\nAnother signed action used this request\'s nonce. Please start the action again.', ephemeral: true });
+        return;
+    }
+
+    await interaction.deferReply();
+    try {
+        const { tx, receipt } = await services.ledger.relaySignedRequest(pending.request, signature);
+        services.signatures.pending.delete(requestId);
+        await completeSignedAction(interaction, pending, tx.hash, receipt, services);
+    } catch (e) {
+        console.error(e);
+        const errorMessage = (e as any).message || (e as Error).toString();
+        await interaction.editReply(`❌ Failed to submit signed transaction: ${errorMessage}`);
+    }
+}
+
+// Follow-up messages once a signed request has been mined
+async function completeSignedAction(interaction: ModalSubmitInteraction, pending: PendingSignature<SignatureContext>, txHash: string, receipt: TransactionReceipt, services: BotServices): Promise<void> {
+    const txDetails = services.network.formatTransactionDetails(txHash, receipt.blockNumber);
+    const networkName = services.network.getNetworkName();
+
+    const context = pending.context;
+    switch (context.kind) {
+        case 'propose': {
+            const [proposal] = services.ledger.parseReceipt(receipt).proposed;
+            if (!proposal) {
+                throw new Error('DebtProposed event not found in transaction receipt');
+            }
+            const pendingDebtId = proposal.pendingDebtId;
+            if (context.guestDebtId !== undefined) {
+                await services.guestDebts.markMigrated(context.guestDebtId, pendingDebtId);
+            }
+            if (context.deferredProposalId !== undefined) {
+                await services.deferredProposals.remove([context.deferredProposalId]);
+            }
+            const debtorUser = await services.notifier.fetchUser(context.debtorId);
+            await sendDebtProposalDM(services.notifier, services.network, debtorUser, context.creditorTag, context.amountDisplay, context.memo, pendingDebtId.toString(), txHash, receipt.blockNumber);
+            await interaction.editReply(`✅ **Debt proposal created!**\n\n**Amount:** ${context.amountDisplay}\n**Memo:** ${context.memo}\n**Proposal ID:** ${pendingDebtId}\n\n${txDetails}\n*${debtorUser.tag} will receive a DM to confirm or reject.*`);
+            break;
+        }
+        case 'confirm':
+            await interaction.editReply(`✅ **Debt confirmed and added to ledger!**\n\n${txDetails}\n*This debt has been permanently recorded on the ${networkName.toLowerCase()} blockchain.*`);
+            break;
+        case 'reject': {
+            // A rejected guest debt goes back to being held for the guest
+            for (const pendingDebtId of services.ledger.parseReceipt(receipt).rejected) {
+                await services.guestDebts.returnToHeld(pendingDebtId);
+            }
+            if (context.creditorId && context.creditorId !== interaction.user.id) {
+                const creditorUser = await services.notifier.fetchUser(context.creditorId);
+                await services.notifier.sendDM(creditorUser, `Your debt proposal was rejected by ${interaction.user.tag}. Reason: ${context.reason}`);
+            }
+            await interaction.editReply(`❌ **Debt proposal rejected**\n\n${txDetails}\n*The rejection has been recorded on-chain.*`);
+            break;
+        }
+        case 'settle': {
+            const [settlement] = services.ledger.parseReceipt(receipt).settled;
+            if (!settlement) {
+                throw new Error('DebtSettled event not found in transaction receipt');
+            }
+            const tokenInfo = { address: settlement.token, symbol: context.tokenSymbol, decimals: context.decimals };
+            const amountDisplay = formatTokenAmount(settlement.amount, tokenInfo);
+            const remainingDisplay = formatTokenAmount(context.amountOwed - settlement.amount, tokenInfo);
+            const creditorUser = await services.notifier.fetchUser(context.creditorId);
+            await sendSettlementReceipts(services.notifier, services.network, interaction.user, creditorUser, amountDisplay, remainingDisplay, txHash, receipt.blockNumber);
+            await interaction.editReply(`✅ **Debt settled!**\n\nYou paid ${creditorUser.tag} **${amountDisplay}**. Remaining debt: ${remainingDisplay}.\n\n*Receipts have been sent to both of you by DM.*`);
+            break;
+        }
+        case 'approve-simplification':
+            await interaction.editReply(await reportSimplificationApproval(services, context.simplificationId, context.participants, interaction.user.id, txHash, receipt.blockNumber));
+            break;
+        case 'reject-simplification':
+            await interaction.editReply(await reportSimplificationRejection(services, context.simplificationId, context.participants, interaction.user.id, txHash, receipt.blockNumber));
+            break;
+    }
+}
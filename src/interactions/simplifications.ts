@@ -0,0 +1,104 @@
+import { ButtonInteraction } from 'discord.js';
+import { BotServices } from '../services';
+import { SignatureRequest } from '../signing';
+
+// Approve/Reject buttons sent to every participant of a simplification plan
+
+export async function handleApproveSimplification(interaction: ButtonInteraction, simplificationId: bigint, services: BotServices): Promise<void> {
+    await handleSimplificationVote(interaction, simplificationId, 'approve', services);
+}
+
+export async function handleRejectSimplification(interaction: ButtonInteraction, simplificationId: bigint, services: BotServices): Promise<void> {
+    await handleSimplificationVote(interaction, simplificationId, 'reject', services);
+}
+
+async function handleSimplificationVote(interaction: ButtonInteraction, simplificationId: bigint, vote: 'approve' | 'reject', services: BotServices): Promise<void> {
+    const plan = await services.ledger.getSimplification(simplificationId);
+    if (!plan.exists) {
+        await interaction.update({ content: `Simplification #${simplificationId} is no longer pending. It was already applied or rejected.`, components: [] });
+        return;
+    }
+
+    if (services.signingMode === 'non-custodial') {
+        await requestVoteSignature(interaction, simplificationId, plan.participants, vote, services);
+        return;
+    }
+
+    const userWallet = await services.wallets.getWallet(interaction.user.id);
+    if (!userWallet) {
+        await interaction.update({ content: 'Error: User not registered. Please use >register first.', components: [] });
+        return;
+    }
+
+    try {
+        if (vote === 'approve') {
+            const { tx, receipt } = await services.ledger.approveSimplification(userWallet.privateKey, simplificationId);
+            const message = await reportSimplificationApproval(services, simplificationId, plan.participants, interaction.user.id, tx.hash, receipt.blockNumber);
+            await interaction.update({ content: message, components: [] });
+        } else {
+            const { tx, receipt } = await services.ledger.rejectSimplification(userWallet.privateKey, simplificationId);
+            const message = await reportSimplificationRejection(services, simplificationId, plan.participants, interaction.user.id, tx.hash, receipt.blockNumber);
+            await interaction.update({ content: message, components: [] });
+        }
+    } catch (e) {
+        console.error(e);
+        const errorMessage = (e as any).message || (e as Error).toString();
+        await interaction.update({ content: `Failed to ${vote} simplification: ${errorMessage}`, components: [] });
+    }
+}
+
+async function requestVoteSignature(interaction: ButtonInteraction, simplificationId: bigint, participants: string[], vote: 'approve' | 'reject', services: BotServices): Promise<void> {
+    const participant = await services.wallets.getRegisteredAddress(interaction.user.id);
+    if (!participant || !participants.includes(participant)) {
+        await interaction.update({ content: 'Error: Your registered wallet is not a participant in this simplification.', components: [] });
+        return;
+    }
+
+    const message = { simplificationId, participant, nonce: await services.signatures.getNextNonce(participant), deadline: services.signatures.getDeadline() };
+    const request: SignatureRequest = vote === 'approve'
+        ? { primaryType: 'ApproveSimplification', message }
+        : { primaryType: 'RejectSimplification', message };
+    const context = vote === 'approve'
+        ? { kind: 'approve-simplification' as const, simplificationId, participants }
+        : { kind: 'reject-simplification' as const, simplificationId, participants };
+    const description = `${vote === 'approve' ? 'Approve' : 'Reject'} debt simplification **#${simplificationId}**`;
+    const payload = await services.signatures.buildRequestMessage(interaction.user.id, request, context, description);
+    await interaction.update(payload);
+}
+
+// DM every participant except the one who acted
+async function notifyOtherParticipants(services: BotServices, participants: string[], actorId: string, message: string): Promise<void> {
+    for (const address of participants) {
+        try {
+            const discordId = await services.ledger.getDiscordId(address);
+            if (!discordId || discordId === actorId) continue;
+            await services.notifier.sendDM(await services.notifier.fetchUser(discordId), message);
+        } catch (error) {
+            console.error(`[ERROR] Failed to notify simplification participant ${address}:`, error);
+        }
+    }
+}
+
+/**
+ * Builds the reply for a mined approval, and tells everyone else if it was the
+ * last one needed and the plan has been applied
+ */
+export async function reportSimplificationApproval(services: BotServices, simplificationId: bigint, participants: string[], approverId: string, txHash: string, blockNumber: number): Promise<string> {
+    const txDetails = services.network.formatTransactionDetails(txHash, blockNumber);
+    const plan = await services.ledger.getSimplification(simplificationId);
+    if (plan.exists) {
+        const remaining = plan.participants.length - plan.approvalCount;
+        return `✅ **Simplification #${simplificationId} approved**\n\nWaiting for ${remaining} more participant${remaining === 1 ? '' : 's'} to approve.\n\n${txDetails}`;
+    }
+
+    await notifyOtherParticipants(services, participants, approverId,
+        `🎉 **Debts simplified!**\n\nEveryone approved simplification #${simplificationId}, and the new balances are now recorded on-chain.\n\n${txDetails}`);
+    return `🎉 **Debts simplified!**\n\nYours was the last approval needed for simplification #${simplificationId}. The new balances are now recorded on-chain.\n\n${txDetails}`;
+}
+
+export async function reportSimplificationRejection(services: BotServices, simplificationId: bigint, participants: string[], rejecterId: string, txHash: string, blockNumber: number): Promise<string> {
+    const rejecter = await services.notifier.fetchUser(rejecterId);
+    await notifyOtherParticipants(services, participants, rejecterId,
+        `❌ Simplification #${simplificationId} was rejected by ${rejecter.tag}. Existing balances are unchanged.`);
+    return `❌ **Simplification #${simplificationId} rejected**\n\n${services.network.formatTransactionDetails(txHash, blockNumber)}\n*Existing balances are unchanged.*`;
+}
@@ -0,0 +1,237 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+export interface StoredWallet {
+    address: string;
+    privateKey: string;
+}
+
+interface EncryptedEntry {
+    address: string;
+    iv: string;
+    tag: string;
+    ciphertext: string;
+}
+
+/**
+ * Serialized keystore contents. Addresses are public and kept in plaintext;
+ * private keys are AES-256-GCM encrypted with a key derived from the master secret.
+ */
+export interface KeystoreData {
+    version: 1;
+    salt: string;
+    keyId: string;
+    entries: { [discordId: string]: EncryptedEntry };
+}
+
+/**
+ * Storage backend for the keystore. Backends only ever see encrypted data.
+ */
+export interface KeystoreBackend {
+    load(): Promise<KeystoreData | null>;
+    save(data: KeystoreData): Promise<void>;
+}
+
+/**
+ * Persists the keystore as a JSON file, written atomically with owner-only permissions
+ */
+export class FileKeystoreBackend implements KeystoreBackend {
+    constructor(private readonly filePath: string) {}
+
+    async load(): Promise<KeystoreData | null> {
+        try {
+            const raw = await fs.promises.readFile(this.filePath, 'utf8');
+            return JSON.parse(raw) as KeystoreData;
+        } catch (error: any) {
+            if (error.code === 'ENOENT') {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    async save(data: KeystoreData): Promise<void> {
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        const tmpPath = `${this.filePath}.tmp`;
+        await fs.promises.writeFile(tmpPath, JSON.stringify(data, null, 2), { mode: 0o600 });
+        await fs.promises.rename(tmpPath, this.filePath);
+    }
+}
+
+/**
+ * Keeps the keystore in memory only (useful for tests)
+ */
+export class MemoryKeystoreBackend implements KeystoreBackend {
+    private data: KeystoreData | null = null;
+
+    async load(): Promise<KeystoreData | null> {
+        return this.data ? JSON.parse(JSON.stringify(this.data)) : null;
+    }
+
+    async save(data: KeystoreData): Promise<void> {
+        this.data = JSON.parse(JSON.stringify(data));
+    }
+}
+
+const KEY_LENGTH = 32;
+
+function deriveKey(secret: string, salt: string): Buffer {
+    return crypto.scryptSync(secret, Buffer.from(salt, 'hex'), KEY_LENGTH);
+}
+
+/**
+ * Identifies which master secret a keystore was encrypted with, without revealing the secret
+ */
+function computeKeyId(key: Buffer): string {
+    return crypto.createHash('sha256').update(key).digest('hex').slice(0, 16);
+}
+
+function encrypt(key: Buffer, plaintext: string): Omit<EncryptedEntry, 'address'> {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    return {
+        iv: iv.toString('hex'),
+        tag: cipher.getAuthTag().toString('hex'),
+        ciphertext: ciphertext.toString('hex')
+    };
+}
+
+function decrypt(key: Buffer, entry: EncryptedEntry): string {
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(entry.iv, 'hex'));
+    decipher.setAuthTag(Buffer.from(entry.tag, 'hex'));
+    const plaintext = Buffer.concat([decipher.update(Buffer.from(entry.ciphertext, 'hex')), decipher.final()]);
+    return plaintext.toString('utf8');
+}
+
+/**
+ * Stores user wallets keyed by Discord ID, encrypting private keys at rest with a master secret.
+ *
+ * If the keystore on disk was encrypted with `previousSecret`, it is transparently
+ * re-encrypted with `secret` the first time it is loaded.
+ */
+export class Keystore {
+    private data: KeystoreData | null = null;
+    private key: Buffer | null = null;
+    private loading: Promise<void> | null = null;
+
+    constructor(
+        private readonly backend: KeystoreBackend,
+        private secret: string,
+        private readonly previousSecret?: string
+    ) {
+        if (!secret) {
+            throw new Error('Keystore master secret cannot be empty');
+        }
+    }
+
+    /**
+     * Returns the stored wallet for a Discord ID
+     * @param discordId - Discord user ID
+     * @returns Wallet address and private key, or null if none is stored
+     */
+    async get(discordId: string): Promise<StoredWallet | null> {
+        await this.ensureLoaded();
+        const entry = this.data!.entries[discordId];
+        if (!entry) {
+            return null;
+        }
+        return { address: entry.address, privateKey: decrypt(this.key!, entry) };
+    }
+
+    /**
+     * Returns the stored wallet address for a Discord ID without decrypting the private key
+     */
+    async getAddress(discordId: string): Promise<string | null> {
+        await this.ensureLoaded();
+        return this.data!.entries[discordId]?.address ?? null;
+    }
+
+    /**
+     * Encrypts and stores a wallet for a Discord ID, replacing any existing entry
+     */
+    async set(discordId: string, wallet: StoredWallet): Promise<void> {
+        await this.ensureLoaded();
+        this.data!.entries[discordId] = { address: wallet.address, ...encrypt(this.key!, wallet.privateKey) };
+        await this.backend.save(this.data!);
+    }
+
+    async delete(discordId: string): Promise<void> {
+        await this.ensureLoaded();
+        if (!this.data!.entries[discordId]) return;
+        delete this.data!.entries[discordId];
+        await this.backend.save(this.data!);
+    }
+
+    /**
+     * Re-encrypts every stored key with a new master secret
+     * @param newSecret - The secret that will protect the keystore from now on
+     */
+    async rotate(newSecret: string): Promise<void> {
+        if (!newSecret) {
+            throw new Error('Keystore master secret cannot be empty');
+        }
+        await this.ensureLoaded();
+        this.reencrypt(this.data!, this.key!, newSecret);
+        await this.backend.save(this.data!);
+        this.secret = newSecret;
+    }
+
+    private ensureLoaded(): Promise<void> {
+        if (!this.loading) {
+            this.loading = this.load().catch(error => {
+                this.loading = null;
+                throw error;
+            });
+        }
+        return this.loading;
+    }
+
+    private async load(): Promise<void> {
+        const stored = await this.backend.load();
+
+        if (!stored) {
+            const salt = crypto.randomBytes(16).toString('hex');
+            const key = deriveKey(this.secret, salt);
+            this.data = { version: 1, salt, keyId: computeKeyId(key), entries: {} };
+            this.key = key;
+            return;
+        }
+
+        const currentKey = deriveKey(this.secret, stored.salt);
+        if (computeKeyId(currentKey) === stored.keyId) {
+            this.data = stored;
+            this.key = currentKey;
+            return;
+        }
+
+        if (this.previousSecret) {
+            const previousKey = deriveKey(this.previousSecret, stored.salt);
+            if (computeKeyId(previousKey) === stored.keyId) {
+                console.log('[DEBUG] Keystore was encrypted with the previous secret, rotating to the current one');
+                this.reencrypt(stored, previousKey, this.secret);
+                await this.backend.save(stored);
+                this.data = stored;
+                return;
+            }
+        }
+
+        throw new Error('Keystore was encrypted with a different master secret. Check KEYSTORE_SECRET (and KEYSTORE_PREVIOUS_SECRET when rotating).');
+    }
+
+    private reencrypt(data: KeystoreData, oldKey: Buffer, newSecret: string): void {
+        const salt = crypto.randomBytes(16).toString('hex');
+        const newKey = deriveKey(newSecret, salt);
+
+        const entries: KeystoreData['entries'] = {};
+        for (const [discordId, entry] of Object.entries(data.entries)) {
+            entries[discordId] = { address: entry.address, ...encrypt(newKey, decrypt(oldKey, entry)) };
+        }
+
+        data.salt = salt;
+        data.keyId = computeKeyId(newKey);
+        data.entries = entries;
+        this.key = newKey;
+    }
+}
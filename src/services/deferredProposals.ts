@@ -0,0 +1,114 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * A debt proposal waiting for its debtor to register. It has no on-chain
+ * counterpart until then, since the debtor has no wallet to propose to.
+ */
+export interface DeferredProposal {
+    id: number;
+    debtorId: string; // Discord ID of the unregistered user
+    creditorId: string;
+    token: string; // Token address
+    amount: string; // In the token's smallest unit
+    amountDisplay: string; // As the creditor saw it, e.g. "3.33 USDC (1/3 of 10 USDC)"
+    memo: string;
+    createdAt: number;
+}
+
+/**
+ * Storage backend for deferred proposals
+ */
+export interface DeferredProposalBackend {
+    load(): Promise<DeferredProposal[] | null>;
+    save(proposals: DeferredProposal[]): Promise<void>;
+}
+
+/**
+ * Persists deferred proposals as a JSON file, written atomically
+ */
+export class FileDeferredProposalBackend implements DeferredProposalBackend {
+    constructor(private readonly filePath: string) {}
+
+    async load(): Promise<DeferredProposal[] | null> {
+        try {
+            return JSON.parse(await fs.promises.readFile(this.filePath, 'utf8'));
+        } catch (error: any) {
+            if (error.code === 'ENOENT') {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    async save(proposals: DeferredProposal[]): Promise<void> {
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        const tmpPath = `${this.filePath}.tmp`;
+        await fs.promises.writeFile(tmpPath, JSON.stringify(proposals, null, 2));
+        await fs.promises.rename(tmpPath, this.filePath);
+    }
+}
+
+/**
+ * Keeps deferred proposals in memory only (useful for tests)
+ */
+export class MemoryDeferredProposalBackend implements DeferredProposalBackend {
+    private proposals: DeferredProposal[] | null = null;
+
+    async load(): Promise<DeferredProposal[] | null> {
+        return this.proposals ? JSON.parse(JSON.stringify(this.proposals)) : null;
+    }
+
+    async save(proposals: DeferredProposal[]): Promise<void> {
+        this.proposals = JSON.parse(JSON.stringify(proposals));
+    }
+}
+
+/**
+ * Proposals queued by Discord ID for users who haven't registered yet. They are
+ * removed once proposed on-chain or cancelled by their creditor.
+ */
+export class DeferredProposalStore {
+    private constructor(
+        private readonly backend: DeferredProposalBackend,
+        private proposals: DeferredProposal[]
+    ) {}
+
+    static async open(backend: DeferredProposalBackend): Promise<DeferredProposalStore> {
+        return new DeferredProposalStore(backend, await backend.load() ?? []);
+    }
+
+    async add(proposal: Omit<DeferredProposal, 'id' | 'createdAt'>): Promise<DeferredProposal> {
+        const record: DeferredProposal = {
+            ...proposal,
+            id: Math.max(0, ...this.proposals.map(existing => existing.id)) + 1,
+            createdAt: Date.now()
+        };
+        this.proposals.push(record);
+        await this.backend.save(this.proposals);
+        return { ...record };
+    }
+
+    get(id: number): DeferredProposal | null {
+        const proposal = this.proposals.find(existing => existing.id === id);
+        return proposal ? { ...proposal } : null;
+    }
+
+    forDebtor(debtorId: string): DeferredProposal[] {
+        return this.proposals.filter(proposal => proposal.debtorId === debtorId).map(proposal => ({ ...proposal }));
+    }
+
+    forCreditor(creditorId: string): DeferredProposal[] {
+        return this.proposals.filter(proposal => proposal.creditorId === creditorId).map(proposal => ({ ...proposal }));
+    }
+
+    // Queued proposals whose memo contains the text, e.g. an expense fingerprint
+    countByMemo(text: string): number {
+        return this.proposals.filter(proposal => proposal.memo.includes(text)).length;
+    }
+
+    async remove(ids: number[]): Promise<void> {
+        this.proposals = this.proposals.filter(proposal => !ids.includes(proposal.id));
+        await this.backend.save(this.proposals);
+    }
+}
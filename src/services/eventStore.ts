@@ -0,0 +1,387 @@
+import fs from 'fs';
+import path from 'path';
+import initSqlJs from 'sql.js';
+import { ethers } from 'ethers';
+import { ConfirmedDebt, DebtProposal, DebtSimplification, Settlement } from './ledger';
+
+export type ProposalStatus = 'pending' | 'confirmed' | 'rejected';
+
+// Position of an event on-chain, used to order events and make inserts idempotent
+export interface EventLocation {
+    blockNumber: number;
+    txHash: string;
+    logIndex: number;
+}
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS blocks (
+    number INTEGER PRIMARY KEY,
+    hash TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS proposals (
+    pending_debt_id TEXT PRIMARY KEY,
+    creditor TEXT NOT NULL,
+    debtor TEXT NOT NULL,
+    token TEXT NOT NULL,
+    amount TEXT NOT NULL,
+    memo TEXT NOT NULL,
+    status TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    resolved_block INTEGER
+);
+CREATE INDEX IF NOT EXISTS proposals_pair ON proposals (creditor, debtor);
+CREATE TABLE IF NOT EXISTS debts (
+    action_id TEXT PRIMARY KEY,
+    debtor TEXT NOT NULL,
+    creditor TEXT NOT NULL,
+    token TEXT NOT NULL,
+    amount TEXT NOT NULL,
+    memo TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS debts_pair ON debts (debtor, creditor);
+CREATE TABLE IF NOT EXISTS settlements (
+    debtor TEXT NOT NULL,
+    creditor TEXT NOT NULL,
+    token TEXT NOT NULL,
+    amount TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    PRIMARY KEY (tx_hash, log_index)
+);
+CREATE INDEX IF NOT EXISTS settlements_pair ON settlements (debtor, creditor);
+CREATE TABLE IF NOT EXISTS simplifications (
+    simplification_id TEXT PRIMARY KEY,
+    token TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS simplification_participants (
+    simplification_id TEXT NOT NULL,
+    participant TEXT NOT NULL,
+    PRIMARY KEY (simplification_id, participant)
+);
+CREATE TABLE IF NOT EXISTS simplified_debts (
+    simplification_id TEXT NOT NULL,
+    debtor TEXT NOT NULL,
+    creditor TEXT NOT NULL,
+    amount TEXT NOT NULL
+);
+`;
+
+type Row = { [column: string]: any };
+
+function toProposal(row: Row): DebtProposal {
+    return {
+        pendingDebtId: BigInt(row.pending_debt_id),
+        creditor: row.creditor,
+        debtor: row.debtor,
+        token: row.token,
+        amount: BigInt(row.amount),
+        memo: row.memo,
+        blockNumber: row.block_number
+    };
+}
+
+function toConfirmedDebt(row: Row): ConfirmedDebt {
+    return {
+        actionId: BigInt(row.action_id),
+        debtor: row.debtor,
+        creditor: row.creditor,
+        token: row.token,
+        amount: BigInt(row.amount),
+        memo: row.memo,
+        timestamp: BigInt(row.timestamp),
+        blockNumber: row.block_number
+    };
+}
+
+function toSettlement(row: Row): Settlement {
+    return {
+        debtor: row.debtor,
+        creditor: row.creditor,
+        token: row.token,
+        amount: BigInt(row.amount),
+        blockNumber: row.block_number
+    };
+}
+
+function sum(rows: Row[]): bigint {
+    return rows.reduce((total, row) => total + BigInt(row.amount), 0n);
+}
+
+/**
+ * SQLite copy of the contract's debt events, maintained by the EventIndexer.
+ *
+ * The database lives in memory and is written to `filePath` (if given) by `save()`.
+ * Addresses are stored checksummed; query arguments are normalized the same way.
+ */
+export class EventStore {
+    private constructor(private readonly db: initSqlJs.Database, private readonly filePath?: string) {
+        db.exec(SCHEMA);
+    }
+
+    /**
+     * Opens the store, loading an existing database file if there is one
+     * @param filePath - Where to persist the database; omit to keep it in memory only
+     */
+    static async open(filePath?: string): Promise<EventStore> {
+        const SQL = await initSqlJs();
+        let contents: Buffer | undefined;
+        if (filePath) {
+            try {
+                contents = await fs.promises.readFile(filePath);
+            } catch (error: any) {
+                if (error.code !== 'ENOENT') throw error;
+            }
+        }
+        return new EventStore(new SQL.Database(contents), filePath);
+    }
+
+    async save(): Promise<void> {
+        if (!this.filePath) return;
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        const tmpPath = `${this.filePath}.tmp`;
+        await fs.promises.writeFile(tmpPath, this.db.export());
+        await fs.promises.rename(tmpPath, this.filePath);
+    }
+
+    // Run `fn` atomically
+    transaction<T>(fn: () => T): T {
+        this.db.run('BEGIN');
+        try {
+            const result = fn();
+            this.db.run('COMMIT');
+            return result;
+        } catch (error) {
+            this.db.run('ROLLBACK');
+            throw error;
+        }
+    }
+
+    private all(sql: string, params: initSqlJs.BindParams = []): Row[] {
+        const statement = this.db.prepare(sql, params);
+        const rows: Row[] = [];
+        try {
+            while (statement.step()) {
+                rows.push(statement.getAsObject());
+            }
+        } finally {
+            statement.free();
+        }
+        return rows;
+    }
+
+    private get(sql: string, params: initSqlJs.BindParams = []): Row | undefined {
+        return this.all(sql, params)[0];
+    }
+
+    // --- Checkpoint and block hashes ---
+
+    // Last block whose events have been fully indexed
+    getCheckpoint(): number | null {
+        const row = this.get("SELECT value FROM meta WHERE key = 'checkpoint'");
+        return row ? Number(row.value) : null;
+    }
+
+    setCheckpoint(blockNumber: number): void {
+        this.db.run("INSERT OR REPLACE INTO meta (key, value) VALUES ('checkpoint', ?)", [String(blockNumber)]);
+    }
+
+    getBlockHash(blockNumber: number): string | null {
+        return this.get('SELECT hash FROM blocks WHERE number = ?', [blockNumber])?.hash ?? null;
+    }
+
+    recordBlock(blockNumber: number, hash: string): void {
+        this.db.run('INSERT OR REPLACE INTO blocks (number, hash) VALUES (?, ?)', [blockNumber, hash]);
+    }
+
+    // Forget hashes of blocks too old to be reorganized
+    pruneBlocks(belowBlock: number): void {
+        this.db.run('DELETE FROM blocks WHERE number < ?', [belowBlock]);
+    }
+
+    /**
+     * Drops everything indexed after `blockNumber` and moves the checkpoint back to it
+     */
+    rollbackTo(blockNumber: number): void {
+        this.db.run('DELETE FROM proposals WHERE block_number > ?', [blockNumber]);
+        this.db.run("UPDATE proposals SET status = 'pending', resolved_block = NULL WHERE resolved_block > ?", [blockNumber]);
+        this.db.run('DELETE FROM debts WHERE block_number > ?', [blockNumber]);
+        this.db.run('DELETE FROM settlements WHERE block_number > ?', [blockNumber]);
+        this.db.run('DELETE FROM simplifications WHERE block_number > ?', [blockNumber]);
+        this.db.run('DELETE FROM simplification_participants WHERE simplification_id NOT IN (SELECT simplification_id FROM simplifications)');
+        this.db.run('DELETE FROM simplified_debts WHERE simplification_id NOT IN (SELECT simplification_id FROM simplifications)');
+        this.db.run('DELETE FROM blocks WHERE number > ?', [blockNumber]);
+        this.setCheckpoint(blockNumber);
+    }
+
+    // --- Event writes ---
+
+    insertProposal(proposal: DebtProposal, location: EventLocation): void {
+        this.db.run(
+            `INSERT OR IGNORE INTO proposals (pending_debt_id, creditor, debtor, token, amount, memo, status, block_number, log_index, tx_hash)
+             VALUES (?, ?, ?, ?, ?, ?, 'pending', ?, ?, ?)`,
+            [proposal.pendingDebtId.toString(), proposal.creditor, proposal.debtor, proposal.token, proposal.amount.toString(), proposal.memo,
+                location.blockNumber, location.logIndex, location.txHash]
+        );
+    }
+
+    resolveProposal(pendingDebtId: bigint, status: Exclude<ProposalStatus, 'pending'>, blockNumber: number): void {
+        this.db.run(
+            'UPDATE proposals SET status = ?, resolved_block = ? WHERE pending_debt_id = ?',
+            [status, blockNumber, pendingDebtId.toString()]
+        );
+    }
+
+    insertConfirmedDebt(debt: ConfirmedDebt, location: EventLocation): void {
+        this.db.run(
+            `INSERT OR IGNORE INTO debts (action_id, debtor, creditor, token, amount, memo, timestamp, block_number, log_index, tx_hash)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            [debt.actionId.toString(), debt.debtor, debt.creditor, debt.token, debt.amount.toString(), debt.memo, Number(debt.timestamp),
+                location.blockNumber, location.logIndex, location.txHash]
+        );
+    }
+
+    insertSettlement(settlement: Settlement, location: EventLocation): void {
+        this.db.run(
+            `INSERT OR IGNORE INTO settlements (debtor, creditor, token, amount, block_number, log_index, tx_hash)
+             VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            [settlement.debtor, settlement.creditor, settlement.token, settlement.amount.toString(),
+                location.blockNumber, location.logIndex, location.txHash]
+        );
+    }
+
+    insertSimplification(simplification: DebtSimplification, location: EventLocation): void {
+        const id = simplification.simplificationId.toString();
+        if (this.get('SELECT 1 FROM simplifications WHERE simplification_id = ?', [id])) return;
+
+        this.db.run(
+            `INSERT INTO simplifications (simplification_id, token, block_number, log_index, tx_hash) VALUES (?, ?, ?, ?, ?)`,
+            [id, simplification.token, location.blockNumber, location.logIndex, location.txHash]
+        );
+        for (const participant of simplification.participants) {
+            this.db.run('INSERT INTO simplification_participants (simplification_id, participant) VALUES (?, ?)', [id, participant]);
+        }
+        for (const transfer of simplification.transfers) {
+            this.db.run(
+                'INSERT INTO simplified_debts (simplification_id, debtor, creditor, amount) VALUES (?, ?, ?, ?)',
+                [id, transfer.debtor, transfer.creditor, transfer.amount.toString()]
+            );
+        }
+    }
+
+    // --- Queries ---
+
+    getProposalStatus(pendingDebtId: bigint): ProposalStatus | null {
+        return this.get('SELECT status FROM proposals WHERE pending_debt_id = ?', [pendingDebtId.toString()])?.status ?? null;
+    }
+
+    // Statuses of the proposals whose memo contains `text`, oldest first
+    getProposalStatusesByMemo(text: string): ProposalStatus[] {
+        return this.all('SELECT status FROM proposals WHERE instr(memo, ?) > 0 ORDER BY block_number, log_index', [text])
+            .map(row => row.status);
+    }
+
+    // Every proposal, oldest first
+    getAllProposals(): DebtProposal[] {
+        return this.all('SELECT * FROM proposals ORDER BY block_number, log_index').map(toProposal);
+    }
+
+    /**
+     * Returns proposals between two addresses that were neither confirmed nor rejected
+     * @param token - Only include proposals for this token, if given
+     */
+    getPendingProposalsBetween(user1: string, user2: string, token?: string): DebtProposal[] {
+        const a = ethers.getAddress(user1);
+        const b = ethers.getAddress(user2);
+        let sql = `SELECT * FROM proposals WHERE status = 'pending'
+                   AND ((creditor = ? AND debtor = ?) OR (creditor = ? AND debtor = ?))`;
+        const params: initSqlJs.SqlValue[] = [a, b, b, a];
+        if (token) {
+            sql += ' AND token = ?';
+            params.push(ethers.getAddress(token));
+        }
+        return this.all(`${sql} ORDER BY block_number, log_index`, params).map(toProposal);
+    }
+
+    // Confirmed debts recorded between two addresses, in either direction, oldest first
+    getConfirmedDebtsBetween(user1: string, user2: string): ConfirmedDebt[] {
+        const a = ethers.getAddress(user1);
+        const b = ethers.getAddress(user2);
+        return this.all(
+            `SELECT * FROM debts WHERE (debtor = ? AND creditor = ?) OR (debtor = ? AND creditor = ?)
+             ORDER BY block_number, log_index`,
+            [a, b, b, a]
+        ).map(toConfirmedDebt);
+    }
+
+    // Settlements between two addresses, in either direction, oldest first
+    getSettlementsBetween(user1: string, user2: string): Settlement[] {
+        const a = ethers.getAddress(user1);
+        const b = ethers.getAddress(user2);
+        return this.all(
+            `SELECT * FROM settlements WHERE (debtor = ? AND creditor = ?) OR (debtor = ? AND creditor = ?)
+             ORDER BY block_number, log_index`,
+            [a, b, b, a]
+        ).map(toSettlement);
+    }
+
+    // Every address that has been a debtor or creditor in `token`
+    getAddressesWithDebts(token: string): string[] {
+        const t = ethers.getAddress(token);
+        return this.all(
+            'SELECT debtor AS address FROM debts WHERE token = ? UNION SELECT creditor FROM debts WHERE token = ? ORDER BY address',
+            [t, t]
+        ).map(row => row.address);
+    }
+
+    /**
+     * Confirmed amount `debtor` owes `creditor` in `token`.
+     *
+     * The contract nets debts in opposite directions and settlements pay down the
+     * amount owed, so the balance is the net of every debt and settlement between
+     * the pair, floored at zero. A simplification that included both
+     * addresses replaced their balance outright, so only events after the latest
+     * one are added to the edge it left between them.
+     */
+    getDebt(token: string, debtor: string, creditor: string): bigint {
+        const t = ethers.getAddress(token);
+        const d = ethers.getAddress(debtor);
+        const c = ethers.getAddress(creditor);
+
+        let net = 0n;
+        let after = '';
+        const afterParams: initSqlJs.SqlValue[] = [];
+        const simplification = this.get(
+            `SELECT s.simplification_id, s.block_number, s.log_index FROM simplifications s
+             JOIN simplification_participants a ON a.simplification_id = s.simplification_id AND a.participant = ?
+             JOIN simplification_participants b ON b.simplification_id = s.simplification_id AND b.participant = ?
+             WHERE s.token = ? ORDER BY s.block_number DESC, s.log_index DESC LIMIT 1`,
+            [d, c, t]
+        );
+        if (simplification) {
+            const edgeSql = 'SELECT amount FROM simplified_debts WHERE simplification_id = ? AND debtor = ? AND creditor = ?';
+            net = sum(this.all(edgeSql, [simplification.simplification_id, d, c])) - sum(this.all(edgeSql, [simplification.simplification_id, c, d]));
+            after = ' AND (block_number > ? OR (block_number = ? AND log_index > ?))';
+            afterParams.push(simplification.block_number, simplification.block_number, simplification.log_index);
+        }
+
+        const debtSql = `SELECT amount FROM debts WHERE token = ? AND debtor = ? AND creditor = ?${after}`;
+        const settlementSql = `SELECT amount FROM settlements WHERE token = ? AND debtor = ? AND creditor = ?${after}`;
+        net += sum(this.all(debtSql, [t, d, c, ...afterParams])) - sum(this.all(debtSql, [t, c, d, ...afterParams]))
+            - sum(this.all(settlementSql, [t, d, c, ...afterParams])) + sum(this.all(settlementSql, [t, c, d, ...afterParams]));
+        return net > 0n ? net : 0n;
+    }
+}
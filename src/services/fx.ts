@@ -0,0 +1,190 @@
+import fs from 'fs';
+import path from 'path';
+
+// Exchange rates for converting detected expenses into the token a debt is recorded in
+
+export interface FxRate {
+    from: string;
+    to: string;
+    rate: number; // Units of `to` per unit of `from`
+    source: string;
+    asOf: number; // When the provider says the rate was published (ms since epoch)
+}
+
+export interface RateProvider {
+    readonly name: string;
+    // Resolves to null if the provider has no rate for the pair
+    getRate(from: string, to: string): Promise<FxRate | null>;
+}
+
+// Rates quoted as units of each currency per one unit of `base`
+export interface RateTable {
+    base: string;
+    asOf?: string;
+    rates: { [currency: string]: number };
+}
+
+const CURRENCY_ALIASES: { [alias: string]: string } = {
+    '$': 'USD',
+    'USDC': 'USD',
+    'DOLLAR': 'USD',
+    'DOLLARS': 'USD',
+    '₩': 'KRW',
+    'WON': 'KRW',
+    '원': 'KRW',
+    '¥': 'JPY',
+    'YEN': 'JPY',
+    '€': 'EUR',
+    'EURO': 'EUR',
+    'EUROS': 'EUR',
+    '£': 'GBP',
+    'ETHER': 'ETH'
+};
+
+/**
+ * Maps the currency names and symbols the bill analyzer produces to ISO-style codes
+ * @returns The code, e.g. "KRW" for "won" or "₩"
+ */
+export function normalizeCurrency(currency: string): string {
+    const upper = currency.trim().toUpperCase();
+    return CURRENCY_ALIASES[upper] ?? upper;
+}
+
+function rateFromTable(table: RateTable, from: string, to: string, source: string, asOf: number): FxRate | null {
+    const perBase = (currency: string) => currency === table.base ? 1 : table.rates[currency];
+    const fromPerBase = perBase(from);
+    const toPerBase = perBase(to);
+    if (!fromPerBase || !toPerBase) return null;
+    return { from, to, rate: toPerBase / fromPerBase, source, asOf };
+}
+
+function parseRateTable(value: any, origin: string): RateTable {
+    const base = value?.base ?? value?.base_code;
+    if (typeof base !== 'string' || typeof value.rates !== 'object' || value.rates === null) {
+        throw new Error(`${origin} is not a rate table: expected "base" and "rates"`);
+    }
+    return { base: normalizeCurrency(base), asOf: value.asOf, rates: value.rates };
+}
+
+/**
+ * Serves rates from a fixed table, such as the bundled rates file, for offline use
+ */
+export class StaticRateProvider implements RateProvider {
+    readonly name = 'static';
+
+    constructor(private readonly table: RateTable, private readonly label: string = 'bundled rates') {}
+
+    static async fromFile(filePath: string): Promise<StaticRateProvider> {
+        const contents = JSON.parse(await fs.promises.readFile(filePath, 'utf8'));
+        return new StaticRateProvider(parseRateTable(contents, filePath), path.basename(filePath));
+    }
+
+    async getRate(from: string, to: string): Promise<FxRate | null> {
+        const asOf = this.table.asOf ? Date.parse(this.table.asOf) : NaN;
+        return rateFromTable(this.table, from, to, this.label, Number.isNaN(asOf) ? 0 : asOf);
+    }
+}
+
+const DEFAULT_CACHE_TTL_MS = 60 * 60 * 1000;
+const DEFAULT_REQUEST_TIMEOUT_MS = 10_000;
+
+/**
+ * Fetches a rate table over HTTP. Accepts `{ base, rates }` responses, and the
+ * `{ base_code, rates, time_last_update_unix }` shape used by open exchange rate APIs.
+ *
+ * One response holds every pair, so the table is kept for `cacheTtlMs` and shared
+ * by lookups made while it is being fetched.
+ */
+export class HttpRateProvider implements RateProvider {
+    readonly name = 'http';
+    private table: { fetched: Promise<{ table: RateTable; asOf: number }>; fetchedAt: number } | null = null;
+
+    constructor(
+        private readonly url: string,
+        private readonly timeoutMs: number = DEFAULT_REQUEST_TIMEOUT_MS,
+        private readonly cacheTtlMs: number = DEFAULT_CACHE_TTL_MS
+    ) {}
+
+    async getRate(from: string, to: string): Promise<FxRate | null> {
+        if (!this.table || Date.now() - this.table.fetchedAt >= this.cacheTtlMs) {
+            const fetched = this.fetchTable();
+            this.table = { fetched, fetchedAt: Date.now() };
+            // A failed fetch isn't kept, so the next lookup tries again
+            fetched.catch(() => { if (this.table?.fetched === fetched) this.table = null; });
+        }
+        const { table, asOf } = await this.table.fetched;
+        return rateFromTable(table, from, to, new URL(this.url).host, asOf);
+    }
+
+    private async fetchTable(): Promise<{ table: RateTable; asOf: number }> {
+        const response = await fetch(this.url, { signal: AbortSignal.timeout(this.timeoutMs) });
+        if (!response.ok) {
+            throw new Error(`Rate request to ${this.url} failed with HTTP ${response.status}`);
+        }
+        const body: any = await response.json();
+        const asOf = typeof body.time_last_update_unix === 'number' ? body.time_last_update_unix * 1000 : Date.now();
+        return { table: parseRateTable(body, this.url), asOf };
+    }
+}
+
+/**
+ * Looks up exchange rates from a list of providers, in order of preference.
+ *
+ * Rates are cached per currency pair for `cacheTtlMs`. If every provider fails,
+ * an expired cached rate is used rather than failing the conversion.
+ */
+export class FxService {
+    private readonly cache = new Map<string, { rate: FxRate; cachedAt: number }>();
+
+    constructor(private readonly providers: RateProvider[], private readonly cacheTtlMs: number = DEFAULT_CACHE_TTL_MS) {}
+
+    /**
+     * @throws Error if no provider has a rate for the pair
+     */
+    async getRate(fromCurrency: string, toCurrency: string): Promise<FxRate> {
+        const from = normalizeCurrency(fromCurrency);
+        const to = normalizeCurrency(toCurrency);
+        if (from === to) {
+            return { from, to, rate: 1, source: 'same currency', asOf: Date.now() };
+        }
+
+        const key = `${from}/${to}`;
+        const cached = this.cache.get(key);
+        if (cached && Date.now() - cached.cachedAt < this.cacheTtlMs) {
+            return cached.rate;
+        }
+
+        for (const provider of this.providers) {
+            try {
+                const rate = await provider.getRate(from, to);
+                if (rate) {
+                    this.cache.set(key, { rate, cachedAt: Date.now() });
+                    return rate;
+                }
+            } catch (error) {
+                console.error(`[ERROR] FX provider ${provider.name} failed for ${key}:`, error);
+            }
+        }
+
+        if (cached) {
+            console.warn(`[WARN] Using expired ${key} rate from ${cached.rate.source}`);
+            return cached.rate;
+        }
+        throw new Error(`No exchange rate available for ${from} → ${to}`);
+    }
+
+    // Convert an amount between currencies, returning the rate used alongside it
+    async convert(amount: number, fromCurrency: string, toCurrency: string): Promise<{ amount: number; rate: FxRate }> {
+        const rate = await this.getRate(fromCurrency, toCurrency);
+        return { amount: amount * rate.rate, rate };
+    }
+}
+
+/**
+ * Describes a rate for memos and messages
+ * @returns e.g. "1 KRW = 0.000722 USD (bundled rates, 2026-10-01)"
+ */
+export function describeRate(rate: FxRate): string {
+    const date = rate.asOf ? new Date(rate.asOf).toISOString().slice(0, 10) : 'undated';
+    return `1 ${rate.from} = ${Number(rate.rate.toPrecision(6))} ${rate.to} (${rate.source}, ${date})`;
+}
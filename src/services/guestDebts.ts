@@ -0,0 +1,125 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * A guest's share of an expense, held by the bot until the guest registers and
+ * claims it. Guests have no wallet, so nothing is on-chain until then.
+ */
+export interface GuestDebt {
+    id: number;
+    guildId: string;
+    guestId: string;
+    creditorId: string; // Discord ID of the user the guest owes
+    token: string; // Token address
+    amount: string; // In the token's smallest unit
+    memo: string;
+    createdAt: number;
+    status: 'held' | 'migrated';
+    pendingDebtId?: string; // The on-chain proposal made when the debt was migrated
+}
+
+/**
+ * Storage backend for guest debts
+ */
+export interface GuestDebtBackend {
+    load(): Promise<GuestDebt[] | null>;
+    save(debts: GuestDebt[]): Promise<void>;
+}
+
+/**
+ * Persists guest debts as a JSON file, written atomically
+ */
+export class FileGuestDebtBackend implements GuestDebtBackend {
+    constructor(private readonly filePath: string) {}
+
+    async load(): Promise<GuestDebt[] | null> {
+        try {
+            return JSON.parse(await fs.promises.readFile(this.filePath, 'utf8'));
+        } catch (error: any) {
+            if (error.code === 'ENOENT') {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    async save(debts: GuestDebt[]): Promise<void> {
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        const tmpPath = `${this.filePath}.tmp`;
+        await fs.promises.writeFile(tmpPath, JSON.stringify(debts, null, 2));
+        await fs.promises.rename(tmpPath, this.filePath);
+    }
+}
+
+/**
+ * Keeps guest debts in memory only (useful for tests)
+ */
+export class MemoryGuestDebtBackend implements GuestDebtBackend {
+    private debts: GuestDebt[] | null = null;
+
+    async load(): Promise<GuestDebt[] | null> {
+        return this.debts ? JSON.parse(JSON.stringify(this.debts)) : null;
+    }
+
+    async save(debts: GuestDebt[]): Promise<void> {
+        this.debts = JSON.parse(JSON.stringify(debts));
+    }
+}
+
+export class GuestDebtStore {
+    private constructor(
+        private readonly backend: GuestDebtBackend,
+        private readonly debts: GuestDebt[]
+    ) {}
+
+    static async open(backend: GuestDebtBackend): Promise<GuestDebtStore> {
+        return new GuestDebtStore(backend, await backend.load() ?? []);
+    }
+
+    async add(debt: Omit<GuestDebt, 'id' | 'createdAt' | 'status'>): Promise<GuestDebt> {
+        const record: GuestDebt = {
+            ...debt,
+            id: Math.max(0, ...this.debts.map(existing => existing.id)) + 1,
+            createdAt: Date.now(),
+            status: 'held'
+        };
+        this.debts.push(record);
+        await this.backend.save(this.debts);
+        return { ...record };
+    }
+
+    // Debts still waiting for the guest to claim them
+    held(guildId: string, guestId: string): GuestDebt[] {
+        return this.debts
+            .filter(debt => debt.guildId === guildId && debt.guestId === guestId && debt.status === 'held')
+            .map(debt => ({ ...debt }));
+    }
+
+    // Held debts whose memo contains the text, e.g. an expense fingerprint
+    countHeldByMemo(text: string): number {
+        return this.debts.filter(debt => debt.status === 'held' && debt.memo.includes(text)).length;
+    }
+
+    // Called once the debt's proposal to the guest's new account exists on-chain
+    async markMigrated(id: number, pendingDebtId: bigint): Promise<void> {
+        const debt = this.debts.find(existing => existing.id === id);
+        if (!debt) return;
+        debt.status = 'migrated';
+        debt.pendingDebtId = pendingDebtId.toString();
+        await this.backend.save(this.debts);
+    }
+
+    /**
+     * Holds a migrated debt again after its proposal was rejected, so the creditor
+     * doesn't lose track of it
+     * @returns The debt, or null if the proposal wasn't made for a guest debt
+     */
+    async returnToHeld(pendingDebtId: bigint): Promise<GuestDebt | null> {
+        const debt = this.debts.find(existing => existing.status === 'migrated' && existing.pendingDebtId === pendingDebtId.toString());
+        if (!debt) return null;
+        debt.status = 'held';
+        delete debt.pendingDebtId;
+        await this.backend.save(this.debts);
+        return { ...debt };
+    }
+}
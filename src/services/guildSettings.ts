@@ -0,0 +1,83 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Per-guild preferences set by server managers
+ */
+export interface GuildSettings {
+    extractor?: string; // Name of the bill extractor used for automated detection
+}
+
+/**
+ * Storage backend for guild settings
+ */
+export interface GuildSettingsBackend {
+    load(): Promise<{ [guildId: string]: GuildSettings } | null>;
+    save(settings: { [guildId: string]: GuildSettings }): Promise<void>;
+}
+
+/**
+ * Persists guild settings as a JSON file, written atomically
+ */
+export class FileGuildSettingsBackend implements GuildSettingsBackend {
+    constructor(private readonly filePath: string) {}
+
+    async load(): Promise<{ [guildId: string]: GuildSettings } | null> {
+        try {
+            return JSON.parse(await fs.promises.readFile(this.filePath, 'utf8'));
+        } catch (error: any) {
+            if (error.code === 'ENOENT') {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    async save(settings: { [guildId: string]: GuildSettings }): Promise<void> {
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        const tmpPath = `${this.filePath}.tmp`;
+        await fs.promises.writeFile(tmpPath, JSON.stringify(settings, null, 2));
+        await fs.promises.rename(tmpPath, this.filePath);
+    }
+}
+
+/**
+ * Keeps guild settings in memory only (useful for tests)
+ */
+export class MemoryGuildSettingsBackend implements GuildSettingsBackend {
+    private settings: { [guildId: string]: GuildSettings } | null = null;
+
+    async load(): Promise<{ [guildId: string]: GuildSettings } | null> {
+        return this.settings ? JSON.parse(JSON.stringify(this.settings)) : null;
+    }
+
+    async save(settings: { [guildId: string]: GuildSettings }): Promise<void> {
+        this.settings = JSON.parse(JSON.stringify(settings));
+    }
+}
+
+export class GuildSettingsStore {
+    private constructor(
+        private readonly backend: GuildSettingsBackend,
+        private readonly settings: { [guildId: string]: GuildSettings }
+    ) {}
+
+    static async open(backend: GuildSettingsBackend): Promise<GuildSettingsStore> {
+        return new GuildSettingsStore(backend, await backend.load() ?? {});
+    }
+
+    get(guildId: string): GuildSettings {
+        return { ...this.settings[guildId] };
+    }
+
+    // Merges the changes into the guild's settings; undefined values are cleared
+    async update(guildId: string, changes: Partial<GuildSettings>): Promise<GuildSettings> {
+        const updated: GuildSettings = { ...this.settings[guildId], ...changes };
+        for (const key of Object.keys(updated) as (keyof GuildSettings)[]) {
+            if (updated[key] === undefined) delete updated[key];
+        }
+        this.settings[guildId] = updated;
+        await this.backend.save(this.settings);
+        return { ...updated };
+    }
+}
@@ -0,0 +1,209 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * A name someone goes by in chat, declared by a user of the guild
+ */
+export interface AliasRecord {
+    alias: string; // As written, e.g. "승재" or "jay"
+    mention: string; // Who it refers to: a Discord mention, or a guest's
+    addedBy: string; // ID of the user who declared it
+}
+
+/**
+ * A friend without a Discord account, named by the guild's members
+ */
+export interface GuestRecord {
+    id: string; // Unique within the guild
+    name: string;
+    createdBy: string; // ID of the user who added the guest
+    claimedBy?: string; // ID of the user the guest turned out to be, once they registered
+    claimRequestedBy?: string; // ID of a user waiting for the guest's creator to confirm they are the guest
+}
+
+/**
+ * Everything a guild knows about who's who
+ */
+export interface GuildIdentities {
+    aliases: AliasRecord[];
+    guests: GuestRecord[];
+}
+
+/**
+ * Storage backend for the per-guild aliases and guests
+ */
+export interface IdentityBackend {
+    load(): Promise<{ [guildId: string]: GuildIdentities } | null>;
+    save(identities: { [guildId: string]: GuildIdentities }): Promise<void>;
+}
+
+/**
+ * Persists identities as a JSON file, written atomically
+ */
+export class FileIdentityBackend implements IdentityBackend {
+    constructor(private readonly filePath: string) {}
+
+    async load(): Promise<{ [guildId: string]: GuildIdentities } | null> {
+        try {
+            return JSON.parse(await fs.promises.readFile(this.filePath, 'utf8'));
+        } catch (error: any) {
+            if (error.code === 'ENOENT') {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    async save(identities: { [guildId: string]: GuildIdentities }): Promise<void> {
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        const tmpPath = `${this.filePath}.tmp`;
+        await fs.promises.writeFile(tmpPath, JSON.stringify(identities, null, 2));
+        await fs.promises.rename(tmpPath, this.filePath);
+    }
+}
+
+/**
+ * Keeps identities in memory only (useful for tests)
+ */
+export class MemoryIdentityBackend implements IdentityBackend {
+    private identities: { [guildId: string]: GuildIdentities } | null = null;
+
+    async load(): Promise<{ [guildId: string]: GuildIdentities } | null> {
+        return this.identities ? JSON.parse(JSON.stringify(this.identities)) : null;
+    }
+
+    async save(identities: { [guildId: string]: GuildIdentities }): Promise<void> {
+        this.identities = JSON.parse(JSON.stringify(identities));
+    }
+}
+
+/**
+ * Folds a name for comparison: Unicode-normalized, lowercased, without a leading @
+ * or repeated whitespace
+ */
+export function normalizeName(name: string): string {
+    return name.normalize('NFKC').toLowerCase().replace(/^@/, '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * How a guest appears where a Discord mention would, e.g. in an analysis
+ */
+export function guestMention(guestId: string): string {
+    return `<guest:${guestId}>`;
+}
+
+/**
+ * @returns The guest ID, or null if the mention isn't a guest's
+ */
+export function extractGuestIdFromMention(mention: string): string | null {
+    const match = mention.match(/^<guest:(\d+)>$/);
+    return match ? match[1] : null;
+}
+
+/**
+ * The names each guild's members declared for themselves and their friends,
+ * and the friends without Discord accounts
+ */
+export class IdentityStore {
+    private constructor(
+        private readonly backend: IdentityBackend,
+        private readonly identities: { [guildId: string]: GuildIdentities }
+    ) {}
+
+    static async open(backend: IdentityBackend): Promise<IdentityStore> {
+        return new IdentityStore(backend, await backend.load() ?? {});
+    }
+
+    private forGuild(guildId: string): GuildIdentities {
+        return this.identities[guildId] ??= { aliases: [], guests: [] };
+    }
+
+    aliases(guildId: string): AliasRecord[] {
+        return (this.identities[guildId]?.aliases ?? []).map(record => ({ ...record }));
+    }
+
+    // The alias with this name, whoever it refers to
+    findAlias(guildId: string, alias: string): AliasRecord | null {
+        const key = normalizeName(alias);
+        const record = this.identities[guildId]?.aliases.find(existing => normalizeName(existing.alias) === key);
+        return record ? { ...record } : null;
+    }
+
+    // Points the alias at the given user, replacing whoever it referred to before
+    async set(guildId: string, record: AliasRecord): Promise<void> {
+        const identities = this.forGuild(guildId);
+        const key = normalizeName(record.alias);
+        identities.aliases = [...identities.aliases.filter(existing => normalizeName(existing.alias) !== key), { ...record, alias: record.alias.trim() }];
+        await this.backend.save(this.identities);
+    }
+
+    /**
+     * @returns The removed alias, or null if the guild has no such alias
+     */
+    async remove(guildId: string, alias: string): Promise<AliasRecord | null> {
+        const removed = this.findAlias(guildId, alias);
+        if (!removed) return null;
+        const identities = this.forGuild(guildId);
+        identities.aliases = identities.aliases.filter(record => normalizeName(record.alias) !== normalizeName(alias));
+        await this.backend.save(this.identities);
+        return removed;
+    }
+
+    guests(guildId: string): GuestRecord[] {
+        return (this.identities[guildId]?.guests ?? []).map(guest => ({ ...guest }));
+    }
+
+    getGuest(guildId: string, guestId: string): GuestRecord | null {
+        const guest = this.identities[guildId]?.guests.find(existing => existing.id === guestId);
+        return guest ? { ...guest } : null;
+    }
+
+    findGuestByName(guildId: string, name: string): GuestRecord | null {
+        const key = normalizeName(name);
+        const guest = this.identities[guildId]?.guests.find(existing => normalizeName(existing.name) === key);
+        return guest ? { ...guest } : null;
+    }
+
+    /**
+     * Records that the guest registered as the given user, and points the guest's
+     * aliases at them
+     */
+    async claimGuest(guildId: string, guestId: string, userId: string): Promise<void> {
+        const identities = this.forGuild(guildId);
+        const guest = identities.guests.find(existing => existing.id === guestId);
+        if (!guest) return;
+        guest.claimedBy = userId;
+        delete guest.claimRequestedBy;
+        identities.aliases = identities.aliases.map(record => record.mention === guestMention(guestId) ? { ...record, mention: `<@${userId}>` } : record);
+        await this.backend.save(this.identities);
+    }
+
+    // Records who says they are the guest, until the guest's creator decides
+    async requestClaim(guildId: string, guestId: string, userId: string): Promise<void> {
+        const guest = this.forGuild(guildId).guests.find(existing => existing.id === guestId);
+        if (!guest) return;
+        guest.claimRequestedBy = userId;
+        await this.backend.save(this.identities);
+    }
+
+    async cancelClaimRequest(guildId: string, guestId: string): Promise<void> {
+        const guest = this.forGuild(guildId).guests.find(existing => existing.id === guestId);
+        if (!guest?.claimRequestedBy) return;
+        delete guest.claimRequestedBy;
+        await this.backend.save(this.identities);
+    }
+
+    /**
+     * Adds a guest, or returns the existing one with the same name
+     */
+    async addGuest(guildId: string, name: string, createdBy: string): Promise<GuestRecord> {
+        const existing = this.findGuestByName(guildId, name);
+        if (existing) return existing;
+        const identities = this.forGuild(guildId);
+        const nextId = Math.max(0, ...identities.guests.map(guest => Number(guest.id))) + 1;
+        const guest: GuestRecord = { id: nextId.toString(), name: name.trim(), createdBy };
+        identities.guests.push(guest);
+        await this.backend.save(this.identities);
+        return { ...guest };
+    }
+}
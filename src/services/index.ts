@@ -0,0 +1,34 @@
+import { ExtractorRegistry } from '../billDetection/extractor';
+import { OcrEngine } from '../billDetection/receipts';
+import { NetworkInfo } from '../config';
+import { SigningMode } from '../signing';
+import { DeferredProposalStore } from './deferredProposals';
+import { FxService } from './fx';
+import { GuestDebtStore } from './guestDebts';
+import { IdentityStore } from './identities';
+import { EventIndexer } from './indexer';
+import { LedgerService } from './ledger';
+import { Notifier } from './notifier';
+import { PendingAnalysisStore } from './pendingAnalyses';
+import { SignatureService } from './signatures';
+import { WalletService } from './wallets';
+
+/**
+ * Long-lived services shared by every command and interaction handler
+ */
+export interface BotServices {
+    ledger: LedgerService;
+    indexer: EventIndexer; // Local copy of contract events for read-only queries
+    wallets: WalletService;
+    notifier: Notifier;
+    signatures: SignatureService;
+    pendingAnalyses: PendingAnalysisStore; // Bill analyses awaiting confirmation
+    network: NetworkInfo;
+    fx: FxService; // Exchange rates for bills paid in currencies other than the debt token
+    signingMode: SigningMode;
+    extractors: ExtractorRegistry; // Bill extractors and which one each guild uses
+    ocr: OcrEngine | null; // Reads receipt photos for extractors that only take text
+    identities: IdentityStore; // Names each guild's members go by in chat, and their guests
+    guestDebts: GuestDebtStore; // Guests' shares of expenses, held until they register
+    deferredProposals: DeferredProposalStore; // Proposals queued until their debtor registers
+}
@@ -0,0 +1,173 @@
+import { Log, Provider } from 'ethers';
+import { EventLocation, EventStore } from './eventStore';
+import { decodeLedgerLog } from './ledgerEvents';
+
+export interface IndexerOptions {
+    startBlock?: number; // Block the contract was deployed in
+    batchSize?: number; // Maximum block range per getLogs call
+    confirmations?: number; // Blocks after which a block is treated as final
+}
+
+const DEFAULT_BATCH_SIZE = 2000;
+const DEFAULT_CONFIRMATIONS = 12;
+
+/**
+ * Tails the contract's debt events into an EventStore.
+ *
+ * Indexing resumes from the stored checkpoint. Hashes of recent blocks are kept so
+ * that if the chain reorganizes, events from the replaced blocks are rolled back
+ * and indexed again from the new chain.
+ */
+export class EventIndexer {
+    private readonly startBlock: number;
+    private readonly batchSize: number;
+    private readonly confirmations: number;
+    private syncing: Promise<void> | null = null;
+    private timer: NodeJS.Timeout | null = null;
+
+    constructor(
+        readonly store: EventStore,
+        private readonly provider: Provider,
+        private readonly contractAddress: string,
+        options: IndexerOptions = {}
+    ) {
+        this.startBlock = options.startBlock ?? 0;
+        this.batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+        this.confirmations = options.confirmations ?? DEFAULT_CONFIRMATIONS;
+    }
+
+    /**
+     * Indexes every event up to the current head. Concurrent calls share one run.
+     */
+    sync(): Promise<void> {
+        if (!this.syncing) {
+            this.syncing = this.runSync().finally(() => {
+                this.syncing = null;
+            });
+        }
+        return this.syncing;
+    }
+
+    /**
+     * Syncs before a read. If the RPC call fails, reads fall back to what is already indexed.
+     */
+    async catchUp(): Promise<void> {
+        try {
+            await this.sync();
+        } catch (error) {
+            console.error('[ERROR] Event indexer sync failed, serving the last indexed state:', error);
+        }
+    }
+
+    // Keep syncing in the background
+    start(intervalMs: number): void {
+        this.stop();
+        this.timer = setInterval(() => {
+            this.sync().catch(error => console.error('[ERROR] Event indexer sync failed:', error));
+        }, intervalMs);
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    private async runSync(): Promise<void> {
+        const head = await this.provider.getBlockNumber();
+        let changed = await this.rollBackReorgedBlocks();
+
+        let from = (this.store.getCheckpoint() ?? this.startBlock - 1) + 1;
+        while (from <= head) {
+            const to = Math.min(head, from + this.batchSize - 1);
+            const logs = await this.provider.getLogs({ address: this.contractAddress, fromBlock: from, toBlock: to });
+            const hashes = await this.fetchRecentBlockHashes(Math.max(from, head - this.confirmations), to);
+
+            this.store.transaction(() => {
+                for (const log of logs) {
+                    this.applyLog(log);
+                }
+                for (const [blockNumber, hash] of hashes) {
+                    this.store.recordBlock(blockNumber, hash);
+                }
+                this.store.setCheckpoint(to);
+            });
+
+            if (logs.length > 0) {
+                console.log(`[DEBUG] Indexed ${logs.length} events from blocks ${from}-${to}`);
+            }
+            changed = true;
+            from = to + 1;
+        }
+
+        if (changed) {
+            this.store.pruneBlocks(head - this.confirmations);
+            await this.store.save();
+        }
+    }
+
+    private async fetchRecentBlockHashes(from: number, to: number): Promise<Map<number, string>> {
+        const hashes = new Map<number, string>();
+        for (let blockNumber = from; blockNumber <= to; blockNumber++) {
+            const block = await this.provider.getBlock(blockNumber);
+            if (block?.hash) {
+                hashes.set(blockNumber, block.hash);
+            }
+        }
+        return hashes;
+    }
+
+    /**
+     * Walks back from the checkpoint until a recorded block hash matches the chain,
+     * and drops everything indexed after that block
+     * @returns true if anything was rolled back
+     */
+    private async rollBackReorgedBlocks(): Promise<boolean> {
+        const checkpoint = this.store.getCheckpoint();
+        if (checkpoint === null) return false;
+
+        let blockNumber = checkpoint;
+        let recorded = this.store.getBlockHash(blockNumber);
+        while (recorded !== null) {
+            const block = await this.provider.getBlock(blockNumber);
+            if (block?.hash === recorded) break;
+            blockNumber--;
+            recorded = this.store.getBlockHash(blockNumber);
+        }
+
+        if (blockNumber === checkpoint) return false;
+
+        // blockNumber is now the newest block still on the chain (or the one before the earliest recorded)
+        console.log(`[DEBUG] Chain reorganization detected, rolling back indexed events after block ${blockNumber}`);
+        this.store.transaction(() => this.store.rollbackTo(blockNumber));
+        return true;
+    }
+
+    private applyLog(log: Log): void {
+        const event = decodeLedgerLog(log);
+        if (!event) return;
+
+        const location: EventLocation = { blockNumber: log.blockNumber, txHash: log.transactionHash, logIndex: log.index };
+        switch (event.name) {
+            case 'DebtProposed':
+                this.store.insertProposal(event.proposal, location);
+                break;
+            case 'DebtConfirmed':
+                this.store.resolveProposal(event.pendingDebtId, 'confirmed', log.blockNumber);
+                break;
+            case 'DebtRejected':
+                this.store.resolveProposal(event.pendingDebtId, 'rejected', log.blockNumber);
+                break;
+            case 'DebtAdded':
+                this.store.insertConfirmedDebt(event.debt, location);
+                break;
+            case 'DebtSettled':
+                this.store.insertSettlement(event.settlement, location);
+                break;
+            case 'DebtsSimplified':
+                this.store.insertSimplification(event.simplification, location);
+                break;
+        }
+    }
+}
@@ -0,0 +1,329 @@
+import { ethers, Contract, Wallet, Provider, Signer, TransactionReceipt, TransactionResponse, TypedDataDomain } from 'ethers';
+import BillTheAccountantABI from '../../artifacts/contracts/BillTheAccountant.sol/BillTheAccountant.json';
+import { DebtTransfer } from '../debtSimplification';
+import { isNativeToken } from '../tokenUtils';
+import { buildSigningDomain, SignatureRequest } from '../signing';
+import { LedgerReceiptEvents, parseLedgerReceipt } from './ledgerEvents';
+
+export interface DebtProposal {
+    pendingDebtId: bigint;
+    creditor: string;
+    debtor: string;
+    token: string;
+    amount: bigint;
+    memo: string;
+    blockNumber: number;
+}
+
+export interface ConfirmedDebt {
+    actionId: bigint;
+    debtor: string;
+    creditor: string;
+    token: string;
+    amount: bigint;
+    memo: string;
+    timestamp: bigint;
+    blockNumber: number;
+}
+
+export interface Settlement {
+    debtor: string;
+    creditor: string;
+    token: string;
+    amount: bigint;
+    blockNumber: number;
+}
+
+// Debts among `participants` replaced by `transfers` once everyone approved
+export interface DebtSimplification {
+    simplificationId: bigint;
+    token: string;
+    participants: string[];
+    transfers: DebtTransfer[];
+    blockNumber: number;
+}
+
+export interface PendingSimplification {
+    token: string;
+    participants: string[];
+    transfers: DebtTransfer[];
+    approvalCount: number;
+    exists: boolean;
+}
+
+export interface PendingDebt {
+    creditor: string;
+    debtor: string;
+    token: string;
+    amount: bigint;
+    memo: string;
+    exists: boolean;
+}
+
+export interface SentTransaction {
+    tx: TransactionResponse;
+    receipt: TransactionReceipt;
+}
+
+// The parts of ERC20 the bot needs to settle debts
+const ERC20_ABI = [
+    'function allowance(address owner, address spender) view returns (uint256)',
+    'function approve(address spender, uint256 amount) returns (bool)',
+    'function balanceOf(address account) view returns (uint256)'
+];
+
+/**
+ * Reads and writes the BillTheAccountant contract.
+ *
+ * Reads and relayed transactions use the bot's wallet; custodial user actions
+ * are signed with the user's private key. Event history is read from the
+ * EventIndexer rather than queried here.
+ */
+export class LedgerService {
+    readonly contract: Contract;
+    private readonly provider: Provider;
+    private signingDomain: TypedDataDomain | null = null;
+
+    constructor(readonly contractAddress: string, private readonly botWallet: Signer) {
+        if (!botWallet.provider) {
+            throw new Error('The bot wallet must be connected to a provider');
+        }
+        this.provider = botWallet.provider;
+        this.contract = new Contract(contractAddress, BillTheAccountantABI.abi, botWallet);
+    }
+
+    // Contract instance that signs with a user's own wallet
+    private connectUser(privateKey: string): Contract {
+        const userWallet = new Wallet(privateKey, this.provider);
+        return new Contract(this.contractAddress, BillTheAccountantABI.abi, userWallet);
+    }
+
+    private async send(txPromise: Promise<TransactionResponse>): Promise<SentTransaction> {
+        const tx = await txPromise;
+        const receipt = await tx.wait();
+        if (!receipt) {
+            throw new Error(`Transaction ${tx.hash} was not mined`);
+        }
+        return { tx, receipt };
+    }
+
+    // --- Registration ---
+
+    // Look up the wallet address registered on-chain for a Discord ID
+    async getRegisteredAddress(discordId: string): Promise<string | null> {
+        const address = await this.contract.discordToWallet(discordId);
+        return address === ethers.ZeroAddress ? null : address;
+    }
+
+    async getDiscordId(address: string): Promise<string | null> {
+        const discordId = await this.contract.walletToDiscord(address);
+        return discordId ? discordId : null;
+    }
+
+    async registerUser(discordId: string, address: string): Promise<SentTransaction> {
+        return this.send(this.contract.registerUser(discordId, address));
+    }
+
+    // --- Debts ---
+
+    /**
+     * Proposes a debt signed by the creditor's custodial wallet
+     * @returns The transaction and the new pending debt ID
+     */
+    async proposeDebt(creditorPrivateKey: string, token: string, debtor: string, amount: bigint, memo: string): Promise<SentTransaction & { pendingDebtId: bigint }> {
+        const sent = await this.send(this.connectUser(creditorPrivateKey).proposeDebt(token, debtor, amount, memo));
+        const [proposal] = this.parseReceipt(sent.receipt).proposed;
+        if (!proposal) {
+            throw new Error('DebtProposed event not found in transaction receipt');
+        }
+        return { ...sent, pendingDebtId: proposal.pendingDebtId };
+    }
+
+    /**
+     * Proposes a debt from each debtor to the creditor in one transaction, signed by
+     * the creditor's custodial wallet
+     * @returns The transaction and the new pending debt IDs, in the order of `debts`
+     */
+    async proposeExpense(creditorPrivateKey: string, token: string, debts: { debtor: string; amount: bigint; memo: string }[]): Promise<SentTransaction & { pendingDebtIds: bigint[] }> {
+        const sent = await this.send(this.connectUser(creditorPrivateKey).proposeExpense(
+            token,
+            debts.map(debt => debt.debtor),
+            debts.map(debt => debt.amount),
+            debts.map(debt => debt.memo)
+        ));
+        // DebtProposed events are emitted in the order of the debtors
+        const { proposed } = this.parseReceipt(sent.receipt);
+        if (proposed.length !== debts.length) {
+            throw new Error(`Expected ${debts.length} DebtProposed events in transaction receipt, found ${proposed.length}`);
+        }
+        return { ...sent, pendingDebtIds: proposed.map(proposal => proposal.pendingDebtId) };
+    }
+
+    /**
+     * Confirms a pending debt, signed by the debtor's custodial wallet
+     * @returns The transaction and the debt from its DebtAdded event
+     */
+    async confirmDebt(debtorPrivateKey: string, pendingDebtId: bigint): Promise<SentTransaction & { debt: ConfirmedDebt }> {
+        const sent = await this.send(this.connectUser(debtorPrivateKey).confirmDebt(pendingDebtId));
+        const [debt] = this.parseReceipt(sent.receipt).added;
+        if (!debt) {
+            throw new Error('DebtAdded event not found in transaction receipt');
+        }
+        return { ...sent, debt };
+    }
+
+    async rejectDebt(userPrivateKey: string, pendingDebtId: bigint): Promise<SentTransaction> {
+        return this.send(this.connectUser(userPrivateKey).rejectDebt(pendingDebtId));
+    }
+
+    async getPendingDebt(pendingDebtId: bigint): Promise<PendingDebt> {
+        const pending = await this.contract.pendingDebts(pendingDebtId);
+        return {
+            creditor: pending.creditor,
+            debtor: pending.debtor,
+            token: pending.token,
+            amount: pending.amount,
+            memo: pending.memo,
+            exists: pending.exists
+        };
+    }
+
+    // Confirmed amount `debtor` owes `creditor` in `token`
+    async getDebt(token: string, debtor: string, creditor: string): Promise<bigint> {
+        return this.contract.debts(token, debtor, creditor);
+    }
+
+    /**
+     * Pays `amount` of what the debtor owes `creditor`, signed by the debtor's custodial wallet.
+     * Native ETH is sent with the transaction; for ERC20 tokens the contract must already be
+     * approved to transfer them.
+     * @returns The transaction and the settlement from its DebtSettled event
+     */
+    async settleDebt(debtorPrivateKey: string, token: string, creditor: string, amount: bigint): Promise<SentTransaction & { settlement: Settlement }> {
+        const value = isNativeToken(token) ? amount : 0n;
+        const sent = await this.send(this.connectUser(debtorPrivateKey).settleDebt(token, creditor, amount, { value }));
+        const [settlement] = this.parseReceipt(sent.receipt).settled;
+        if (!settlement) {
+            throw new Error('DebtSettled event not found in transaction receipt');
+        }
+        return { ...sent, settlement };
+    }
+
+    // The debt events a transaction emitted, e.g. one relayed for a signed request
+    parseReceipt(receipt: TransactionReceipt): LedgerReceiptEvents {
+        return parseLedgerReceipt(receipt, this.contractAddress);
+    }
+
+    // --- Simplification ---
+
+    /**
+     * Proposes replacing every debt among `participants` with `transfers`, sent from the bot wallet
+     * @returns The transaction and the new simplification ID
+     */
+    async proposeSimplification(token: string, participants: string[], transfers: DebtTransfer[]): Promise<SentTransaction & { simplificationId: bigint }> {
+        const sent = await this.send(this.contract.proposeSimplification(
+            token,
+            participants,
+            transfers.map(transfer => transfer.debtor),
+            transfers.map(transfer => transfer.creditor),
+            transfers.map(transfer => transfer.amount)
+        ));
+        const [simplificationId] = this.parseReceipt(sent.receipt).simplificationsProposed;
+        if (simplificationId === undefined) {
+            throw new Error('SimplificationProposed event not found in transaction receipt');
+        }
+        return { ...sent, simplificationId };
+    }
+
+    async getSimplification(simplificationId: bigint): Promise<PendingSimplification> {
+        const [token, participants, debtors, creditors, amounts, approvalCount, exists] = await this.contract.getSimplification(simplificationId);
+        return {
+            token,
+            participants: [...participants],
+            transfers: debtors.map((debtor: string, i: number) => ({ debtor, creditor: creditors[i], amount: amounts[i] })),
+            approvalCount: Number(approvalCount),
+            exists
+        };
+    }
+
+    async hasApprovedSimplification(simplificationId: bigint, address: string): Promise<boolean> {
+        return this.contract.simplificationApprovals(simplificationId, address);
+    }
+
+    async approveSimplification(participantPrivateKey: string, simplificationId: bigint): Promise<SentTransaction> {
+        return this.send(this.connectUser(participantPrivateKey).approveSimplification(simplificationId));
+    }
+
+    async rejectSimplification(participantPrivateKey: string, simplificationId: bigint): Promise<SentTransaction> {
+        return this.send(this.connectUser(participantPrivateKey).rejectSimplification(simplificationId));
+    }
+
+    // --- Token balances ---
+
+    // Balance of an ERC20 token, or of native ETH
+    async getTokenBalance(token: string, address: string): Promise<bigint> {
+        if (isNativeToken(token)) {
+            return this.provider.getBalance(address);
+        }
+        return new Contract(token, ERC20_ABI, this.provider).balanceOf(address);
+    }
+
+    // How much of `owner`'s ERC20 tokens the contract may transfer when settling
+    async getTokenAllowance(token: string, owner: string): Promise<bigint> {
+        return new Contract(token, ERC20_ABI, this.provider).allowance(owner, this.contractAddress);
+    }
+
+    // Let the contract transfer `amount` of the user's tokens
+    async approveToken(userPrivateKey: string, token: string, amount: bigint): Promise<SentTransaction> {
+        const userWallet = new Wallet(userPrivateKey, this.provider);
+        return this.send(new Contract(token, ERC20_ABI, userWallet).approve(this.contractAddress, amount));
+    }
+
+    // --- Native balances ---
+
+    async getEthBalance(address: string): Promise<bigint> {
+        return this.provider.getBalance(address);
+    }
+
+    // Send ETH from the bot wallet so a custodial wallet can pay for gas (development only)
+    async fundWallet(address: string, amount: bigint): Promise<void> {
+        const fundingTx = await this.botWallet.sendTransaction({ to: address, value: amount });
+        await fundingTx.wait();
+    }
+
+    // --- Signature relaying ---
+
+    async getSigningDomain(): Promise<TypedDataDomain> {
+        if (!this.signingDomain) {
+            const network = await this.provider.getNetwork();
+            this.signingDomain = buildSigningDomain(network.chainId, this.contractAddress);
+        }
+        return this.signingDomain;
+    }
+
+    async getNonce(address: string): Promise<bigint> {
+        return this.contract.nonces(address);
+    }
+
+    // Submit a signed request on-chain using the bot's wallet
+    async relaySignedRequest(request: SignatureRequest, signature: string): Promise<SentTransaction> {
+        switch (request.primaryType) {
+            case 'ProposeDebt': {
+                const m = request.message;
+                return this.send(this.contract.proposeDebtWithSig(m.creditor, m.token, m.debtor, m.amount, m.memo, m.deadline, signature));
+            }
+            case 'ConfirmDebt':
+                return this.send(this.contract.confirmDebtWithSig(request.message.pendingDebtId, request.message.deadline, signature));
+            case 'RejectDebt':
+                return this.send(this.contract.rejectDebtWithSig(request.message.pendingDebtId, request.message.signer, request.message.deadline, signature));
+            case 'SettleDebt': {
+                const m = request.message;
+                return this.send(this.contract.settleDebtWithSig(m.debtor, m.token, m.creditor, m.amount, m.deadline, signature));
+            }
+            case 'ApproveSimplification':
+                return this.send(this.contract.approveSimplificationWithSig(request.message.simplificationId, request.message.participant, request.message.deadline, signature));
+            case 'RejectSimplification':
+                return this.send(this.contract.rejectSimplificationWithSig(request.message.simplificationId, request.message.participant, request.message.deadline, signature));
+        }
+    }
+}
@@ -0,0 +1,132 @@
+import { Interface, Log, TransactionReceipt } from 'ethers';
+import BillTheAccountantABI from '../../artifacts/contracts/BillTheAccountant.sol/BillTheAccountant.json';
+import { ConfirmedDebt, DebtProposal, DebtSimplification, Settlement } from './ledger';
+
+export const LEDGER_INTERFACE = new Interface(BillTheAccountantABI.abi);
+
+/**
+ * A debt event emitted by the contract, decoded into the ledger's types
+ */
+export type LedgerEvent =
+    | { name: 'DebtProposed'; proposal: DebtProposal }
+    | { name: 'DebtConfirmed'; pendingDebtId: bigint }
+    | { name: 'DebtRejected'; pendingDebtId: bigint }
+    | { name: 'DebtAdded'; debt: ConfirmedDebt }
+    | { name: 'DebtSettled'; settlement: Settlement }
+    | { name: 'DebtsSimplified'; simplification: DebtSimplification }
+    | { name: 'SimplificationProposed'; simplificationId: bigint };
+
+/**
+ * The debt events of one transaction, in the order they were emitted
+ */
+export interface LedgerReceiptEvents {
+    proposed: DebtProposal[];
+    confirmed: bigint[]; // Pending debt IDs
+    rejected: bigint[]; // Pending debt IDs
+    added: ConfirmedDebt[];
+    settled: Settlement[];
+    simplificationsProposed: bigint[]; // Simplification IDs
+}
+
+/**
+ * Decodes a contract log
+ * @returns The event, or null for logs that aren't debt events
+ */
+export function decodeLedgerLog(log: Log): LedgerEvent | null {
+    let parsed;
+    try {
+        parsed = LEDGER_INTERFACE.parseLog(log);
+    } catch {
+        return null;
+    }
+    if (!parsed) return null;
+
+    const args = parsed.args;
+    switch (parsed.name) {
+        case 'DebtProposed':
+            return {
+                name: 'DebtProposed',
+                proposal: {
+                    pendingDebtId: args.pendingDebtId,
+                    creditor: args.creditor,
+                    debtor: args.debtor,
+                    token: args.token,
+                    amount: args.amount,
+                    memo: args.memo,
+                    blockNumber: log.blockNumber
+                }
+            };
+        case 'DebtConfirmed':
+            return { name: 'DebtConfirmed', pendingDebtId: args.pendingDebtId };
+        case 'DebtRejected':
+            return { name: 'DebtRejected', pendingDebtId: args.pendingDebtId };
+        case 'DebtAdded':
+            return {
+                name: 'DebtAdded',
+                debt: {
+                    actionId: args.actionId,
+                    debtor: args.debtor,
+                    creditor: args.creditor,
+                    token: args.token,
+                    amount: args.amount,
+                    memo: args.memo,
+                    timestamp: args.timestamp,
+                    blockNumber: log.blockNumber
+                }
+            };
+        case 'DebtSettled':
+            return {
+                name: 'DebtSettled',
+                settlement: { debtor: args.debtor, creditor: args.creditor, token: args.token, amount: args.amount, blockNumber: log.blockNumber }
+            };
+        case 'DebtsSimplified':
+            return {
+                name: 'DebtsSimplified',
+                simplification: {
+                    simplificationId: args.simplificationId,
+                    token: args.token,
+                    participants: [...args.participants],
+                    transfers: args.debtors.map((debtor: string, i: number) => ({ debtor, creditor: args.creditors[i], amount: args.amounts[i] })),
+                    blockNumber: log.blockNumber
+                }
+            };
+        case 'SimplificationProposed':
+            return { name: 'SimplificationProposed', simplificationId: args.simplificationId };
+        default:
+            return null;
+    }
+}
+
+/**
+ * Collects the debt events a transaction emitted. Logs from other contracts, such
+ * as ERC20 transfers made while settling, are ignored.
+ * @param contractAddress - Address of the BillTheAccountant contract
+ */
+export function parseLedgerReceipt(receipt: TransactionReceipt, contractAddress: string): LedgerReceiptEvents {
+    const events: LedgerReceiptEvents = { proposed: [], confirmed: [], rejected: [], added: [], settled: [], simplificationsProposed: [] };
+    for (const log of receipt.logs) {
+        if (log.address.toLowerCase() !== contractAddress.toLowerCase()) continue;
+        const event = decodeLedgerLog(log);
+        switch (event?.name) {
+            case 'DebtProposed':
+                events.proposed.push(event.proposal);
+                break;
+            case 'DebtConfirmed':
+                events.confirmed.push(event.pendingDebtId);
+                break;
+            case 'DebtRejected':
+                events.rejected.push(event.pendingDebtId);
+                break;
+            case 'DebtAdded':
+                events.added.push(event.debt);
+                break;
+            case 'DebtSettled':
+                events.settled.push(event.settlement);
+                break;
+            case 'SimplificationProposed':
+                events.simplificationsProposed.push(event.simplificationId);
+                break;
+        }
+    }
+    return events;
+}
@@ -0,0 +1,108 @@
+import { ActionRowBuilder, ButtonBuilder, ButtonStyle, Client, MessageCreateOptions, User } from 'discord.js';
+import { NetworkInfo } from '../config';
+import { safeSendDM } from '../discord/safe';
+
+/**
+ * Sends direct messages to Discord users
+ */
+export interface Notifier {
+    fetchUser(discordId: string): Promise<User>;
+    sendDM(user: User, payload: string | MessageCreateOptions): Promise<void>;
+}
+
+export class DiscordNotifier implements Notifier {
+    constructor(private readonly client: Client) {}
+
+    fetchUser(discordId: string): Promise<User> {
+        return this.client.users.fetch(discordId);
+    }
+
+    async sendDM(user: User, payload: string | MessageCreateOptions): Promise<void> {
+        if (typeof payload === 'string') {
+            await safeSendDM(user, payload);
+        } else {
+            await safeSendDM(user, undefined, payload);
+        }
+    }
+}
+
+// Prompt a user for private key recovery via DM
+export async function promptForPrivateKeyRecovery(notifier: Notifier, discordId: string, address: string): Promise<void> {
+    try {
+        const user = await notifier.fetchUser(discordId);
+        const recoveryMessage = `🔑 **Private Key Recovery Required**\n\n` +
+            `Your Discord account is registered with wallet address:\n` +
+            `\`${address}\`\n\n` +
+            `But I don't have access to your private key. To continue using the bot, please reply to this DM with:\n\n` +
+            `\`>recover-key YOUR_PRIVATE_KEY_HERE\`\n\n` +
+            `**Example:** \`>recover-key 0x1234567890abcdef...\`\n\n` +
+            `⚠️ **Security Notes:**\n` +
+            `• Only send your private key via DM, never in public channels\n` +
+            `• Your private key will be stored encrypted in the bot's keystore\n` +
+            `• Never share your private key with anyone else\n\n` +
+            `*This recovery is needed when the bot restarts or after system updates.*`;
+        
+        await notifier.sendDM(user, recoveryMessage);
+        console.log(`[DEBUG] Sent private key recovery prompt to Discord ID ${discordId} for address ${address}`);
+    } catch (error) {
+        console.error(`[ERROR] Failed to send recovery prompt to Discord ID ${discordId}:`, error);
+    }
+}
+
+export function buildDebtResponseRow(pendingDebtIdStr: string): ActionRowBuilder<ButtonBuilder> {
+    return new ActionRowBuilder<ButtonBuilder>()
+        .addComponents(
+            new ButtonBuilder()
+                .setCustomId(`agree-debt:${pendingDebtIdStr}`)
+                .setLabel('Agree')
+                .setStyle(ButtonStyle.Success),
+            new ButtonBuilder()
+                .setCustomId(`disagree-debt:${pendingDebtIdStr}`)
+                .setLabel('Disagree')
+                .setStyle(ButtonStyle.Danger),
+        );
+}
+
+export function buildSimplificationResponseRow(simplificationIdStr: string): ActionRowBuilder<ButtonBuilder> {
+    return new ActionRowBuilder<ButtonBuilder>()
+        .addComponents(
+            new ButtonBuilder()
+                .setCustomId(`approve-simplification:${simplificationIdStr}`)
+                .setLabel('Approve')
+                .setStyle(ButtonStyle.Success),
+            new ButtonBuilder()
+                .setCustomId(`reject-simplification:${simplificationIdStr}`)
+                .setLabel('Reject')
+                .setStyle(ButtonStyle.Danger),
+        );
+}
+
+// DM both parties a receipt for a mined settlement
+export async function sendSettlementReceipts(notifier: Notifier, network: NetworkInfo, debtorUser: User, creditorUser: User, amountDisplay: string, remainingDisplay: string, txHash: string, blockNumber: number): Promise<void> {
+    let receipt = `💸 **Debt Settlement Receipt**\n\n`;
+    receipt += `• From: ${debtorUser.tag}\n`;
+    receipt += `• To: ${creditorUser.tag}\n`;
+    receipt += `• Amount: ${amountDisplay}\n`;
+    receipt += `• Remaining debt: ${remainingDisplay}\n\n`;
+    receipt += network.formatTransactionDetails(txHash, blockNumber);
+
+    await notifier.sendDM(debtorUser, receipt);
+    await notifier.sendDM(creditorUser, receipt);
+}
+
+// Send the debtor a DM describing a new on-chain proposal with Agree/Disagree buttons
+export async function sendDebtProposalDM(notifier: Notifier, network: NetworkInfo, debtorUser: User, creditorTag: string, amountDisplay: string, memo: string, pendingDebtIdStr: string, txHash: string, blockNumber: number): Promise<void> {
+    // Create detailed debt proposal message
+    let proposalMessage = `📄 **New Debt Proposal from ${creditorTag}**\n\n`;
+    proposalMessage += `**Debt Details:**\n`;
+    proposalMessage += `• Amount: ${amountDisplay}\n`;
+    proposalMessage += `• Memo: ${memo}\n`;
+    proposalMessage += `• Proposal ID: ${pendingDebtIdStr}\n\n`;
+    proposalMessage += network.formatTransactionDetails(txHash, blockNumber);
+    proposalMessage += `\n**Please review and respond:**`;
+
+    await notifier.sendDM(debtorUser, {
+        content: proposalMessage,
+        components: [buildDebtResponseRow(pendingDebtIdStr)]
+    });
+}
@@ -0,0 +1,126 @@
+import fs from 'fs';
+import path from 'path';
+import { BillAnalysisResult } from '../billDetection/types';
+
+/**
+ * A bill analysis waiting for its requester to confirm it, keyed by the preview message
+ */
+export interface PendingBillAnalysis {
+    messageId: string; // The preview message showing the analysis
+    channelId: string;
+    requesterId: string;
+    analysis: BillAnalysisResult;
+    createdAt: number;
+    expiresAt: number;
+}
+
+/**
+ * Storage backend for pending analyses
+ */
+export interface PendingAnalysisBackend {
+    load(): Promise<PendingBillAnalysis[] | null>;
+    save(entries: PendingBillAnalysis[]): Promise<void>;
+}
+
+/**
+ * Persists pending analyses as a JSON file, written atomically
+ */
+export class FilePendingAnalysisBackend implements PendingAnalysisBackend {
+    constructor(private readonly filePath: string) {}
+
+    async load(): Promise<PendingBillAnalysis[] | null> {
+        try {
+            return JSON.parse(await fs.promises.readFile(this.filePath, 'utf8')) as PendingBillAnalysis[];
+        } catch (error: any) {
+            if (error.code === 'ENOENT') {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    async save(entries: PendingBillAnalysis[]): Promise<void> {
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        const tmpPath = `${this.filePath}.tmp`;
+        await fs.promises.writeFile(tmpPath, JSON.stringify(entries, null, 2));
+        await fs.promises.rename(tmpPath, this.filePath);
+    }
+}
+
+/**
+ * Keeps pending analyses in memory only (useful for tests)
+ */
+export class MemoryPendingAnalysisBackend implements PendingAnalysisBackend {
+    private entries: PendingBillAnalysis[] | null = null;
+
+    async load(): Promise<PendingBillAnalysis[] | null> {
+        return this.entries ? JSON.parse(JSON.stringify(this.entries)) : null;
+    }
+
+    async save(entries: PendingBillAnalysis[]): Promise<void> {
+        this.entries = JSON.parse(JSON.stringify(entries));
+    }
+}
+
+/**
+ * Bill analyses awaiting confirmation. Entries survive restarts and stop being
+ * returned once they pass their expiry; `takeExpired` hands them to the sweeper
+ * so their preview messages can be marked as expired.
+ */
+export class PendingAnalysisStore {
+    private constructor(
+        private readonly backend: PendingAnalysisBackend,
+        private readonly entries: Map<string, PendingBillAnalysis>,
+        readonly ttlMs: number
+    ) {}
+
+    static async open(backend: PendingAnalysisBackend, ttlMs: number): Promise<PendingAnalysisStore> {
+        const entries = await backend.load() ?? [];
+        return new PendingAnalysisStore(backend, new Map(entries.map(entry => [entry.messageId, entry])), ttlMs);
+    }
+
+    private async persist(): Promise<void> {
+        await this.backend.save([...this.entries.values()]);
+    }
+
+    // The analysis shown on a preview message, unless it has expired
+    get(messageId: string, now: number = Date.now()): PendingBillAnalysis | undefined {
+        const entry = this.entries.get(messageId);
+        return entry && entry.expiresAt > now ? entry : undefined;
+    }
+
+    async add(messageId: string, channelId: string, requesterId: string, analysis: BillAnalysisResult, now: number = Date.now()): Promise<PendingBillAnalysis> {
+        const entry = { messageId, channelId, requesterId, analysis, createdAt: now, expiresAt: now + this.ttlMs };
+        this.entries.set(messageId, entry);
+        await this.persist();
+        return entry;
+    }
+
+    // Swaps in an edited analysis; the expiry is unchanged
+    async replaceAnalysis(messageId: string, analysis: BillAnalysisResult): Promise<void> {
+        const entry = this.entries.get(messageId);
+        if (!entry) return;
+        this.entries.set(messageId, { ...entry, analysis });
+        await this.persist();
+    }
+
+    async delete(messageId: string): Promise<void> {
+        if (this.entries.delete(messageId)) {
+            await this.persist();
+        }
+    }
+
+    /**
+     * Removes every expired entry
+     * @returns The removed entries
+     */
+    async takeExpired(now: number = Date.now()): Promise<PendingBillAnalysis[]> {
+        const expired = [...this.entries.values()].filter(entry => entry.expiresAt <= now);
+        if (expired.length === 0) return [];
+        for (const entry of expired) {
+            this.entries.delete(entry.messageId);
+        }
+        await this.persist();
+        return expired;
+    }
+}
@@ -0,0 +1,109 @@
+import { ActionRowBuilder, ButtonBuilder, ButtonStyle, User } from 'discord.js';
+import crypto from 'crypto';
+import { buildRegistrationMessage, buildTypedDataPayload, buildSigningLink, getExpectedSigner, PendingSignatureStore, SignatureRequest, verifyRegistrationSignature } from '../signing';
+import { LedgerService } from './ledger';
+import { Notifier } from './notifier';
+
+// In non-custodial mode users sign EIP-712 payloads with their own wallets and the
+// bot only relays the signed result with its own wallet.
+
+export type SignatureContext =
+    | { kind: 'propose'; debtorId: string; creditorTag: string; amountDisplay: string; memo: string; guestDebtId?: number; deferredProposalId?: number }
+    | { kind: 'confirm' }
+    | { kind: 'reject'; reason: string; creditorId: string }
+    | { kind: 'settle'; creditorId: string; tokenSymbol: string; decimals: number; amountOwed: bigint }
+    | { kind: 'approve-simplification'; simplificationId: bigint; participants: string[] }
+    | { kind: 'reject-simplification'; simplificationId: bigint; participants: string[] };
+
+const SIGNATURE_TTL_SECONDS = 60 * 60;
+
+export class SignatureService {
+    readonly pending = new PendingSignatureStore<SignatureContext>();
+    // Registration messages waiting to be signed, by Discord ID
+    private readonly registrations = new Map<string, { address: string; message: string; expiresAt: number }>();
+
+    constructor(
+        private readonly ledger: LedgerService,
+        private readonly notifier: Notifier,
+        private readonly signingUrl?: string
+    ) {}
+
+    getDeadline(): bigint {
+        return BigInt(Math.floor(Date.now() / 1000) + SIGNATURE_TTL_SECONDS);
+    }
+
+    /**
+     * Starts proving ownership of a wallet the user wants to register, replacing any earlier attempt
+     * @returns The message to sign with that wallet
+     */
+    createRegistrationChallenge(discordId: string, address: string): string {
+        const message = buildRegistrationMessage(discordId, address, this.ledger.contractAddress, crypto.randomBytes(8).toString('hex'));
+        this.registrations.set(discordId, { address, message, expiresAt: Date.now() + SIGNATURE_TTL_SECONDS * 1000 });
+        return message;
+    }
+
+    /**
+     * Checks the signature of the user's registration message, which can only be used once
+     * @returns true if the wallet at `address` signed the user's current message
+     */
+    verifyRegistrationChallenge(discordId: string, address: string, signature: string): boolean {
+        const challenge = this.registrations.get(discordId);
+        if (!challenge || challenge.expiresAt < Date.now() || challenge.address.toLowerCase() !== address.toLowerCase()) return false;
+        if (!verifyRegistrationSignature(challenge.message, address, signature)) return false;
+        this.registrations.delete(discordId);
+        return true;
+    }
+
+    /**
+     * Picks the nonce for a new request from `signer`. The contract uses one sequential
+     * nonce per address, so requests still waiting for a signature each hold the next ones.
+     * @returns The lowest nonce at or above the on-chain one that no outstanding request holds
+     */
+    async getNextNonce(signer: string): Promise<bigint> {
+        const held = new Set(this.pending.list()
+            .filter(pending => getExpectedSigner(pending.request).toLowerCase() === signer.toLowerCase())
+            .map(pending => pending.request.message.nonce));
+        let nonce = await this.ledger.getNonce(signer);
+        while (held.has(nonce)) nonce++;
+        return nonce;
+    }
+
+    // Register a signature request and build the message asking the user to sign it
+    async buildRequestMessage(discordId: string, request: SignatureRequest, context: SignatureContext, description: string): Promise<{ content: string; components: ActionRowBuilder<ButtonBuilder>[] }> {
+        const requestId = this.pending.create({ discordId, request, context });
+        const payload = buildTypedDataPayload(await this.ledger.getSigningDomain(), request);
+
+        let content = `✍️ **Signature Required**\n\n${description}\n\n`;
+        if (this.signingUrl) {
+            content += `**Sign with your wallet:** ${buildSigningLink(this.signingUrl, requestId, payload)}\n\n`;
+        } else {
+            content += `Sign this EIP-712 payload with your wallet (\`eth_signTypedData_v4\`):\n\`\`\`json\n${JSON.stringify(payload)}\n\`\`\`\n`;
+        }
+        content += `**Request ID:** \`${requestId}\` (expires <t:${request.message.deadline}:R>)\n`;
+        content += `Click **Submit Signature** once you have signed.`;
+
+        const row = new ActionRowBuilder<ButtonBuilder>()
+            .addComponents(
+                new ButtonBuilder()
+                    .setCustomId(`submit-signature:${requestId}`)
+                    .setLabel('Submit Signature')
+                    .setStyle(ButtonStyle.Primary),
+            );
+
+        return { content, components: [row] };
+    }
+
+    // Ask the creditor to sign a debt proposal instead of signing it with a custodial key;
+    // `links` names the guest debt or queued proposal it stands for, settled once it is relayed
+    async requestProposalSignature(creditorUser: User, creditorAddress: string, debtorId: string, debtorAddress: string, tokenAddress: string, amount: bigint, amountDisplay: string, memo: string, links: { guestDebtId?: number; deferredProposalId?: number } = {}): Promise<void> {
+        const nonce = await this.getNextNonce(creditorAddress);
+        const request: SignatureRequest = {
+            primaryType: 'ProposeDebt',
+            message: { creditor: creditorAddress, token: tokenAddress, debtor: debtorAddress, amount, memo, nonce, deadline: this.getDeadline() }
+        };
+        const debtorUser = await this.notifier.fetchUser(debtorId);
+        const description = `Propose a debt: **${debtorUser.tag}** owes you **${amountDisplay}**\n**Memo:** ${memo}`;
+        const payload = await this.buildRequestMessage(creditorUser.id, request, { kind: 'propose', debtorId, creditorTag: creditorUser.tag, amountDisplay, memo, ...links }, description);
+        await this.notifier.sendDM(creditorUser, payload);
+    }
+}
@@ -0,0 +1,73 @@
+import { Keystore, StoredWallet } from '../keystore';
+import { SigningMode } from '../signing';
+import { LedgerService } from './ledger';
+
+/**
+ * Resolves Discord users to their wallets.
+ *
+ * In custodial mode private keys come from the encrypted keystore; in non-custodial
+ * mode the bot only knows the address each user registered on-chain.
+ */
+export class WalletService {
+    constructor(
+        private readonly ledger: LedgerService,
+        private readonly keystore: Keystore | null,
+        readonly signingMode: SigningMode
+    ) {}
+
+    // Custodial wallet (address and private key) for a Discord ID
+    async getWallet(discordId: string): Promise<StoredWallet | null> {
+        if (!this.keystore) return null; // Non-custodial mode: the bot never holds user keys
+        try {
+            return await this.keystore.get(discordId);
+        } catch (error) {
+            console.error('Error getting wallet for Discord ID:', error);
+            return null;
+        }
+    }
+
+    // Wallet address registered on-chain for a Discord ID
+    async getRegisteredAddress(discordId: string): Promise<string | null> {
+        try {
+            return await this.ledger.getRegisteredAddress(discordId);
+        } catch (error) {
+            console.error('Error getting registered address for Discord ID:', error);
+            return null;
+        }
+    }
+
+    async storeWallet(discordId: string, wallet: StoredWallet): Promise<void> {
+        if (!this.keystore) {
+            throw new Error('The keystore is only available in custodial signing mode');
+        }
+        await this.keystore.set(discordId, wallet);
+    }
+
+    async deleteWallet(discordId: string): Promise<void> {
+        await this.keystore?.delete(discordId);
+    }
+
+    // Check if a Discord ID is registered on-chain but missing private key
+    async isOrphanedRegistration(discordId: string): Promise<{ isOrphaned: boolean; address?: string }> {
+        // Non-custodial users keep their own keys, so a missing key is expected, never orphaned
+        if (this.signingMode === 'non-custodial' || !this.keystore) {
+            return { isOrphaned: false };
+        }
+        try {
+            const address = await this.ledger.getRegisteredAddress(discordId);
+            if (!address) {
+                return { isOrphaned: false }; // Not registered at all
+            }
+
+            const storedAddress = await this.keystore.getAddress(discordId);
+            const hasPrivateKey = !!storedAddress && storedAddress.toLowerCase() === address.toLowerCase();
+            return {
+                isOrphaned: !hasPrivateKey,
+                address: hasPrivateKey ? undefined : address
+            };
+        } catch (error) {
+            console.error('Error checking orphaned registration:', error);
+            return { isOrphaned: false };
+        }
+    }
+}
@@ -0,0 +1,253 @@
+import crypto from 'crypto';
+import { ethers, TypedDataDomain, TypedDataField } from 'ethers';
+
+export type SigningMode = 'custodial' | 'non-custodial';
+
+/**
+ * Parses the SIGNING_MODE setting
+ * @param value - Raw environment value
+ * @returns The signing mode, defaulting to custodial
+ * @throws Error if the value is not a known mode
+ */
+export function parseSigningMode(value: string | undefined): SigningMode {
+    if (!value || value === 'custodial') return 'custodial';
+    if (value === 'non-custodial') return 'non-custodial';
+    throw new Error(`Invalid SIGNING_MODE: ${value}. Expected "custodial" or "non-custodial".`);
+}
+
+// EIP-712 types, must match the typehashes in BillTheAccountant.sol
+export const DEBT_SIGNATURE_TYPES: { [primaryType: string]: TypedDataField[] } = {
+    ProposeDebt: [
+        { name: 'creditor', type: 'address' },
+        { name: 'token', type: 'address' },
+        { name: 'debtor', type: 'address' },
+        { name: 'amount', type: 'uint256' },
+        { name: 'memo', type: 'string' },
+        { name: 'nonce', type: 'uint256' },
+        { name: 'deadline', type: 'uint256' }
+    ],
+    ConfirmDebt: [
+        { name: 'pendingDebtId', type: 'uint256' },
+        { name: 'debtor', type: 'address' },
+        { name: 'nonce', type: 'uint256' },
+        { name: 'deadline', type: 'uint256' }
+    ],
+    RejectDebt: [
+        { name: 'pendingDebtId', type: 'uint256' },
+        { name: 'signer', type: 'address' },
+        { name: 'nonce', type: 'uint256' },
+        { name: 'deadline', type: 'uint256' }
+    ],
+    SettleDebt: [
+        { name: 'debtor', type: 'address' },
+        { name: 'token', type: 'address' },
+        { name: 'creditor', type: 'address' },
+        { name: 'amount', type: 'uint256' },
+        { name: 'nonce', type: 'uint256' },
+        { name: 'deadline', type: 'uint256' }
+    ],
+    ApproveSimplification: [
+        { name: 'simplificationId', type: 'uint256' },
+        { name: 'participant', type: 'address' },
+        { name: 'nonce', type: 'uint256' },
+        { name: 'deadline', type: 'uint256' }
+    ],
+    RejectSimplification: [
+        { name: 'simplificationId', type: 'uint256' },
+        { name: 'participant', type: 'address' },
+        { name: 'nonce', type: 'uint256' },
+        { name: 'deadline', type: 'uint256' }
+    ]
+};
+
+export interface ProposeDebtMessage {
+    creditor: string;
+    token: string;
+    debtor: string;
+    amount: bigint;
+    memo: string;
+    nonce: bigint;
+    deadline: bigint;
+}
+
+export interface ConfirmDebtMessage {
+    pendingDebtId: bigint;
+    debtor: string;
+    nonce: bigint;
+    deadline: bigint;
+}
+
+export interface RejectDebtMessage {
+    pendingDebtId: bigint;
+    signer: string;
+    nonce: bigint;
+    deadline: bigint;
+}
+
+export interface SettleDebtMessage {
+    debtor: string;
+    token: string;
+    creditor: string;
+    amount: bigint;
+    nonce: bigint;
+    deadline: bigint;
+}
+
+// Used for both approving and rejecting a simplification plan
+export interface SimplificationVoteMessage {
+    simplificationId: bigint;
+    participant: string;
+    nonce: bigint;
+    deadline: bigint;
+}
+
+export type SignatureRequest =
+    | { primaryType: 'ProposeDebt'; message: ProposeDebtMessage }
+    | { primaryType: 'ConfirmDebt'; message: ConfirmDebtMessage }
+    | { primaryType: 'RejectDebt'; message: RejectDebtMessage }
+    | { primaryType: 'SettleDebt'; message: SettleDebtMessage }
+    | { primaryType: 'ApproveSimplification'; message: SimplificationVoteMessage }
+    | { primaryType: 'RejectSimplification'; message: SimplificationVoteMessage };
+
+/**
+ * Builds the EIP-712 domain for a deployed BillTheAccountant contract
+ */
+export function buildSigningDomain(chainId: bigint, contractAddress: string): TypedDataDomain {
+    return {
+        name: 'BillTheAccountant',
+        version: '1',
+        chainId,
+        verifyingContract: contractAddress
+    };
+}
+
+/**
+ * Returns the address expected to sign a request
+ */
+export function getExpectedSigner(request: SignatureRequest): string {
+    switch (request.primaryType) {
+        case 'ProposeDebt':
+            return request.message.creditor;
+        case 'ConfirmDebt':
+            return request.message.debtor;
+        case 'RejectDebt':
+            return request.message.signer;
+        case 'SettleDebt':
+            return request.message.debtor;
+        case 'ApproveSimplification':
+        case 'RejectSimplification':
+            return request.message.participant;
+    }
+}
+
+/**
+ * Builds the JSON payload accepted by wallets' eth_signTypedData_v4
+ * @returns Typed data with bigint values serialized as decimal strings
+ */
+export function buildTypedDataPayload(domain: TypedDataDomain, request: SignatureRequest): object {
+    const types = {
+        EIP712Domain: [
+            { name: 'name', type: 'string' },
+            { name: 'version', type: 'string' },
+            { name: 'chainId', type: 'uint256' },
+            { name: 'verifyingContract', type: 'address' }
+        ],
+        [request.primaryType]: DEBT_SIGNATURE_TYPES[request.primaryType]
+    };
+    return JSON.parse(JSON.stringify({
+        types,
+        primaryType: request.primaryType,
+        domain,
+        message: request.message
+    }, (_key, value) => typeof value === 'bigint' ? value.toString() : value));
+}
+
+/**
+ * Checks that a signature was produced by the request's expected signer
+ * @returns true if the recovered address matches the expected signer
+ */
+export function verifyRequestSignature(domain: TypedDataDomain, request: SignatureRequest, signature: string): boolean {
+    try {
+        const recovered = ethers.verifyTypedData(
+            domain,
+            { [request.primaryType]: DEBT_SIGNATURE_TYPES[request.primaryType] },
+            request.message,
+            signature
+        );
+        return recovered.toLowerCase() === getExpectedSigner(request).toLowerCase();
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Builds the message a user signs with `personal_sign` (EIP-191) to prove they own the
+ * wallet they register, so nobody can link someone else's address to their account
+ */
+export function buildRegistrationMessage(discordId: string, address: string, contractAddress: string, nonce: string): string {
+    return `Link wallet ${ethers.getAddress(address)} to Discord user ${discordId} in BillTheAccountant ${contractAddress}.\nNonce: ${nonce}`;
+}
+
+/**
+ * Checks that a registration message was signed by the wallet being registered
+ */
+export function verifyRegistrationSignature(message: string, address: string, signature: string): boolean {
+    try {
+        return ethers.verifyMessage(message, signature).toLowerCase() === address.toLowerCase();
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Builds a link to the external signing page with the typed data encoded in the query string
+ */
+export function buildSigningLink(baseUrl: string, requestId: string, payload: object): string {
+    const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    const separator = baseUrl.includes('?') ? '&' : '?';
+    return `${baseUrl}${separator}request=${requestId}&payload=${encoded}`;
+}
+
+export interface PendingSignature<T> {
+    discordId: string;
+    request: SignatureRequest;
+    context: T;
+}
+
+/**
+ * Holds signature requests until the user returns a signature or the deadline passes
+ */
+export class PendingSignatureStore<T> {
+    private readonly requests = new Map<string, PendingSignature<T>>();
+
+    create(pending: PendingSignature<T>): string {
+        this.sweep();
+        const id = crypto.randomBytes(4).toString('hex');
+        this.requests.set(id, pending);
+        return id;
+    }
+
+    get(id: string): PendingSignature<T> | undefined {
+        this.sweep();
+        return this.requests.get(id);
+    }
+
+    delete(id: string): void {
+        this.requests.delete(id);
+    }
+
+    // Requests that haven't expired yet
+    list(): PendingSignature<T>[] {
+        this.sweep();
+        return [...this.requests.values()];
+    }
+
+    private sweep(): void {
+        const now = BigInt(Math.floor(Date.now() / 1000));
+        for (const [id, pending] of this.requests) {
+            if (pending.request.message.deadline < now) {
+                this.requests.delete(id);
+            }
+        }
+    }
+}
@@ -68,6 +68,15 @@ export function formatTokenAmount(amount: bigint, tokenInfo: TokenInfo): string
     return `${formatted} ${tokenInfo.symbol}`;
 }
 
+/**
+ * Checks whether a token address stands for native ETH rather than an ERC20 contract
+ * @param tokenAddress - The token address
+ * @returns true for the zero address that ETH is listed under
+ */
+export function isNativeToken(tokenAddress: string): boolean {
+    return tokenAddress === ethers.ZeroAddress;
+}
+
 /**
  * Finds token info by address from supported tokens list
  * @param tokenAddress - The token contract address
@@ -84,4 +93,90 @@ export function findTokenByAddress(tokenAddress: string): TokenInfo | null {
         }
     }
     return null;
-}
\ No newline at end of file
+}
+
+/**
+ * How a total is divided between participants. Percentages and weights may
+ * have up to 4 decimal places; fixed amounts are in the token's smallest unit.
+ */
+export type SplitRule =
+    | { type: 'equal'; participants: number }
+    | { type: 'percentage'; percentages: number[] } // Must sum to 100
+    | { type: 'shares'; weights: number[] }
+    | { type: 'fixed'; amounts: bigint[] }; // Must sum to the total
+
+const SPLIT_SCALE = 10_000;
+
+// Converts a percentage or weight to an integer so splits can be done in bigint arithmetic. It
+// goes through the 4-decimal string, since multiplying large weights by SPLIT_SCALE loses precision.
+function toScaledWeight(value: number): bigint {
+    const fixed = value.toFixed(4);
+    if (!/^\d+\.\d{4}$/.test(fixed) || Number(fixed) !== value) {
+        throw new Error(`Invalid split weight: ${value}. Weights must be non-negative with at most 4 decimal places.`);
+    }
+    return BigInt(fixed.replace('.', ''));
+}
+
+function splitByWeights(total: bigint, weights: bigint[], remainderIndex: number): bigint[] {
+    const weightTotal = weights.reduce((sum, weight) => sum + weight, 0n);
+    if (weightTotal === 0n) {
+        throw new Error('At least one participant must have a non-zero share.');
+    }
+
+    const shares = weights.map(weight => total * weight / weightTotal);
+    let remainder = total - shares.reduce((sum, share) => sum + share, 0n);
+
+    // Rounding down leaves fewer units than participants with a share; hand them out
+    // one at a time, starting at remainderIndex and skipping anyone with no share
+    for (let offset = 0; remainder > 0n; offset++) {
+        const index = (remainderIndex + offset) % weights.length;
+        if (weights[index] === 0n) continue;
+        shares[index] += 1n;
+        remainder -= 1n;
+    }
+    return shares;
+}
+
+/**
+ * Divides a token amount between participants exactly, so the shares always sum to the total
+ * @param total - Amount in the token's smallest unit
+ * @param rule - How to divide it
+ * @param remainderIndex - Participant who receives the first leftover unit from rounding; the rest go round-robin from there
+ * @returns One share per participant, in the order the rule lists them
+ * @throws Error if the rule is invalid for the total
+ */
+export function splitTokenAmount(total: bigint, rule: SplitRule, remainderIndex: number = 0): bigint[] {
+    if (total < 0n) {
+        throw new Error(`Cannot split a negative amount: ${total}`);
+    }
+
+    switch (rule.type) {
+        case 'equal':
+            if (!Number.isInteger(rule.participants) || rule.participants < 1) {
+                throw new Error(`Cannot split between ${rule.participants} participants.`);
+            }
+            return splitByWeights(total, new Array(rule.participants).fill(1n), remainderIndex % rule.participants);
+        case 'percentage': {
+            const weights = rule.percentages.map(toScaledWeight);
+            if (weights.reduce((sum, weight) => sum + weight, 0n) !== BigInt(100 * SPLIT_SCALE)) {
+                throw new Error(`Percentages must add up to 100, got ${rule.percentages.reduce((sum, p) => sum + p, 0)}.`);
+            }
+            return splitByWeights(total, weights, remainderIndex % weights.length);
+        }
+        case 'shares':
+            if (rule.weights.length === 0) {
+                throw new Error('Cannot split between 0 participants.');
+            }
+            return splitByWeights(total, rule.weights.map(toScaledWeight), remainderIndex % rule.weights.length);
+        case 'fixed': {
+            if (rule.amounts.some(amount => amount < 0n)) {
+                throw new Error('Fixed amounts cannot be negative.');
+            }
+            const sum = rule.amounts.reduce((acc, amount) => acc + amount, 0n);
+            if (sum !== total) {
+                throw new Error(`Fixed amounts add up to ${sum}, but the total is ${total}.`);
+            }
+            return [...rule.amounts];
+        }
+    }
+}
@@ -2,6 +2,7 @@ import { expect } from "chai";
 import { ethers } from "hardhat";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 import { BillTheAccountant, MockERC20 } from "../typechain-types";
+import { buildSigningDomain, DEBT_SIGNATURE_TYPES } from "../src/signing";
 
 describe("BillTheAccountant Ledger", function () {
     let billTheAccountant: BillTheAccountant;
@@ -110,7 +111,7 @@ describe("BillTheAccountant Ledger", function () {
         await mockERC20.connect(owner).transfer(addr1.address, amount);
         await mockERC20.connect(addr1).approve(await billTheAccountant.getAddress(), amount);
 
-        await expect(billTheAccountant.connect(addr1).settleDebt(await mockERC20.getAddress(), owner.address))
+        await expect(billTheAccountant.connect(addr1).settleDebt(await mockERC20.getAddress(), owner.address, amount))
             .to.emit(billTheAccountant, "DebtSettled");
 
         const finalDebt = await billTheAccountant.debts(await mockERC20.getAddress(), addr1.address, owner.address);
@@ -176,4 +177,349 @@ describe("BillTheAccountant Ledger", function () {
         const pendingDebt = await billTheAccountant.pendingDebts(pendingDebtId);
         expect(pendingDebt.exists).to.be.false;
     });
+
+    describe("Expense proposals", function () {
+        it("Should propose every share of an expense in one transaction", async function () {
+            const token = await mockERC20.getAddress();
+            await billTheAccountant.connect(addr2).proposeDebt(token, addr1.address, 1n, "Earlier debt");
+
+            const tx = billTheAccountant.connect(addr1).proposeExpense(token, [addr2.address, owner.address], [20n, 30n], ["Dinner (2 of 3)", "Dinner (3 of 3)"]);
+            await expect(tx)
+                .to.emit(billTheAccountant, "DebtProposed").withArgs(2n, addr1.address, addr2.address, token, 20n, "Dinner (2 of 3)")
+                .and.to.emit(billTheAccountant, "DebtProposed").withArgs(3n, addr1.address, owner.address, token, 30n, "Dinner (3 of 3)")
+                .and.to.emit(billTheAccountant, "ExpenseProposed").withArgs(addr1.address, token, [2n, 3n]);
+
+            const pending = await billTheAccountant.pendingDebts(3n);
+            expect(pending.debtor).to.equal(owner.address);
+            expect(pending.amount).to.equal(30n);
+        });
+
+        it("Should reject mismatched or empty expenses", async function () {
+            const token = await mockERC20.getAddress();
+            await expect(billTheAccountant.connect(addr1).proposeExpense(token, [addr2.address], [20n, 30n], ["Dinner"]))
+                .to.be.revertedWith("Debtor arrays must have the same length");
+            await expect(billTheAccountant.connect(addr1).proposeExpense(token, [], [], []))
+                .to.be.revertedWith("At least one debtor is required");
+            await expect(billTheAccountant.connect(addr1).proposeExpense(token, [addr2.address, addr1.address], [20n, 30n], ["Dinner", "Dinner"]))
+                .to.be.revertedWith("Debtor and creditor cannot be the same");
+        });
+    });
+
+    describe("Signature-based actions", function () {
+        const memo = "Signed debt";
+        const amount = ethers.parseUnits("25", 18);
+
+        async function getDomain() {
+            const { chainId } = await ethers.provider.getNetwork();
+            return buildSigningDomain(chainId, await billTheAccountant.getAddress());
+        }
+
+        async function getDeadline(offsetSeconds = 3600) {
+            const block = await ethers.provider.getBlock("latest");
+            return BigInt(block!.timestamp + offsetSeconds);
+        }
+
+        async function signProposal(signer: HardhatEthersSigner, creditor: string, deadline: bigint) {
+            const message = {
+                creditor,
+                token: await mockERC20.getAddress(),
+                debtor: addr2.address,
+                amount,
+                memo,
+                nonce: await billTheAccountant.nonces(creditor),
+                deadline
+            };
+            return signer.signTypedData(await getDomain(), { ProposeDebt: DEBT_SIGNATURE_TYPES.ProposeDebt }, message);
+        }
+
+        async function proposeWithSig(): Promise<bigint> {
+            const deadline = await getDeadline();
+            const signature = await signProposal(addr1, addr1.address, deadline);
+            await billTheAccountant.connect(owner).proposeDebtWithSig(addr1.address, await mockERC20.getAddress(), addr2.address, amount, memo, deadline, signature);
+            return billTheAccountant.pendingDebtCounter();
+        }
+
+        it("Should let a relayer propose a debt signed by the creditor", async function () {
+            const deadline = await getDeadline();
+            const signature = await signProposal(addr1, addr1.address, deadline);
+
+            await expect(billTheAccountant.connect(owner).proposeDebtWithSig(addr1.address, await mockERC20.getAddress(), addr2.address, amount, memo, deadline, signature))
+                .to.emit(billTheAccountant, "DebtProposed")
+                .withArgs(1, addr1.address, addr2.address, await mockERC20.getAddress(), amount, memo);
+
+            expect(await billTheAccountant.nonces(addr1.address)).to.equal(1);
+        });
+
+        it("Should reject a proposal signed by someone other than the creditor", async function () {
+            const deadline = await getDeadline();
+            const signature = await signProposal(owner, addr1.address, deadline);
+
+            await expect(billTheAccountant.connect(owner).proposeDebtWithSig(addr1.address, await mockERC20.getAddress(), addr2.address, amount, memo, deadline, signature))
+                .to.be.revertedWith("Invalid signature");
+        });
+
+        it("Should reject an expired signature", async function () {
+            const deadline = await getDeadline(-1);
+            const signature = await signProposal(addr1, addr1.address, deadline);
+
+            await expect(billTheAccountant.connect(owner).proposeDebtWithSig(addr1.address, await mockERC20.getAddress(), addr2.address, amount, memo, deadline, signature))
+                .to.be.revertedWith("Signature expired");
+        });
+
+        it("Should let a relayer confirm a debt signed by the debtor and prevent replays", async function () {
+            const pendingDebtId = await proposeWithSig();
+            const deadline = await getDeadline();
+            const signature = await addr2.signTypedData(await getDomain(), { ConfirmDebt: DEBT_SIGNATURE_TYPES.ConfirmDebt }, {
+                pendingDebtId,
+                debtor: addr2.address,
+                nonce: await billTheAccountant.nonces(addr2.address),
+                deadline
+            });
+
+            await expect(billTheAccountant.connect(owner).confirmDebtWithSig(pendingDebtId, deadline, signature))
+                .to.emit(billTheAccountant, "DebtConfirmed")
+                .withArgs(pendingDebtId);
+            expect(await billTheAccountant.debts(await mockERC20.getAddress(), addr2.address, addr1.address)).to.equal(amount);
+
+            await expect(billTheAccountant.connect(owner).confirmDebtWithSig(pendingDebtId, deadline, signature))
+                .to.be.revertedWith("Invalid signature");
+        });
+
+        it("Should let a relayer reject a debt signed by the creditor", async function () {
+            const pendingDebtId = await proposeWithSig();
+            const deadline = await getDeadline();
+            const signature = await addr1.signTypedData(await getDomain(), { RejectDebt: DEBT_SIGNATURE_TYPES.RejectDebt }, {
+                pendingDebtId,
+                signer: addr1.address,
+                nonce: await billTheAccountant.nonces(addr1.address),
+                deadline
+            });
+
+            await expect(billTheAccountant.connect(owner).rejectDebtWithSig(pendingDebtId, addr1.address, deadline, signature))
+                .to.emit(billTheAccountant, "DebtRejected")
+                .withArgs(pendingDebtId);
+        });
+
+        it("Should not let an unrelated signer reject a debt", async function () {
+            const pendingDebtId = await proposeWithSig();
+            const deadline = await getDeadline();
+            const signature = await owner.signTypedData(await getDomain(), { RejectDebt: DEBT_SIGNATURE_TYPES.RejectDebt }, {
+                pendingDebtId,
+                signer: owner.address,
+                nonce: await billTheAccountant.nonces(owner.address),
+                deadline
+            });
+
+            await expect(billTheAccountant.connect(owner).rejectDebtWithSig(pendingDebtId, owner.address, deadline, signature))
+                .to.be.revertedWith("Only debtor or creditor can reject");
+        });
+    });
+
+    describe("Partial settlement", function () {
+        const owed = ethers.parseUnits("50", 18);
+        let token: string;
+
+        // addr1 owes addr2 `owed`, and has approved the contract for all of it
+        beforeEach(async function () {
+            token = await mockERC20.getAddress();
+            await billTheAccountant.connect(addr2).proposeDebt(token, addr1.address, owed, "Partially settled");
+            await billTheAccountant.connect(addr1).confirmDebt(await billTheAccountant.pendingDebtCounter());
+            await mockERC20.connect(owner).transfer(addr1.address, owed);
+            await mockERC20.connect(addr1).approve(await billTheAccountant.getAddress(), owed);
+        });
+
+        it("Should pay down part of a debt", async function () {
+            const payment = ethers.parseUnits("20", 18);
+
+            await expect(billTheAccountant.connect(addr1).settleDebt(token, addr2.address, payment))
+                .to.emit(billTheAccountant, "DebtSettled")
+                .withArgs(addr1.address, addr2.address, token, payment);
+
+            expect(await billTheAccountant.debts(token, addr1.address, addr2.address)).to.equal(owed - payment);
+            expect(await mockERC20.balanceOf(addr2.address)).to.equal(payment);
+        });
+
+        it("Should not accept more than is owed", async function () {
+            await expect(billTheAccountant.connect(addr1).settleDebt(token, addr2.address, owed + 1n))
+                .to.be.revertedWith("Settlement exceeds amount owed");
+            await expect(billTheAccountant.connect(addr1).settleDebt(token, addr2.address, 0))
+                .to.be.revertedWith("Settlement amount must be positive");
+        });
+
+        it("Should let a relayer submit a settlement signed by the debtor", async function () {
+            const { chainId } = await ethers.provider.getNetwork();
+            const domain = buildSigningDomain(chainId, await billTheAccountant.getAddress());
+            const block = await ethers.provider.getBlock("latest");
+            const deadline = BigInt(block!.timestamp + 3600);
+            const message = {
+                debtor: addr1.address,
+                token,
+                creditor: addr2.address,
+                amount: owed,
+                nonce: await billTheAccountant.nonces(addr1.address),
+                deadline
+            };
+            const signature = await addr1.signTypedData(domain, { SettleDebt: DEBT_SIGNATURE_TYPES.SettleDebt }, message);
+
+            await expect(billTheAccountant.connect(owner).settleDebtWithSig(addr1.address, token, addr2.address, owed, deadline, signature))
+                .to.emit(billTheAccountant, "DebtSettled")
+                .withArgs(addr1.address, addr2.address, token, owed);
+            expect(await billTheAccountant.debts(token, addr1.address, addr2.address)).to.equal(0);
+        });
+    });
+
+    describe("Native ETH settlement", function () {
+        const owed = ethers.parseEther("1");
+
+        // addr1 owes addr2 1 ETH
+        beforeEach(async function () {
+            await billTheAccountant.connect(addr2).proposeDebt(ethers.ZeroAddress, addr1.address, owed, "Dinner");
+            await billTheAccountant.connect(addr1).confirmDebt(await billTheAccountant.pendingDebtCounter());
+        });
+
+        it("Should pay down a debt with the value sent", async function () {
+            const payment = ethers.parseEther("0.4");
+
+            const tx = billTheAccountant.connect(addr1).settleDebt(ethers.ZeroAddress, addr2.address, payment, { value: payment });
+
+            await expect(tx).to.emit(billTheAccountant, "DebtSettled").withArgs(addr1.address, addr2.address, ethers.ZeroAddress, payment);
+            await expect(tx).to.changeEtherBalances([addr1, addr2], [-payment, payment]);
+
+            expect(await billTheAccountant.debts(ethers.ZeroAddress, addr1.address, addr2.address)).to.equal(owed - payment);
+        });
+
+        it("Should refund anything sent beyond the settlement amount", async function () {
+            const sent = ethers.parseEther("1.5");
+
+            await expect(billTheAccountant.connect(addr1).settleDebt(ethers.ZeroAddress, addr2.address, owed, { value: sent }))
+                .to.changeEtherBalances([addr1, addr2, billTheAccountant], [-owed, owed, 0]);
+
+            expect(await billTheAccountant.debts(ethers.ZeroAddress, addr1.address, addr2.address)).to.equal(0);
+        });
+
+        it("Should reject a payment smaller than the settlement amount", async function () {
+            await expect(billTheAccountant.connect(addr1).settleDebt(ethers.ZeroAddress, addr2.address, owed, { value: owed - 1n }))
+                .to.be.revertedWith("Sent value is less than the settlement amount");
+        });
+
+        it("Should reject ETH sent with an ERC20 settlement", async function () {
+            await expect(billTheAccountant.connect(addr1).settleDebt(await mockERC20.getAddress(), addr2.address, owed, { value: owed }))
+                .to.be.revertedWith("ETH sent with a token settlement");
+        });
+
+        it("Should not let a relayer settle native ETH debts", async function () {
+            await expect(billTheAccountant.connect(owner).settleDebtWithSig(addr1.address, ethers.ZeroAddress, addr2.address, owed, 0, "0x"))
+                .to.be.revertedWith("Native ETH must be settled by the debtor");
+        });
+    });
+
+    describe("Debt simplification", function () {
+        const amount = ethers.parseUnits("10", 18);
+        let addr3: HardhatEthersSigner;
+        let token: string;
+
+        async function addConfirmedDebt(creditor: HardhatEthersSigner, debtor: HardhatEthersSigner, debtAmount: bigint) {
+            await billTheAccountant.connect(creditor).proposeDebt(token, debtor.address, debtAmount, "Chain");
+            await billTheAccountant.connect(debtor).confirmDebt(await billTheAccountant.pendingDebtCounter());
+        }
+
+        // addr1 owes addr2, who owes addr3 the same amount
+        async function proposeChainCollapse(): Promise<bigint> {
+            await addConfirmedDebt(addr2, addr1, amount);
+            await addConfirmedDebt(addr3, addr2, amount);
+            await billTheAccountant.connect(owner).proposeSimplification(
+                token, [addr1.address, addr2.address, addr3.address], [addr1.address], [addr3.address], [amount]
+            );
+            return billTheAccountant.simplificationCounter();
+        }
+
+        beforeEach(async function () {
+            [, , , addr3] = await ethers.getSigners();
+            token = await mockERC20.getAddress();
+        });
+
+        it("Should rewrite the debts once every participant approves", async function () {
+            const simplificationId = await proposeChainCollapse();
+
+            await billTheAccountant.connect(addr1).approveSimplification(simplificationId);
+            await billTheAccountant.connect(addr2).approveSimplification(simplificationId);
+            expect(await billTheAccountant.debts(token, addr1.address, addr2.address)).to.equal(amount);
+
+            await expect(billTheAccountant.connect(addr3).approveSimplification(simplificationId))
+                .to.emit(billTheAccountant, "DebtsSimplified")
+                .withArgs(simplificationId, token, [addr1.address, addr2.address, addr3.address], [addr1.address], [addr3.address], [amount]);
+
+            expect(await billTheAccountant.debts(token, addr1.address, addr2.address)).to.equal(0);
+            expect(await billTheAccountant.debts(token, addr2.address, addr3.address)).to.equal(0);
+            expect(await billTheAccountant.debts(token, addr1.address, addr3.address)).to.equal(amount);
+            expect((await billTheAccountant.getSimplification(simplificationId)).exists).to.be.false;
+        });
+
+        it("Should refuse a plan that changes someone's net balance", async function () {
+            await addConfirmedDebt(addr2, addr1, amount);
+            await addConfirmedDebt(addr3, addr2, amount);
+
+            await expect(billTheAccountant.connect(owner).proposeSimplification(
+                token, [addr1.address, addr2.address, addr3.address], [addr1.address], [addr2.address], [amount]
+            )).to.be.revertedWith("Plan does not preserve net balances");
+        });
+
+        it("Should refuse a plan involving someone outside the group", async function () {
+            await addConfirmedDebt(addr2, addr1, amount);
+
+            await expect(billTheAccountant.connect(owner).proposeSimplification(
+                token, [addr1.address, addr2.address], [addr1.address], [addr3.address], [amount]
+            )).to.be.revertedWith("Transfer involves a non-participant");
+        });
+
+        it("Should only accept one approval per participant", async function () {
+            const simplificationId = await proposeChainCollapse();
+
+            await expect(billTheAccountant.connect(owner).approveSimplification(simplificationId))
+                .to.be.revertedWith("Only participants can approve");
+            await billTheAccountant.connect(addr1).approveSimplification(simplificationId);
+            await expect(billTheAccountant.connect(addr1).approveSimplification(simplificationId))
+                .to.be.revertedWith("Already approved");
+        });
+
+        it("Should not apply a plan after the balances it was based on changed", async function () {
+            const simplificationId = await proposeChainCollapse();
+            await billTheAccountant.connect(addr1).approveSimplification(simplificationId);
+            await billTheAccountant.connect(addr2).approveSimplification(simplificationId);
+
+            await addConfirmedDebt(addr3, addr1, amount);
+
+            await expect(billTheAccountant.connect(addr3).approveSimplification(simplificationId))
+                .to.be.revertedWith("Balances changed since the plan was proposed");
+        });
+
+        it("Should let any participant reject the plan", async function () {
+            const simplificationId = await proposeChainCollapse();
+
+            await expect(billTheAccountant.connect(addr2).rejectSimplification(simplificationId))
+                .to.emit(billTheAccountant, "SimplificationRejected")
+                .withArgs(simplificationId, addr2.address);
+            await expect(billTheAccountant.connect(addr1).approveSimplification(simplificationId))
+                .to.be.revertedWith("Simplification does not exist");
+        });
+
+        it("Should let a relayer submit an approval signed by a participant", async function () {
+            const simplificationId = await proposeChainCollapse();
+            const { chainId } = await ethers.provider.getNetwork();
+            const domain = buildSigningDomain(chainId, await billTheAccountant.getAddress());
+            const block = await ethers.provider.getBlock("latest");
+            const deadline = BigInt(block!.timestamp + 3600);
+            const signature = await addr1.signTypedData(domain, { ApproveSimplification: DEBT_SIGNATURE_TYPES.ApproveSimplification }, {
+                simplificationId,
+                participant: addr1.address,
+                nonce: await billTheAccountant.nonces(addr1.address),
+                deadline
+            });
+
+            await expect(billTheAccountant.connect(owner).approveSimplificationWithSig(simplificationId, addr1.address, deadline, signature))
+                .to.emit(billTheAccountant, "SimplificationApproved")
+                .withArgs(simplificationId, addr1.address);
+            expect(await billTheAccountant.simplificationApprovals(simplificationId, addr1.address)).to.be.true;
+        });
+    });
 });
\ No newline at end of file
@@ -0,0 +1,132 @@
+import { expect } from "chai";
+import { TextChannel } from "discord.js";
+import { MAX_SCRAPED_MESSAGES, scrapeMessages } from "../src/billDetection/scraper";
+import { DEFAULT_ANALYSIS_HOURS, parseAnalysisWindow, snowflakeAt, timestampOf } from "../src/billDetection/window";
+
+describe("Analysis Window", function () {
+    const HOUR = 60 * 60 * 1000;
+    const now = new Date(2026, 9, 18, 15, 30).getTime(); // Local time, like the bot's
+    const parse = (content: string, replyToId?: string) => {
+        const parsed = parseAnalysisWindow(content, "200", replyToId, now);
+        if ("error" in parsed) throw new Error(parsed.error);
+        return parsed.window;
+    };
+    const link = (messageId: string, channelId = "200") => `https://discord.com/channels/100/${channelId}/${messageId}`;
+
+    describe("parseAnalysisWindow", function () {
+        it("should default to the last 72 hours", function () {
+            const window = parse("@Bill split the bill");
+            expect(timestampOf(window.startId)).to.equal(now - DEFAULT_ANALYSIS_HOURS * HOUR);
+            expect(window.endId).to.be.undefined;
+            expect(window.description).to.equal("the last 72 hours");
+        });
+
+        it("should read durations", function () {
+            expect(timestampOf(parse("@Bill settle the last 6 hours").startId)).to.equal(now - 6 * HOUR);
+            expect(timestampOf(parse("@Bill split everything from the past 2 days").startId)).to.equal(now - 48 * HOUR);
+            expect(timestampOf(parse("@Bill split since 90 minutes ago").startId)).to.equal(now - 1.5 * HOUR);
+            expect(timestampOf(parse("@Bill split the bills, 12h").startId)).to.equal(now - 12 * HOUR);
+            expect(parse("@Bill split the last hour").description).to.equal("the last hour");
+        });
+
+        it("should start at midnight for yesterday and today", function () {
+            expect(timestampOf(parse("@Bill split the bill since yesterday").startId)).to.equal(new Date(2026, 9, 17).getTime());
+            expect(timestampOf(parse("@Bill what do we owe for today").startId)).to.equal(new Date(2026, 9, 18).getTime());
+        });
+
+        it("should start at the message the request replies to", function () {
+            const replyToId = snowflakeAt(now - 3 * HOUR);
+            expect(parse("@Bill split from here", replyToId)).to.deep.equal({ startId: replyToId, description: "everything from the message you replied to on" });
+        });
+
+        it("should take two message links as a range in either order", function () {
+            const first = snowflakeAt(now - 5 * HOUR);
+            const last = snowflakeAt(now - 2 * HOUR);
+            const window = parse(`@Bill split ${link(last)} to ${link(first)}`);
+            expect(window).to.include({ startId: first, endId: last });
+            expect(parse(`@Bill split from ${link(first)}`)).to.deep.equal({ startId: first, description: "everything from the linked message on" });
+        });
+
+        it("should refuse links to other channels and ranges that are too long", function () {
+            expect(parseAnalysisWindow(`@Bill split ${link("1", "999")}`, "200", undefined, now)).to.have.property("error").that.includes("must be in this channel");
+            expect(parseAnalysisWindow("@Bill split the last 6 weeks", "200", undefined, now)).to.have.property("error").that.includes("more than 31 days");
+        });
+    });
+
+    describe("scrapeMessages", function () {
+        // A channel whose message IDs are 1000, 1001, ... in the order they were sent
+        function fakeChannel(messages: any[]) {
+            const fetches: any[] = [];
+            const source = {
+                messages: {
+                    fetch: async (options: { limit: number; before?: string }) => {
+                        fetches.push(options);
+                        const page = messages
+                            .filter(msg => !options.before || BigInt(msg.id) < BigInt(options.before))
+                            .sort((a, b) => Number(BigInt(b.id) - BigInt(a.id)))
+                            .slice(0, options.limit);
+                        return new Map(page.map(msg => [msg.id, msg]));
+                    }
+                }
+            };
+            return { source, fetches };
+        }
+        const message = (id: number, content: string, extra: object = {}) => ({
+            id: id.toString(),
+            content,
+            createdTimestamp: id * 1000,
+            url: `https://discord.com/channels/100/200/${id}`,
+            author: { tag: `user${id % 3}`, bot: false },
+            attachments: new Map(),
+            ...extra
+        });
+
+        it("should page through the whole window, including both ends", async function () {
+            const { source, fetches } = fakeChannel(Array.from({ length: 350 }, (_, i) => message(1000 + i, `message ${i}`)));
+            const chat = await scrapeMessages(source as unknown as TextChannel, { startId: "1010", endId: "1300", description: "the linked range of messages" });
+
+            expect(chat.messages).to.have.length(291);
+            expect(chat.messages[0]).to.equal("user2: message 10");
+            expect(chat.messages[290]).to.equal("user1: message 300");
+            expect(fetches[0].before).to.equal("1301");
+            expect(fetches).to.have.length(3);
+            expect(chat.range).to.deep.equal({
+                description: "the linked range of messages",
+                from: 1010_000,
+                to: 1300_000,
+                firstMessageUrl: "https://discord.com/channels/100/200/1010",
+                lastMessageUrl: "https://discord.com/channels/100/200/1300",
+                messageCount: 291,
+                threadMessageCount: 0,
+                threadCount: 0,
+                truncated: false
+            });
+        });
+
+        it("should include replies in threads started in the window", async function () {
+            const thread = fakeChannel([
+                message(1003, "", { system: true }),
+                message(1004, "I paid $30 for the cab"),
+                message(1006, "done", { author: { tag: "bot", bot: true } })
+            ]).source;
+            const { source } = fakeChannel([
+                message(1001, "dinner was $60, I got it", { hasThread: true, thread }),
+                message(1002, "thanks!"),
+                message(1005, "see you")
+            ]);
+            const chat = await scrapeMessages(source as unknown as TextChannel, { startId: "1000", description: "the last 72 hours" });
+
+            expect(chat.messages).to.deep.equal(["user2: dinner was $60, I got it", "user0: thanks!", "user2: I paid $30 for the cab", "user0: see you"]);
+            expect(chat.range).to.include({ messageCount: 4, threadMessageCount: 1, threadCount: 1 });
+        });
+
+        it("should stop at the message cap and say so", async function () {
+            const { source } = fakeChannel(Array.from({ length: MAX_SCRAPED_MESSAGES + 50 }, (_, i) => message(1000 + i, `message ${i}`)));
+            const chat = await scrapeMessages(source as unknown as TextChannel, { startId: "1000", description: "the last 72 hours" });
+
+            expect(chat.messages).to.have.length(MAX_SCRAPED_MESSAGES);
+            expect(chat.messages[0]).to.equal("user0: message 50");
+            expect(chat.range!.truncated).to.be.true;
+        });
+    });
+});
@@ -0,0 +1,149 @@
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import { expect } from "chai";
+import { GeminiExtractor } from "../src/billDetection/gemini";
+import { validateBillAnalysis } from "../src/billDetection/validation";
+
+describe("Bill Analysis Validation", function () {
+    const mapping = ["<@1>", "<@2>", "<@3>"];
+    const dinner = { description: "Dinner", amount: 60, currency: "USD", payer: "<@1>", participants: ["<@1>", "<@2>", "<@3>"], splitType: "equal" };
+    const taxi = { description: "Taxi", amount: 12, currency: "USD", payer: "<@2>", participants: ["<@1>", "<@2>"], splitType: "equal" };
+    const response = (overrides: object = {}) => ({
+        expenses: [dinner, taxi],
+        totalAmount: 72,
+        currency: "USD",
+        summary: "Dinner and a taxi",
+        participants: mapping,
+        ...overrides
+    });
+
+    describe("validateBillAnalysis", function () {
+        it("should accept a well-formed analysis", function () {
+            const { analysis, issues } = validateBillAnalysis(response(), mapping);
+            expect(issues).to.deep.equal([]);
+            expect(analysis.expenses).to.deep.equal([dinner, taxi]);
+            expect(analysis.totalAmount).to.equal(72);
+        });
+
+        it("should reject string and non-positive amounts", function () {
+            const { analysis, issues } = validateBillAnalysis(response({ expenses: [{ ...dinner, amount: "60" }, { ...taxi, amount: 0 }], totalAmount: 0 }), mapping);
+            expect(analysis.expenses).to.deep.equal([]);
+            expect(issues).to.deep.equal([
+                'Expense 1 ("Dinner"): amount must be a positive number, got "60"',
+                'Expense 2 ("Taxi"): amount must be a positive number, got 0'
+            ]);
+        });
+
+        it("should reject payers and participants outside the user mapping", function () {
+            const { analysis, issues } = validateBillAnalysis(response({ expenses: [{ ...dinner, payer: "<@9>" }, { ...taxi, participants: ["<@2>", "alice"] }] }), mapping);
+            expect(analysis.expenses).to.deep.equal([]);
+            expect(issues).to.deep.equal([
+                'Expense 1 ("Dinner"): payer "<@9>" is not one of the users in the mapping',
+                'Expense 2 ("Taxi"): participants "alice" are not users in the mapping'
+            ]);
+        });
+
+        it("should report missing fields and keep the valid expenses", function () {
+            const { analysis, issues } = validateBillAnalysis(response({ expenses: [{ amount: 5, payer: "<@1>", participants: ["<@1>"] }, taxi], totalAmount: 17 }), mapping);
+            expect(analysis.expenses).to.deep.equal([taxi]);
+            expect(issues).to.deep.equal([
+                "Expense 1: description must be a non-empty string, got nothing",
+                "Expense 1: currency must be a non-empty string, got nothing"
+            ]);
+        });
+
+        it("should accept nickname mentions and normalize them", function () {
+            const { analysis, issues } = validateBillAnalysis(response({ expenses: [{ ...taxi, payer: "<@!2>", participants: ["<@!1>", "<@2>"] }], totalAmount: 12 }), mapping);
+            expect(issues).to.deep.equal([]);
+            expect(analysis.expenses[0].payer).to.equal("<@2>");
+            expect(analysis.expenses[0].participants).to.deep.equal(["<@1>", "<@2>"]);
+        });
+
+        it("should report a total that doesn't match the expenses", function () {
+            const { analysis, issues } = validateBillAnalysis(response({ totalAmount: 80 }), mapping);
+            expect(issues).to.deep.equal(["totalAmount 80 USD does not match the expenses, which add up to 72 USD"]);
+            expect(analysis.expenses).to.have.length(2);
+        });
+
+        it("should keep receipt items and link the photo they came from", function () {
+            const images = [{ number: 1, url: "https://cdn.example/receipt.jpg", messageUrl: "https://discord.com/channels/1/2/3", author: "alice", contentType: "image/jpeg", size: 1 }];
+            const lineItems = [{ description: "Pasta", amount: 40, participants: ["<@!2>"] }, { description: "Wine", amount: 14 }];
+            const { analysis, issues } = validateBillAnalysis(response({ expenses: [{ ...dinner, receiptImage: 1, lineItems, tax: 6 }], totalAmount: 60 }), mapping, images);
+
+            expect(issues).to.deep.equal([]);
+            expect(analysis.expenses[0]).to.deep.include({
+                lineItems: [{ description: "Pasta", amount: 40, participants: ["<@2>"] }, { description: "Wine", amount: 14 }],
+                tax: 6,
+                receipt: { imageUrl: "https://cdn.example/receipt.jpg", messageUrl: "https://discord.com/channels/1/2/3" }
+            });
+        });
+
+        it("should reject receipts that point at unknown photos or people", function () {
+            const { issues } = validateBillAnalysis(response({ expenses: [{ ...dinner, receiptImage: 2, lineItems: [{ description: "Pasta", amount: 40, participants: ["<@9>"] }], tip: -1 }], totalAmount: 60 }), mapping);
+            expect(issues).to.deep.equal([
+                'Expense 1 ("Dinner"): lineItems[0] participants must be participants of the expense, got ["<@9>"]',
+                'Expense 1 ("Dinner"): tip must be a non-negative number, got -1',
+                'Expense 1 ("Dinner"): receiptImage 2 is not one of the images in the chat'
+            ]);
+        });
+
+        it("should reject a response that isn't an analysis object", function () {
+            expect(validateBillAnalysis([dinner], mapping).issues).to.deep.equal([`Response must be a JSON object, got ${JSON.stringify([dinner])}`]);
+            expect(validateBillAnalysis({ summary: "?" }, mapping).issues).to.deep.equal(["expenses must be a list, got nothing"]);
+        });
+    });
+
+    describe("GeminiExtractor", function () {
+        // Returns the canned responses in order and records each prompt
+        function fakeGemini(responses: string[]) {
+            const prompts: string[] = [];
+            const configs: any[] = [];
+            const genAI = {
+                getGenerativeModel: (params: any) => {
+                    configs.push(params.generationConfig);
+                    return {
+                        generateContent: async (prompt: string) => {
+                            prompts.push(prompt);
+                            const text = responses[Math.min(prompts.length - 1, responses.length - 1)];
+                            return { response: { text: () => text } };
+                        }
+                    };
+                }
+            } as unknown as GoogleGenerativeAI;
+            return { genAI, prompts, configs };
+        }
+
+        it("should request JSON and return a valid response without retrying", async function () {
+            const { genAI, prompts, configs } = fakeGemini([JSON.stringify(response())]);
+            const analysis = await new GeminiExtractor(genAI).extract({ messages: ["alice: I paid $60 for dinner"], mentionedUsers: mapping, userMappingText: "" });
+
+            expect(configs[0]).to.deep.equal({ responseMimeType: "application/json" });
+            expect(prompts).to.have.length(1);
+            expect(analysis!.expenses).to.have.length(2);
+            expect(analysis!.issues).to.be.undefined;
+        });
+
+        it("should feed validation problems back to the model and retry", async function () {
+            const { genAI, prompts } = fakeGemini([
+                "not json",
+                JSON.stringify(response({ expenses: [{ ...dinner, amount: "60" }, taxi] })),
+                JSON.stringify(response())
+            ]);
+            const analysis = await new GeminiExtractor(genAI).extract({ messages: [], mentionedUsers: mapping, userMappingText: "" });
+
+            expect(prompts).to.have.length(3);
+            expect(prompts[1]).to.include("The response was not valid JSON");
+            expect(prompts[2]).to.include('- Expense 1 ("Dinner"): amount must be a positive number, got "60"');
+            expect(analysis!.expenses).to.have.length(2);
+            expect(analysis!.issues).to.be.undefined;
+        });
+
+        it("should report what is still rejected after the last attempt", async function () {
+            const { genAI, prompts } = fakeGemini(["```json\n" + JSON.stringify(response({ expenses: [{ ...dinner, payer: "<@9>" }, taxi], totalAmount: 72 })) + "\n```"]);
+            const analysis = await new GeminiExtractor(genAI).extract({ messages: [], mentionedUsers: mapping, userMappingText: "" });
+
+            expect(prompts).to.have.length(3);
+            expect(analysis!.expenses).to.deep.equal([taxi]);
+            expect(analysis!.issues).to.deep.equal(['Expense 1 ("Dinner"): payer "<@9>" is not one of the users in the mapping']);
+        });
+    });
+});
@@ -0,0 +1,133 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { handleBillConfirmation } from "../src/billDetection/detection";
+import { BillAnalysisResult } from "../src/billDetection/types";
+import { dispatchPrefixCommand } from "../src/commands";
+import { createTestServices, fakeGuild, fakeMessage, fakeUser } from "./commands/helpers";
+
+describe("Bill Confirmation", function () {
+    const alice = fakeUser("1001", "alice");
+    const bob = fakeUser("1002", "bob");
+    const carol = fakeUser("1003", "carol");
+    const analysis: BillAnalysisResult = {
+        expenses: [{ description: "Dinner", amount: 30, currency: "USD", payer: `<@${alice.id}>`, participants: [alice, bob, carol].map(user => `<@${user.id}>`), splitType: "equal", sourceMessageIds: ["900"] }],
+        totalAmount: 30,
+        currency: "USD",
+        summary: "Alice paid for dinner",
+        participants: [alice, bob, carol].map(user => `<@${user.id}>`)
+    };
+
+    async function registeredServices() {
+        const services = await createTestServices();
+        services.notifier.add(alice, bob, carol);
+        for (const user of [alice, bob, carol]) {
+            await dispatchPrefixCommand(fakeMessage(user, ">register").message, services, ">");
+        }
+        return services;
+    }
+
+    function confirmInteraction(messageId: string) {
+        const guild = fakeGuild([alice, bob, carol]);
+        (guild.members as any).cache = new Map();
+        const replies: any[] = [];
+        const interaction = {
+            customId: "confirm-bills",
+            message: { id: messageId },
+            user: alice,
+            guild,
+            replied: false,
+            update: async (payload: any) => { interaction.replied = true; replies.push(payload); },
+            reply: async (payload: any) => { replies.push(payload); },
+            followUp: async (payload: any) => { replies.push(payload); }
+        };
+        return { interaction, replies };
+    }
+
+    it("should propose every share of an expense in one transaction and DM each debtor their own proposal", async function () {
+        const services = await registeredServices();
+        // An unrelated proposal first, so the expense's IDs don't start at 1
+        const bobWallet = await services.keystore.get(bob.id);
+        await services.ledger.proposeDebt(bobWallet!.privateKey, ethers.ZeroAddress, await services.keystore.getAddress(alice.id) as string, 1n, "Coffee");
+        await services.pendingAnalyses.add("preview-1", "channel-1", alice.id, analysis);
+
+        const blockBefore = await ethers.provider.getBlockNumber();
+        const { interaction, replies } = confirmInteraction("preview-1");
+        await handleBillConfirmation(interaction, services);
+
+        expect(await ethers.provider.getBlockNumber()).to.equal(blockBefore + 1);
+        expect(replies[replies.length - 1]).to.include("**Successfully created:** 2 proposals");
+        const button = (userId: string) => (services.notifier.dmsTo(userId).find(payload => typeof payload !== "string") as any).components[0].components[0].data.custom_id;
+        expect(button(bob.id)).to.equal("agree-debt:2");
+        expect(button(carol.id)).to.equal("agree-debt:3");
+        const carolsDebt = await services.ledger.getPendingDebt(3n);
+        expect(carolsDebt.debtor).to.equal(await services.keystore.getAddress(carol.id));
+        expect(carolsDebt.amount).to.equal(10_000_000n);
+    });
+
+    it("should skip an expense confirmed again from a second analysis of the same chat", async function () {
+        const services = await registeredServices();
+        await services.pendingAnalyses.add("preview-1", "channel-1", alice.id, analysis);
+        await handleBillConfirmation(confirmInteraction("preview-1").interaction, services);
+
+        await services.pendingAnalyses.add("preview-2", "channel-1", alice.id, analysis);
+        const { interaction, replies } = confirmInteraction("preview-2");
+        await handleBillConfirmation(interaction, services);
+
+        expect(replies[replies.length - 1]).to.include("**Successfully created:** 0 proposals");
+        expect(replies[replies.length - 1]).to.include('♻️ "Dinner" was already proposed (2 pending)');
+        expect(await services.ledger.contract.pendingDebtCounter()).to.equal(2n);
+    });
+
+    it("should hold a guest's share until they claim it, and count it as already recorded", async function () {
+        const services = await registeredServices();
+        const mina = await services.identities.addGuest("guild-1", "Mina", alice.id);
+        const withGuest: BillAnalysisResult = {
+            ...analysis,
+            expenses: [{ ...analysis.expenses[0], participants: [`<@${alice.id}>`, `<@${bob.id}>`, "<guest:1>"] }],
+            participants: [`<@${alice.id}>`, `<@${bob.id}>`, "<guest:1>"],
+            guestNames: { "<guest:1>": "Mina" }
+        };
+        await services.pendingAnalyses.add("preview-1", "channel-1", alice.id, withGuest);
+
+        const { interaction, replies } = confirmInteraction("preview-1");
+        await handleBillConfirmation(interaction, services);
+
+        const summary = replies[replies.length - 1];
+        expect(summary).to.include("**Successfully created:** 1 proposals");
+        expect(summary).to.include('📥 Mina (guest) owes <@1001> 10.0 USDC for "Dinner"');
+        const [held] = services.guestDebts.held("guild-1", mina.id);
+        expect(held.creditorId).to.equal(alice.id);
+        expect(held.amount).to.equal("10000000");
+        expect(await services.ledger.contract.pendingDebtCounter()).to.equal(1n);
+
+        await services.pendingAnalyses.add("preview-2", "channel-1", alice.id, withGuest);
+        const second = confirmInteraction("preview-2");
+        await handleBillConfirmation(second.interaction, services);
+        expect(second.replies[second.replies.length - 1]).to.include("1 held for a guest");
+        expect(services.guestDebts.held("guild-1", mina.id)).to.have.length(1);
+    });
+
+    it("should queue the share of a participant who hasn't registered, and propose it when they do", async function () {
+        const services = await createTestServices();
+        services.notifier.add(alice, bob, carol);
+        for (const user of [alice, bob]) {
+            await dispatchPrefixCommand(fakeMessage(user, ">register").message, services, ">");
+        }
+        await services.pendingAnalyses.add("preview-1", "channel-1", alice.id, analysis);
+
+        const { interaction, replies } = confirmInteraction("preview-1");
+        await handleBillConfirmation(interaction, services);
+
+        const summary = replies[replies.length - 1];
+        expect(summary).to.include("**Successfully created:** 1 proposals");
+        expect(summary).to.include(`⏳ <@${carol.id}> owes <@${alice.id}> 10.0 USDC for "Dinner"`);
+        const [queued] = services.deferredProposals.forDebtor(carol.id);
+        expect(queued.creditorId).to.equal(alice.id);
+
+        await dispatchPrefixCommand(fakeMessage(carol, ">register").message, services, ">");
+        const carolsDebt = await services.ledger.getPendingDebt(2n);
+        expect(carolsDebt.debtor).to.equal(await services.keystore.getAddress(carol.id));
+        expect(carolsDebt.memo).to.equal(queued.memo);
+        expect(services.deferredProposals.forDebtor(carol.id)).to.deep.equal([]);
+    });
+});
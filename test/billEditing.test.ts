@@ -0,0 +1,131 @@
+import { expect } from "chai";
+import { buildBillAnalysisPreview, NEW_EXPENSE_VALUE } from "../src/billDetection/detection";
+import { applyExpenseEdit, ExpenseEditInput, MemberResolver, resolveExpenseEdit } from "../src/billDetection/editing";
+import { BillAnalysisResult } from "../src/billDetection/types";
+
+describe("Bill Analysis Editing", function () {
+    const members: { [name: string]: string } = { alice: "<@1>", bob: "<@2>", carol: "<@3>" };
+    const resolveMember: MemberResolver = async identifier => members[identifier] ?? (Object.values(members).includes(identifier) ? identifier : null);
+
+    const analysis: BillAnalysisResult = {
+        expenses: [
+            { description: "Dinner", amount: 60000, currency: "KRW", payer: "<@1>", participants: ["<@1>", "<@2>", "<@3>"], splitType: "custom", customSplits: { "<@1>": 30000, "<@2>": 15000, "<@3>": 15000 } },
+            { description: "Taxi", amount: 12, currency: "USD", payer: "<@2>", participants: ["<@1>", "<@2>"], splitType: "equal" }
+        ],
+        totalAmount: 60012,
+        currency: "KRW",
+        summary: "Dinner and a taxi",
+        participants: ["<@1>", "<@2>", "<@3>"]
+    };
+
+    const input = (overrides: Partial<ExpenseEditInput> = {}): ExpenseEditInput => ({
+        description: "Taxi home",
+        amount: "15",
+        currency: "usd",
+        payer: "@bob",
+        participants: "alice, bob\ncarol",
+        ...overrides
+    });
+
+    // Resolves the modal's input, then applies it as the edit handler does
+    async function edit(base: BillAnalysisResult, target: string, editInput: ExpenseEditInput, editorTag: string) {
+        const resolved = await resolveExpenseEdit(editInput, resolveMember);
+        return "errors" in resolved ? resolved : applyExpenseEdit(base, target, resolved.edit, editorTag);
+    }
+
+    describe("applyExpenseEdit", function () {
+        it("should replace the expense and record who edited it", async function () {
+            const result = await edit(analysis, "1", input(), "alice");
+            if (!("analysis" in result)) throw new Error(result.errors.join(", "));
+
+            expect(result.analysis.expenses[1]).to.deep.equal({
+                description: "Taxi home", amount: 15, currency: "USD", payer: "<@2>", participants: ["<@1>", "<@2>", "<@3>"], splitType: "equal", editedBy: ["alice"]
+            });
+            expect(result.analysis.expenses[0]).to.equal(analysis.expenses[0]);
+            expect(analysis.expenses[1].description).to.equal("Taxi");
+        });
+
+        it("should add a new expense", async function () {
+            const result = await edit(analysis, NEW_EXPENSE_VALUE, input({ description: "Coffee", amount: "9,000", currency: "won" }), "alice");
+            if (!("analysis" in result)) throw new Error(result.errors.join(", "));
+
+            expect(result.analysis.expenses).to.have.length(3);
+            expect(result.analysis.expenses[2]).to.include({ description: "Coffee", amount: 9000, currency: "KRW", splitType: "equal" });
+        });
+
+        it("should keep a custom split that still fits the edited expense", async function () {
+            const result = await edit(analysis, "0", input({ description: "BBQ dinner", amount: "60000", currency: "KRW", payer: "alice" }), "bob");
+            if (!("analysis" in result)) throw new Error(result.errors.join(", "));
+            expect(result.analysis.expenses[0].splitType).to.equal("custom");
+            expect(result.analysis.expenses[0].editedBy).to.deep.equal(["bob"]);
+        });
+
+        it("should fall back to an equal split when the custom split no longer fits", async function () {
+            const result = await edit(analysis, "0", input({ amount: "70000", currency: "KRW", payer: "alice" }), "alice");
+            if (!("analysis" in result)) throw new Error(result.errors.join(", "));
+            expect(result.analysis.expenses[0].splitType).to.equal("equal");
+            expect(result.analysis.expenses[0].customSplits).to.be.undefined;
+        });
+
+        it("should keep objections unless the objector is taken off the expense", async function () {
+            const objected: BillAnalysisResult = { ...analysis, expenses: [analysis.expenses[0], { ...analysis.expenses[1], participants: ["<@1>", "<@2>", "<@3>"], approvedByPayer: true, objections: ["<@1>", "<@3>"] }] };
+
+            const result = await edit(objected, "1", input({ participants: "alice, bob" }), "bob");
+            if (!("analysis" in result)) throw new Error(result.errors.join(", "));
+            expect(result.analysis.expenses[1].objections).to.deep.equal(["<@1>"]);
+            expect(result.analysis.expenses[1].approvedByPayer).to.be.undefined;
+        });
+
+        it("should leave an expense saved without changes as it was", async function () {
+            const objected: BillAnalysisResult = { ...analysis, expenses: [analysis.expenses[0], { ...analysis.expenses[1], approvedByPayer: true, objections: ["<@1>"], recorded: { confirmed: 1 } }] };
+
+            const result = await edit(objected, "1", input({ description: "Taxi", amount: "12", participants: "alice, bob" }), "bob");
+            if (!("analysis" in result)) throw new Error(result.errors.join(", "));
+            expect(result.analysis.expenses[1]).to.equal(objected.expenses[1]);
+        });
+
+        it("should report every problem with the input", async function () {
+            const result = await edit(analysis, "1", input({ description: " ", amount: "-3", payer: "dave", participants: "alice, erin" }), "alice");
+            expect(result).to.deep.equal({ errors: ["Description is empty.", "Invalid amount: -3", "Could not find member: dave", "Could not find member: erin"] });
+        });
+
+        it("should refuse to edit an expense that was removed", async function () {
+            const result = await edit(analysis, "5", input(), "alice");
+            expect(result).to.deep.equal({ errors: ["That expense no longer exists. It may have been removed."] });
+        });
+    });
+
+    describe("buildBillAnalysisPreview", function () {
+        it("should show per-person amounts, totals and editors", function () {
+            const edited = { ...analysis, expenses: [analysis.expenses[0], { ...analysis.expenses[1], editedBy: ["alice"] }] };
+            const { content, components } = buildBillAnalysisPreview(edited);
+
+            expect(content).to.include("◦ <@2>: 15000.00 KRW");
+            expect(content).to.include("**2.** Taxi *(edited by alice)*");
+            expect(content).to.include("**Total:** 60000 KRW + 12 USD");
+            expect(components.map(row => (row.components[0] as any).data.custom_id)).to.deep.equal(["edit-bill-expense", "remove-bill-expense", "object-bill-expense", "confirm-bills"]);
+        });
+
+        it("should list receipt items and link the photo", function () {
+            const receipt = {
+                ...analysis.expenses[1],
+                lineItems: [{ description: "Base fare", amount: 10 }, { description: "Toll", amount: 2, participants: ["<@2>"] }],
+                receipt: { imageUrl: "https://cdn.example/taxi.jpg", messageUrl: "https://discord.com/channels/1/2/3" }
+            };
+            const { content } = buildBillAnalysisPreview({ ...analysis, expenses: [receipt] });
+
+            expect(content).to.include("• **Items:** Base fare 10, Toll 2 (<@2>)");
+            expect(content).to.include("• **Receipt:** [photo](https://cdn.example/taxi.jpg) from [this message](https://discord.com/channels/1/2/3)");
+            expect(content).to.include("◦ <@1>: 5.00 USD");
+        });
+
+        it("should only offer adding an expense when none are left", function () {
+            const { components } = buildBillAnalysisPreview({ ...analysis, expenses: [] });
+
+            expect(components).to.have.length(2);
+            const editOptions = (components[0].components[0] as any).options.map((option: any) => option.data.value);
+            expect(editOptions).to.deep.equal([NEW_EXPENSE_VALUE]);
+            expect((components[1].components[0] as any).data.disabled).to.be.true;
+        });
+    });
+});
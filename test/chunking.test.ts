@@ -0,0 +1,65 @@
+import { expect } from "chai";
+import { chunkMessages, extractInChunks, mergeAnalyses } from "../src/billDetection/chunking";
+import { ExpenseExtractor, ExtractionInput } from "../src/billDetection/extractor";
+import { BillAnalysisResult, ParsedExpense } from "../src/billDetection/types";
+
+describe("Chunked Analysis", function () {
+    const dinner: ParsedExpense = { description: "Dinner", amount: 60, currency: "USD", payer: "<@1>", participants: ["<@1>", "<@2>"], splitType: "equal" };
+    const taxi: ParsedExpense = { description: "Taxi", amount: 15000, currency: "KRW", payer: "<@2>", participants: ["<@1>", "<@2>"], splitType: "equal" };
+    const hotel: ParsedExpense = { description: "Hotel", amount: 200, currency: "USD", payer: "<@2>", participants: ["<@1>", "<@2>"], splitType: "equal" };
+    const result = (expenses: ParsedExpense[], extra: Partial<BillAnalysisResult> = {}): BillAnalysisResult => ({
+        expenses, totalAmount: 0, currency: "USD", summary: expenses.map(e => e.description).join(", "), participants: ["<@1>", "<@2>"], ...extra
+    });
+
+    describe("chunkMessages", function () {
+        it("should keep parts under the limit without splitting messages", function () {
+            const messages = ["a".repeat(40), "b".repeat(40), "c".repeat(40), "d".repeat(150)];
+            expect(chunkMessages(messages, 100).map(chunk => chunk.map(m => m[0]).join(""))).to.deep.equal(["ab", "c", "d"]);
+            expect(chunkMessages([], 100)).to.deep.equal([]);
+        });
+    });
+
+    describe("mergeAnalyses", function () {
+        it("should keep each expense once and total the most common currency", function () {
+            const merged = mergeAnalyses([result([dinner, taxi]), result([{ ...dinner, description: " dinner " }, hotel], { issues: ["Expense 3: amount must be a positive number, got 0"] })]);
+
+            expect(merged!.expenses).to.deep.equal([dinner, taxi, hotel]);
+            expect(merged!.totalAmount).to.equal(260);
+            expect(merged!.currency).to.equal("USD");
+            expect(merged!.summary).to.equal("Analyzed in 2 parts. Dinner, Taxi  dinner , Hotel");
+            expect(merged!.issues).to.deep.equal([
+                "Part 2 of 2: Expense 3: amount must be a positive number, got 0",
+                'Part 2 of 2: " dinner " (60 USD paid by <@1>) was already found earlier in the chat, so it is listed once'
+            ]);
+        });
+
+        it("should keep identical expenses found in the same part", function () {
+            const merged = mergeAnalyses([result([taxi, taxi, dinner]), result([taxi, hotel]), result([taxi, taxi, taxi])]);
+
+            expect(merged!.expenses).to.deep.equal([taxi, taxi, dinner, hotel, taxi]);
+            expect(merged!.issues).to.have.length(3);
+        });
+
+        it("should report parts that failed and give up only when all did", function () {
+            expect(mergeAnalyses([null, result([taxi])])!.issues).to.deep.equal(["Part 1 of 2 of the chat could not be analyzed"]);
+            expect(mergeAnalyses([null, null])).to.be.null;
+        });
+    });
+
+    describe("extractInChunks", function () {
+        it("should give each part its own messages and receipt photos", async function () {
+            const inputs: ExtractionInput[] = [];
+            const extractor: ExpenseExtractor = {
+                name: "fake", description: "fake", acceptsImages: true,
+                extract: async input => { inputs.push(input); return result([]); }
+            };
+            const image = (number: number) => ({ number, url: `u${number}`, messageUrl: `m${number}`, author: "alice", contentType: "image/png", size: 1 });
+            const messages = ["alice: receipt [image #1]", "bob: ok", "alice: another [image #2]"];
+
+            await extractInChunks(extractor, { messages, mentionedUsers: [], userMappingText: "", images: [image(1), image(2)] }, 40);
+
+            expect(inputs.map(input => input.messages)).to.deep.equal([messages.slice(0, 2), messages.slice(2)]);
+            expect(inputs.map(input => input.images!.map(i => i.number))).to.deep.equal([[1], [2]]);
+        });
+    });
+});
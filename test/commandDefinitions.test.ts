@@ -0,0 +1,95 @@
+import { expect } from "chai";
+import { User } from "discord.js";
+import {
+    findCommandDefinition,
+    parsePrefixArgs,
+    formatUsage,
+    buildSlashCommands,
+    getTokenSuggestions,
+    CommandArgs
+} from "../src/commands/definitions";
+
+describe("Command Definitions", function () {
+    const alice = { id: "111", tag: "alice" } as unknown as User;
+    const resolveUser = (id: string) => (id === alice.id ? alice : undefined);
+    const addDebt = findCommandDefinition("add-debt")!;
+
+    function parse(input: string): CommandArgs {
+        const result = parsePrefixArgs(addDebt, input.split(/ +/), resolveUser);
+        if ("error" in result) {
+            throw new Error(result.error);
+        }
+        return result.args;
+    }
+
+    describe("parsePrefixArgs", function () {
+        it("should parse positional arguments in definition order", function () {
+            const args = parse("<@111> 10.5 USDC pizza night");
+            expect(args.getUser("user")).to.equal(alice);
+            expect(args.getString("amount")).to.equal("10.5");
+            expect(args.getString("token")).to.equal("USDC");
+            expect(args.getString("memo")).to.equal("pizza night");
+        });
+
+        it("should not swallow the first memo word when no token is given", function () {
+            const args = parse("<@111> 10 Dinner at the station");
+            expect(args.getString("token")).to.be.undefined;
+            expect(args.getString("memo")).to.equal("Dinner at the station");
+        });
+
+        it("should accept named options in any order", function () {
+            const args = parse("<@111> token:ETH amount:0.25 memo:gas money");
+            expect(args.getString("amount")).to.equal("0.25");
+            expect(args.getString("token")).to.equal("ETH");
+            expect(args.getString("memo")).to.equal("gas money");
+        });
+
+        it("should let a named memo start with a token symbol", function () {
+            const args = parse("<@111> 5 USDC memo:eth conference tickets");
+            expect(args.getString("token")).to.equal("USDC");
+            expect(args.getString("memo")).to.equal("eth conference tickets");
+        });
+
+        it("should report a usage error when the amount is out of order", function () {
+            const result = parsePrefixArgs(addDebt, "<@111> USDC 10 lunch".split(" "), resolveUser);
+            expect(result).to.have.property("error").that.includes("Invalid value for amount: USDC");
+            expect((result as { error: string }).error).to.include(formatUsage(addDebt));
+        });
+
+        it("should report a usage error when a required option is missing", function () {
+            const result = parsePrefixArgs(findCommandDefinition("history")!, [], resolveUser);
+            expect(result).to.have.property("error").that.includes("Missing user");
+        });
+
+        it("should report unresolvable mentions", function () {
+            const result = parsePrefixArgs(addDebt, "<@999> 10".split(" "), resolveUser);
+            expect(result).to.have.property("error").that.includes("Could not resolve user");
+        });
+    });
+
+    describe("formatUsage", function () {
+        it("should format required, optional and rest options", function () {
+            expect(formatUsage(addDebt)).to.equal(">add-debt @user <amount> [token] [memo...] [split:value]");
+        });
+    });
+
+    describe("buildSlashCommands", function () {
+        it("should build a slash command for every shared definition", function () {
+            const names = buildSlashCommands().map(command => command.name);
+            expect(names).to.deep.equal(["register", "add-debt", "balance", "history", "settle", "simplify"]);
+        });
+
+        it("should enable token autocomplete", function () {
+            const balance = buildSlashCommands().find(command => command.name === "balance")!;
+            const tokenOption = balance.options!.find(option => option.name === "token") as any;
+            expect(tokenOption.autocomplete).to.be.true;
+        });
+    });
+
+    describe("getTokenSuggestions", function () {
+        it("should suggest supported tokens by prefix", function () {
+            expect(getTokenSuggestions("us")).to.deep.equal([{ name: "USDC", value: "USDC" }]);
+            expect(getTokenSuggestions("")).to.have.length(2);
+        });
+    });
+});
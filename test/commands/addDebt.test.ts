@@ -0,0 +1,141 @@
+import { expect } from "chai";
+import { ModalSubmitInteraction } from "discord.js";
+import { ethers } from "hardhat";
+import { dispatchPrefixCommand } from "../../src/commands";
+import { handleSignatureSubmission } from "../../src/interactions/signatures";
+import { DEBT_SIGNATURE_TYPES } from "../../src/signing";
+import { createTestServices, fakeMessage, fakeUser, registerOwnWallet, replyText } from "./helpers";
+
+describe("add-debt command", function () {
+    const alice = fakeUser("1001", "alice");
+    const bob = fakeUser("1002", "bob");
+
+    async function registeredServices() {
+        const services = await createTestServices();
+        services.notifier.add(alice, bob);
+        await dispatchPrefixCommand(fakeMessage(alice, ">register").message, services, ">");
+        await dispatchPrefixCommand(fakeMessage(bob, ">register").message, services, ">");
+        return services;
+    }
+
+    it("should propose the debt on-chain and DM the debtor", async function () {
+        const services = await registeredServices();
+        const { message, replies } = fakeMessage(alice, `>add-debt <@${bob.id}> 12.5 USDC dinner`, [bob]);
+
+        await dispatchPrefixCommand(message, services, ">");
+
+        expect(replyText(replies[0])).to.include("Debt proposal created");
+        const pending = await services.ledger.getPendingDebt(1n);
+        expect(pending.exists).to.be.true;
+        expect(pending.amount).to.equal(12_500_000n);
+        expect(pending.memo).to.equal("dinner");
+        expect(pending.debtor).to.equal(await services.keystore.getAddress(bob.id));
+
+        const dm = services.notifier.dmsTo(bob.id).find(payload => typeof payload !== "string") as any;
+        expect(dm.content).to.include("New Debt Proposal from alice");
+        expect(dm.components[0].components[0].data.custom_id).to.equal("agree-debt:1");
+    });
+
+    it("should propose only the debtor's share when a split is given", async function () {
+        const services = await registeredServices();
+        const { message, replies } = fakeMessage(alice, `>add-debt <@${bob.id}> 10 USDC taxi split:3`, [bob]);
+
+        await dispatchPrefixCommand(message, services, ">");
+
+        expect(replyText(replies[0])).to.include("**Amount:** 3.333333 USDC (1/3 of 10 USDC)");
+        const pending = await services.ledger.getPendingDebt(1n);
+        expect(pending.amount).to.equal(3_333_333n);
+        expect(pending.memo).to.equal("taxi");
+    });
+
+    it("should reject an invalid split", async function () {
+        const services = await registeredServices();
+        const { message, replies } = fakeMessage(alice, `>add-debt <@${bob.id}> 10 USDC split:150%`, [bob]);
+
+        await dispatchPrefixCommand(message, services, ">");
+
+        expect(replyText(replies[0])).to.include("Invalid split: 150%");
+        expect(await services.ledger.contract.pendingDebtCounter()).to.equal(0n);
+    });
+
+    it("should show the token picker when no token is given", async function () {
+        const services = await registeredServices();
+        const { message, replies } = fakeMessage(alice, `>add-debt <@${bob.id}> 5`, [bob]);
+
+        await dispatchPrefixCommand(message, services, ">");
+
+        expect(replyText(replies[0])).to.equal("Please select a token for the debt:");
+        expect(await services.ledger.contract.pendingDebtCounter()).to.equal(0n);
+    });
+
+    it("should queue the proposal when the debtor is not registered", async function () {
+        const services = await createTestServices();
+        await dispatchPrefixCommand(fakeMessage(alice, ">register").message, services, ">");
+        const { message, replies } = fakeMessage(alice, `>add-debt <@${bob.id}> 5 ETH lunch`, [bob]);
+
+        await dispatchPrefixCommand(message, services, ">");
+
+        expect(replyText(replies[0])).to.include("Proposal queued (#1)");
+        expect(replyText(replies[0])).to.include('I\'ll propose **5 ETH** for "lunch" as soon as they use `>register`');
+        expect(services.deferredProposals.forDebtor(bob.id)).to.have.length(1);
+        expect(await services.ledger.contract.pendingDebtCounter()).to.equal(0n);
+    });
+
+    it("should explain when the creditor is not registered", async function () {
+        const services = await createTestServices();
+        await dispatchPrefixCommand(fakeMessage(bob, ">register").message, services, ">");
+        const { message, replies } = fakeMessage(alice, `>add-debt <@${bob.id}> 5 ETH`, [bob]);
+
+        await dispatchPrefixCommand(message, services, ">");
+
+        expect(replyText(replies[0])).to.include("Registration Required");
+        expect(replyText(replies[0])).to.include("**You:** Not registered");
+        expect(services.deferredProposals.forDebtor(bob.id)).to.deep.equal([]);
+    });
+
+    it("should ask the creditor for a signature in non-custodial mode", async function () {
+        const services = await createTestServices("non-custodial");
+        services.notifier.add(alice, bob);
+        await registerOwnWallet(services, alice, ethers.Wallet.createRandom());
+        await registerOwnWallet(services, bob, ethers.Wallet.createRandom());
+
+        const { message, replies } = fakeMessage(alice, `>add-debt <@${bob.id}> 5 ETH lunch`, [bob]);
+        await dispatchPrefixCommand(message, services, ">");
+
+        expect(replyText(replies[0])).to.include("Signature required");
+        const dm = services.notifier.dmsTo(alice.id)[0] as any;
+        expect(dm.content).to.include("Propose a debt: **bob** owes you **5 ETH**");
+        expect(await services.ledger.contract.pendingDebtCounter()).to.equal(0n);
+    });
+
+    it("should relay several outstanding proposals from the same creditor", async function () {
+        const services = await createTestServices("non-custodial");
+        services.notifier.add(alice, bob);
+        const aliceWallet = await registerOwnWallet(services, alice, ethers.Wallet.createRandom());
+        await registerOwnWallet(services, bob, ethers.Wallet.createRandom());
+        await dispatchPrefixCommand(fakeMessage(alice, `>add-debt <@${bob.id}> 5 ETH lunch`, [bob]).message, services, ">");
+        await dispatchPrefixCommand(fakeMessage(alice, `>add-debt <@${bob.id}> 2 ETH coffee`, [bob]).message, services, ">");
+
+        const domain = await services.ledger.getSigningDomain();
+        const submit = async (dm: any): Promise<string> => {
+            const requestId = dm.components[0].components[0].data.custom_id.split(":")[1];
+            const request = services.signatures.pending.get(requestId)!.request;
+            const signature = await aliceWallet.signTypedData(domain, { ProposeDebt: DEBT_SIGNATURE_TYPES.ProposeDebt }, request.message);
+            const replies: string[] = [];
+            const interaction = {
+                user: alice,
+                reply: async (payload: any) => { replies.push(payload.content); },
+                deferReply: async () => {},
+                editReply: async (content: string) => { replies.push(content); }
+            } as unknown as ModalSubmitInteraction;
+            await handleSignatureSubmission(interaction, requestId, signature, services);
+            return replies[0];
+        };
+
+        const [lunch, coffee] = services.notifier.dmsTo(alice.id) as any[];
+        expect(await submit(coffee)).to.include("Earlier request first");
+        expect(await submit(lunch)).to.include("Debt proposal created");
+        expect(await submit(coffee)).to.include("Debt proposal created");
+        expect((await services.ledger.getPendingDebt(2n)).memo).to.equal("coffee");
+    });
+});
@@ -0,0 +1,51 @@
+import { expect } from "chai";
+import { dispatchPrefixCommand } from "../../src/commands";
+import { createTestServices, fakeGuild, fakeMessage, fakeUser, replyText } from "./helpers";
+
+describe("alias command", function () {
+    const alice = fakeUser("1001", "alice");
+    const bob = fakeUser("1002", "bob");
+    const guild = fakeGuild([alice, bob]);
+
+    type TestServices = Awaited<ReturnType<typeof createTestServices>>;
+
+    async function alias(services: TestServices, user: typeof alice, args: string): Promise<string> {
+        const { message, replies } = fakeMessage(user, `>alias ${args}`, [], guild);
+        await dispatchPrefixCommand(message, services, ">");
+        return replyText(replies[0]);
+    }
+
+    it("should add aliases for yourself and for guests, and list them by person", async function () {
+        const services = await createTestServices();
+        await dispatchPrefixCommand(fakeMessage(bob, ">register").message, services, ">");
+
+        expect(await alias(services, alice, "add 정승재")).to.include(`"정승재", bill detection will know it means <@${alice.id}>`);
+        expect(await alias(services, alice, "add jay")).to.include("✅");
+        expect(await alias(services, bob, "add 민아 guest:Mina")).to.include("it means Mina (guest)");
+
+        const list = await alias(services, bob, "list");
+        expect(list).to.include("**Aliases in this server (3):**");
+        expect(list).to.include(`• <@${alice.id}>: 정승재, jay`);
+        expect(list).to.include("• Mina (guest): 민아");
+        expect(services.identities.guests("guild-1")).to.deep.equal([{ id: "1", name: "Mina", createdBy: bob.id }]);
+    });
+
+    it("should not let an alias be taken over or removed by someone else", async function () {
+        const services = await createTestServices();
+        await alias(services, alice, "add jay");
+
+        expect(await alias(services, bob, "add JAY")).to.include(`"jay" already refers to <@${alice.id}>`);
+        expect(await alias(services, bob, "remove jay")).to.include("Only they or whoever added it can remove it");
+        expect(await alias(services, alice, "remove Jay")).to.include(`Removed the alias "jay" for <@${alice.id}>`);
+        expect(services.identities.aliases("guild-1")).to.deep.equal([]);
+    });
+
+    it("should reject mentions, names that are too short and guests from unregistered users", async function () {
+        const services = await createTestServices();
+
+        expect(await alias(services, alice, `add <@${bob.id}>`)).to.include("can't be a mention");
+        expect(await alias(services, alice, "add j")).to.include("2 to 32 characters");
+        expect(await alias(services, alice, "add 민아 guest:Mina")).to.include("Use `>register` before you add a guest");
+        expect(await alias(services, alice, "rename jay")).to.include("Usage: `>alias [action] [name...] [guest:value]`");
+    });
+});
@@ -0,0 +1,90 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { dispatchPrefixCommand } from "../../src/commands";
+import { parseTokenIdentifier } from "../../src/tokenUtils";
+import { createTestServices, fakeMessage, fakeUser, registerOwnWallet, replyText } from "./helpers";
+
+describe("balance command", function () {
+    const alice = fakeUser("1001", "alice");
+    const bob = fakeUser("1002", "bob");
+
+    async function servicesWithProposal() {
+        const services = await createTestServices();
+        services.notifier.add(alice, bob);
+        await dispatchPrefixCommand(fakeMessage(alice, ">register").message, services, ">");
+        await dispatchPrefixCommand(fakeMessage(bob, ">register").message, services, ">");
+        await dispatchPrefixCommand(fakeMessage(alice, `>add-debt <@${bob.id}> 10 USDC taxi`, [bob]).message, services, ">");
+        return services;
+    }
+
+    async function balanceFor(services: Awaited<ReturnType<typeof servicesWithProposal>>, token: string): Promise<string> {
+        const { message, replies } = fakeMessage(alice, `>balance <@${bob.id}> ${token}`, [bob]);
+        await dispatchPrefixCommand(message, services, ">");
+        return replyText(replies[0]);
+    }
+
+    it("should report unconfirmed proposals as pending", async function () {
+        const services = await servicesWithProposal();
+
+        const reply = await balanceFor(services, "USDC");
+
+        expect(reply).to.include("- They owe you: 0.0 USDC");
+        expect(reply).to.include("- They owe you (pending): 10.0 USDC");
+    });
+
+    it("should move confirmed debts out of pending", async function () {
+        const services = await servicesWithProposal();
+        const bobWallet = await services.keystore.get(bob.id);
+        await services.ledger.confirmDebt(bobWallet!.privateKey, 1n);
+
+        const reply = await balanceFor(services, "USDC");
+
+        expect(reply).to.include("- They owe you: 10.0 USDC");
+        expect(reply).to.include("- They owe you (pending): 0.0 USDC");
+    });
+
+    it("should suggest settling when you owe the other user", async function () {
+        const services = await servicesWithProposal();
+        const bobWallet = await services.keystore.get(bob.id);
+        await services.ledger.confirmDebt(bobWallet!.privateKey, 1n);
+        const { message, replies } = fakeMessage(bob, `>balance <@${alice.id}> USDC`, [alice]);
+
+        await dispatchPrefixCommand(message, services, ">");
+
+        expect(replyText(replies[0])).to.include("- You owe them: 10.0 USDC");
+        expect(replyText(replies[0])).to.include("`>settle @alice USDC`");
+    });
+
+    it("should only count debts in the requested token", async function () {
+        const services = await servicesWithProposal();
+
+        const reply = await balanceFor(services, "ETH");
+
+        expect(reply).to.include("- They owe you (pending): 0.0 ETH");
+    });
+
+    it("should reject an unknown token", async function () {
+        const services = await servicesWithProposal();
+        const { message, replies } = fakeMessage(alice, `>balance <@${bob.id}> token:0x1234`, [bob]);
+
+        await dispatchPrefixCommand(message, services, ">");
+
+        expect(replyText(replies[0])).to.include("Invalid value for token");
+    });
+
+    it("should read balances from registered addresses in non-custodial mode", async function () {
+        const services = await createTestServices("non-custodial");
+        services.notifier.add(alice, bob);
+        const aliceWallet = await registerOwnWallet(services, alice, ethers.Wallet.createRandom());
+        const bobAddress = (await registerOwnWallet(services, bob, ethers.Wallet.createRandom())).address;
+        await services.ledger.fundWallet(aliceWallet.address, ethers.parseEther("1"));
+        await services.ledger.proposeDebt(aliceWallet.privateKey, parseTokenIdentifier("USDC").address, bobAddress, 10_000_000n, "taxi");
+
+        const reply = await balanceFor(services, "USDC");
+
+        expect(reply).to.include("- They owe you (pending): 10.0 USDC");
+        // Nobody is asked for a private key the bot never held
+        expect(services.notifier.dmsTo(alice.id)).to.deep.equal([]);
+        expect(services.notifier.dmsTo(bob.id)).to.deep.equal([]);
+    });
+});
@@ -0,0 +1,101 @@
+import { expect } from "chai";
+import { ModalSubmitInteraction } from "discord.js";
+import { ethers } from "hardhat";
+import { dispatchPrefixCommand } from "../../src/commands";
+import { handleSignatureSubmission } from "../../src/interactions/signatures";
+import { DEBT_SIGNATURE_TYPES } from "../../src/signing";
+import { createTestServices, fakeMessage, fakeUser, registerOwnWallet, replyText } from "./helpers";
+
+describe("deferred proposals", function () {
+    const alice = fakeUser("1001", "alice");
+    const bob = fakeUser("1002", "bob");
+    const carol = fakeUser("1003", "carol");
+
+    type TestServices = Awaited<ReturnType<typeof createTestServices>>;
+
+    async function run(services: TestServices, user: typeof alice, content: string, mentions: (typeof alice)[] = []): Promise<string> {
+        const { message, replies } = fakeMessage(user, content, mentions);
+        await dispatchPrefixCommand(message, services, ">");
+        return replyText(replies[0]);
+    }
+
+    async function servicesWithQueue() {
+        const services = await createTestServices();
+        services.notifier.add(alice, bob, carol);
+        await run(services, alice, ">register");
+        await run(services, carol, ">register");
+        await run(services, alice, `>add-debt <@${bob.id}> 12.5 USDC dinner`, [bob]);
+        await run(services, alice, `>add-debt <@${bob.id}> 10 USDC taxi split:2`, [bob]);
+        await run(services, carol, `>add-debt <@${bob.id}> 0.01 ETH coffee`, [bob]);
+        return services;
+    }
+
+    it("should list and cancel only the creditor's own queued proposals", async function () {
+        const services = await servicesWithQueue();
+
+        const list = await run(services, alice, ">deferred list");
+        expect(list).to.include("**Proposals waiting for registration (2):**");
+        expect(list).to.include(`• **#1** <@${bob.id}> owes you 12.5 USDC for "dinner"`);
+        expect(list).to.include(`• **#2** <@${bob.id}> owes you 5.0 USDC (1/2 of 10 USDC) for "taxi"`);
+
+        expect(await run(services, alice, ">deferred cancel 3")).to.include("You have no queued proposal #3");
+        expect(await run(services, alice, ">deferred cancel #2")).to.include("Cancelled proposal #2");
+        expect(services.deferredProposals.forCreditor(alice.id).map(proposal => proposal.id)).to.deep.equal([1]);
+        expect(await run(services, bob, ">deferred")).to.include("You have no proposals waiting");
+    });
+
+    it("should propose the queue on registration, one transaction per creditor and token", async function () {
+        const services = await servicesWithQueue();
+        const blockBefore = await ethers.provider.getBlockNumber();
+
+        await run(services, bob, ">register");
+
+        // Registration, funding, then one proposal transaction each for alice and carol
+        expect(await ethers.provider.getBlockNumber()).to.equal(blockBefore + 4);
+        expect(await services.ledger.contract.pendingDebtCounter()).to.equal(3n);
+        const taxi = await services.ledger.getPendingDebt(2n);
+        expect(taxi.amount).to.equal(5_000_000n);
+        expect(taxi.memo).to.equal("taxi");
+        expect(taxi.debtor).to.equal(await services.keystore.getAddress(bob.id));
+        expect(services.deferredProposals.forDebtor(bob.id)).to.deep.equal([]);
+
+        const dms = services.notifier.dmsTo(bob.id);
+        const buttons = dms.filter(payload => typeof payload !== "string").map((payload: any) => payload.components[0].components[0].data.custom_id);
+        expect(buttons).to.deep.equal(["agree-debt:1", "agree-debt:2", "agree-debt:3"]);
+        expect(dms[dms.length - 1]).to.include("**3 debt proposal(s) were waiting for you to register**");
+
+        const aliceNote = services.notifier.dmsTo(alice.id).find(dm => typeof dm === "string" && dm.includes("bob registered")) as string;
+        expect(aliceNote).to.include('• 12.5 USDC for "dinner"');
+        expect(services.notifier.dmsTo(carol.id).some(dm => typeof dm === "string" && dm.includes("bob registered"))).to.be.true;
+    });
+
+    it("should keep queued proposals until the creditor's signed proposals are relayed in non-custodial mode", async function () {
+        const services = await createTestServices("non-custodial");
+        services.notifier.add(alice, bob);
+        const aliceWallet = await registerOwnWallet(services, alice, ethers.Wallet.createRandom());
+        expect(await run(services, alice, `>add-debt <@${bob.id}> 5 ETH lunch`, [bob])).to.include("Proposal queued (#1)");
+        await run(services, alice, `>add-debt <@${bob.id}> 2 ETH coffee`, [bob]);
+
+        await registerOwnWallet(services, bob, ethers.Wallet.createRandom());
+
+        const requests = services.notifier.dmsTo(alice.id).filter(payload => typeof payload !== "string") as any[];
+        expect(requests).to.have.length(2);
+        expect(requests[0].content).to.include("Propose a debt: **bob** owes you **5 ETH**");
+        expect(services.notifier.dmsTo(bob.id)[0]).to.include("Each creditor has been asked to sign their proposal");
+        expect(services.deferredProposals.forDebtor(bob.id)).to.have.length(2);
+
+        // Registering again doesn't ask alice to sign the same proposals twice
+        await run(services, bob, ">register");
+        expect(services.notifier.dmsTo(alice.id).filter(payload => typeof payload !== "string")).to.have.length(2);
+
+        const domain = await services.ledger.getSigningDomain();
+        for (const request of requests) {
+            const requestId = request.components[0].components[0].data.custom_id.split(":")[1];
+            const signature = await aliceWallet.signTypedData(domain, { ProposeDebt: DEBT_SIGNATURE_TYPES.ProposeDebt }, services.signatures.pending.get(requestId)!.request.message);
+            const interaction = { user: alice, reply: async () => {}, deferReply: async () => {}, editReply: async () => {} } as unknown as ModalSubmitInteraction;
+            await handleSignatureSubmission(interaction, requestId, signature, services);
+        }
+        expect(await services.ledger.contract.pendingDebtCounter()).to.equal(2n);
+        expect(services.deferredProposals.forDebtor(bob.id)).to.deep.equal([]);
+    });
+});
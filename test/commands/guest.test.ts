@@ -0,0 +1,189 @@
+import { expect } from "chai";
+import { ButtonInteraction, ModalSubmitInteraction } from "discord.js";
+import { ethers } from "hardhat";
+import { dispatchPrefixCommand } from "../../src/commands";
+import { handleDisagreeSubmission } from "../../src/interactions/debtProposals";
+import { handleGuestClaimDecision } from "../../src/interactions/guestClaims";
+import { handleSignatureSubmission } from "../../src/interactions/signatures";
+import { DEBT_SIGNATURE_TYPES } from "../../src/signing";
+import { parseTokenIdentifier } from "../../src/tokenUtils";
+import { createTestServices, fakeGuild, fakeMessage, fakeUser, registerOwnWallet, replyText } from "./helpers";
+
+describe("guest command", function () {
+    const alice = fakeUser("1001", "alice");
+    const mina = fakeUser("1003", "mina");
+    const bob = fakeUser("1002", "bob");
+    const guild = fakeGuild([alice, mina, bob]);
+    const usdc = parseTokenIdentifier("USDC").address;
+
+    type TestServices = Awaited<ReturnType<typeof createTestServices>>;
+
+    async function guest(services: TestServices, user: typeof alice, args: string): Promise<string> {
+        const { message, replies } = fakeMessage(user, `>guest ${args}`, [], guild);
+        await dispatchPrefixCommand(message, services, ">");
+        return replyText(replies[0]);
+    }
+
+    async function registeredServices() {
+        const services = await createTestServices();
+        services.notifier.add(alice, mina);
+        await dispatchPrefixCommand(fakeMessage(alice, ">register").message, services, ">");
+        return services;
+    }
+
+    it("should add guests and list what they owe", async function () {
+        const services = await registeredServices();
+
+        expect(await guest(services, alice, "add Mina")).to.include("**Mina (guest) added.**");
+        expect(await guest(services, alice, "add mina")).to.include("Mina is already a guest");
+        await services.guestDebts.add({ guildId: "guild-1", guestId: "1", creditorId: alice.id, token: usdc, amount: "12500000", memo: "dinner" });
+
+        const list = await guest(services, alice, "list");
+        expect(list).to.include("**Guests in this server (1):**");
+        expect(list).to.include(`• Mina (added by <@${alice.id}>): owes 12.5 USDC to <@${alice.id}>`);
+    });
+
+    it("should require registration to add or claim a guest", async function () {
+        const services = await createTestServices();
+
+        expect(await guest(services, alice, "add Mina")).to.include("Use `>register` before you add a guest");
+        expect(await guest(services, mina, "claim Mina")).to.include("Use `>register` before you claim a guest");
+        expect(services.identities.guests("guild-1")).to.deep.equal([]);
+    });
+
+    function decisionButton(services: TestServices, user: typeof alice) {
+        const dm = services.notifier.dmsTo(alice.id).find(payload => typeof payload !== "string" && payload.content?.includes("says they are")) as any;
+        const [action, guildId, guestId] = dm.components[0].components[0].data.custom_id.split(":");
+        const replies: any[] = [];
+        const interaction = {
+            user,
+            update: async (payload: any) => { replies.push(payload); },
+            reply: async (payload: any) => { replies.push(payload); }
+        } as unknown as ButtonInteraction;
+        return {
+            replies,
+            press: (decision: "approve" | "deny") => handleGuestClaimDecision(interaction, guildId, guestId, decision, services),
+            action
+        };
+    }
+
+    async function servicesWithHeldDebt(signingMode: "custodial" | "non-custodial" = "custodial") {
+        const services = await createTestServices(signingMode);
+        services.notifier.add(alice, mina, bob);
+        // Wallets the users would hold themselves in non-custodial mode
+        const userWallets = new Map([alice, mina, bob].map(user => [user.id, ethers.Wallet.createRandom()]));
+        const register = (user: typeof alice) => signingMode === "custodial"
+            ? dispatchPrefixCommand(fakeMessage(user, ">register").message, services, ">")
+            : registerOwnWallet(services, user, userWallets.get(user.id)!);
+        await register(alice);
+        await guest(services, alice, "add Mina");
+        await services.identities.set("guild-1", { alias: "민아", mention: "<guest:1>", addedBy: alice.id });
+        await services.guestDebts.add({ guildId: "guild-1", guestId: "1", creditorId: alice.id, token: usdc, amount: "12500000", memo: "dinner [ref:abc123]" });
+        await register(mina);
+        await register(bob);
+        return Object.assign(services, { userWallets });
+    }
+
+    it("should hand a guest's held debts to the claimer once whoever added the guest approves", async function () {
+        const services = await servicesWithHeldDebt();
+
+        expect(await guest(services, mina, "claim mina")).to.include("<@1001> added Mina and has to confirm it's you");
+        expect(await services.ledger.contract.pendingDebtCounter()).to.equal(0n);
+        const { press, replies, action } = decisionButton(services, alice);
+        expect(action).to.equal("approve-guest-claim");
+        await press("approve");
+
+        expect(replies[0].content).to.include("You confirmed that mina is Mina");
+        const pending = await services.ledger.getPendingDebt(1n);
+        expect(pending.amount).to.equal(12_500_000n);
+        expect(pending.memo).to.equal("dinner [ref:abc123]");
+        expect(pending.debtor).to.equal(await services.keystore.getAddress(mina.id));
+        expect(services.guestDebts.held("guild-1", "1")).to.deep.equal([]);
+
+        const proposal = services.notifier.dmsTo(mina.id).find(payload => typeof payload !== "string") as any;
+        expect(proposal.components[0].components[0].data.custom_id).to.equal("agree-debt:1");
+        expect(services.notifier.dmsTo(mina.id).some(dm => typeof dm === "string" && dm.includes("1 debt(s) held for them were proposed to you"))).to.be.true;
+        expect(services.notifier.dmsTo(alice.id).some(dm => typeof dm === "string" && dm.includes("Mina (guest) registered as mina"))).to.be.true;
+
+        expect(services.identities.findAlias("guild-1", "민아")?.mention).to.equal(`<@${mina.id}>`);
+        expect(await guest(services, bob, "claim Mina")).to.include(`Mina was already claimed by <@${mina.id}>`);
+        expect(await guest(services, alice, "list")).to.include(`• Mina: registered as <@${mina.id}>`);
+    });
+
+    it("should hand the debts over once when the approval is clicked twice", async function () {
+        const services = await servicesWithHeldDebt();
+        await guest(services, mina, "claim Mina");
+
+        const first = decisionButton(services, alice);
+        const second = decisionButton(services, alice);
+        await Promise.all([first.press("approve"), second.press("approve")]);
+
+        expect(second.replies[0].content).to.include("already being answered");
+        expect(await services.ledger.contract.pendingDebtCounter()).to.equal(1n);
+        await second.press("approve");
+        expect(second.replies[1].content).to.include("no longer pending");
+    });
+
+    it("should keep the debts held when the claim is turned down", async function () {
+        const services = await servicesWithHeldDebt();
+        expect(await guest(services, alice, "claim Mina")).to.include("You added Mina yourself");
+
+        await guest(services, bob, "claim Mina");
+        expect(await guest(services, mina, "claim Mina")).to.include(`<@${bob.id}> already asked to claim Mina`);
+        const asBob = decisionButton(services, bob);
+        await asBob.press("approve");
+        expect(asBob.replies[0].content).to.include("Only <@1001>, who added Mina, can answer this claim");
+
+        const asAlice = decisionButton(services, alice);
+        await asAlice.press("deny");
+        expect(asAlice.replies[0].content).to.include("You turned down bob's claim to be Mina");
+        expect(services.notifier.dmsTo(bob.id).some(dm => typeof dm === "string" && dm.includes("didn't confirm that you are Mina"))).to.be.true;
+        expect(services.identities.getGuest("guild-1", "1")).to.deep.equal({ id: "1", name: "Mina", createdBy: alice.id });
+        expect(services.guestDebts.held("guild-1", "1")).to.have.length(1);
+        expect(await services.ledger.contract.pendingDebtCounter()).to.equal(0n);
+    });
+
+    it("should hold a debt again when the claimer rejects its proposal", async function () {
+        const services = await servicesWithHeldDebt();
+        await guest(services, mina, "claim Mina");
+        await decisionButton(services, alice).press("approve");
+
+        const interaction = {
+            user: mina,
+            fields: { getTextInputValue: () => "Not my dinner" },
+            reply: async () => {}
+        } as unknown as ModalSubmitInteraction;
+        await handleDisagreeSubmission(interaction, 1n, services);
+
+        const [held] = services.guestDebts.held("guild-1", "1");
+        expect(held.memo).to.equal("dinner [ref:abc123]");
+        expect(held.pendingDebtId).to.be.undefined;
+        expect(await guest(services, alice, "list")).to.include(`• Mina: registered as <@${mina.id}>, still holding 12.5 USDC to <@${alice.id}>`);
+    });
+
+    it("should only count a debt as migrated once the creditor's signed proposal is relayed in non-custodial mode", async function () {
+        const services = await servicesWithHeldDebt("non-custodial");
+        await guest(services, mina, "claim Mina");
+        await decisionButton(services, alice).press("approve");
+
+        expect(services.guestDebts.held("guild-1", "1")).to.have.length(1);
+        // Claiming again doesn't ask the creditor to sign the same debt twice
+        expect(await guest(services, mina, "claim Mina")).to.not.include("sent to their creditors to sign");
+        const requests = services.notifier.dmsTo(alice.id).filter(payload => typeof payload !== "string" && payload.content?.includes("Signature Required")) as any[];
+        expect(requests).to.have.length(1);
+
+        const [pending] = services.signatures.pending.list();
+        const signature = await services.userWallets.get(alice.id)!.signTypedData(await services.ledger.getSigningDomain(), { ProposeDebt: DEBT_SIGNATURE_TYPES.ProposeDebt }, pending.request.message);
+        const submitButton = requests[0].components[0].components.find((button: any) => button.data.custom_id.startsWith("submit-signature:"));
+        const interaction = {
+            user: alice,
+            reply: async () => {},
+            deferReply: async () => {},
+            editReply: async () => {}
+        } as unknown as ModalSubmitInteraction;
+        await handleSignatureSubmission(interaction, submitButton.data.custom_id.split(":")[1], signature, services);
+
+        expect(services.guestDebts.held("guild-1", "1")).to.deep.equal([]);
+        expect((await services.ledger.getPendingDebt(1n)).memo).to.equal("dinner [ref:abc123]");
+    });
+});
@@ -0,0 +1,135 @@
+import { Guild, Message, MessageCreateOptions, User } from "discord.js";
+import { BaseWallet } from "ethers";
+import { ethers } from "hardhat";
+import { dispatchPrefixCommand } from "../../src/commands";
+import { ExtractorRegistry } from "../../src/billDetection/extractor";
+import { RuleBasedExtractor } from "../../src/billDetection/ruleBased";
+import { NetworkInfo } from "../../src/config";
+import { Keystore, MemoryKeystoreBackend } from "../../src/keystore";
+import { BotServices } from "../../src/services";
+import { DeferredProposalStore, MemoryDeferredProposalBackend } from "../../src/services/deferredProposals";
+import { EventStore } from "../../src/services/eventStore";
+import { FxService, StaticRateProvider } from "../../src/services/fx";
+import { GuildSettingsStore, MemoryGuildSettingsBackend } from "../../src/services/guildSettings";
+import { GuestDebtStore, MemoryGuestDebtBackend } from "../../src/services/guestDebts";
+import { IdentityStore, MemoryIdentityBackend } from "../../src/services/identities";
+import { EventIndexer } from "../../src/services/indexer";
+import { LedgerService } from "../../src/services/ledger";
+import { Notifier } from "../../src/services/notifier";
+import { MemoryPendingAnalysisBackend, PendingAnalysisStore } from "../../src/services/pendingAnalyses";
+import { SignatureService } from "../../src/services/signatures";
+import { WalletService } from "../../src/services/wallets";
+import { SigningMode } from "../../src/signing";
+
+// Minimal Discord stand-ins for exercising commands without a gateway connection
+
+export function fakeUser(id: string, username: string): User {
+    return { id, username, tag: username, displayName: username, bot: false, send: async () => {} } as unknown as User;
+}
+
+export interface FakeMessage {
+    message: Message;
+    replies: any[];
+}
+
+// A server whose member list contains only the given users
+export function fakeGuild(members: User[]): Guild {
+    return {
+        id: "guild-1",
+        members: {
+            fetch: async (id: string) => {
+                const user = members.find(member => member.id === id);
+                if (!user) throw new Error("Unknown Member");
+                return { id, user };
+            }
+        }
+    } as unknown as Guild;
+}
+
+export function fakeMessage(author: User, content: string, mentions: User[] = [], guild: Guild | null = null): FakeMessage {
+    const replies: any[] = [];
+    const message = {
+        id: `${Date.now()}${Math.floor(Math.random() * 1000)}`,
+        author,
+        content,
+        guild,
+        mentions: { users: new Map(mentions.map(user => [user.id, user])) },
+        reply: async (payload: any) => { replies.push(payload); },
+        delete: async () => {}
+    } as unknown as Message;
+    return { message, replies };
+}
+
+// Text of a reply whether it was sent as a string or as message options
+export function replyText(reply: any): string {
+    return typeof reply === "string" ? reply : reply.content;
+}
+
+export class FakeNotifier implements Notifier {
+    readonly users = new Map<string, User>();
+    readonly sent: { userId: string; payload: string | MessageCreateOptions }[] = [];
+
+    add(...users: User[]): void {
+        for (const user of users) this.users.set(user.id, user);
+    }
+
+    async fetchUser(discordId: string): Promise<User> {
+        const user = this.users.get(discordId);
+        if (!user) throw new Error(`Unknown user ${discordId}`);
+        return user;
+    }
+
+    async sendDM(user: User, payload: string | MessageCreateOptions): Promise<void> {
+        this.sent.push({ userId: user.id, payload });
+    }
+
+    dmsTo(discordId: string): (string | MessageCreateOptions)[] {
+        return this.sent.filter(dm => dm.userId === discordId).map(dm => dm.payload);
+    }
+}
+
+/**
+ * Deploys a fresh contract and wires the bot services to it, with the first
+ * Hardhat signer acting as the bot wallet
+ */
+export async function createTestServices(signingMode: SigningMode = "custodial"): Promise<BotServices & { notifier: FakeNotifier; keystore: Keystore }> {
+    const [botSigner] = await ethers.getSigners();
+    const factory = await ethers.getContractFactory("BillTheAccountant");
+    const contract = await factory.deploy();
+    await contract.waitForDeployment();
+
+    const ledger = new LedgerService(await contract.getAddress(), botSigner);
+    const indexer = new EventIndexer(await EventStore.open(), ethers.provider, await contract.getAddress());
+    const keystore = new Keystore(new MemoryKeystoreBackend(), "test-secret");
+    const notifier = new FakeNotifier();
+    return {
+        ledger,
+        indexer,
+        wallets: new WalletService(ledger, signingMode === "custodial" ? keystore : null, signingMode),
+        notifier,
+        signatures: new SignatureService(ledger, notifier),
+        pendingAnalyses: await PendingAnalysisStore.open(new MemoryPendingAnalysisBackend(), 24 * 60 * 60 * 1000),
+        network: new NetworkInfo("http://127.0.0.1:8545"),
+        fx: new FxService([new StaticRateProvider({ base: "USD", rates: { KRW: 1400 } })]),
+        signingMode,
+        extractors: new ExtractorRegistry([new RuleBasedExtractor()], "rules", await GuildSettingsStore.open(new MemoryGuildSettingsBackend())),
+        ocr: null,
+        identities: await IdentityStore.open(new MemoryIdentityBackend()),
+        guestDebts: await GuestDebtStore.open(new MemoryGuestDebtBackend()),
+        deferredProposals: await DeferredProposalStore.open(new MemoryDeferredProposalBackend()),
+        keystore
+    };
+}
+
+/**
+ * Registers a wallet in non-custodial mode the way its owner would: asks for the
+ * registration message, signs it and registers again with the signature
+ * @returns The registered wallet
+ */
+export async function registerOwnWallet<T extends BaseWallet>(services: BotServices, user: User, wallet: T): Promise<T> {
+    const { message, replies } = fakeMessage(user, `>register ${wallet.address}`);
+    await dispatchPrefixCommand(message, services, ">");
+    const challenge = replyText(replies[0]).match(/```\n([\s\S]*?)\n```/)![1];
+    await dispatchPrefixCommand(fakeMessage(user, `>register ${wallet.address} ${await wallet.signMessage(challenge)}`).message, services, ">");
+    return wallet;
+}
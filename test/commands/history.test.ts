@@ -0,0 +1,74 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { dispatchPrefixCommand } from "../../src/commands";
+import { parseTokenIdentifier } from "../../src/tokenUtils";
+import { createTestServices, fakeMessage, fakeUser, registerOwnWallet, replyText } from "./helpers";
+
+describe("history command", function () {
+    const alice = fakeUser("1001", "alice");
+    const bob = fakeUser("1002", "bob");
+
+    async function registeredServices() {
+        const services = await createTestServices();
+        services.notifier.add(alice, bob);
+        await dispatchPrefixCommand(fakeMessage(alice, ">register").message, services, ">");
+        await dispatchPrefixCommand(fakeMessage(bob, ">register").message, services, ">");
+        return services;
+    }
+
+    async function historyFor(services: Awaited<ReturnType<typeof registeredServices>>): Promise<string> {
+        const { message, replies } = fakeMessage(alice, `>history <@${bob.id}>`, [bob]);
+        await dispatchPrefixCommand(message, services, ">");
+        return replyText(replies[0]);
+    }
+
+    it("should say when there is no history", async function () {
+        const services = await registeredServices();
+
+        expect(await historyFor(services)).to.equal("No history found with this user.");
+    });
+
+    it("should list confirmed and pending debts", async function () {
+        const services = await registeredServices();
+        await dispatchPrefixCommand(fakeMessage(alice, `>add-debt <@${bob.id}> 10 USDC taxi`, [bob]).message, services, ">");
+        await dispatchPrefixCommand(fakeMessage(bob, `>add-debt <@${alice.id}> 3 USDC coffee`, [alice]).message, services, ">");
+        const bobWallet = await services.keystore.get(bob.id);
+        await services.ledger.confirmDebt(bobWallet!.privateKey, 1n);
+
+        const history = await historyFor(services);
+
+        expect(history).to.match(/\*\*Confirmed Debts:\*\*\n\[.+\] taxi - Amount: 10\.0 USDC\n/);
+        expect(history).to.include("(Pending) coffee - Amount: 3.0 USDC");
+        expect(history).to.not.include("(Pending) taxi");
+    });
+
+    it("should require both users to be registered", async function () {
+        const services = await createTestServices();
+        const reply = await historyFor(services);
+
+        expect(reply).to.include("Registration Required for History");
+        expect(reply).to.include("**You:** Not registered");
+    });
+
+    it("should list debts between registered addresses in non-custodial mode", async function () {
+        const services = await createTestServices("non-custodial");
+        services.notifier.add(alice, bob);
+        const aliceWallet = await registerOwnWallet(services, alice, ethers.Wallet.createRandom());
+        const bobAddress = (await registerOwnWallet(services, bob, ethers.Wallet.createRandom())).address;
+        await services.ledger.fundWallet(aliceWallet.address, ethers.parseEther("1"));
+        await services.ledger.proposeDebt(aliceWallet.privateKey, parseTokenIdentifier("USDC").address, bobAddress, 10_000_000n, "taxi");
+
+        expect(await historyFor(services)).to.include("(Pending) taxi - Amount: 10.0 USDC");
+        expect(services.notifier.dmsTo(alice.id)).to.deep.equal([]);
+    });
+
+    it("should not treat non-custodial users as orphaned registrations", async function () {
+        const services = await createTestServices("non-custodial");
+        await registerOwnWallet(services, alice, ethers.Wallet.createRandom());
+
+        expect(await services.wallets.isOrphanedRegistration(alice.id)).to.deep.equal({ isOrphaned: false });
+        const reply = await historyFor(services);
+        expect(reply).to.include("**@bob:** Not registered. They should use `>register <their_wallet_address>`");
+        expect(reply).to.not.include("**You:**");
+    });
+});
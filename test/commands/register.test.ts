@@ -0,0 +1,109 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { dispatchPrefixCommand } from "../../src/commands";
+import { createTestServices, fakeMessage, fakeUser, replyText } from "./helpers";
+
+describe("register command", function () {
+    const alice = fakeUser("1001", "alice");
+    const bob = fakeUser("1002", "bob");
+
+    it("should create, store and fund a custodial wallet", async function () {
+        const services = await createTestServices();
+        const { message, replies } = fakeMessage(alice, ">register");
+
+        expect(await dispatchPrefixCommand(message, services, ">")).to.be.true;
+
+        const stored = await services.keystore.get(alice.id);
+        expect(stored).to.not.be.null;
+        expect(await services.ledger.getRegisteredAddress(alice.id)).to.equal(stored!.address);
+        expect(await services.ledger.getEthBalance(stored!.address)).to.equal(ethers.parseEther("10"));
+        expect(replyText(replies[0])).to.include("sent you a DM");
+        expect(services.notifier.dmsTo(alice.id)[0]).to.include(stored!.privateKey);
+    });
+
+    it("should not replace an existing wallet", async function () {
+        const services = await createTestServices();
+        await dispatchPrefixCommand(fakeMessage(alice, ">register").message, services, ">");
+        const first = await services.keystore.getAddress(alice.id);
+
+        const { message, replies } = fakeMessage(alice, ">register");
+        await dispatchPrefixCommand(message, services, ">");
+
+        expect(replyText(replies[0])).to.include("already registered");
+        expect(await services.keystore.getAddress(alice.id)).to.equal(first);
+    });
+
+    it("should not register on-chain when the wallet can't be saved", async function () {
+        const services = await createTestServices();
+        services.keystore.set = async () => { throw new Error("disk full"); };
+        const { message, replies } = fakeMessage(alice, ">register");
+
+        await dispatchPrefixCommand(message, services, ">");
+
+        expect(replyText(replies[0])).to.include("Failed to save your new wallet: disk full");
+        expect(await services.ledger.getRegisteredAddress(alice.id)).to.be.null;
+        expect(services.notifier.dmsTo(alice.id)).to.deep.equal([]);
+    });
+
+    it("should forget the saved wallet when on-chain registration fails", async function () {
+        const services = await createTestServices();
+        services.ledger.registerUser = async () => { throw new Error("nonce too low"); };
+        const { message, replies } = fakeMessage(alice, ">register");
+
+        await dispatchPrefixCommand(message, services, ">");
+
+        expect(replyText(replies[0])).to.include("Failed to register on blockchain: nonce too low");
+        expect(await services.keystore.get(alice.id)).to.be.null;
+    });
+
+    it("should not hand out an unusable wallet on reset", async function () {
+        const services = await createTestServices();
+        await services.ledger.registerUser(alice.id, ethers.Wallet.createRandom().address);
+        const { message, replies } = fakeMessage(alice, ">reset-wallet");
+
+        await dispatchPrefixCommand(message, services, ">");
+
+        expect(replyText(replies[0])).to.include("Wallet Reset Requires an Admin");
+        expect(await services.keystore.get(alice.id)).to.be.null;
+        expect(services.notifier.dmsTo(alice.id)).to.deep.equal([]);
+    });
+
+    describe("non-custodial mode", function () {
+        it("should link the provided address once its wallet signs the registration message", async function () {
+            const services = await createTestServices("non-custodial");
+            const wallet = ethers.Wallet.createRandom();
+            const register = async (user: typeof alice, content: string) => {
+                const { message, replies } = fakeMessage(user, content);
+                await dispatchPrefixCommand(message, services, ">");
+                return replyText(replies[0]);
+            };
+
+            const challengeReply = await register(alice, `>register ${wallet.address}`);
+            expect(challengeReply).to.include("Prove you own this wallet");
+            expect(await services.ledger.getRegisteredAddress(alice.id)).to.be.null;
+            const challenge = challengeReply.match(/```\n([\s\S]*?)\n```/)![1];
+            expect(challenge).to.include(`Discord user ${alice.id}`);
+
+            // Someone else can't use the signature, and another wallet's signature doesn't count
+            const signature = await wallet.signMessage(challenge);
+            expect(await register(bob, `>register ${wallet.address} ${signature}`)).to.include("Signature doesn't match");
+            const otherSignature = await ethers.Wallet.createRandom().signMessage(challenge);
+            expect(await register(alice, `>register ${wallet.address} ${otherSignature}`)).to.include("Signature doesn't match");
+            expect(await services.ledger.getRegisteredAddress(alice.id)).to.be.null;
+
+            expect(await register(alice, `>register ${wallet.address} ${signature}`)).to.include(wallet.address);
+            expect(await services.ledger.getRegisteredAddress(alice.id)).to.equal(wallet.address);
+            expect(await services.keystore.get(alice.id)).to.be.null;
+        });
+
+        it("should ask for an address when none is given", async function () {
+            const services = await createTestServices("non-custodial");
+            const { message, replies } = fakeMessage(alice, ">register");
+
+            await dispatchPrefixCommand(message, services, ">");
+
+            expect(replyText(replies[0])).to.include("Usage: `>register <your_wallet_address>`");
+            expect(await services.ledger.getRegisteredAddress(alice.id)).to.be.null;
+        });
+    });
+});
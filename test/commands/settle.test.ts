@@ -0,0 +1,96 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { dispatchPrefixCommand } from "../../src/commands";
+import { MockERC20 } from "../../typechain-types";
+import { createTestServices, fakeMessage, fakeUser, replyText } from "./helpers";
+
+describe("settle command", function () {
+    const alice = fakeUser("1001", "alice");
+    const bob = fakeUser("1002", "bob");
+
+    type TestServices = Awaited<ReturnType<typeof createTestServices>>;
+
+    // alice owes bob 10 tokens and holds 100 of them
+    async function servicesWithDebt(): Promise<{ services: TestServices; token: MockERC20; tokenAddress: string }> {
+        const services = await createTestServices();
+        services.notifier.add(alice, bob);
+        await dispatchPrefixCommand(fakeMessage(alice, ">register").message, services, ">");
+        await dispatchPrefixCommand(fakeMessage(bob, ">register").message, services, ">");
+
+        const factory = await ethers.getContractFactory("MockERC20");
+        const token = (await factory.deploy("Mock Token", "MT")) as unknown as MockERC20;
+        const tokenAddress = await token.getAddress();
+
+        const aliceWallet = await services.keystore.get(alice.id);
+        await token.transfer(aliceWallet!.address, ethers.parseEther("100"));
+        await dispatchPrefixCommand(fakeMessage(bob, `>add-debt <@${alice.id}> 10 ${tokenAddress} lunch`, [alice]).message, services, ">");
+        await services.ledger.confirmDebt(aliceWallet!.privateKey, await services.ledger.contract.pendingDebtCounter());
+        services.notifier.sent.length = 0;
+        return { services, token, tokenAddress };
+    }
+
+    async function settle(services: TestServices, args: string): Promise<string> {
+        const { message, replies } = fakeMessage(alice, `>settle <@${bob.id}> ${args}`, [bob]);
+        await dispatchPrefixCommand(message, services, ">");
+        return replyText(replies[0]);
+    }
+
+    it("should approve the token, pay part of the debt and DM both receipts", async function () {
+        const { services, token, tokenAddress } = await servicesWithDebt();
+        const [aliceWallet, bobWallet] = await Promise.all([services.keystore.get(alice.id), services.keystore.get(bob.id)]);
+
+        const reply = await settle(services, `${tokenAddress} 4`);
+
+        expect(reply).to.include("Debt settled!");
+        expect(reply).to.include("Remaining debt: 6.0");
+        expect(await token.balanceOf(bobWallet!.address)).to.equal(ethers.parseEther("4"));
+        expect(await services.ledger.getDebt(tokenAddress, aliceWallet!.address, bobWallet!.address)).to.equal(ethers.parseEther("6"));
+        for (const user of [alice, bob]) {
+            const [receipt] = services.notifier.dmsTo(user.id) as string[];
+            expect(receipt).to.include("Debt Settlement Receipt");
+            expect(receipt).to.include("Amount: 4.0");
+        }
+    });
+
+    it("should pay the whole debt when no amount is given", async function () {
+        const { services, tokenAddress } = await servicesWithDebt();
+        const [aliceWallet, bobWallet] = await Promise.all([services.keystore.get(alice.id), services.keystore.get(bob.id)]);
+
+        const reply = await settle(services, tokenAddress);
+
+        expect(reply).to.include("Remaining debt: 0.0");
+        expect(await services.ledger.getDebt(tokenAddress, aliceWallet!.address, bobWallet!.address)).to.equal(0n);
+    });
+
+    it("should settle native ETH debts by sending the value", async function () {
+        const { services } = await servicesWithDebt();
+        const [aliceWallet, bobWallet] = await Promise.all([services.keystore.get(alice.id), services.keystore.get(bob.id)]);
+        await dispatchPrefixCommand(fakeMessage(bob, `>add-debt <@${alice.id}> 1 ETH dinner`, [alice]).message, services, ">");
+        await services.ledger.confirmDebt(aliceWallet!.privateKey, await services.ledger.contract.pendingDebtCounter());
+        const bobBalanceBefore = await ethers.provider.getBalance(bobWallet!.address);
+
+        const reply = await settle(services, "ETH 0.4");
+
+        expect(reply).to.include("You paid bob **0.4 ETH**");
+        expect(reply).to.include("Remaining debt: 0.6 ETH");
+        expect(await ethers.provider.getBalance(bobWallet!.address)).to.equal(bobBalanceBefore + ethers.parseEther("0.4"));
+    });
+
+    it("should refuse to pay more than is owed", async function () {
+        const { services, tokenAddress } = await servicesWithDebt();
+
+        const reply = await settle(services, `${tokenAddress} 11`);
+
+        expect(reply).to.include("You only owe 10.0");
+        expect(services.notifier.sent).to.have.length(0);
+    });
+
+    it("should report when nothing is owed", async function () {
+        const { services, tokenAddress } = await servicesWithDebt();
+        const { message, replies } = fakeMessage(bob, `>settle <@${alice.id}> ${tokenAddress}`, [alice]);
+
+        await dispatchPrefixCommand(message, services, ">");
+
+        expect(replyText(replies[0])).to.include("You don't owe alice");
+    });
+});
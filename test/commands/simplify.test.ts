@@ -0,0 +1,91 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { dispatchPrefixCommand } from "../../src/commands";
+import { SUPPORTED_TOKENS } from "../../src/tokenUtils";
+import { createTestServices, fakeGuild, fakeMessage, fakeUser, replyText } from "./helpers";
+
+describe("simplify command", function () {
+    const alice = fakeUser("1001", "alice");
+    const bob = fakeUser("1002", "bob");
+    const carol = fakeUser("1003", "carol");
+    const ETH = SUPPORTED_TOKENS.ETH.address;
+
+    type TestServices = Awaited<ReturnType<typeof createTestServices>>;
+
+    async function addConfirmedDebt(services: TestServices, creditor: typeof alice, debtor: typeof alice, amount: string) {
+        await dispatchPrefixCommand(fakeMessage(creditor, `>add-debt <@${debtor.id}> ${amount} ETH chain`, [debtor]).message, services, ">");
+        const debtorWallet = await services.keystore.get(debtor.id);
+        await services.ledger.confirmDebt(debtorWallet!.privateKey, await services.ledger.contract.pendingDebtCounter());
+    }
+
+    // alice owes bob 10 ETH, and bob owes carol 10 ETH
+    async function servicesWithChain() {
+        const services = await createTestServices();
+        services.notifier.add(alice, bob, carol);
+        for (const user of [alice, bob, carol]) {
+            await dispatchPrefixCommand(fakeMessage(user, ">register").message, services, ">");
+        }
+        await addConfirmedDebt(services, bob, alice, "10");
+        await addConfirmedDebt(services, carol, bob, "10");
+        services.notifier.sent.length = 0;
+        return services;
+    }
+
+    async function simplify(services: TestServices, members: typeof alice[]): Promise<string> {
+        const { message, replies } = fakeMessage(alice, ">simplify ETH", [], fakeGuild(members));
+        await dispatchPrefixCommand(message, services, ">");
+        return replyText(replies[0]);
+    }
+
+    it("should propose the minimum transfers and ask every participant to approve", async function () {
+        const services = await servicesWithChain();
+
+        const reply = await simplify(services, [alice, bob, carol]);
+
+        expect(reply).to.include("**Current debts (2):**");
+        expect(reply).to.include("**Simplified debts (1):**");
+        expect(reply).to.include(`• <@${alice.id}> owes <@${carol.id}> 10.0 ETH`);
+        for (const user of [alice, bob, carol]) {
+            const dms = services.notifier.dmsTo(user.id);
+            expect(dms).to.have.length(1);
+            expect((dms[0] as any).components).to.have.length(1);
+        }
+        const plan = await services.ledger.getSimplification(1n);
+        expect(plan.transfers).to.have.length(1);
+    });
+
+    it("should replace the indexed balances once everyone approves", async function () {
+        const services = await servicesWithChain();
+        await simplify(services, [alice, bob, carol]);
+
+        for (const user of [alice, bob, carol]) {
+            const wallet = await services.keystore.get(user.id);
+            await services.ledger.approveSimplification(wallet!.privateKey, 1n);
+        }
+        await services.indexer.sync();
+
+        const [aliceWallet, bobWallet, carolWallet] = await Promise.all([alice, bob, carol].map(user => services.keystore.get(user.id)));
+        const events = services.indexer.store;
+        expect(events.getDebt(ETH, aliceWallet!.address, carolWallet!.address)).to.equal(ethers.parseEther("10"));
+        expect(events.getDebt(ETH, aliceWallet!.address, bobWallet!.address)).to.equal(0n);
+        expect(events.getDebt(ETH, bobWallet!.address, carolWallet!.address)).to.equal(0n);
+    });
+
+    it("should ignore debts with users outside the server", async function () {
+        const services = await servicesWithChain();
+
+        const reply = await simplify(services, [alice, bob]);
+
+        expect(reply).to.include("Nothing to simplify");
+        expect(services.notifier.sent).to.have.length(0);
+    });
+
+    it("should only work in a server channel", async function () {
+        const services = await servicesWithChain();
+        const { message, replies } = fakeMessage(alice, ">simplify");
+
+        await dispatchPrefixCommand(message, services, ">");
+
+        expect(replyText(replies[0])).to.include("only works in a server channel");
+    });
+});
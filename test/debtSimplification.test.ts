@@ -0,0 +1,80 @@
+import { expect } from "chai";
+import { computeNetPositions, DebtTransfer, planMinimumTransfers } from "../src/debtSimplification";
+
+describe("Debt Simplification", function () {
+    describe("computeNetPositions", function () {
+        it("should credit creditors and debit debtors", function () {
+            const positions = computeNetPositions([
+                { debtor: "A", creditor: "B", amount: 10n },
+                { debtor: "B", creditor: "C", amount: 4n }
+            ]);
+            expect(positions.get("A")).to.equal(-10n);
+            expect(positions.get("B")).to.equal(6n);
+            expect(positions.get("C")).to.equal(4n);
+        });
+    });
+
+    describe("planMinimumTransfers", function () {
+        it("should collapse a chain of debts into one transfer", function () {
+            const plan = planMinimumTransfers(computeNetPositions([
+                { debtor: "A", creditor: "B", amount: 10n },
+                { debtor: "B", creditor: "C", amount: 10n }
+            ]));
+            expect(plan).to.deep.equal([{ debtor: "A", creditor: "C", amount: 10n }]);
+        });
+
+        it("should drop a cycle entirely", function () {
+            const plan = planMinimumTransfers(computeNetPositions([
+                { debtor: "A", creditor: "B", amount: 5n },
+                { debtor: "B", creditor: "C", amount: 5n },
+                { debtor: "C", creditor: "A", amount: 5n }
+            ]));
+            expect(plan).to.deep.equal([]);
+        });
+
+        it("should have the largest debtor pay the largest creditor first", function () {
+            const positions = new Map([["A", -7n], ["B", -3n], ["C", 6n], ["D", 4n]]);
+            expect(planMinimumTransfers(positions)).to.deep.equal([
+                { debtor: "A", creditor: "C", amount: 6n },
+                { debtor: "B", creditor: "D", amount: 3n },
+                { debtor: "A", creditor: "D", amount: 1n }
+            ]);
+        });
+
+        it("should reject positions that do not sum to zero", function () {
+            expect(() => planMinimumTransfers(new Map([["A", -5n], ["B", 4n]]))).to.throw("must sum to zero");
+        });
+
+        it("should preserve net positions using at most n - 1 transfers for random groups", function () {
+            // Small linear congruential generator so failures are reproducible
+            let seed = 42;
+            const next = (max: number) => {
+                seed = (seed * 1103515245 + 12345) % 2147483648;
+                return seed % max;
+            };
+
+            for (let round = 0; round < 200; round++) {
+                const people = Array.from({ length: 2 + next(6) }, (_, i) => `P${i}`);
+                const debts: DebtTransfer[] = [];
+                for (let i = 0; i < 1 + next(12); i++) {
+                    const debtor = people[next(people.length)];
+                    const creditor = people[next(people.length)];
+                    if (debtor !== creditor) {
+                        debts.push({ debtor, creditor, amount: BigInt(1 + next(1000)) });
+                    }
+                }
+
+                const positions = computeNetPositions(debts);
+                const plan = planMinimumTransfers(positions);
+                const planned = computeNetPositions(plan);
+
+                for (const [person, amount] of positions) {
+                    expect(planned.get(person) ?? 0n, `round ${round}, ${person}`).to.equal(amount);
+                }
+                const nonZero = [...positions.values()].filter(amount => amount !== 0n).length;
+                expect(plan.length).to.be.at.most(Math.max(nonZero - 1, 0));
+                expect(plan.every(transfer => transfer.amount > 0n)).to.be.true;
+            }
+        });
+    });
+});
@@ -0,0 +1,164 @@
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ethers, network } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { BillTheAccountant, MockERC20 } from "../typechain-types";
+import { EventStore } from "../src/services/eventStore";
+import { EventIndexer } from "../src/services/indexer";
+
+describe("EventIndexer", function () {
+    let contract: BillTheAccountant;
+    let token: MockERC20;
+    let creditor: HardhatEthersSigner, debtor: HardhatEthersSigner;
+    let tokenAddress: string;
+
+    async function createIndexer(store?: EventStore): Promise<EventIndexer> {
+        return new EventIndexer(store ?? await EventStore.open(), ethers.provider, await contract.getAddress(), { batchSize: 5 });
+    }
+
+    async function propose(amount: bigint, memo: string) {
+        await contract.connect(creditor).proposeDebt(tokenAddress, debtor.address, amount, memo);
+        return contract.pendingDebtCounter();
+    }
+
+    beforeEach(async function () {
+        [, creditor, debtor] = await ethers.getSigners();
+
+        const MockERC20Factory = await ethers.getContractFactory("MockERC20");
+        token = (await MockERC20Factory.deploy("Mock Token", "MT")) as unknown as MockERC20;
+        tokenAddress = await token.getAddress();
+
+        const BillTheAccountantFactory = await ethers.getContractFactory("BillTheAccountant");
+        contract = (await BillTheAccountantFactory.deploy()) as unknown as BillTheAccountant;
+    });
+
+    it("should track proposals until they are confirmed or rejected", async function () {
+        const confirmedId = await propose(100n, "dinner");
+        const rejectedId = await propose(50n, "taxi");
+        await propose(25n, "coffee");
+        await contract.connect(debtor).confirmDebt(confirmedId);
+        await contract.connect(debtor).rejectDebt(rejectedId);
+
+        const indexer = await createIndexer();
+        await indexer.sync();
+
+        const pending = indexer.store.getPendingProposalsBetween(debtor.address, creditor.address);
+        expect(pending.map(p => p.memo)).to.deep.equal(["coffee"]);
+        expect(indexer.store.getProposalStatus(confirmedId)).to.equal("confirmed");
+        expect(indexer.store.getProposalStatus(rejectedId)).to.equal("rejected");
+
+        const confirmed = indexer.store.getConfirmedDebtsBetween(creditor.address, debtor.address);
+        expect(confirmed).to.have.length(1);
+        expect(confirmed[0].amount).to.equal(100n);
+        expect(confirmed[0].debtor).to.equal(debtor.address);
+    });
+
+    it("should compute balances that match the contract after netting and partial settlement", async function () {
+        await contract.connect(debtor).confirmDebt(await propose(100n, "dinner"));
+        await contract.connect(creditor).proposeDebt(tokenAddress, debtor.address, 30n, "lunch");
+        await contract.connect(debtor).confirmDebt(await contract.pendingDebtCounter());
+        await contract.connect(debtor).proposeDebt(tokenAddress, creditor.address, 40n, "groceries");
+        await contract.connect(creditor).confirmDebt(await contract.pendingDebtCounter());
+
+        const indexer = await createIndexer();
+        await indexer.sync();
+        expect(indexer.store.getDebt(tokenAddress, debtor.address, creditor.address))
+            .to.equal(await contract.debts(tokenAddress, debtor.address, creditor.address))
+            .and.to.equal(90n);
+        expect(indexer.store.getDebt(tokenAddress, creditor.address, debtor.address)).to.equal(0n);
+
+        await token.transfer(debtor.address, 1000n);
+        await token.connect(debtor).approve(await contract.getAddress(), 90n);
+        await contract.connect(debtor).settleDebt(tokenAddress, creditor.address, 60n);
+        await indexer.sync();
+
+        expect(indexer.store.getDebt(tokenAddress, debtor.address, creditor.address)).to.equal(30n);
+        expect(indexer.store.getSettlementsBetween(creditor.address, debtor.address)[0].amount).to.equal(60n);
+    });
+
+    it("should build on simplified balances for debts added afterwards", async function () {
+        const [, , , third] = await ethers.getSigners();
+        await contract.connect(debtor).confirmDebt(await propose(100n, "dinner"));
+        await contract.connect(third).proposeDebt(tokenAddress, creditor.address, 100n, "tickets");
+        await contract.connect(creditor).confirmDebt(await contract.pendingDebtCounter());
+
+        // debtor owes creditor, who owes third: collapse to debtor owing third
+        const participants = [debtor.address, creditor.address, third.address];
+        await contract.proposeSimplification(tokenAddress, participants, [debtor.address], [third.address], [100n]);
+        for (const participant of [debtor, creditor, third]) {
+            await contract.connect(participant).approveSimplification(1n);
+        }
+        await contract.connect(debtor).confirmDebt(await propose(30n, "taxi"));
+
+        const indexer = await createIndexer();
+        await indexer.sync();
+
+        for (const [from, to] of [[debtor, creditor], [creditor, third], [debtor, third], [third, debtor]]) {
+            expect(indexer.store.getDebt(tokenAddress, from.address, to.address), `${from.address} -> ${to.address}`)
+                .to.equal(await contract.debts(tokenAddress, from.address, to.address));
+        }
+        expect(indexer.store.getDebt(tokenAddress, debtor.address, creditor.address)).to.equal(30n);
+    });
+
+    it("should resume from its checkpoint without duplicating events", async function () {
+        const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "events-"));
+        const filePath = path.join(tmpDir, "events.sqlite");
+        try {
+            await propose(100n, "dinner");
+            const first = await createIndexer(await EventStore.open(filePath));
+            await first.sync();
+            const checkpoint = first.store.getCheckpoint();
+            expect(checkpoint).to.equal(await ethers.provider.getBlockNumber());
+
+            await propose(50n, "taxi");
+            const reopened = await createIndexer(await EventStore.open(filePath));
+            expect(reopened.store.getCheckpoint()).to.equal(checkpoint);
+            await reopened.sync();
+            await reopened.sync();
+
+            expect(reopened.store.getAllProposals().map(p => p.memo)).to.deep.equal(["dinner", "taxi"]);
+        } finally {
+            fs.rmSync(tmpDir, { recursive: true, force: true });
+        }
+    });
+
+    it("should roll back events from blocks replaced by a reorg", async function () {
+        await propose(100n, "kept");
+        const indexer = await createIndexer();
+        await indexer.sync();
+
+        const snapshot = await network.provider.send("evm_snapshot");
+        await propose(50n, "orphaned");
+        await indexer.sync();
+        expect(indexer.store.getAllProposals()).to.have.length(2);
+
+        // Replace the orphaned block with a different one at the same height
+        await network.provider.send("evm_revert", [snapshot]);
+        await propose(75n, "replacement");
+        await indexer.sync();
+
+        const memos = indexer.store.getAllProposals().map(p => p.memo);
+        expect(memos).to.deep.equal(["kept", "replacement"]);
+    });
+
+    it("should restore proposals resolved in a reorganized block", async function () {
+        const id = await propose(100n, "dinner");
+        const indexer = await createIndexer();
+        await indexer.sync();
+
+        const snapshot = await network.provider.send("evm_snapshot");
+        await contract.connect(debtor).confirmDebt(id);
+        await network.provider.send("evm_mine");
+        await indexer.sync();
+        expect(indexer.store.getProposalStatus(id)).to.equal("confirmed");
+
+        await network.provider.send("evm_revert", [snapshot]);
+        await network.provider.send("evm_mine");
+        await indexer.sync();
+
+        expect(indexer.store.getProposalStatus(id)).to.equal("pending");
+        expect(indexer.store.getConfirmedDebtsBetween(creditor.address, debtor.address)).to.have.length(0);
+    });
+});
@@ -0,0 +1,139 @@
+import { expect } from "chai";
+import { approveOwnExpenses, holdBackReason, toggleObjection } from "../src/billDetection/approvals";
+import { buildBillAnalysisPreview, handleBillConfirmation } from "../src/billDetection/detection";
+import { BillAnalysisResult } from "../src/billDetection/types";
+import { dispatchPrefixCommand } from "../src/commands";
+import { createTestServices, fakeGuild, fakeMessage, fakeUser } from "./commands/helpers";
+
+describe("Expense Approvals", function () {
+    const analysis: BillAnalysisResult = {
+        expenses: [
+            { description: "Dinner", amount: 30, currency: "USD", payer: "<@1>", participants: ["<@1>", "<@2>", "<@3>"], splitType: "equal" },
+            { description: "Taxi", amount: 12, currency: "USD", payer: "<@2>", participants: ["<@1>", "<@2>"], splitType: "equal" }
+        ],
+        totalAmount: 42,
+        currency: "USD",
+        summary: "Dinner and a taxi",
+        participants: ["<@1>", "<@2>", "<@3>"]
+    };
+
+    describe("approveOwnExpenses", function () {
+        it("should approve only the expenses the user paid for", function () {
+            const { analysis: approved, approved: count } = approveOwnExpenses(analysis, "<@2>");
+            expect(count).to.equal(1);
+            expect(approved.expenses[1].approvedByPayer).to.equal(true);
+            expect(approved.expenses[0]).to.equal(analysis.expenses[0]);
+            expect(analysis.expenses[1].approvedByPayer).to.be.undefined;
+        });
+
+        it("should approve nothing for a user who paid for nothing", function () {
+            expect(approveOwnExpenses(analysis, "<@3>").approved).to.equal(0);
+        });
+    });
+
+    describe("toggleObjection", function () {
+        it("should hold an approved expense back until the objection is withdrawn", function () {
+            const approved = approveOwnExpenses(analysis, "<@1>").analysis;
+            expect(holdBackReason(approved.expenses[0])).to.be.null;
+
+            const objected = toggleObjection(approved, 0, "<@3>");
+            if (!("analysis" in objected)) throw new Error(objected.error);
+            expect(objected.objecting).to.equal(true);
+            expect(holdBackReason(objected.analysis.expenses[0])).to.equal("objected to by <@3>");
+
+            const withdrawn = toggleObjection(objected.analysis, 0, "<@3>");
+            if (!("analysis" in withdrawn)) throw new Error(withdrawn.error);
+            expect(withdrawn.objecting).to.equal(false);
+            expect(withdrawn.analysis.expenses[0]).to.deep.equal(approved.expenses[0]);
+        });
+
+        it("should refuse objections from the payer and from non-participants", function () {
+            expect(toggleObjection(analysis, 0, "<@1>")).to.have.property("error").that.includes("You paid for");
+            expect(toggleObjection(analysis, 1, "<@3>")).to.have.property("error").that.includes("not a participant");
+            expect(toggleObjection(analysis, 5, "<@2>")).to.have.property("error").that.includes("no longer exists");
+        });
+    });
+
+    describe("buildBillAnalysisPreview", function () {
+        it("should show the approval tally and why expenses are held back", function () {
+            const approved = approveOwnExpenses(analysis, "<@1>").analysis;
+            const { content, components } = buildBillAnalysisPreview(approved);
+
+            expect(content).to.include("🗳️ **Approvals:** 1 of 2 approved by their payer with no objections");
+            expect(content).to.include("✅ **Approved** by <@1>");
+            expect(content).to.include("⏳ **Held back:** waiting for <@2> to approve");
+            expect(content).to.include("This will create 2 debt proposal(s)** now, with 1 expense(s) held back until approved");
+            const buttons = components[components.length - 1].components.map(button => (button as any).data.custom_id);
+            expect(buttons).to.deep.equal(["confirm-bills", "approve-bills", "cancel-bills"]);
+        });
+    });
+
+    describe("handleBillConfirmation", function () {
+        const alice = fakeUser("1001", "alice");
+        const bob = fakeUser("1002", "bob");
+
+        async function registeredServices() {
+            const services = await createTestServices();
+            services.notifier.add(alice, bob);
+            for (const user of [alice, bob]) {
+                await dispatchPrefixCommand(fakeMessage(user, ">register").message, services, ">");
+            }
+            return services;
+        }
+
+        function confirmInteraction(user: typeof alice) {
+            const guild = fakeGuild([alice, bob]);
+            (guild.members as any).cache = new Map();
+            const replies: any[] = [];
+            const edits: any[] = [];
+            const interaction = {
+                customId: "confirm-bills",
+                message: { id: "preview-1", edit: async (payload: any) => { edits.push(payload); } },
+                user,
+                guild,
+                replied: false,
+                update: async (payload: any) => { interaction.replied = true; replies.push(payload); },
+                reply: async (payload: any) => { replies.push(payload); },
+                followUp: async (payload: any) => { replies.push(payload); }
+            };
+            return { interaction, replies, edits };
+        }
+
+        const twoPayers: BillAnalysisResult = {
+            ...analysis,
+            expenses: [
+                { ...analysis.expenses[0], payer: `<@${alice.id}>`, participants: [`<@${alice.id}>`, `<@${bob.id}>`] },
+                { ...analysis.expenses[1], payer: `<@${bob.id}>`, participants: [`<@${alice.id}>`, `<@${bob.id}>`] }
+            ]
+        };
+
+        it("should propose the approved expenses and keep the rest on the preview", async function () {
+            const services = await registeredServices();
+            await services.pendingAnalyses.add("preview-1", "channel-1", alice.id, twoPayers);
+
+            const { interaction, replies, edits } = confirmInteraction(alice);
+            await handleBillConfirmation(interaction, services);
+
+            expect(replies[replies.length - 1]).to.include("**Successfully created:** 1 proposals");
+            expect(replies[replies.length - 1]).to.include(`⏳ "Taxi" is waiting for <@${bob.id}> to approve`);
+            expect(await services.ledger.contract.pendingDebtCounter()).to.equal(1n);
+            const remaining = services.pendingAnalyses.get("preview-1");
+            expect(remaining!.analysis.expenses.map(expense => expense.description)).to.deep.equal(["Taxi"]);
+            expect(edits[0].content).to.include("⏳ **Held back:** waiting for");
+        });
+
+        it("should not propose anything while nothing is approved", async function () {
+            const services = await registeredServices();
+            const objected = toggleObjection(approveOwnExpenses(twoPayers, `<@${alice.id}>`).analysis, 0, `<@${bob.id}>`);
+            if (!("analysis" in objected)) throw new Error(objected.error);
+            await services.pendingAnalyses.add("preview-1", "channel-1", alice.id, { ...objected.analysis, expenses: [objected.analysis.expenses[0]] });
+
+            const { interaction, replies } = confirmInteraction(alice);
+            await handleBillConfirmation(interaction, services);
+
+            expect(replies).to.have.length(1);
+            expect(replies[0].content).to.include("Nothing is approved yet");
+            expect(await services.ledger.contract.pendingDebtCounter()).to.equal(0n);
+        });
+    });
+});
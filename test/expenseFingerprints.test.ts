@@ -0,0 +1,106 @@
+import { expect } from "chai";
+import { buildBillAnalysisPreview, markRecordedExpenses } from "../src/billDetection/detection";
+import { applyExpenseEdit } from "../src/billDetection/editing";
+import { expenseFingerprint, findSourceMessageIds, fingerprintMemoTag } from "../src/billDetection/fingerprints";
+import { ParsedExpense } from "../src/billDetection/types";
+import { BotServices } from "../src/services";
+import { DeferredProposalStore, MemoryDeferredProposalBackend } from "../src/services/deferredProposals";
+import { EventStore } from "../src/services/eventStore";
+import { GuestDebtStore, MemoryGuestDebtBackend } from "../src/services/guestDebts";
+import { SignatureService } from "../src/services/signatures";
+
+describe("Expense Fingerprints", function () {
+    const dinner: ParsedExpense = {
+        description: "Dinner at Joe's", amount: 60000, currency: "KRW", payer: "<@1>", participants: ["<@1>", "<@2>", "<@3>"], splitType: "equal",
+        sourceMessageIds: ["1001"]
+    };
+    const creditor = "0x0000000000000000000000000000000000000001";
+    const debtor = "0x0000000000000000000000000000000000000002";
+
+    describe("findSourceMessageIds", function () {
+        const messages = ["alice: I paid ₩60,000 for dinner", "bob2000: thanks", "carol: dinner was 60000 right?", "alice: taxi 7.50"];
+        const ids = ["1001", "1002", "1003", "1004"];
+
+        it("should find the messages that mention the amount", function () {
+            expect(findSourceMessageIds(dinner, messages, ids)).to.deep.equal(["1001", "1003"]);
+            expect(findSourceMessageIds({ ...dinner, amount: 7.5 }, messages, ids)).to.deep.equal(["1004"]);
+            expect(findSourceMessageIds({ ...dinner, amount: 2000 }, messages, ids)).to.deep.equal([]);
+        });
+
+        it("should use the message a receipt was posted with", function () {
+            const receipt = { imageUrl: "https://cdn.example/r.jpg", messageUrl: "https://discord.com/channels/1/2/1004" };
+            expect(findSourceMessageIds({ ...dinner, receipt }, messages, ids)).to.deep.equal(["1004"]);
+        });
+    });
+
+    describe("expenseFingerprint", function () {
+        it("should ignore how the description is written", function () {
+            expect(expenseFingerprint({ ...dinner, description: "dinner at joes" })).to.equal(expenseFingerprint(dinner));
+            expect(expenseFingerprint({ ...dinner, sourceMessageIds: ["1001"], participants: ["<@1>"] })).to.equal(expenseFingerprint(dinner));
+        });
+
+        it("should change with the source messages, payer and amount", function () {
+            const fingerprints = new Set([
+                expenseFingerprint(dinner),
+                expenseFingerprint({ ...dinner, sourceMessageIds: ["1005"] }),
+                expenseFingerprint({ ...dinner, payer: "<@2>" }),
+                expenseFingerprint({ ...dinner, amount: 60001 })
+            ]);
+            expect(fingerprints.size).to.equal(4);
+            expect(expenseFingerprint(dinner)).to.match(/^[0-9a-f]{12}$/);
+        });
+    });
+
+    describe("markRecordedExpenses", function () {
+        async function services(memos: { memo: string; status?: "confirmed" | "rejected" }[], unsignedMemos: string[] = []): Promise<BotServices> {
+            const store = await EventStore.open();
+            memos.forEach(({ memo, status }, i) => {
+                store.insertProposal({ pendingDebtId: BigInt(i), creditor, debtor, token: creditor, amount: 1n, memo, blockNumber: 1 }, { blockNumber: 1, txHash: `0x${i}`, logIndex: i });
+                if (status) store.resolveProposal(BigInt(i), status, 2);
+            });
+            const signatures = new SignatureService(null as any, null as any);
+            for (const memo of unsignedMemos) {
+                signatures.pending.create({
+                    discordId: "1",
+                    request: { primaryType: "ProposeDebt", message: { creditor, token: creditor, debtor, amount: 1n, memo, nonce: 0n, deadline: signatures.getDeadline() } },
+                    context: { kind: "propose", debtorId: "2", creditorTag: "alice", amountDisplay: "1", memo }
+                });
+            }
+            return { indexer: { catchUp: async () => {}, store }, signatures, guestDebts: await GuestDebtStore.open(new MemoryGuestDebtBackend()), deferredProposals: await DeferredProposalStore.open(new MemoryDeferredProposalBackend()) } as unknown as BotServices;
+        }
+        const tag = fingerprintMemoTag(expenseFingerprint(dinner));
+
+        it("should count earlier proposals of the same expense by status", async function () {
+            const fake = await services([
+                { memo: `Dinner at Joe's (Auto-detected from chat) ${tag}`, status: "confirmed" },
+                { memo: `Dinner at Joe's (Auto-detected from chat) ${tag}` },
+                { memo: "Dinner at Joe's" }
+            ], [`Dinner at Joe's (Auto-detected from chat) ${tag}`]);
+            const taxi = { ...dinner, description: "Taxi", amount: 15000 };
+
+            const [marked, unmarked] = await markRecordedExpenses([dinner, { ...taxi, recorded: { pending: 1 } }], fake);
+            expect(marked.recorded).to.deep.equal({ confirmed: 1, pending: 1, unsigned: 1 });
+            expect(unmarked).to.deep.equal(taxi);
+        });
+
+        it("should flag recorded expenses in the preview and leave them out of the proposal count", function () {
+            const taxi = { ...dinner, description: "Taxi", amount: 15000, sourceMessageIds: ["1004"], approvedByPayer: true };
+            const { content } = buildBillAnalysisPreview({
+                expenses: [{ ...dinner, recorded: { confirmed: 1, rejected: 1 } }, taxi],
+                totalAmount: 75000, currency: "KRW", summary: "Dinner and a taxi", participants: dinner.participants
+            });
+            expect(content).to.include("♻️ **Skipped:** already proposed (1 confirmed, 1 rejected). Edit it to propose it again.");
+            expect(content).to.include("This will create 2 debt proposal(s)");
+        });
+
+        it("should forget earlier proposals once the expense is edited", async function () {
+            const analysis = { expenses: [{ ...dinner, recorded: { rejected: 2 } }], totalAmount: 60000, currency: "KRW", summary: "", participants: [] };
+            const edit = { description: "Dinner at Joe's", amount: 54000, currency: "KRW", payer: "<@1>", participants: ["<@1>", "<@2>", "<@3>"] };
+            const result = applyExpenseEdit(analysis, "0", edit, "alice");
+
+            if (!("analysis" in result)) throw new Error("edit failed");
+            expect(result.analysis.expenses[0].recorded).to.be.undefined;
+            expect(result.analysis.expenses[0].sourceMessageIds).to.deep.equal(["1001"]);
+        });
+    });
+});
@@ -0,0 +1,116 @@
+import { expect } from "chai";
+import { resolveExpenseSplit, validateCustomSplits } from "../src/billDetection/splits";
+import { ParsedExpense } from "../src/billDetection/types";
+import { splitTokenAmount } from "../src/tokenUtils";
+
+describe("Expense Splits", function () {
+    // "I had the steak, you two split the pasta"
+    const dinner: ParsedExpense = {
+        description: "Dinner",
+        amount: 60000,
+        currency: "KRW",
+        payer: "<@1>",
+        participants: ["<@1>", "<@2>", "<@3>"],
+        splitType: "custom",
+        customSplits: { "<@1>": 30000, "<@2>": 15000, "<@3>": 15000 }
+    };
+
+    describe("validateCustomSplits", function () {
+        it("should accept shares that add up to the amount", function () {
+            expect(validateCustomSplits(dinner)).to.be.null;
+        });
+
+        it("should allow for rounding in the shares", function () {
+            const taxi = { ...dinner, amount: 10, customSplits: { "<@1>": 3.33, "<@2>": 3.33, "<@3>": 3.33 } };
+            expect(validateCustomSplits(taxi)).to.be.null;
+            expect(validateCustomSplits({ ...taxi, customSplits: { "<@1>": 3.3, "<@2>": 3.3, "<@3>": 3.3 } })).to.equal("the shares add up to 9.9 KRW, not 10 KRW");
+        });
+
+        it("should reject shares for someone who isn't a participant", function () {
+            const split = { ...dinner, customSplits: { ...dinner.customSplits, "<@4>": 0 } };
+            expect(validateCustomSplits(split)).to.equal("<@4> is not listed as a participant");
+        });
+
+        it("should reject splits that leave out a participant", function () {
+            const split = { ...dinner, customSplits: { "<@1>": 45000, "<@2>": 15000 } };
+            expect(validateCustomSplits(split)).to.equal("no share was given for <@3>");
+        });
+
+        it("should reject negative shares", function () {
+            const split = { ...dinner, customSplits: { "<@1>": 70000, "<@2>": -10000, "<@3>": 0 } };
+            expect(validateCustomSplits(split)).to.equal("<@2> has an invalid share");
+        });
+
+        it("should reject a custom split with no shares", function () {
+            expect(validateCustomSplits({ ...dinner, customSplits: undefined })).to.equal("no custom shares were given");
+        });
+    });
+
+    describe("resolveExpenseSplit", function () {
+        it("should split equally by default", function () {
+            const split = resolveExpenseSplit({ ...dinner, splitType: "equal" });
+            expect(split.rule).to.deep.equal({ type: "equal", participants: 3 });
+            expect(split.shares).to.deep.equal([20000, 20000, 20000]);
+            expect(split.warning).to.be.undefined;
+        });
+
+        it("should weight token amounts by the custom shares", function () {
+            const split = resolveExpenseSplit(dinner);
+            expect(split.shares).to.deep.equal([30000, 15000, 15000]);
+            // 43.32 USDC converted from the ₩60,000 bill
+            expect(splitTokenAmount(43_320_000n, split.rule)).to.deep.equal([21_660_000n, 10_830_000n, 10_830_000n]);
+        });
+
+        it("should fall back to an equal split with a warning when the shares don't add up", function () {
+            const split = resolveExpenseSplit({ ...dinner, customSplits: { "<@1>": 30000, "<@2>": 15000, "<@3>": 5000 } });
+            expect(split.rule).to.deep.equal({ type: "equal", participants: 3 });
+            expect(split.warning).to.equal('Custom split for "Dinner" doesn\'t work (the shares add up to 50000 KRW, not 60000 KRW), so it is split equally instead.');
+        });
+    });
+
+    describe("itemized receipts", function () {
+        // Tax and tip make up the 16 USD the items don't cover
+        const receipt: ParsedExpense = {
+            description: "Receipt: Mapo Galbi",
+            amount: 76,
+            currency: "USD",
+            payer: "<@1>",
+            participants: ["<@1>", "<@2>", "<@3>"],
+            splitType: "equal",
+            lineItems: [
+                { description: "Pork belly", amount: 24 },
+                { description: "Beef ribs", amount: 30, participants: ["<@2>", "<@3>"] },
+                { description: "Soju", amount: 6, participants: ["<@1>"] }
+            ],
+            tax: 5.4,
+            tip: 10.6
+        };
+
+        it("should charge each person for their items plus their part of the tax and tip", function () {
+            const split = resolveExpenseSplit(receipt);
+            expect(split.shares).to.deep.equal([17.7333, 29.1333, 29.1333]);
+            expect(split.rule.type).to.equal("shares");
+
+            const amounts = splitTokenAmount(76_000_000n, split.rule, 0);
+            expect(amounts.reduce((sum, amount) => sum + amount, 0n)).to.equal(76_000_000n);
+        });
+
+        it("should split equally while nobody is named on an item", function () {
+            const lineItems = receipt.lineItems!.map(({ description, amount }) => ({ description, amount }));
+            expect(resolveExpenseSplit({ ...receipt, lineItems }).rule).to.deep.equal({ type: "equal", participants: 3 });
+        });
+
+        it("should fall back to an equal split when the items no longer fit the expense", function () {
+            const split = resolveExpenseSplit({ ...receipt, amount: 50 });
+            expect(split.rule).to.deep.equal({ type: "equal", participants: 3 });
+            expect(split.warning).to.equal('Itemized split for "Receipt: Mapo Galbi" doesn\'t work (the items add up to 60 USD, more than the 50 USD paid), so it is split equally instead.');
+        });
+
+        it("should fall back to an equal split when the items add up to nothing", function () {
+            const lineItems = receipt.lineItems!.map(item => ({ ...item, amount: 0 }));
+            const split = resolveExpenseSplit({ ...receipt, lineItems });
+            expect(split.rule).to.deep.equal({ type: "equal", participants: 3 });
+            expect(split.warning).to.equal('Itemized split for "Receipt: Mapo Galbi" doesn\'t work (the items add up to 0 USD, so they can\'t say who owes what), so it is split equally instead.');
+        });
+    });
+});
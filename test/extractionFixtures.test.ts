@@ -0,0 +1,185 @@
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import { expect } from "chai";
+import fs from "fs";
+import path from "path";
+import { AnthropicExtractor } from "../src/billDetection/anthropic";
+import { ExpenseExtractor, ExtractionInput, ExtractorRegistry } from "../src/billDetection/extractor";
+import { GeminiExtractor } from "../src/billDetection/gemini";
+import { OpenAICompatibleExtractor } from "../src/billDetection/openaiCompatible";
+import { RuleBasedExtractor } from "../src/billDetection/ruleBased";
+import { ParsedExpense } from "../src/billDetection/types";
+import { GuildSettingsStore, MemoryGuildSettingsBackend } from "../src/services/guildSettings";
+
+// Recorded chats and model replies; every extractor listed in a fixture must produce its expected analysis
+interface ExtractionFixture {
+    description: string;
+    extractors: string[];
+    input: ExtractionInput;
+    recorded: string[]; // Model replies in the order they were given
+    expected: { calls: number; expenses: ParsedExpense[]; issues: string[] };
+}
+
+const FIXTURE_DIR = path.join(__dirname, "fixtures", "extraction");
+
+function loadFixtures(): { file: string; fixture: ExtractionFixture }[] {
+    return fs.readdirSync(FIXTURE_DIR)
+        .filter(file => file.endsWith(".json"))
+        .sort()
+        .map(file => ({ file, fixture: JSON.parse(fs.readFileSync(path.join(FIXTURE_DIR, file), "utf8")) }));
+}
+
+interface RecordedRequest {
+    url: string;
+    headers: { [name: string]: string };
+    body: any;
+}
+
+// Answers each HTTP request with the next recorded reply, wrapped the way the provider's API returns it
+function replayFetch(recorded: string[], wrap: (reply: string) => object) {
+    const requests: RecordedRequest[] = [];
+    const fetchFn = async (url: string, init: any) => {
+        requests.push({ url, headers: init.headers, body: JSON.parse(init.body) });
+        const reply = recorded[Math.min(requests.length - 1, recorded.length - 1)];
+        return { ok: true, status: 200, json: async () => wrap(reply), text: async () => JSON.stringify(wrap(reply)) };
+    };
+    return { fetchFn: fetchFn as unknown as typeof fetch, requests };
+}
+
+// Builds each extractor around a replay of the fixture, reporting how many model calls it made
+const REPLAYED_EXTRACTORS: { [name: string]: (recorded: string[]) => { extractor: ExpenseExtractor; calls: () => number; check?: () => void } } = {
+    gemini: recorded => {
+        const prompts: string[] = [];
+        const genAI = {
+            getGenerativeModel: () => ({
+                generateContent: async (prompt: string) => {
+                    prompts.push(prompt);
+                    const text = recorded[Math.min(prompts.length - 1, recorded.length - 1)];
+                    return { response: { text: () => text } };
+                }
+            })
+        } as unknown as GoogleGenerativeAI;
+        return { extractor: new GeminiExtractor(genAI), calls: () => prompts.length };
+    },
+    anthropic: recorded => {
+        // The extractor prefills "{", so the API only returns the rest of the object and never a code fence
+        const { fetchFn, requests } = replayFetch(recorded, reply => ({
+            content: [{ type: "text", text: reply.trim().replace(/^```(?:json)?\s*|\s*```$/g, "").slice(1) }]
+        }));
+        return {
+            extractor: new AnthropicExtractor("test-key", "test-model", fetchFn),
+            calls: () => requests.length,
+            check: () => {
+                expect(requests[0].url).to.equal("https://api.anthropic.com/v1/messages");
+                expect(requests[0].headers).to.include({ "x-api-key": "test-key", "anthropic-version": "2023-06-01" });
+                expect(requests[0].body.model).to.equal("test-model");
+                expect(requests[0].body.messages[requests[0].body.messages.length - 1]).to.deep.equal({ role: "assistant", content: "{" });
+            }
+        };
+    },
+    openai: recorded => {
+        const { fetchFn, requests } = replayFetch(recorded, reply => ({ choices: [{ message: { role: "assistant", content: reply } }] }));
+        return {
+            extractor: new OpenAICompatibleExtractor("http://localhost:11434/v1/", "llama3.1", undefined, false, fetchFn),
+            calls: () => requests.length,
+            check: () => {
+                expect(requests[0].url).to.equal("http://localhost:11434/v1/chat/completions");
+                expect(requests[0].headers).to.not.have.property("authorization");
+                expect(requests[0].body.response_format).to.deep.equal({ type: "json_object" });
+            }
+        };
+    }
+};
+
+describe("Expense Extraction Fixtures", function () {
+    for (const { file, fixture } of loadFixtures()) {
+        describe(`${file}: ${fixture.description}`, function () {
+            for (const name of fixture.extractors) {
+                it(`should be extracted by ${name}`, async function () {
+                    const replay = name === "rules"
+                        ? { extractor: new RuleBasedExtractor() as ExpenseExtractor, calls: () => fixture.expected.calls, check: undefined }
+                        : REPLAYED_EXTRACTORS[name](fixture.recorded);
+
+                    const analysis = await replay.extractor.extract(fixture.input);
+
+                    expect(analysis).to.not.be.null;
+                    expect(analysis!.expenses).to.deep.equal(fixture.expected.expenses);
+                    expect(analysis!.issues ?? []).to.deep.equal(fixture.expected.issues);
+                    expect(replay.calls()).to.equal(fixture.expected.calls);
+                    replay.check?.();
+                });
+            }
+        });
+    }
+});
+
+describe("Expense Extractors", function () {
+    const input = (messages: string[]): ExtractionInput => ({
+        messages,
+        mentionedUsers: ["<@1>", "<@2>", "<@3>"],
+        userMappingText: "alice (Alice) = <@1>\nbob (Bobby) = <@2>\nnuang_ee (승재) = <@3>"
+    });
+
+    describe("RuleBasedExtractor", function () {
+        it("should resolve display names, mentions and several payments in one message", async function () {
+            const analysis = await new RuleBasedExtractor().extract(input([
+                "alice: 승재 paid ₩12,000 for coffee, and <@2> covered €8.50 on parking for me and bob"
+            ]));
+
+            expect(analysis!.expenses).to.deep.equal([
+                { description: "Coffee", amount: 12000, currency: "KRW", payer: "<@3>", participants: ["<@1>", "<@2>", "<@3>"], splitType: "equal" },
+                { description: "Parking", amount: 8.5, currency: "EUR", payer: "<@2>", participants: ["<@1>", "<@2>"], splitType: "equal" }
+            ]);
+        });
+
+        it("should ignore payments by people outside the mapping", async function () {
+            const analysis = await new RuleBasedExtractor().extract(input(["dave: I paid $40 for gas", "alice: we paid $10 for tickets"]));
+            expect(analysis!.expenses).to.deep.equal([]);
+            expect(analysis!.summary).to.equal("No clear expenses found in the chat history.");
+        });
+    });
+
+    describe("AnthropicExtractor", function () {
+        it("should return null when the API fails", async function () {
+            const fetchFn = (async () => ({ ok: false, status: 529, text: async () => "overloaded" })) as unknown as typeof fetch;
+            expect(await new AnthropicExtractor("key", undefined, fetchFn).extract(input([]))).to.be.null;
+        });
+    });
+
+    describe("ExtractorRegistry", function () {
+        const fake = (name: string): ExpenseExtractor => ({ name, description: name, acceptsImages: false, extract: async () => null });
+
+        it("should use the default until a guild picks its own extractor", async function () {
+            const backend = new MemoryGuildSettingsBackend();
+            const registry = new ExtractorRegistry([fake("gemini"), new RuleBasedExtractor()], "gemini", await GuildSettingsStore.open(backend));
+            expect(registry.forGuild("guild-1").name).to.equal("gemini");
+
+            await registry.setForGuild("guild-1", "rules");
+            expect(registry.forGuild("guild-1").name).to.equal("rules");
+            expect(registry.forGuild("guild-2").name).to.equal("gemini");
+
+            // The choice survives a restart
+            const reopened = new ExtractorRegistry([fake("gemini"), new RuleBasedExtractor()], "gemini", await GuildSettingsStore.open(backend));
+            expect(reopened.forGuild("guild-1").name).to.equal("rules");
+
+            await reopened.setForGuild("guild-1", null);
+            expect(reopened.forGuild("guild-1").name).to.equal("gemini");
+        });
+
+        it("should fall back to the default when a guild's choice is no longer configured", async function () {
+            const settings = await GuildSettingsStore.open(new MemoryGuildSettingsBackend());
+            await settings.update("guild-1", { extractor: "anthropic" });
+            const registry = new ExtractorRegistry([new RuleBasedExtractor()], "rules", settings);
+            expect(registry.forGuild("guild-1").name).to.equal("rules");
+        });
+
+        it("should reject unknown extractor names", async function () {
+            const registry = new ExtractorRegistry([new RuleBasedExtractor()], "rules", await GuildSettingsStore.open(new MemoryGuildSettingsBackend()));
+            try {
+                await registry.setForGuild("guild-1", "gpt");
+                expect.fail("Expected setForGuild to throw");
+            } catch (error) {
+                expect((error as Error).message).to.equal('Unknown bill extractor "gpt". Available: rules');
+            }
+        });
+    });
+});
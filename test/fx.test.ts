@@ -0,0 +1,176 @@
+import { expect } from "chai";
+import http from "http";
+import { AddressInfo } from "net";
+import { convertToTokenAmount, getCurrencyTokenInfo } from "../src/billDetection/currency";
+import { describeRate, FxRate, FxService, HttpRateProvider, normalizeCurrency, RateProvider, StaticRateProvider } from "../src/services/fx";
+import { parseTokenAmount } from "../src/tokenUtils";
+
+// Counts lookups and can be switched to failing, to observe caching and fallback
+class CountingProvider implements RateProvider {
+    readonly name = "counting";
+    calls = 0;
+    failing = false;
+
+    constructor(private readonly rate: number) {}
+
+    async getRate(from: string, to: string): Promise<FxRate | null> {
+        this.calls++;
+        if (this.failing) throw new Error("rate source unavailable");
+        return { from, to, rate: this.rate, source: "counting", asOf: 0 };
+    }
+}
+
+describe("FX Rates", function () {
+    const table = { base: "USD", asOf: "2026-10-01", rates: { KRW: 1400, JPY: 150, EUR: 0.5 } };
+
+    describe("normalizeCurrency", function () {
+        it("should map names and symbols to currency codes", function () {
+            expect(normalizeCurrency("won")).to.equal("KRW");
+            expect(normalizeCurrency("₩")).to.equal("KRW");
+            expect(normalizeCurrency("Yen")).to.equal("JPY");
+            expect(normalizeCurrency("usdc")).to.equal("USD");
+            expect(normalizeCurrency(" eur ")).to.equal("EUR");
+        });
+    });
+
+    describe("StaticRateProvider", function () {
+        it("should quote rates to and from the base currency", async function () {
+            const provider = new StaticRateProvider(table);
+            expect((await provider.getRate("USD", "KRW"))!.rate).to.equal(1400);
+            expect((await provider.getRate("KRW", "USD"))!.rate).to.equal(1 / 1400);
+        });
+
+        it("should derive cross rates through the base currency", async function () {
+            const provider = new StaticRateProvider(table);
+            expect((await provider.getRate("EUR", "JPY"))!.rate).to.equal(300);
+        });
+
+        it("should return null for currencies it has no rate for", async function () {
+            expect(await new StaticRateProvider(table).getRate("XYZ", "USD")).to.be.null;
+        });
+    });
+
+    describe("HttpRateProvider", function () {
+        let server: http.Server;
+        let requests = 0;
+        let stalled = false;
+        let url: string;
+
+        beforeEach(async function () {
+            requests = 0;
+            stalled = false;
+            server = http.createServer((_request, response) => {
+                requests++;
+                if (stalled) return;
+                response.setHeader("Content-Type", "application/json");
+                response.end(JSON.stringify({ base_code: "USD", rates: table.rates, time_last_update_unix: 1790000000 }));
+            });
+            await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+            url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/latest`;
+        });
+
+        afterEach(async function () {
+            server.closeAllConnections();
+            await new Promise(resolve => server.close(resolve));
+        });
+
+        it("should answer every pair from one fetched table", async function () {
+            const provider = new HttpRateProvider(url);
+            const [krw, jpy] = await Promise.all([provider.getRate("USD", "KRW"), provider.getRate("EUR", "JPY")]);
+
+            expect(krw?.rate).to.equal(1400);
+            expect(jpy?.rate).to.equal(300);
+            expect(await provider.getRate("KRW", "EUR")).to.include({ from: "KRW", to: "EUR", asOf: 1790000000000 });
+            expect(requests).to.equal(1);
+        });
+
+        it("should give up on a stalled request and fetch again next time", async function () {
+            stalled = true;
+            const provider = new HttpRateProvider(url, 50);
+            let error: Error | undefined;
+            try {
+                await provider.getRate("USD", "KRW");
+            } catch (e) {
+                error = e as Error;
+            }
+            expect(error?.name).to.equal("TimeoutError");
+
+            stalled = false;
+            expect((await provider.getRate("USD", "KRW"))?.rate).to.equal(1400);
+            expect(requests).to.equal(2);
+        });
+    });
+
+    describe("FxService", function () {
+        it("should convert using the first provider with a rate", async function () {
+            const fx = new FxService([new StaticRateProvider({ base: "USD", rates: {} }), new StaticRateProvider(table, "fallback")]);
+            const { amount, rate } = await fx.convert(70000, "won", "USD");
+            expect(amount).to.equal(50);
+            expect(rate.source).to.equal("fallback");
+        });
+
+        it("should not look up a rate between the same currency", async function () {
+            const provider = new CountingProvider(2);
+            const { amount } = await new FxService([provider]).convert(12.5, "USDC", "USD");
+            expect(amount).to.equal(12.5);
+            expect(provider.calls).to.equal(0);
+        });
+
+        it("should cache rates until they expire", async function () {
+            const provider = new CountingProvider(0.001);
+            const fx = new FxService([provider]);
+            await fx.getRate("KRW", "USD");
+            await fx.getRate("KRW", "USD");
+            expect(provider.calls).to.equal(1);
+
+            const expiring = new FxService([provider], 0);
+            await expiring.getRate("KRW", "USD");
+            await expiring.getRate("KRW", "USD");
+            expect(provider.calls).to.equal(3);
+        });
+
+        it("should fall back to an expired rate when every provider fails", async function () {
+            const provider = new CountingProvider(0.001);
+            const fx = new FxService([provider], 0);
+            await fx.getRate("KRW", "USD");
+
+            provider.failing = true;
+            expect((await fx.getRate("KRW", "USD")).rate).to.equal(0.001);
+        });
+
+        it("should throw when no rate is available", async function () {
+            const fx = new FxService([new StaticRateProvider(table)]);
+            let error: Error | undefined;
+            try {
+                await fx.getRate("XYZ", "USD");
+            } catch (e) {
+                error = e as Error;
+            }
+            expect(error?.message).to.equal("No exchange rate available for XYZ → USD");
+        });
+    });
+
+    describe("describeRate", function () {
+        it("should include the rate, source and date", async function () {
+            const rate = (await new StaticRateProvider(table).getRate("KRW", "USD"))!;
+            expect(describeRate(rate)).to.equal("1 KRW = 0.000714286 USD (bundled rates, 2026-10-01)");
+        });
+    });
+
+    describe("convertToTokenAmount", function () {
+        it("should convert a bill in won into USDC", async function () {
+            const fx = new FxService([new StaticRateProvider(table)]);
+            const { tokenInfo, amount } = await convertToTokenAmount(fx, 60000, "KRW");
+            expect(tokenInfo).to.deep.equal(getCurrencyTokenInfo("USD"));
+            // A ₩60,000 bill is about 42.86 USDC, not 60,000 USDC
+            expect(parseTokenAmount(amount.toFixed(6), tokenInfo)).to.equal(42_857_143n);
+        });
+
+        it("should keep ETH amounts in ETH", async function () {
+            const fx = new FxService([new StaticRateProvider(table)]);
+            const { tokenInfo, amount } = await convertToTokenAmount(fx, 0.3, "ether");
+            expect(tokenInfo.symbol).to.equal("ETH");
+            expect(amount).to.equal(0.3);
+        });
+    });
+});
@@ -0,0 +1,96 @@
+import { expect } from "chai";
+import { buildBillAnalysisPreview } from "../src/billDetection/detection";
+import { buildAliasTable, ChatMember, findNamedPeople, formatUserMapping, LOW_CONFIDENCE, resolveName } from "../src/billDetection/identity";
+import { IdentityStore, MemoryIdentityBackend } from "../src/services/identities";
+
+describe("Identity Resolution", function () {
+    const members: ChatMember[] = [
+        { id: "1", username: "nuang_ee", globalName: "Nuang", nickname: "정승재" },
+        { id: "2", username: "jaypark", globalName: "Jay Park", nickname: null },
+        { id: "3", username: "minji88", globalName: "민지", nickname: null }
+    ];
+    const aliases = [{ alias: "승재", mention: "<@1>", addedBy: "1" }, { alias: "Big J", mention: "<@2>", addedBy: "2" }];
+    const table = buildAliasTable(members, aliases);
+
+    describe("resolveName", function () {
+        it("should be sure of usernames, nicknames and declared aliases", function () {
+            expect(resolveName("@nuang_ee", table)).to.include({ mention: "<@1>", confidence: 0.95 });
+            expect(resolveName("정승재", table)).to.include({ mention: "<@1>", confidence: 0.9 });
+            expect(resolveName("승재", table)).to.include({ mention: "<@1>", confidence: 1, via: "승재" });
+            expect(resolveName("민지", table)).to.include({ mention: "<@3>", confidence: 0.9 });
+        });
+
+        it("should be less sure of short forms and names with Korean particles", function () {
+            const short = resolveName("jay", table)!;
+            expect(short.mention).to.equal("<@2>");
+            expect(short.confidence).to.be.below(LOW_CONFIDENCE);
+            expect(resolveName("민지가", table)).to.include({ mention: "<@3>", confidence: 0.81 });
+            expect(resolveName("승재씨가", table)).to.include({ mention: "<@1>", confidence: 0.9 });
+        });
+
+        it("should halve the confidence when two people go by the name", function () {
+            const twins = buildAliasTable([...members, { id: "4", username: "jaykim", globalName: "Jay Kim" }], []);
+            expect(resolveName("jay", twins)!.confidence).to.be.below(0.5);
+        });
+
+        it("should not match names nobody goes by", function () {
+            expect(resolveName("dinner", table)).to.be.null;
+        });
+    });
+
+    describe("findNamedPeople", function () {
+        it("should find each person's surest mention in the chat", function () {
+            const named = findNamedPeople([
+                "nuang_ee: 승재가 고기값 냈어",
+                "jaypark: thanks Big J! I mean, I'll pay jay back",
+                "minji88: I paid for the taxi"
+            ], table);
+            expect(named.map(({ name, mention }) => ({ name, mention }))).to.deep.equal([
+                { name: "Big J", mention: "<@2>" },
+                { name: "승재가", mention: "<@1>" }
+            ]);
+        });
+    });
+
+    describe("formatUserMapping", function () {
+        it("should add the aliases and other chat names after each user's line", function () {
+            const named = [{ name: "민지가", mention: "<@3>", confidence: 0.81, via: "민지" }, { name: "Stranger", mention: "<@9>", confidence: 1, via: "Stranger" }];
+            expect(formatUserMapping(members, aliases, named).split("\n")).to.deep.equal([
+                "nuang_ee (정승재) = <@1>",
+                "jaypark (Jay Park) = <@2>",
+                "minji88 (민지) = <@3>",
+                "승재 = <@1>",
+                "Big J = <@2>",
+                "민지가 = <@3>"
+            ]);
+        });
+    });
+
+    describe("IdentityStore", function () {
+        it("should keep aliases per guild and replace an alias declared again", async function () {
+            const backend = new MemoryIdentityBackend();
+            const store = await IdentityStore.open(backend);
+            await store.set("guild-1", { alias: "jay", mention: "<@2>", addedBy: "2" });
+            await store.set("guild-1", { alias: " JAY ", mention: "<@4>", addedBy: "4" });
+            await store.set("guild-2", { alias: "승재", mention: "<@1>", addedBy: "1" });
+
+            const reopened = await IdentityStore.open(backend);
+            expect(reopened.aliases("guild-1")).to.deep.equal([{ alias: "JAY", mention: "<@4>", addedBy: "4" }]);
+            expect(await reopened.remove("guild-2", "승재")).to.deep.equal({ alias: "승재", mention: "<@1>", addedBy: "1" });
+            expect(await reopened.remove("guild-2", "승재")).to.be.null;
+        });
+    });
+
+    describe("buildBillAnalysisPreview", function () {
+        it("should flag expenses with low-confidence names until they are edited", function () {
+            const taxi = { description: "Taxi", amount: 12, currency: "USD", payer: "<@1>", participants: ["<@1>", "<@2>"], splitType: "equal" as const };
+            const analysis = {
+                expenses: [taxi, { ...taxi, description: "Snacks", editedBy: ["alice"] }],
+                totalAmount: 24, currency: "USD", summary: "", participants: ["<@1>", "<@2>"],
+                uncertainIdentities: [{ name: "jay", mention: "<@2>", confidence: 0.68 }]
+            };
+            const { content } = buildBillAnalysisPreview(analysis);
+            expect(content.match(/🔎 \*\*Check who's who:\*\* "jay" → <@2> \(68% sure\)/g)).to.have.length(1);
+        });
+    });
+});
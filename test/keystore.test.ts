@@ -0,0 +1,88 @@
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ethers } from "ethers";
+import { Keystore, FileKeystoreBackend, MemoryKeystoreBackend } from "../src/keystore";
+
+describe("Keystore", function () {
+    const wallet = ethers.Wallet.createRandom();
+    const storedWallet = { address: wallet.address, privateKey: wallet.privateKey };
+
+    describe("FileKeystoreBackend", function () {
+        let tmpDir: string;
+
+        beforeEach(function () {
+            tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "keystore-"));
+        });
+
+        afterEach(function () {
+            fs.rmSync(tmpDir, { recursive: true, force: true });
+        });
+
+        it("should persist wallets across keystore instances", async function () {
+            const filePath = path.join(tmpDir, "keystore.json");
+            await new Keystore(new FileKeystoreBackend(filePath), "secret").set("123", storedWallet);
+
+            const reopened = new Keystore(new FileKeystoreBackend(filePath), "secret");
+            expect(await reopened.get("123")).to.deep.equal(storedWallet);
+        });
+
+        it("should not store private keys in plaintext", async function () {
+            const filePath = path.join(tmpDir, "keystore.json");
+            await new Keystore(new FileKeystoreBackend(filePath), "secret").set("123", storedWallet);
+
+            const raw = fs.readFileSync(filePath, "utf8");
+            expect(raw).to.include(wallet.address);
+            expect(raw).to.not.include(wallet.privateKey.slice(2));
+        });
+    });
+
+    it("should return null for unknown Discord IDs", async function () {
+        const keystore = new Keystore(new MemoryKeystoreBackend(), "secret");
+        expect(await keystore.get("unknown")).to.be.null;
+        expect(await keystore.getAddress("unknown")).to.be.null;
+    });
+
+    it("should delete stored wallets", async function () {
+        const keystore = new Keystore(new MemoryKeystoreBackend(), "secret");
+        await keystore.set("123", storedWallet);
+        await keystore.delete("123");
+        expect(await keystore.get("123")).to.be.null;
+    });
+
+    it("should refuse to open with the wrong secret", async function () {
+        const backend = new MemoryKeystoreBackend();
+        await new Keystore(backend, "secret").set("123", storedWallet);
+
+        let error: Error | undefined;
+        try {
+            await new Keystore(backend, "wrong-secret").get("123");
+        } catch (e) {
+            error = e as Error;
+        }
+        expect(error?.message).to.include("different master secret");
+    });
+
+    it("should rotate to a new secret", async function () {
+        const backend = new MemoryKeystoreBackend();
+        const keystore = new Keystore(backend, "old-secret");
+        await keystore.set("123", storedWallet);
+        await keystore.rotate("new-secret");
+
+        expect(await keystore.get("123")).to.deep.equal(storedWallet);
+        expect(await new Keystore(backend, "new-secret").get("123")).to.deep.equal(storedWallet);
+    });
+
+    it("should re-encrypt with the current secret when opened with the previous one", async function () {
+        const backend = new MemoryKeystoreBackend();
+        await new Keystore(backend, "old-secret").set("123", storedWallet);
+
+        const rotated = new Keystore(backend, "new-secret", "old-secret");
+        expect(await rotated.get("123")).to.deep.equal(storedWallet);
+
+        // The rotation was persisted, so the new secret alone opens the keystore
+        const keystoreWithNewOnly = new Keystore(backend, "new-secret");
+        expect(await keystoreWithNewOnly.get("123")).to.deep.equal(storedWallet);
+    });
+});
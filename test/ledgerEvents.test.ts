@@ -0,0 +1,99 @@
+import { expect } from "chai";
+import { ethers, network } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { BillTheAccountant, MockERC20 } from "../typechain-types";
+import { dispatchPrefixCommand } from "../src/commands";
+import { parseLedgerReceipt } from "../src/services/ledgerEvents";
+import { createTestServices, fakeMessage, fakeUser } from "./commands/helpers";
+
+describe("Ledger Events", function () {
+    describe("parseLedgerReceipt", function () {
+        let contract: BillTheAccountant;
+        let token: MockERC20;
+        let owner: HardhatEthersSigner, creditor: HardhatEthersSigner, debtor: HardhatEthersSigner;
+
+        beforeEach(async function () {
+            [owner, creditor, debtor] = await ethers.getSigners();
+            token = (await (await ethers.getContractFactory("MockERC20")).deploy("Mock Token", "MT")) as unknown as MockERC20;
+            contract = (await (await ethers.getContractFactory("BillTheAccountant")).deploy()) as unknown as BillTheAccountant;
+        });
+
+        it("should read the proposal, confirmation and debt of each transaction", async function () {
+            const tokenAddress = await token.getAddress();
+            const proposeReceipt = await (await contract.connect(creditor).proposeDebt(tokenAddress, debtor.address, 50n, "Dinner")).wait();
+            const proposed = parseLedgerReceipt(proposeReceipt!, await contract.getAddress());
+            expect(proposed.proposed).to.deep.equal([{
+                pendingDebtId: 1n, creditor: creditor.address, debtor: debtor.address, token: tokenAddress, amount: 50n, memo: "Dinner", blockNumber: proposeReceipt!.blockNumber
+            }]);
+            expect(proposed.added).to.deep.equal([]);
+
+            const confirmReceipt = await (await contract.connect(debtor).confirmDebt(1n)).wait();
+            const confirmed = parseLedgerReceipt(confirmReceipt!, await contract.getAddress());
+            expect(confirmed.confirmed).to.deep.equal([1n]);
+            expect(confirmed.added).to.have.length(1);
+            expect(confirmed.added[0]).to.include({ actionId: 1n, debtor: debtor.address, creditor: creditor.address, amount: 50n, memo: "Dinner" });
+        });
+
+        it("should ignore logs from other contracts in the same transaction", async function () {
+            const tokenAddress = await token.getAddress();
+            await contract.connect(creditor).proposeDebt(tokenAddress, debtor.address, 50n, "Dinner");
+            await contract.connect(debtor).confirmDebt(1n);
+            await token.connect(owner).transfer(debtor.address, 50n);
+            await token.connect(debtor).approve(await contract.getAddress(), 50n);
+
+            const receipt = await (await contract.connect(debtor).settleDebt(tokenAddress, creditor.address, 20n)).wait();
+            const events = parseLedgerReceipt(receipt!, await contract.getAddress());
+            expect(receipt!.logs.length).to.be.greaterThan(1); // The ERC20 Transfer as well
+            expect(events.settled).to.deep.equal([{ debtor: debtor.address, creditor: creditor.address, token: tokenAddress, amount: 20n, blockNumber: receipt!.blockNumber }]);
+            expect(events.proposed).to.deep.equal([]);
+        });
+
+        it("should read the ID of a proposed simplification", async function () {
+            const tokenAddress = await token.getAddress();
+            await contract.proposeSimplification(tokenAddress, [creditor.address, debtor.address], [], [], []);
+            const receipt = await (await contract.proposeSimplification(tokenAddress, [creditor.address, debtor.address], [], [], [])).wait();
+
+            const events = parseLedgerReceipt(receipt!, await contract.getAddress());
+            expect(events.simplificationsProposed).to.deep.equal([2n]);
+            expect(parseLedgerReceipt(receipt!, tokenAddress).simplificationsProposed).to.deep.equal([]);
+        });
+    });
+
+    describe("concurrent proposals", function () {
+        afterEach(async function () {
+            await network.provider.send("evm_setAutomine", [true]);
+        });
+
+        it("should give each proposal mined in the same block its own ID", async function () {
+            const users = ["alice", "bob", "carol", "dave"].map((name, i) => fakeUser(`${2001 + i}`, name));
+            const services = await createTestServices();
+            services.notifier.add(...users);
+            for (const user of users) {
+                await dispatchPrefixCommand(fakeMessage(user, ">register").message, services, ">");
+            }
+            const wallets = await Promise.all(users.map(user => services.keystore.get(user.id)));
+            const debtorAddress = wallets[3]!.address;
+
+            // Hold the transactions in the mempool so they are mined together
+            await network.provider.send("evm_setAutomine", [false]);
+            const proposals = wallets.slice(0, 3).map((wallet, i) =>
+                services.ledger.proposeDebt(wallet!.privateKey, ethers.ZeroAddress, debtorAddress, BigInt(i + 1) * 100n, `Debt ${i + 1}`));
+            for (let attempt = 0; attempt < 50; attempt++) {
+                const pendingBlock = await network.provider.send("eth_getBlockByNumber", ["pending", false]);
+                if (pendingBlock.transactions.length === 3) break;
+                await new Promise(resolve => setTimeout(resolve, 20));
+            }
+            await network.provider.send("evm_mine", []);
+            const results = await Promise.all(proposals);
+
+            expect(new Set(results.map(result => result.receipt.blockNumber)).size).to.equal(1);
+            expect(new Set(results.map(result => result.pendingDebtId)).size).to.equal(3);
+            for (const [i, { pendingDebtId }] of results.entries()) {
+                const pending = await services.ledger.getPendingDebt(pendingDebtId);
+                expect(pending.creditor).to.equal(wallets[i]!.address);
+                expect(pending.amount).to.equal(BigInt(i + 1) * 100n);
+                expect(pending.memo).to.equal(`Debt ${i + 1}`);
+            }
+        });
+    });
+});
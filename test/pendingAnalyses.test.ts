@@ -0,0 +1,95 @@
+import { expect } from "chai";
+import { Message } from "discord.js";
+import { expirePendingBillAnalyses, handleBillConfirmation } from "../src/billDetection/detection";
+import { BillAnalysisResult } from "../src/billDetection/types";
+import { BotServices } from "../src/services";
+import { MemoryPendingAnalysisBackend, PendingAnalysisStore } from "../src/services/pendingAnalyses";
+
+describe("Pending Bill Analyses", function () {
+    const HOUR = 60 * 60 * 1000;
+    const analysis: BillAnalysisResult = {
+        expenses: [{ description: "Dinner", amount: 30, currency: "USD", payer: "<@1>", participants: ["<@1>", "<@2>"], splitType: "equal" }],
+        totalAmount: 30,
+        currency: "USD",
+        summary: "Dinner",
+        participants: ["<@1>", "<@2>"]
+    };
+
+    describe("PendingAnalysisStore", function () {
+        it("should keep analyses across a restart", async function () {
+            const backend = new MemoryPendingAnalysisBackend();
+            const store = await PendingAnalysisStore.open(backend, HOUR);
+            await store.add("msg-1", "channel-1", "1", analysis);
+
+            const reopened = await PendingAnalysisStore.open(backend, HOUR);
+            expect(reopened.get("msg-1")).to.deep.include({ channelId: "channel-1", requesterId: "1", analysis });
+        });
+
+        it("should stop returning analyses once they expire", async function () {
+            const store = await PendingAnalysisStore.open(new MemoryPendingAnalysisBackend(), HOUR);
+            await store.add("msg-1", "channel-1", "1", analysis, 1_000);
+
+            expect(store.get("msg-1", 1_000 + HOUR - 1)).to.not.be.undefined;
+            expect(store.get("msg-1", 1_000 + HOUR)).to.be.undefined;
+        });
+
+        it("should hand expired analyses to the sweeper once", async function () {
+            const backend = new MemoryPendingAnalysisBackend();
+            const store = await PendingAnalysisStore.open(backend, HOUR);
+            await store.add("old", "channel-1", "1", analysis, 0);
+            await store.add("new", "channel-1", "1", analysis, HOUR);
+
+            const expired = await store.takeExpired(HOUR + 1);
+            expect(expired.map(entry => entry.messageId)).to.deep.equal(["old"]);
+            expect(await store.takeExpired(HOUR + 1)).to.deep.equal([]);
+            expect((await PendingAnalysisStore.open(backend, HOUR)).get("new", HOUR + 1)).to.not.be.undefined;
+        });
+
+        it("should keep the expiry when an analysis is edited", async function () {
+            const store = await PendingAnalysisStore.open(new MemoryPendingAnalysisBackend(), HOUR);
+            const entry = await store.add("msg-1", "channel-1", "1", analysis, 0);
+
+            const edited = { ...analysis, summary: "Edited" };
+            await store.replaceAnalysis("msg-1", edited);
+            expect(store.get("msg-1", 0)).to.deep.equal({ ...entry, analysis: edited });
+        });
+    });
+
+    describe("expirePendingBillAnalyses", function () {
+        it("should mark the preview as expired and disable its controls", async function () {
+            const store = await PendingAnalysisStore.open(new MemoryPendingAnalysisBackend(), HOUR);
+            await store.add("msg-1", "channel-1", "1", analysis, Date.now() - 2 * HOUR);
+            await store.add("msg-2", "channel-1", "1", analysis);
+
+            const edits: any[] = [];
+            const preview = { edit: async (payload: any) => { edits.push(payload); } } as unknown as Message;
+            const fetched: string[] = [];
+            const expired = await expirePendingBillAnalyses({ pendingAnalyses: store } as unknown as BotServices, async (channelId, messageId) => {
+                fetched.push(`${channelId}/${messageId}`);
+                return preview;
+            });
+
+            expect(expired).to.equal(1);
+            expect(fetched).to.deep.equal(["channel-1/msg-1"]);
+            expect(edits[0].content).to.include("This bill analysis expired");
+            const controls = edits[0].components.flatMap((row: any) => row.components);
+            expect(controls.every((control: any) => control.data.disabled)).to.be.true;
+            expect(store.get("msg-2")).to.not.be.undefined;
+        });
+    });
+
+    describe("handleBillConfirmation", function () {
+        it("should find an analysis created before a restart", async function () {
+            const backend = new MemoryPendingAnalysisBackend();
+            await (await PendingAnalysisStore.open(backend, HOUR)).add("msg-1", "channel-1", "1", analysis);
+            const services = { pendingAnalyses: await PendingAnalysisStore.open(backend, HOUR) } as unknown as BotServices;
+
+            const updates: any[] = [];
+            const interaction = { customId: "cancel-bills", message: { id: "msg-1" }, user: { id: "1" }, update: async (payload: any) => { updates.push(payload); } };
+            await handleBillConfirmation(interaction, services);
+
+            expect(updates[0].content).to.include("Bill analysis cancelled");
+            expect(services.pendingAnalyses.get("msg-1")).to.be.undefined;
+        });
+    });
+});
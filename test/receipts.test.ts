@@ -0,0 +1,103 @@
+import { expect } from "chai";
+import { OcrEngine, parseReceiptText, prepareReceiptImages, ReceiptImage } from "../src/billDetection/receipts";
+import { formatScrapedMessages } from "../src/billDetection/scraper";
+
+describe("Receipts", function () {
+    describe("parseReceiptText", function () {
+        it("should read items, tax, tip and total and skip the payment lines", function () {
+            const receipt = parseReceiptText([
+                "MAPO GALBI",
+                "2026-10-18 19:42",
+                "Pork belly x2   24.00",
+                "Beef ribs       30.00",
+                "Subtotal        54.00",
+                "Tax              4.86",
+                "Gratuity        10.14",
+                "TOTAL          $69.00",
+                "VISA ****1234   69.00",
+                "Change           0.00"
+            ].join("\n"));
+
+            expect(receipt).to.deep.equal({
+                merchant: "MAPO GALBI",
+                items: [{ description: "Pork belly x2", amount: 24 }, { description: "Beef ribs", amount: 30 }],
+                subtotal: 54,
+                tax: 4.86,
+                tip: 10.14,
+                total: 69,
+                currency: "USD"
+            });
+        });
+
+        it("should read Korean receipts in won", function () {
+            const receipt = parseReceiptText("삼겹살 2인분 28,000원\n소주 5,000원\n부가세 3,000원\n합계 36,000원");
+            expect(receipt).to.include({ total: 36000, tax: 3000, currency: "KRW" });
+            expect(receipt!.items).to.have.length(2);
+        });
+
+        it("should drop the items when a misread leaves them out of step with the total", function () {
+            const receipt = parseReceiptText("Burger 12.00\nFries 4.00\nTotal 19.00");
+            expect(receipt).to.deep.equal({ items: [], total: 19 });
+        });
+
+        it("should work out the total when it can't be read", function () {
+            expect(parseReceiptText("Burger 12.00\nTip 3.00")!.total).to.equal(15);
+            expect(parseReceiptText("Thank you for visiting!")).to.be.null;
+        });
+    });
+
+    describe("formatScrapedMessages", function () {
+        const attachment = (name: string, contentType: string, size = 1000) => ({ url: `https://cdn.example/${name}`, contentType, size });
+        const message = (id: string, author: string, content: string, attachments: any[] = []) => ({
+            url: `https://discord.com/channels/1/2/${id}`,
+            author: { tag: author },
+            content,
+            attachments: new Map(attachments.map((a, i) => [`${id}-${i}`, a]))
+        });
+
+        it("should number photos and mark them in the message they were posted with", function () {
+            const chat = formatScrapedMessages([
+                message("1", "alice", "here's the receipt", [attachment("receipt.jpg", "image/jpeg"), attachment("notes.pdf", "application/pdf")]),
+                message("2", "bob", "", [attachment("taxi.png", "image/png")])
+            ]);
+
+            expect(chat.messages).to.deep.equal(["alice: here's the receipt [image #1]", "bob: [image #2]"]);
+            expect(chat.images.map(image => [image.number, image.url, image.messageUrl, image.author])).to.deep.equal([
+                [1, "https://cdn.example/receipt.jpg", "https://discord.com/channels/1/2/1", "alice"],
+                [2, "https://cdn.example/taxi.png", "https://discord.com/channels/1/2/2", "bob"]
+            ]);
+        });
+
+        it("should only keep the most recent photos", function () {
+            const chat = formatScrapedMessages(["a", "b", "c", "d", "e"].map(id => message(id, "alice", id, [attachment(`${id}.jpg`, "image/jpeg")])));
+            expect(chat.images.map(image => image.url)).to.deep.equal(["b", "c", "d", "e"].map(id => `https://cdn.example/${id}.jpg`));
+            expect(chat.messages[0]).to.equal("alice: a");
+            expect(chat.messages[1]).to.equal("alice: b [image #1]");
+        });
+    });
+
+    describe("prepareReceiptImages", function () {
+        const image: ReceiptImage = { number: 1, url: "https://cdn.example/receipt.jpg", messageUrl: "https://discord.com/channels/1/2/3", author: "alice", contentType: "image/jpeg", size: 3 };
+        const fetchFn = (async () => ({ ok: true, status: 200, arrayBuffer: async () => new Uint8Array([1, 2, 3]).buffer })) as unknown as typeof fetch;
+        const ocr: OcrEngine = { name: "fake", recognize: async data => `Total ${data.length}.00` };
+
+        it("should download photos for models that read images", async function () {
+            const { images, problems } = await prepareReceiptImages([image], true, ocr, fetchFn);
+            expect(problems).to.deep.equal([]);
+            expect(images[0].data).to.equal(Buffer.from([1, 2, 3]).toString("base64"));
+            expect(images[0].ocrText).to.be.undefined;
+        });
+
+        it("should fall back to OCR for text-only extractors", async function () {
+            const { images } = await prepareReceiptImages([image], false, ocr, fetchFn);
+            expect(images[0].ocrText).to.equal("Total 3.00");
+            expect(images[0].data).to.be.undefined;
+        });
+
+        it("should report photos it can't read", async function () {
+            const failing = (async () => ({ ok: false, status: 404 })) as unknown as typeof fetch;
+            expect((await prepareReceiptImages([image], true, ocr, failing)).problems).to.deep.equal(["Image #1 from alice could not be read: download failed with status 404"]);
+            expect((await prepareReceiptImages([image], false, null, fetchFn)).problems).to.deep.equal(["Image #1 from alice could not be read: no OCR engine is configured"]);
+        });
+    });
+});
@@ -5,10 +5,22 @@ import {
     parseTokenAmount, 
     formatTokenAmount, 
     findTokenByAddress,
+    splitTokenAmount,
+    SplitRule,
     SUPPORTED_TOKENS,
     TokenInfo 
 } from "../src/tokenUtils";
 
+// Small seeded PRNG (mulberry32) so property tests are reproducible
+function seededRandom(seed: number): () => number {
+    return () => {
+        seed = (seed + 0x6D2B79F5) | 0;
+        let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
 describe("Token Utils", function () {
     describe("parseTokenIdentifier", function () {
         it("should parse ETH token correctly", function () {
@@ -191,6 +203,115 @@ describe("Token Utils", function () {
         });
     });
 
+    describe("splitTokenAmount", function () {
+        const sum = (shares: bigint[]) => shares.reduce((acc, share) => acc + share, 0n);
+
+        it("should split evenly when the total divides exactly", function () {
+            expect(splitTokenAmount(30_000_000n, { type: "equal", participants: 3 })).to.deep.equal([10_000_000n, 10_000_000n, 10_000_000n]);
+        });
+
+        it("should give leftover units round-robin from the remainder index", function () {
+            expect(splitTokenAmount(100n, { type: "equal", participants: 3 })).to.deep.equal([34n, 33n, 33n]);
+            expect(splitTokenAmount(101n, { type: "equal", participants: 3 }, 2)).to.deep.equal([34n, 33n, 34n]);
+        });
+
+        it("should split by percentage", function () {
+            expect(splitTokenAmount(1_000_000n, { type: "percentage", percentages: [50, 30, 20] })).to.deep.equal([500_000n, 300_000n, 200_000n]);
+            expect(splitTokenAmount(100n, { type: "percentage", percentages: [33.3333, 33.3333, 33.3334] })).to.deep.equal([34n, 33n, 33n]);
+        });
+
+        it("should reject percentages that don't add up to 100", function () {
+            expect(() => splitTokenAmount(100n, { type: "percentage", percentages: [50, 40] })).to.throw("Percentages must add up to 100");
+        });
+
+        it("should split by shares and skip participants with no share", function () {
+            expect(splitTokenAmount(10n, { type: "shares", weights: [2, 1, 0] })).to.deep.equal([7n, 3n, 0n]);
+            expect(splitTokenAmount(10n, { type: "shares", weights: [0, 1, 2] })).to.deep.equal([0n, 4n, 6n]);
+        });
+
+        it("should accept large weights with 4 decimal places and reject finer ones", function () {
+            expect(splitTokenAmount(2_000_000n, { type: "shares", weights: [1422025.6389, 577974.3611] })).to.deep.equal([1_422_026n, 577_974n]);
+            for (let i = 0; i < 200; i++) {
+                const weight = Math.round((1_000_000 + i * 7919.1237) * 10_000) / 10_000;
+                expect(() => splitTokenAmount(100n, { type: "shares", weights: [weight, 1] })).to.not.throw();
+            }
+            expect(() => splitTokenAmount(100n, { type: "shares", weights: [1.23456, 1] })).to.throw("at most 4 decimal places");
+            expect(() => splitTokenAmount(100n, { type: "shares", weights: [-1, 2] })).to.throw("Invalid split weight");
+        });
+
+        it("should use fixed amounts as given and reject ones that don't match the total", function () {
+            expect(splitTokenAmount(10n, { type: "fixed", amounts: [7n, 3n] })).to.deep.equal([7n, 3n]);
+            expect(() => splitTokenAmount(10n, { type: "fixed", amounts: [7n, 2n] })).to.throw("add up to 9");
+        });
+
+        it("should reject splits with no one to pay", function () {
+            expect(() => splitTokenAmount(10n, { type: "equal", participants: 0 })).to.throw();
+            expect(() => splitTokenAmount(10n, { type: "shares", weights: [0, 0] })).to.throw("non-zero share");
+        });
+
+        it("should keep 18-decimal ETH amounts exact", function () {
+            const total = parseTokenAmount("1", parseTokenIdentifier("ETH"));
+            const shares = splitTokenAmount(total, { type: "equal", participants: 3 });
+            expect(shares).to.deep.equal([333_333_333_333_333_334n, 333_333_333_333_333_333n, 333_333_333_333_333_333n]);
+        });
+
+        describe("properties", function () {
+            const random = seededRandom(20261019);
+            const randomInt = (max: number) => Math.floor(random() * max);
+            const randomTotal = () => BigInt(randomInt(1_000_000)) * BigInt(randomInt(1_000_000_000) + 1) + BigInt(randomInt(1000));
+
+            function randomRule(): SplitRule {
+                const participants = randomInt(12) + 1;
+                switch (randomInt(3)) {
+                    case 0:
+                        return { type: "equal", participants };
+                    case 1: {
+                        // Random basis points that add up to exactly 100%
+                        const cuts = Array.from({ length: participants - 1 }, () => randomInt(1_000_001)).sort((a, b) => a - b);
+                        const bounds = [0, ...cuts, 1_000_000];
+                        return { type: "percentage", percentages: bounds.slice(1).map((bound, i) => (bound - bounds[i]) / 10_000) };
+                    }
+                    default:
+                        return { type: "shares", weights: Array.from({ length: participants }, (_, i) => i === 0 ? randomInt(50) + 1 : randomInt(51)) };
+                }
+            }
+
+            it("should always conserve the total", function () {
+                for (let i = 0; i < 500; i++) {
+                    const total = randomTotal();
+                    const rule = randomRule();
+                    const shares = splitTokenAmount(total, rule, randomInt(12));
+                    expect(sum(shares), `${total} split by ${JSON.stringify(rule)}`).to.equal(total);
+                    expect(shares.every(share => share >= 0n)).to.be.true;
+                }
+            });
+
+            it("should keep every equal share within one unit of each other", function () {
+                for (let i = 0; i < 500; i++) {
+                    const total = randomTotal();
+                    const participants = randomInt(12) + 1;
+                    const shares = splitTokenAmount(total, { type: "equal", participants }, randomInt(participants));
+                    const min = shares.reduce((a, b) => a < b ? a : b);
+                    const max = shares.reduce((a, b) => a > b ? a : b);
+                    expect(max - min <= 1n, `${total} split ${participants} ways`).to.be.true;
+                }
+            });
+
+            it("should give each weighted share its exact proportion, rounded by less than one unit", function () {
+                for (let i = 0; i < 500; i++) {
+                    const total = randomTotal();
+                    const weights = Array.from({ length: randomInt(12) + 1 }, (_, j) => j === 0 ? randomInt(50) + 1 : randomInt(51));
+                    const shares = splitTokenAmount(total, { type: "shares", weights }, randomInt(weights.length));
+                    const weightTotal = BigInt(weights.reduce((a, b) => a + b, 0));
+                    shares.forEach((share, j) => {
+                        const floor = total * BigInt(weights[j]) / weightTotal;
+                        expect(share === floor || share === floor + 1n, `${total} by ${weights}`).to.be.true;
+                    });
+                }
+            });
+        });
+    });
+
     describe("Integration - Prevent Original Bug", function () {
         it("should correctly handle the exact scenario that caused the overflow", function () {
             // Simulating user command: ">add-debt @user 10 USDC memo"